@@ -0,0 +1,183 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { supabase } from "../../../lib/supabaseClient";
+import {
+  disablePush,
+  enablePush,
+  getPushDeviceState,
+  isPushSupported,
+  updatePushPrefs,
+  type PushPrefs,
+} from "../../../lib/push";
+
+const PREF_ITEMS: { key: keyof PushPrefs; label: string; desc: string }[] = [
+  { key: "notifyGuestbook", label: "새 방명록", desc: "초대 링크로 누군가 방명록을 남기면 바로 알려 드려요." },
+  { key: "notifyExpiring", label: "전시 종료 임박", desc: "공개 중인 작품의 공개 기간이 이틀 안에 끝나면 알려 드려요." },
+];
+
+export default function NotificationSettingsPage() {
+  const router = useRouter();
+
+  const [supported, setSupported] = useState(true);
+  const [endpoint, setEndpoint] = useState<string | null>(null);
+  const [prefs, setPrefs] = useState<PushPrefs>({ notifyGuestbook: true, notifyExpiring: true });
+  const [loading, setLoading] = useState(true);
+  const [busy, setBusy] = useState(false);
+  const [msg, setMsg] = useState("");
+
+  useEffect(() => {
+    const run = async () => {
+      const { data } = await supabase.auth.getSession();
+      if (!data.session) {
+        router.replace("/login");
+        return;
+      }
+
+      if (!isPushSupported()) {
+        setSupported(false);
+        setLoading(false);
+        return;
+      }
+
+      const state = await getPushDeviceState().catch(() => null);
+      if (state) {
+        setEndpoint(state.endpoint);
+        setPrefs(state.prefs);
+      }
+      setLoading(false);
+    };
+
+    run();
+  }, [router]);
+
+  const toggleDevice = async () => {
+    setBusy(true);
+    setMsg("");
+
+    if (endpoint) {
+      const { error } = await disablePush();
+      setBusy(false);
+      if (error) {
+        setMsg("❌ 알림 끄기 실패: " + error);
+        return;
+      }
+      setEndpoint(null);
+      setMsg("이 기기에서 알림을 껐어요.");
+      return;
+    }
+
+    const res = await enablePush(prefs);
+    setBusy(false);
+    if (res.error) {
+      setMsg("❌ " + res.error);
+      return;
+    }
+    setEndpoint(res.endpoint);
+    setMsg("✅ 이 기기에서 알림을 받아요.");
+  };
+
+  const togglePref = async (key: keyof PushPrefs) => {
+    const next = { ...prefs, [key]: !prefs[key] };
+    setPrefs(next);
+    if (!endpoint) return;
+
+    setBusy(true);
+    const { error } = await updatePushPrefs(endpoint, next);
+    setBusy(false);
+    if (error) {
+      setPrefs(prefs);
+      setMsg("❌ 저장 실패: " + error);
+      return;
+    }
+    setMsg("✅ 저장했어요.");
+  };
+
+  return (
+    <main className="wrap">
+      <header className="header">
+        <div>
+          <div className="eyebrow">SETTINGS</div>
+          <h1 className="h1">알림 설정</h1>
+          <p className="desc">방명록이나 전시 종료 소식을 이 기기로 받아요. 기기마다 따로 켜고 끌 수 있어요.</p>
+        </div>
+        <div className="right">
+          <Link className="ghost" href="/manage">
+            가족 전시관
+          </Link>
+        </div>
+      </header>
+
+      {loading ? (
+        <div className="notice">불러오는 중...</div>
+      ) : !supported ? (
+        <div className="notice">
+          이 브라우저는 알림을 지원하지 않아요. 아이폰은 Safari에서 “홈 화면에 추가”로 앱을 설치한 뒤 그 앱에서 켜 주세요.
+        </div>
+      ) : (
+        <>
+          <section className="card">
+            <div className="cardTop">
+              <div>
+                <div className="cardTitle">이 기기에서 알림 받기</div>
+                <div className="cardDesc">{endpoint ? "켜져 있어요." : "꺼져 있어요. 켜면 알림 권한을 물어봐요."}</div>
+              </div>
+              <button className={endpoint ? "ghostBtn" : "darkBtn"} onClick={() => void toggleDevice()} disabled={busy}>
+                {busy ? "처리 중..." : endpoint ? "끄기" : "켜기"}
+              </button>
+            </div>
+          </section>
+
+          <section className="card">
+            <div className="cardTitle">받을 알림</div>
+            <div className="prefs">
+              {PREF_ITEMS.map((item) => (
+                <label className="pref" key={item.key}>
+                  <input type="checkbox" checked={prefs[item.key]} onChange={() => void togglePref(item.key)} disabled={busy} />
+                  <span>
+                    <span className="prefLabel">{item.label}</span>
+                    <span className="prefDesc">{item.desc}</span>
+                  </span>
+                </label>
+              ))}
+            </div>
+          </section>
+        </>
+      )}
+
+      {msg && <div className="notice">{msg}</div>}
+
+      <style jsx>{`
+        .wrap { padding: 38px; max-width: 720px; margin: 0 auto; }
+        .header { display: flex; align-items: flex-end; justify-content: space-between; gap: 14px; padding-bottom: 14px; border-bottom: 1px solid #eef0f3; }
+        .eyebrow { font-size: 11px; letter-spacing: 0.18em; color: #6b7280; }
+        .h1 { margin: 6px 0 6px; letter-spacing: -0.6px; font-size: 28px; }
+        .desc { margin: 0; color: #6b7280; font-size: 14px; line-height: 1.45; }
+        .right { display: flex; gap: 10px; align-items: center; }
+        .ghost { font-size: 12px; padding: 10px 12px; border-radius: 12px; border: 1px solid #e5e7eb; background: #fff; color: #111827; text-decoration: none; font-weight: 800; }
+
+        .card { margin-top: 14px; border: 1px solid #e8ebf0; border-radius: 16px; background: #fff; padding: 14px; }
+        .cardTop { display: flex; align-items: center; justify-content: space-between; gap: 12px; }
+        .cardTitle { font-weight: 900; letter-spacing: -0.3px; }
+        .cardDesc { margin-top: 4px; font-size: 13px; color: #6b7280; }
+        .prefs { margin-top: 10px; display: grid; gap: 10px; }
+        .pref { display: flex; gap: 10px; align-items: flex-start; cursor: pointer; }
+        .pref input { margin-top: 3px; }
+        .prefLabel { display: block; font-size: 14px; font-weight: 800; }
+        .prefDesc { display: block; margin-top: 2px; font-size: 12px; color: #6b7280; line-height: 1.4; }
+
+        .ghostBtn { padding: 10px 14px; border-radius: 12px; border: 1px solid #e5e7eb; background: #fff; cursor: pointer; font-size: 12px; font-weight: 900; }
+        .darkBtn { padding: 10px 14px; border-radius: 12px; border: 1px solid rgba(0,0,0,0.08); background: #111827; color: #fff; cursor: pointer; font-size: 12px; font-weight: 900; }
+        .ghostBtn:disabled, .darkBtn:disabled { opacity: 0.45; cursor: not-allowed; }
+        .notice { margin-top: 14px; padding: 10px 12px; border: 1px solid #eee; border-radius: 12px; background: #fff; color: #111827; font-size: 13px; line-height: 1.45; }
+
+        @media (max-width: 720px) {
+          .wrap { padding: 18px; }
+          .header { align-items: flex-start; flex-direction: column; }
+        }
+      `}</style>
+    </main>
+  );
+}
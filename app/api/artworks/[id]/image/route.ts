@@ -0,0 +1,123 @@
+import { NextResponse } from "next/server";
+import { getRequestFamily } from "../../../../../lib/supabaseServer";
+import { resolveArtworkObjectKeys } from "../../../../../lib/artworkImage";
+import { recordInconsistency, removeStoredObjects, storedObjectExists } from "../../../../../lib/storageServer";
+import { storageObjectUrl, type StorageProvider } from "../../../../../lib/storage";
+
+// Points an existing artwork at a newly uploaded file, keeping its id (and so
+// its public/exhibit state and everything that references it). Same rules as
+// POST /api/artworks: the new key must exist, and if the row cannot be
+// switched the new file is deleted again. The old original and renditions are
+// removed afterwards; if that fails they are logged in storage_inconsistencies
+// and the storage GC picks them up later. The caller requests new renditions
+// (POST /api/artworks/<id>/renditions), which also recomputes the phash.
+
+export const dynamic = "force-dynamic";
+
+type ReplaceBody = {
+  provider?: string;
+  key?: string;
+  contentHash?: string;
+};
+
+export async function PUT(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const who = await getRequestFamily(request);
+  if (!who.ok) return NextResponse.json({ ok: false, error: who.error }, { status: who.status });
+
+  const { id } = await params;
+  const body = (await request.json().catch(() => null)) as ReplaceBody | null;
+  const provider: StorageProvider | null = body?.provider === "r2" ? "r2" : body?.provider === "supabase" ? "supabase" : null;
+  const key = (body?.key ?? "").trim();
+  const contentHash = (body?.contentHash ?? "").toLowerCase();
+
+  if (!provider || !key || key.includes("..")) return NextResponse.json({ ok: false, error: "BAD_KEY" }, { status: 400 });
+  // Both providers: a key outside the family folder could name another family's file.
+  if (!key.startsWith(`${who.familyId}/`)) {
+    return NextResponse.json({ ok: false, error: "FORBIDDEN_KEY" }, { status: 403 });
+  }
+  if (contentHash && !/^[0-9a-f]{64}$/.test(contentHash)) {
+    return NextResponse.json({ ok: false, error: "BAD_CONTENT_HASH" }, { status: 400 });
+  }
+
+  const { data: art, error } = await who.supabase.from("artworks").select("*").eq("id", id).maybeSingle();
+  if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+  if (!art || art.family_id !== who.familyId) {
+    return NextResponse.json({ ok: false, error: "NOT_FOUND" }, { status: 404 });
+  }
+
+  try {
+    if (!(await storedObjectExists(who.supabase, provider, key))) {
+      return NextResponse.json({ ok: false, error: "OBJECT_NOT_FOUND" }, { status: 422 });
+    }
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "storage check failed" }, { status: 502 });
+  }
+
+  const publicUrl = storageObjectUrl(provider, key);
+  const { error: upErr } = await who.supabase
+    .from("artworks")
+    .update({
+      storage_provider: provider,
+      storage_key: key,
+      private_image_path: publicUrl,
+      public_image_path: publicUrl,
+      renditions: null,
+      phash: null,
+    })
+    .eq("id", id);
+
+  if (upErr) {
+    // Compensation: the row still points at the old file, so the new one must go.
+    let objectRemoved = true;
+    try {
+      await removeStoredObjects(who.supabase, provider, [key]);
+    } catch (e) {
+      objectRemoved = false;
+      await recordInconsistency(who.supabase, {
+        familyId: who.familyId,
+        artworkId: id,
+        provider,
+        key,
+        kind: "orphan_object",
+        detail: `image replace failed (${upErr.message}); cleanup failed (${e instanceof Error ? e.message : "unknown"})`,
+      });
+    }
+    return NextResponse.json({ ok: false, error: upErr.message, objectRemoved }, { status: 500 });
+  }
+
+  // The new file joins the duplicate index. Earlier hashes stay: they include
+  // originals merged in from duplicates (migration 006), and re-picking any of
+  // them should still point at this artwork. A failure only weakens the check.
+  if (contentHash) {
+    const { error: hashErr } = await who.supabase
+      .from("artwork_hashes")
+      .upsert(
+        { artwork_id: id, family_id: who.familyId, sha256: contentHash },
+        { onConflict: "artwork_id,sha256", ignoreDuplicates: true }
+      );
+    if (hashErr) console.warn("[artwork_hashes] insert failed:", hashErr.message);
+  }
+
+  const old = resolveArtworkObjectKeys(art);
+  if (!old || (old.provider === provider && old.keys.includes(key))) {
+    return NextResponse.json({ ok: true, oldFilesRemoved: false });
+  }
+
+  try {
+    await removeStoredObjects(who.supabase, old.provider, old.keys);
+    return NextResponse.json({ ok: true, oldFilesRemoved: true });
+  } catch (e) {
+    const storageError = e instanceof Error ? e.message : "storage delete failed";
+    for (const oldKey of old.keys) {
+      await recordInconsistency(who.supabase, {
+        familyId: who.familyId,
+        artworkId: id,
+        provider: old.provider,
+        key: oldKey,
+        kind: "orphan_object",
+        detail: `replaced image; old file delete failed (${storageError})`,
+      });
+    }
+    return NextResponse.json({ ok: true, oldFilesRemoved: false });
+  }
+}
@@ -0,0 +1,57 @@
+import { NextResponse } from "next/server";
+import { getRequestFamily } from "../../../../../lib/supabaseServer";
+import { resolveArtworkObject } from "../../../../../lib/artworkImage";
+import { buildRenditions } from "../../../../../lib/renditionsServer";
+import { computePhash } from "../../../../../lib/phashServer";
+import { readStoredObject } from "../../../../../lib/storageServer";
+
+// (Re)generates the thumb/display renditions of one artwork and records their
+// keys in artworks.renditions. Called by the upload page right after insert;
+// safe to call again for older artworks that have none yet. The perceptual
+// hash (artworks.phash, migration 006) is computed from the same download.
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+export async function POST(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const who = await getRequestFamily(request);
+  if (!who.ok) return NextResponse.json({ ok: false, error: who.error }, { status: who.status });
+
+  const { id } = await params;
+
+  const { data: art, error } = await who.supabase
+    .from("artworks")
+    .select("id, family_id, storage_provider, storage_key, private_image_path")
+    .eq("id", id)
+    .maybeSingle();
+
+  if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+  if (!art || art.family_id !== who.familyId) {
+    return NextResponse.json({ ok: false, error: "NOT_FOUND" }, { status: 404 });
+  }
+
+  const stored = resolveArtworkObject(art);
+  if (!stored) return NextResponse.json({ ok: false, error: "NO_STORAGE_KEY" }, { status: 422 });
+
+  try {
+    const original = await readStoredObject(who.supabase, stored.provider, stored.key);
+    const renditions = await buildRenditions(who.supabase, stored.provider, stored.key, original);
+
+    // Only the duplicate review needs the phash; /api/artworks/phash fills it in later.
+    const phash = await computePhash(original).catch((e) => {
+      console.warn(`[phash] ${art.id}:`, e instanceof Error ? e.message : e);
+      return null;
+    });
+
+    const { error: upErr } = await who.supabase
+      .from("artworks")
+      .update(phash ? { renditions, phash } : { renditions })
+      .eq("id", art.id);
+    if (upErr) return NextResponse.json({ ok: false, error: upErr.message }, { status: 500 });
+
+    return NextResponse.json({ ok: true, renditions, phash });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "rendition failed" }, { status: 502 });
+  }
+}
@@ -0,0 +1,50 @@
+import { NextResponse } from "next/server";
+import { getRequestFamily } from "../../../../lib/supabaseServer";
+import { resolveArtworkObjectKeys } from "../../../../lib/artworkImage";
+import { recordInconsistency, removeStoredObjects } from "../../../../lib/storageServer";
+
+// Deletes an artwork's row and its files. The row goes first (so a
+// half-deleted artwork is never shown), then the files. The row is never put
+// back: rows that cascade from it (artwork_hashes, phash dismissals, guestbook
+// and exhibit links) would not come back with it. If the files cannot be
+// removed they are logged in storage_inconsistencies (migration 004) and the
+// storage GC deletes them later as unreferenced objects.
+
+export const dynamic = "force-dynamic";
+
+export async function DELETE(request: Request, { params }: { params: Promise<{ id: string }> }) {
+  const who = await getRequestFamily(request);
+  if (!who.ok) return NextResponse.json({ ok: false, error: who.error }, { status: who.status });
+
+  const { id } = await params;
+
+  const { data: art, error } = await who.supabase.from("artworks").select("*").eq("id", id).maybeSingle();
+  if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+  if (!art || art.family_id !== who.familyId) {
+    return NextResponse.json({ ok: false, error: "NOT_FOUND" }, { status: 404 });
+  }
+
+  const { error: delErr } = await who.supabase.from("artworks").delete().eq("id", id);
+  if (delErr) return NextResponse.json({ ok: false, error: delErr.message }, { status: 500 });
+
+  const stored = resolveArtworkObjectKeys(art);
+  if (!stored) return NextResponse.json({ ok: true, filesRemoved: false, warning: "NO_STORAGE_KEY" });
+
+  try {
+    await removeStoredObjects(who.supabase, stored.provider, stored.keys);
+    return NextResponse.json({ ok: true, filesRemoved: true });
+  } catch (e) {
+    const storageError = e instanceof Error ? e.message : "storage delete failed";
+    for (const key of stored.keys) {
+      await recordInconsistency(who.supabase, {
+        familyId: who.familyId,
+        artworkId: id,
+        provider: stored.provider,
+        key,
+        kind: "orphan_object",
+        detail: `artwork deleted; storage delete failed (${storageError})`,
+      });
+    }
+    return NextResponse.json({ ok: true, filesRemoved: false, warning: `STORAGE_DELETE_FAILED: ${storageError}` });
+  }
+}
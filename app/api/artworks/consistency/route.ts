@@ -0,0 +1,68 @@
+import { NextResponse } from "next/server";
+import { getRequestFamily } from "../../../../lib/supabaseServer";
+import { resolveArtworkObject } from "../../../../lib/artworkImage";
+import { storedObjectExists } from "../../../../lib/storageServer";
+
+// Consistency report for the caller's family:
+//   missing : artwork rows whose original file is gone (checked live)
+//   logged  : unresolved entries in storage_inconsistencies, i.e. leftovers
+//             that the create/delete routes could not compensate
+// Read-only; nothing is repaired here.
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+const CHECK_CONCURRENCY = 8;
+
+type MissingObject = { artworkId: string; title: string | null; provider: string; key: string | null; error?: string };
+
+export async function GET(request: Request) {
+  const who = await getRequestFamily(request);
+  if (!who.ok) return NextResponse.json({ ok: false, error: who.error }, { status: who.status });
+
+  const { data: rows, error } = await who.supabase
+    .from("artworks")
+    .select("id, title, storage_provider, storage_key, private_image_path")
+    .eq("family_id", who.familyId);
+  if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+
+  const missing: MissingObject[] = [];
+  const list = rows ?? [];
+  let next = 0;
+
+  const worker = async () => {
+    while (next < list.length) {
+      const row = list[next++];
+      const stored = resolveArtworkObject(row);
+      if (!stored) {
+        missing.push({ artworkId: row.id, title: row.title, provider: row.storage_provider ?? "supabase", key: null });
+        continue;
+      }
+      try {
+        if (!(await storedObjectExists(who.supabase, stored.provider, stored.key))) {
+          missing.push({ artworkId: row.id, title: row.title, provider: stored.provider, key: stored.key });
+        }
+      } catch (e) {
+        missing.push({
+          artworkId: row.id,
+          title: row.title,
+          provider: stored.provider,
+          key: stored.key,
+          error: e instanceof Error ? e.message : "check failed",
+        });
+      }
+    }
+  };
+  await Promise.all(Array.from({ length: CHECK_CONCURRENCY }, worker));
+
+  const { data: logged, error: logErr } = await who.supabase
+    .from("storage_inconsistencies")
+    .select("id, artwork_id, storage_provider, storage_key, kind, detail, created_at")
+    .eq("family_id", who.familyId)
+    .is("resolved_at", null)
+    .order("created_at", { ascending: false });
+  if (logErr) return NextResponse.json({ ok: false, error: logErr.message }, { status: 500 });
+
+  return NextResponse.json({ ok: true, checked: list.length, missing, logged: logged ?? [] });
+}
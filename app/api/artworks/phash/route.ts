@@ -0,0 +1,80 @@
+import { NextResponse } from "next/server";
+import { getRequestFamily } from "../../../../lib/supabaseServer";
+import { resolveArtworkObject, type ArtworkImageRow } from "../../../../lib/artworkImage";
+import { computeStoredPhash } from "../../../../lib/phashServer";
+
+// Fills in artworks.phash (migration 006) for the caller's family, a batch at
+// a time. New uploads get their phash from the renditions route; this is for
+// older rows. The JPEG thumbnail is hashed when there is one (a 9x8 hash
+// comes out the same, and it is a fraction of the download), otherwise the
+// original. The duplicate review screen calls this in a loop until
+// `remaining` is 0.
+// Query: ?batch=20  ?skip=<id>,<id> (rows that already failed in this run;
+// artwork UUIDs only, at most MAX_SKIP of them)
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+const MAX_BATCH = 50;
+/** Keeps the query string and the `not in` filter bounded. */
+const MAX_SKIP = 100;
+const UUID_RE = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+type Row = ArtworkImageRow & { id: string };
+
+export async function POST(request: Request) {
+  const who = await getRequestFamily(request);
+  if (!who.ok) return NextResponse.json({ ok: false, error: who.error }, { status: who.status });
+
+  const url = new URL(request.url);
+  const batch = Math.min(MAX_BATCH, Math.max(1, Number(url.searchParams.get("batch")) || 20));
+  const skip = (url.searchParams.get("skip") ?? "").split(",").filter(Boolean);
+  // The ids are spliced into a PostgREST filter, so anything but a UUID is refused.
+  if (skip.length > MAX_SKIP) {
+    return NextResponse.json({ ok: false, error: `TOO_MANY_SKIPPED: at most ${MAX_SKIP}` }, { status: 400 });
+  }
+  if (!skip.every((id) => UUID_RE.test(id))) {
+    return NextResponse.json({ ok: false, error: "INVALID_SKIP_ID" }, { status: 400 });
+  }
+
+  let query = who.supabase
+    .from("artworks")
+    .select("id, storage_provider, storage_key, private_image_path, renditions")
+    .eq("family_id", who.familyId)
+    .is("phash", null)
+    .order("id")
+    .limit(batch);
+  if (skip.length > 0) query = query.not("id", "in", `(${skip.join(",")})`);
+
+  const { data, error } = await query;
+  if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+
+  let hashed = 0;
+  const failed: { id: string; error: string }[] = [];
+
+  for (const row of (data ?? []) as Row[]) {
+    const stored = resolveArtworkObject(row);
+    if (!stored) {
+      failed.push({ id: row.id, error: "NO_STORAGE_KEY" });
+      continue;
+    }
+
+    try {
+      const phash = await computeStoredPhash(who.supabase, stored.provider, row.renditions?.thumb?.jpeg ?? stored.key);
+      const { error: upErr } = await who.supabase.from("artworks").update({ phash }).eq("id", row.id);
+      if (upErr) throw new Error(upErr.message);
+      hashed++;
+    } catch (e) {
+      failed.push({ id: row.id, error: e instanceof Error ? e.message : "phash failed" });
+    }
+  }
+
+  const { count: remaining } = await who.supabase
+    .from("artworks")
+    .select("id", { count: "exact", head: true })
+    .eq("family_id", who.familyId)
+    .is("phash", null);
+
+  return NextResponse.json({ ok: true, hashed, failed, remaining: remaining ?? 0 });
+}
@@ -0,0 +1,162 @@
+import { NextResponse } from "next/server";
+import { getRequestFamily } from "../../../lib/supabaseServer";
+import { recordInconsistency, removeStoredObjects, storedObjectExists } from "../../../lib/storageServer";
+import { storageObjectUrl, type StorageProvider } from "../../../lib/storage";
+import { isArtworkMedium, isValidCm, MAX_STORY_LENGTH, normalizeStory, normalizeTags } from "../../../lib/artworkCatalog";
+
+// Creates the `artworks` row for a file the browser has already uploaded.
+// The file and the row must exist together: the route refuses keys that are
+// not in storage or not under the caller's "<family_id>/" folder, and if the insert fails it deletes the file again. When that
+// compensation fails too, the leftover file is logged in
+// storage_inconsistencies (migration 004).
+// A retried request for a key that already has a row gets that row's id back
+// (unique index, migration 013) instead of a second row.
+// An optional `contentHash` (SHA-256 of the picked original) is added to the
+// duplicate index in artwork_hashes (migration 005).
+// kid_name is linked to (or creates) a `kids` row by a trigger (migration 008).
+// medium / tags / size (migration 010) are optional and checked with the same
+// rules as the upload form (lib/artworkCatalog.ts), and so is the optional
+// multi-line `story` (migration 011).
+
+export const dynamic = "force-dynamic";
+
+type CreateBody = {
+  provider?: string;
+  key?: string;
+  kidName?: string;
+  title?: string;
+  artworkMadeAt?: string;
+  contentHash?: string;
+  medium?: string | null;
+  tags?: string[];
+  widthCm?: number | null;
+  heightCm?: number | null;
+  depthCm?: number | null;
+  story?: string | null;
+};
+
+export async function POST(request: Request) {
+  const who = await getRequestFamily(request);
+  if (!who.ok) return NextResponse.json({ ok: false, error: who.error }, { status: who.status });
+
+  const body = (await request.json().catch(() => null)) as CreateBody | null;
+  const provider: StorageProvider | null = body?.provider === "r2" ? "r2" : body?.provider === "supabase" ? "supabase" : null;
+  const key = (body?.key ?? "").trim();
+  const kidName = (body?.kidName ?? "").trim();
+  const title = (body?.title ?? "").trim();
+  const madeAt = body?.artworkMadeAt ? new Date(body.artworkMadeAt) : null;
+  const contentHash = (body?.contentHash ?? "").toLowerCase();
+
+  if (!provider || !key || key.includes("..")) return NextResponse.json({ ok: false, error: "BAD_KEY" }, { status: 400 });
+  // Both providers: a key outside the family folder could name another family's file.
+  if (!key.startsWith(`${who.familyId}/`)) {
+    return NextResponse.json({ ok: false, error: "FORBIDDEN_KEY" }, { status: 403 });
+  }
+  if (!kidName || !title) return NextResponse.json({ ok: false, error: "MISSING_FIELDS" }, { status: 400 });
+  if (!madeAt || Number.isNaN(madeAt.getTime())) {
+    return NextResponse.json({ ok: false, error: "BAD_ARTWORK_MADE_AT" }, { status: 400 });
+  }
+  if (contentHash && !/^[0-9a-f]{64}$/.test(contentHash)) {
+    return NextResponse.json({ ok: false, error: "BAD_CONTENT_HASH" }, { status: 400 });
+  }
+  if (body?.medium != null && !isArtworkMedium(body.medium)) {
+    return NextResponse.json({ ok: false, error: "BAD_MEDIUM" }, { status: 400 });
+  }
+  if (body?.tags != null && (!Array.isArray(body.tags) || body.tags.some((t) => typeof t !== "string"))) {
+    return NextResponse.json({ ok: false, error: "BAD_TAGS" }, { status: 400 });
+  }
+  if (body?.story != null && typeof body.story !== "string") {
+    return NextResponse.json({ ok: false, error: "BAD_STORY" }, { status: 400 });
+  }
+  const story = normalizeStory(body?.story);
+  if (story && story.length > MAX_STORY_LENGTH) {
+    return NextResponse.json({ ok: false, error: "STORY_TOO_LONG" }, { status: 400 });
+  }
+  const sizes = [body?.widthCm, body?.heightCm, body?.depthCm];
+  if (sizes.some((v) => v != null && !isValidCm(v))) {
+    return NextResponse.json({ ok: false, error: "BAD_SIZE" }, { status: 400 });
+  }
+
+  try {
+    if (!(await storedObjectExists(who.supabase, provider, key))) {
+      return NextResponse.json({ ok: false, error: "OBJECT_NOT_FOUND" }, { status: 422 });
+    }
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "storage check failed" }, { status: 502 });
+  }
+
+  const publicUrl = storageObjectUrl(provider, key);
+  const { data: inserted, error: insErr } = await who.supabase
+    .from("artworks")
+    .insert({
+      family_id: who.familyId,
+      kid_name: kidName,
+      title,
+      private_image_path: publicUrl,
+      public_image_path: publicUrl,
+      storage_provider: provider,
+      storage_key: key,
+      is_public: false,
+      artwork_made_at: madeAt.toISOString(),
+      medium: body?.medium ?? null,
+      tags: normalizeTags(body?.tags ?? []),
+      width_cm: body?.widthCm ?? null,
+      height_cm: body?.heightCm ?? null,
+      depth_cm: body?.depthCm ?? null,
+      story,
+    })
+    .select("id")
+    .single();
+
+  let artworkId = !insErr && inserted ? (inserted.id as string) : null;
+
+  // 23505 on (storage_provider, storage_key) (migration 013): a retry whose
+  // first response was lost. The row already exists, and the file is in use,
+  // so no compensation either way.
+  if (insErr?.code === "23505") {
+    const { data: existing, error: findErr } = await who.supabase
+      .from("artworks")
+      .select("id")
+      .eq("family_id", who.familyId)
+      .eq("storage_provider", provider)
+      .eq("storage_key", key)
+      .maybeSingle();
+    if (findErr || !existing) {
+      return NextResponse.json({ ok: false, error: findErr?.message ?? "KEY_IN_USE" }, { status: 409 });
+    }
+    artworkId = existing.id as string;
+  }
+
+  if (artworkId) {
+    // The artwork is saved either way; a missing index entry only weakens the duplicate check.
+    if (contentHash) {
+      const { error: hashErr } = await who.supabase
+        .from("artwork_hashes")
+        .upsert(
+          { artwork_id: artworkId, family_id: who.familyId, sha256: contentHash },
+          { onConflict: "artwork_id,sha256", ignoreDuplicates: true }
+        );
+      if (hashErr) console.warn("[artwork_hashes] insert failed:", hashErr.message);
+    }
+    return NextResponse.json({ ok: true, id: artworkId });
+  }
+
+  // Compensation: the row could not be written, so the file must go too.
+  const insertError = insErr?.message ?? "no row";
+  let objectRemoved = true;
+  try {
+    await removeStoredObjects(who.supabase, provider, [key]);
+  } catch (e) {
+    objectRemoved = false;
+    await recordInconsistency(who.supabase, {
+      familyId: who.familyId,
+      artworkId: null,
+      provider,
+      key,
+      kind: "orphan_object",
+      detail: `insert failed (${insertError}); cleanup failed (${e instanceof Error ? e.message : "unknown"})`,
+    });
+  }
+
+  return NextResponse.json({ ok: false, error: insertError, objectRemoved }, { status: 500 });
+}
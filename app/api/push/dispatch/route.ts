@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server";
+import { dispatchPushOutbox, isPushConfigured } from "../../../../lib/pushServer";
+import { getServiceSupabase } from "../../../../lib/supabaseAdmin";
+
+// Sends queued web push notifications (push_outbox, migration 007).
+//   GET  : daily Vercel Cron job (see vercel.json). Queues notifications for
+//          exhibits ending within 2 days, then sends everything pending.
+//          Requires CRON_SECRET.
+//   POST : called by InvitePage right after a guestbook entry so the parents
+//          hear about it immediately. Takes the invite token and the new
+//          entry id; both must belong to the same family and the entry must
+//          be recent. Only that family's queued guestbook notifications are
+//          sent, so replaying the call does no work once they are out.
+// Needs SUPABASE_SERVICE_ROLE_KEY and the VAPID keys (lib/pushServer.ts).
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+/** How long after an entry is written the guestbook hook accepts it. */
+const GUESTBOOK_HOOK_WINDOW_MS = 10 * 60 * 1000;
+
+type GuestbookHookBody = { token?: string; entryId?: string };
+
+async function dispatch(enqueueExpiring: boolean, scope?: { familyId: string; kind: "guestbook" }) {
+  if (!isPushConfigured()) {
+    return NextResponse.json({ ok: false, error: "missing VAPID keys" }, { status: 500 });
+  }
+
+  const supabase = getServiceSupabase();
+  if (!supabase) {
+    return NextResponse.json({ ok: false, error: "missing SUPABASE_SERVICE_ROLE_KEY" }, { status: 500 });
+  }
+
+  let enqueued = 0;
+  if (enqueueExpiring) {
+    const { data, error } = await supabase.rpc("enqueue_expiring_exhibit_notifications");
+    if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+    enqueued = Number(data ?? 0);
+  }
+
+  try {
+    const summary = await dispatchPushOutbox(supabase, scope);
+    return NextResponse.json({ ok: true, enqueued, ...summary });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "dispatch failed" }, { status: 500 });
+  }
+}
+
+export async function GET(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return NextResponse.json({ ok: false, error: "CRON_SECRET not set" }, { status: 500 });
+  if (request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ ok: false, error: "unauthorized" }, { status: 401 });
+  }
+
+  return dispatch(true);
+}
+
+export async function POST(request: Request) {
+  const body = (await request.json().catch(() => null)) as GuestbookHookBody | null;
+  const token = (body?.token ?? "").trim();
+  const entryId = (body?.entryId ?? "").trim();
+  if (!token || !/^[0-9a-f-]{36}$/i.test(entryId)) {
+    return NextResponse.json({ ok: false, error: "BAD_REQUEST" }, { status: 400 });
+  }
+
+  const supabase = getServiceSupabase();
+  if (!supabase) {
+    return NextResponse.json({ ok: false, error: "missing SUPABASE_SERVICE_ROLE_KEY" }, { status: 500 });
+  }
+
+  // invite_family_id (migration 007) accepts the /manage share link and
+  // family_invites tokens that are neither revoked nor expired.
+  const [{ data: inviteFamilyId, error: invErr }, { data: entry, error: entryErr }] = await Promise.all([
+    supabase.rpc("invite_family_id", { p_token: token }),
+    supabase.from("guestbook_entries").select("family_id, created_at").eq("id", entryId).maybeSingle(),
+  ]);
+  if (invErr || entryErr) {
+    return NextResponse.json({ ok: false, error: (invErr ?? entryErr)?.message }, { status: 500 });
+  }
+
+  const entryRecent = !!entry && Date.now() - new Date(entry.created_at).getTime() < GUESTBOOK_HOOK_WINDOW_MS;
+  if (!inviteFamilyId || !entryRecent || !entry.family_id || entry.family_id !== inviteFamilyId) {
+    return NextResponse.json({ ok: false, error: "FORBIDDEN" }, { status: 403 });
+  }
+
+  return dispatch(false, { familyId: entry.family_id, kind: "guestbook" });
+}
@@ -0,0 +1,231 @@
+import { NextResponse } from "next/server";
+import { resolveArtworkObject, resolveArtworkObjectKeys, type ArtworkImageRow } from "../../../../lib/artworkImage";
+import { deleteR2Objects, isR2Configured, listR2Objects, type ListedObject } from "../../../../lib/r2";
+import { getServiceSupabase } from "../../../../lib/supabaseAdmin";
+import { ARTWORK_BUCKET, type StorageProvider } from "../../../../lib/storage";
+import { listSupabaseObjects, recordInconsistency } from "../../../../lib/storageServer";
+
+// Storage garbage collector. Triggered weekly by a Vercel Cron job (see
+// vercel.json), next to /api/keepalive.
+//   orphans : bucket objects no artwork row points to (original or rendition)
+//             and no kid uses as avatar (kids, migration 008).
+//             Deleted unless ?dryRun=1; objects younger than minAgeHours are
+//             left alone so in-flight uploads are never touched.
+//             If any artwork row cannot be resolved to its storage keys, its
+//             files would look like orphans too, so nothing is deleted in that
+//             run; the response says why (deleteSkipped) and lists the rows.
+//   missing : artwork rows whose original object is gone. Only reported (and
+//             logged in storage_inconsistencies) — rows are never deleted here.
+// Query: ?dryRun=1  ?minAgeHours=24  ?maxDelete=500
+// Needs SUPABASE_SERVICE_ROLE_KEY to see every family's rows and files.
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+const ROW_PAGE = 1000;
+const SAMPLE_LIMIT = 50;
+
+type ArtworkRow = ArtworkImageRow & { id: string; family_id: string };
+
+type ProviderSummary = {
+  listed: number;
+  referenced: number;
+  orphans: number;
+  tooYoung: number;
+  deleted: number;
+  orphanSamples: string[];
+  error: string | null;
+};
+
+function numberParam(url: URL, name: string, fallback: number) {
+  const raw = url.searchParams.get(name);
+  const v = raw == null ? NaN : Number(raw);
+  return Number.isFinite(v) && v >= 0 ? v : fallback;
+}
+
+export async function GET(request: Request) {
+  const url = new URL(request.url);
+  const dryRunParam = url.searchParams.get("dryRun");
+  const dryRun = dryRunParam === "1" || dryRunParam === "true";
+  const minAgeHours = numberParam(url, "minAgeHours", 24);
+  const maxDelete = numberParam(url, "maxDelete", 500);
+
+  // Unlike keepalive this route lists every family's files and can delete,
+  // so CRON_SECRET is mandatory (call it with the same Bearer header locally).
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return NextResponse.json({ ok: false, error: "CRON_SECRET not set" }, { status: 500 });
+  if (request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ ok: false, error: "unauthorized" }, { status: 401 });
+  }
+
+  const supabase = getServiceSupabase();
+  if (!supabase) {
+    return NextResponse.json({ ok: false, error: "missing SUPABASE_SERVICE_ROLE_KEY" }, { status: 500 });
+  }
+
+  // 1) Everything the rows point at, per provider.
+  const rows: ArtworkRow[] = [];
+  for (let from = 0; ; from += ROW_PAGE) {
+    const { data, error } = await supabase
+      .from("artworks")
+      .select("id, family_id, storage_provider, storage_key, private_image_path, renditions")
+      .order("id")
+      .range(from, from + ROW_PAGE - 1);
+    if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+    rows.push(...((data ?? []) as ArtworkRow[]));
+    if ((data ?? []).length < ROW_PAGE) break;
+  }
+
+  const referenced: Record<StorageProvider, Set<string>> = { supabase: new Set(), r2: new Set() };
+  const unresolved: string[] = [];
+  for (const row of rows) {
+    const stored = resolveArtworkObjectKeys(row);
+    if (!stored) {
+      unresolved.push(row.id);
+      continue;
+    }
+    stored.keys.forEach((key) => referenced[stored.provider].add(key));
+  }
+
+  // Kid avatars live in the same buckets. If they cannot be read, stop: every
+  // avatar would otherwise look like an orphan.
+  for (let from = 0; ; from += ROW_PAGE) {
+    const { data, error } = await supabase
+      .from("kids")
+      .select("id, avatar_provider, avatar_key")
+      .not("avatar_key", "is", null)
+      .order("id")
+      .range(from, from + ROW_PAGE - 1);
+    if (error) return NextResponse.json({ ok: false, error: `kids: ${error.message}` }, { status: 500 });
+    for (const kid of (data ?? []) as { avatar_provider: StorageProvider | null; avatar_key: string | null }[]) {
+      if (kid.avatar_provider && kid.avatar_key) referenced[kid.avatar_provider].add(kid.avatar_key);
+    }
+    if ((data ?? []).length < ROW_PAGE) break;
+  }
+
+  const deleteSkipped =
+    unresolved.length > 0 ? `${unresolved.length} artwork row(s) have no resolvable storage key; their files cannot be told from orphans` : null;
+
+  // 2) Everything the buckets hold.
+  const listed: Partial<Record<StorageProvider, ListedObject[]>> = {};
+  const summary: Partial<Record<StorageProvider, ProviderSummary>> = {};
+  const providers: StorageProvider[] = isR2Configured() ? ["supabase", "r2"] : ["supabase"];
+
+  for (const provider of providers) {
+    const s: ProviderSummary = {
+      listed: 0,
+      referenced: referenced[provider].size,
+      orphans: 0,
+      tooYoung: 0,
+      deleted: 0,
+      orphanSamples: [],
+      error: null,
+    };
+    summary[provider] = s;
+
+    try {
+      listed[provider] = provider === "r2" ? await listR2Objects() : await listSupabaseObjects(supabase);
+    } catch (e) {
+      s.error = `list failed: ${e instanceof Error ? e.message : "unknown"}`;
+      continue;
+    }
+    s.listed = listed[provider]!.length;
+
+    // 3) Orphans: listed but unreferenced, and old enough.
+    const cutoff = Date.now() - minAgeHours * 60 * 60 * 1000;
+    const orphans: string[] = [];
+    for (const obj of listed[provider]!) {
+      if (referenced[provider].has(obj.key)) continue;
+      if (obj.lastModified && obj.lastModified.getTime() > cutoff) {
+        s.tooYoung++;
+        continue;
+      }
+      orphans.push(obj.key);
+    }
+    s.orphans = orphans.length;
+    s.orphanSamples = orphans.slice(0, SAMPLE_LIMIT);
+
+    if (dryRun || deleteSkipped || orphans.length === 0) continue;
+
+    const toDelete = orphans.slice(0, maxDelete);
+    try {
+      let failed: string[] = [];
+      if (provider === "r2") {
+        failed = await deleteR2Objects(toDelete);
+      } else {
+        for (let i = 0; i < toDelete.length; i += 1000) {
+          const { error } = await supabase.storage.from(ARTWORK_BUCKET).remove(toDelete.slice(i, i + 1000));
+          if (error) throw new Error(error.message);
+        }
+      }
+      const failedSet = new Set(failed);
+      const deleted = toDelete.filter((key) => !failedSet.has(key));
+      s.deleted = deleted.length;
+      if (failed.length > 0) s.error = `delete failed for ${failed.length} object(s)`;
+
+      // Leftovers the create/delete routes logged are now gone.
+      for (let i = 0; i < deleted.length; i += 200) {
+        await supabase
+          .from("storage_inconsistencies")
+          .update({ resolved_at: new Date().toISOString() })
+          .eq("kind", "orphan_object")
+          .eq("storage_provider", provider)
+          .in("storage_key", deleted.slice(i, i + 200))
+          .is("resolved_at", null);
+      }
+    } catch (e) {
+      s.error = `delete failed: ${e instanceof Error ? e.message : "unknown"}`;
+    }
+  }
+
+  // 4) Rows whose original is missing (only for providers we could list).
+  const present: Partial<Record<StorageProvider, Set<string>>> = {};
+  for (const provider of providers) {
+    if (listed[provider]) present[provider] = new Set(listed[provider]!.map((o) => o.key));
+  }
+
+  const missing: { artworkId: string; familyId: string; provider: StorageProvider; key: string }[] = [];
+  for (const row of rows) {
+    const stored = resolveArtworkObject(row);
+    const keys = stored ? present[stored.provider] : undefined;
+    if (!stored || !keys || keys.has(stored.key)) continue;
+    missing.push({ artworkId: row.id, familyId: row.family_id, provider: stored.provider, key: stored.key });
+  }
+
+  if (!dryRun && missing.length > 0) {
+    const { data: already } = await supabase
+      .from("storage_inconsistencies")
+      .select("artwork_id")
+      .eq("kind", "missing_object")
+      .is("resolved_at", null);
+    const known = new Set((already ?? []).map((r) => r.artwork_id as string));
+
+    for (const m of missing) {
+      if (known.has(m.artworkId)) continue;
+      await recordInconsistency(supabase, {
+        familyId: m.familyId,
+        artworkId: m.artworkId,
+        provider: m.provider,
+        key: m.key,
+        kind: "missing_object",
+        detail: "found by storage gc",
+      });
+    }
+  }
+
+  const hadError = Object.values(summary).some((s) => s?.error);
+  return NextResponse.json({
+    ok: !hadError && (dryRun || !deleteSkipped),
+    dryRun,
+    minAgeHours,
+    maxDelete,
+    rows: rows.length,
+    deleteSkipped,
+    unresolvedRows: unresolved.length,
+    unresolvedSamples: unresolved.slice(0, SAMPLE_LIMIT),
+    providers: summary,
+    missingObjects: missing.length,
+    missingSamples: missing.slice(0, SAMPLE_LIMIT),
+  });
+}
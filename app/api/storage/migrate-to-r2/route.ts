@@ -0,0 +1,201 @@
+import { createHash } from "node:crypto";
+import { NextResponse } from "next/server";
+import { resolveArtworkObject, type ArtworkImageRow } from "../../../../lib/artworkImage";
+import { getR2Object, headR2Object, isR2Configured, putR2Object } from "../../../../lib/r2";
+import { RENDITION_FORMATS, type ArtworkRenditions, type RenditionName } from "../../../../lib/renditions";
+import { getServiceSupabase } from "../../../../lib/supabaseAdmin";
+import { storageObjectUrl } from "../../../../lib/storage";
+import { readStoredObject, removeStoredObjects } from "../../../../lib/storageServer";
+
+// One batch of the Supabase -> R2 move for historical artworks. Each call takes
+// the next `batch` rows still on Supabase (ordered by id, after `?after=`),
+// copies the original and its renditions to R2 under "<family_id>/", verifies
+// size + SHA-256 by reading the copy back, then flips storage_provider /
+// storage_key / renditions / image paths in one update. Rows without
+// storage_key are resolved from private_image_path exactly like the
+// migration 001 backfill.
+//
+// Idempotent: rows already on R2 are never selected, copies that already
+// match are not uploaded again, and the row update only applies while the row
+// is still on Supabase. Loop with `nextAfter` until `done` (see README).
+//
+// Query: ?batch=10  ?after=<artwork id>  ?dryRun=1  ?deleteSource=1
+// Needs CRON_SECRET, SUPABASE_SERVICE_ROLE_KEY, R2_* and
+// NEXT_PUBLIC_R2_PUBLIC_BASE_URL.
+
+export const dynamic = "force-dynamic";
+export const runtime = "nodejs";
+export const maxDuration = 60;
+
+const MAX_BATCH = 50;
+
+const CONTENT_TYPES: Record<string, string> = {
+  jpg: "image/jpeg",
+  jpeg: "image/jpeg",
+  png: "image/png",
+  webp: "image/webp",
+  avif: "image/avif",
+  gif: "image/gif",
+  heic: "image/heic",
+};
+
+type ArtworkRow = ArtworkImageRow & { id: string; family_id: string };
+
+type RowResult =
+  | { id: string; status: "migrated"; key: string; objects: number; copied: number; sourceDeleted: boolean | null; warning?: string }
+  | { id: string; status: "planned"; key: string; objects: number }
+  | { id: string; status: "failed"; error: string };
+
+function contentTypeFor(key: string) {
+  const ext = key.split(".").pop()?.toLowerCase() ?? "";
+  return CONTENT_TYPES[ext] ?? "application/octet-stream";
+}
+
+function sha256(buf: Buffer) {
+  return createHash("sha256").update(buf).digest("hex");
+}
+
+function r2KeyFor(familyId: string, key: string) {
+  return key.startsWith(`${familyId}/`) ? key : `${familyId}/${key}`;
+}
+
+/** Copies one object unless an identical copy is already there. Returns true if it uploaded. */
+async function copyToR2(source: Buffer, destKey: string) {
+  const hash = sha256(source);
+
+  if (await headR2Object(destKey)) {
+    const existing = await getR2Object(destKey);
+    if (existing.length === source.length && sha256(existing) === hash) return false;
+  }
+
+  await putR2Object(destKey, source, contentTypeFor(destKey));
+
+  const copy = await getR2Object(destKey);
+  if (copy.length !== source.length) throw new Error(`size mismatch for ${destKey}: ${copy.length} != ${source.length}`);
+  if (sha256(copy) !== hash) throw new Error(`sha256 mismatch for ${destKey}`);
+  return true;
+}
+
+export async function POST(request: Request) {
+  const secret = process.env.CRON_SECRET;
+  if (!secret) return NextResponse.json({ ok: false, error: "CRON_SECRET not set" }, { status: 500 });
+  if (request.headers.get("authorization") !== `Bearer ${secret}`) {
+    return NextResponse.json({ ok: false, error: "unauthorized" }, { status: 401 });
+  }
+
+  const supabase = getServiceSupabase();
+  if (!supabase) return NextResponse.json({ ok: false, error: "missing SUPABASE_SERVICE_ROLE_KEY" }, { status: 500 });
+  if (!isR2Configured() || !process.env.NEXT_PUBLIC_R2_PUBLIC_BASE_URL) {
+    return NextResponse.json({ ok: false, error: "R2_NOT_CONFIGURED" }, { status: 501 });
+  }
+
+  const url = new URL(request.url);
+  const batch = Math.min(MAX_BATCH, Math.max(1, Number(url.searchParams.get("batch")) || 10));
+  const after = url.searchParams.get("after");
+  const dryRun = ["1", "true"].includes(url.searchParams.get("dryRun") ?? "");
+  const deleteSource = ["1", "true"].includes(url.searchParams.get("deleteSource") ?? "");
+
+  let query = supabase
+    .from("artworks")
+    .select("id, family_id, storage_provider, storage_key, private_image_path, renditions")
+    .eq("storage_provider", "supabase")
+    .order("id")
+    .limit(batch);
+  if (after) query = query.gt("id", after);
+
+  const { data, error } = await query;
+  if (error) return NextResponse.json({ ok: false, error: error.message }, { status: 500 });
+  const rows = (data ?? []) as ArtworkRow[];
+
+  const results: RowResult[] = [];
+
+  for (const row of rows) {
+    const original = resolveArtworkObject(row);
+    if (!original) {
+      results.push({ id: row.id, status: "failed", error: "NO_STORAGE_KEY (private_image_path is not a Supabase URL)" });
+      continue;
+    }
+
+    const destKey = r2KeyFor(row.family_id, original.key);
+    const renditionPairs: { name: RenditionName; format: (typeof RENDITION_FORMATS)[number]; from: string; to: string }[] = [];
+    for (const [name, set] of Object.entries(row.renditions ?? {}) as [RenditionName, Record<string, string>][]) {
+      for (const format of RENDITION_FORMATS) {
+        if (set?.[format]) renditionPairs.push({ name, format, from: set[format], to: r2KeyFor(row.family_id, set[format]) });
+      }
+    }
+    const pairs = [{ from: original.key, to: destKey }, ...renditionPairs];
+
+    if (dryRun) {
+      results.push({ id: row.id, status: "planned", key: destKey, objects: pairs.length });
+      continue;
+    }
+
+    try {
+      let copied = 0;
+      for (const pair of pairs) {
+        const source = await readStoredObject(supabase, "supabase", pair.from);
+        if (await copyToR2(source, pair.to)) copied++;
+      }
+
+      const remapped: Record<string, Record<string, string>> = {};
+      for (const p of renditionPairs) remapped[p.name] = { ...remapped[p.name], [p.format]: p.to };
+      const renditions = renditionPairs.length > 0 ? (remapped as ArtworkRenditions) : null;
+
+      const publicUrl = storageObjectUrl("r2", destKey);
+      const { data: updated, error: upErr } = await supabase
+        .from("artworks")
+        .update({
+          storage_provider: "r2",
+          storage_key: destKey,
+          renditions,
+          private_image_path: publicUrl,
+          public_image_path: publicUrl,
+        })
+        .eq("id", row.id)
+        .eq("storage_provider", "supabase")
+        .select("id");
+      if (upErr) throw new Error(`row update failed: ${upErr.message}`);
+      if (!updated || updated.length === 0) {
+        // Someone else (a parallel run) already flipped it; leave both copies for the GC.
+        results.push({ id: row.id, status: "migrated", key: destKey, objects: pairs.length, copied, sourceDeleted: null, warning: "already migrated" });
+        continue;
+      }
+
+      let sourceDeleted: boolean | null = null;
+      let warning: string | undefined;
+      if (deleteSource) {
+        try {
+          await removeStoredObjects(supabase, "supabase", pairs.map((p) => p.from));
+          sourceDeleted = true;
+        } catch (e) {
+          // Unreferenced now, so /api/storage/gc will pick it up later.
+          sourceDeleted = false;
+          warning = `source delete failed: ${e instanceof Error ? e.message : "unknown"}`;
+        }
+      }
+
+      results.push({ id: row.id, status: "migrated", key: destKey, objects: pairs.length, copied, sourceDeleted, warning });
+    } catch (e) {
+      results.push({ id: row.id, status: "failed", error: e instanceof Error ? e.message : "copy failed" });
+    }
+  }
+
+  const { count: remaining } = await supabase
+    .from("artworks")
+    .select("id", { count: "exact", head: true })
+    .eq("storage_provider", "supabase");
+
+  const nextAfter = rows.length > 0 ? rows[rows.length - 1].id : null;
+  return NextResponse.json({
+    ok: results.every((r) => r.status !== "failed"),
+    dryRun,
+    deleteSource,
+    processed: rows.length,
+    migrated: results.filter((r) => r.status === "migrated").length,
+    failed: results.filter((r) => r.status === "failed").length,
+    remaining: remaining ?? null,
+    nextAfter,
+    done: rows.length < batch,
+    results,
+  });
+}
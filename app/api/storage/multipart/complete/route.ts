@@ -0,0 +1,42 @@
+import { NextResponse } from "next/server";
+import { getRequestFamily } from "../../../../../lib/supabaseServer";
+import { completeR2MultipartUpload, isR2Configured, listR2Parts, s3Status } from "../../../../../lib/r2";
+
+// Finishes a multipart upload. The part list comes from R2 itself, not from
+// the browser, and must add up to the size the browser says it sent — a
+// missing or short part fails here instead of producing a truncated image.
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  if (!isR2Configured()) {
+    return NextResponse.json({ ok: false, error: "R2_NOT_CONFIGURED" }, { status: 501 });
+  }
+
+  const who = await getRequestFamily(request);
+  if (!who.ok) return NextResponse.json({ ok: false, error: who.error }, { status: who.status });
+
+  const body = (await request.json().catch(() => null)) as { key?: unknown; uploadId?: unknown; size?: unknown } | null;
+  const key = typeof body?.key === "string" ? body.key.trim() : "";
+  const uploadId = typeof body?.uploadId === "string" ? body.uploadId.trim() : "";
+  const size = Number(body?.size);
+  if (!key || key.includes("..") || !key.startsWith(`${who.familyId}/`)) {
+    return NextResponse.json({ ok: false, error: "FORBIDDEN_KEY" }, { status: 403 });
+  }
+  if (!uploadId) return NextResponse.json({ ok: false, error: "MISSING_UPLOAD_ID" }, { status: 400 });
+  if (!Number.isInteger(size) || size <= 0) return NextResponse.json({ ok: false, error: "BAD_SIZE" }, { status: 400 });
+
+  try {
+    const parts = await listR2Parts(key, uploadId);
+    const received = parts.reduce((sum, p) => sum + p.size, 0);
+    if (received !== size) {
+      return NextResponse.json({ ok: false, error: `INCOMPLETE_UPLOAD (${received}/${size} bytes)` }, { status: 409 });
+    }
+
+    await completeR2MultipartUpload(key, uploadId, parts);
+    return NextResponse.json({ ok: true, key });
+  } catch (e) {
+    if (s3Status(e) === 404) return NextResponse.json({ ok: false, error: "UPLOAD_NOT_FOUND" }, { status: 404 });
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "complete failed" }, { status: 502 });
+  }
+}
@@ -0,0 +1,40 @@
+import { NextResponse } from "next/server";
+import { getRequestFamily } from "../../../../../lib/supabaseServer";
+import { isR2Configured, presignR2UploadPart } from "../../../../../lib/r2";
+
+// Presigned PUT URL for one part of a multipart upload started by
+// POST /api/storage/multipart. Signed per part so a slow connection never
+// runs into the 10 minute expiry halfway through a file.
+
+export const dynamic = "force-dynamic";
+
+// S3/R2 limit
+const MAX_PART_NUMBER = 10000;
+
+export async function POST(request: Request) {
+  if (!isR2Configured()) {
+    return NextResponse.json({ ok: false, error: "R2_NOT_CONFIGURED" }, { status: 501 });
+  }
+
+  const who = await getRequestFamily(request);
+  if (!who.ok) return NextResponse.json({ ok: false, error: who.error }, { status: who.status });
+
+  const body = (await request.json().catch(() => null)) as { key?: unknown; uploadId?: unknown; partNumber?: unknown } | null;
+  const key = typeof body?.key === "string" ? body.key.trim() : "";
+  const uploadId = typeof body?.uploadId === "string" ? body.uploadId.trim() : "";
+  const partNumber = Number(body?.partNumber);
+  if (!key || key.includes("..") || !key.startsWith(`${who.familyId}/`)) {
+    return NextResponse.json({ ok: false, error: "FORBIDDEN_KEY" }, { status: 403 });
+  }
+  if (!uploadId) return NextResponse.json({ ok: false, error: "MISSING_UPLOAD_ID" }, { status: 400 });
+  if (!Number.isInteger(partNumber) || partNumber < 1 || partNumber > MAX_PART_NUMBER) {
+    return NextResponse.json({ ok: false, error: "BAD_PART_NUMBER" }, { status: 400 });
+  }
+
+  try {
+    const uploadUrl = await presignR2UploadPart(key, uploadId, partNumber);
+    return NextResponse.json({ ok: true, uploadUrl });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "presign failed" }, { status: 502 });
+  }
+}
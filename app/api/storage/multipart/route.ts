@@ -0,0 +1,87 @@
+import { NextResponse } from "next/server";
+import { getRequestFamily } from "../../../../lib/supabaseServer";
+import { abortR2MultipartUpload, createR2MultipartUpload, isR2Configured, listR2Parts, s3Status, safeExt } from "../../../../lib/r2";
+
+// Resumable R2 uploads for large files (see lib/resumableUpload.ts).
+//   POST   { filename, contentType }  -> { key, uploadId }   start
+//   GET    ?key=&uploadId=            -> { parts }           what R2 already has (resume)
+//   DELETE { key, uploadId }                                 give up
+// Parts are signed one at a time by ./part and stitched together by ./complete.
+// Keys follow the presign route: always under the caller's `<family_id>/`.
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  if (!isR2Configured()) {
+    return NextResponse.json({ ok: false, error: "R2_NOT_CONFIGURED" }, { status: 501 });
+  }
+
+  const who = await getRequestFamily(request);
+  if (!who.ok) return NextResponse.json({ ok: false, error: who.error }, { status: who.status });
+
+  const body = (await request.json().catch(() => null)) as { filename?: unknown; contentType?: unknown } | null;
+  const contentType = typeof body?.contentType === "string" && body.contentType.startsWith("image/") ? body.contentType : null;
+  if (!contentType) {
+    return NextResponse.json({ ok: false, error: "INVALID_CONTENT_TYPE" }, { status: 400 });
+  }
+
+  const key = `${who.familyId}/${Date.now()}-${crypto.randomUUID()}.${safeExt(body?.filename)}`;
+
+  try {
+    const uploadId = await createR2MultipartUpload(key, contentType);
+    return NextResponse.json({ ok: true, key, uploadId });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "multipart create failed" }, { status: 502 });
+  }
+}
+
+export async function GET(request: Request) {
+  if (!isR2Configured()) {
+    return NextResponse.json({ ok: false, error: "R2_NOT_CONFIGURED" }, { status: 501 });
+  }
+
+  const who = await getRequestFamily(request);
+  if (!who.ok) return NextResponse.json({ ok: false, error: who.error }, { status: who.status });
+
+  const url = new URL(request.url);
+  const key = (url.searchParams.get("key") ?? "").trim();
+  const uploadId = (url.searchParams.get("uploadId") ?? "").trim();
+  if (!key || key.includes("..") || !key.startsWith(`${who.familyId}/`)) {
+    return NextResponse.json({ ok: false, error: "FORBIDDEN_KEY" }, { status: 403 });
+  }
+  if (!uploadId) return NextResponse.json({ ok: false, error: "MISSING_UPLOAD_ID" }, { status: 400 });
+
+  try {
+    const parts = await listR2Parts(key, uploadId);
+    return NextResponse.json({ ok: true, parts });
+  } catch (e) {
+    // Aborted, completed or expired: the browser starts over.
+    if (s3Status(e) === 404) return NextResponse.json({ ok: false, error: "UPLOAD_NOT_FOUND" }, { status: 404 });
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "list parts failed" }, { status: 502 });
+  }
+}
+
+export async function DELETE(request: Request) {
+  if (!isR2Configured()) {
+    return NextResponse.json({ ok: false, error: "R2_NOT_CONFIGURED" }, { status: 501 });
+  }
+
+  const who = await getRequestFamily(request);
+  if (!who.ok) return NextResponse.json({ ok: false, error: who.error }, { status: who.status });
+
+  const body = (await request.json().catch(() => null)) as { key?: unknown; uploadId?: unknown } | null;
+  const key = typeof body?.key === "string" ? body.key.trim() : "";
+  const uploadId = typeof body?.uploadId === "string" ? body.uploadId.trim() : "";
+  if (!key || key.includes("..") || !key.startsWith(`${who.familyId}/`)) {
+    return NextResponse.json({ ok: false, error: "FORBIDDEN_KEY" }, { status: 403 });
+  }
+  if (!uploadId) return NextResponse.json({ ok: false, error: "MISSING_UPLOAD_ID" }, { status: 400 });
+
+  try {
+    await abortR2MultipartUpload(key, uploadId);
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    if (s3Status(e) === 404) return NextResponse.json({ ok: true });
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "abort failed" }, { status: 502 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextResponse } from "next/server";
+import { getRequestFamily } from "../../../../lib/supabaseServer";
+import { deleteR2Object, isR2Configured } from "../../../../lib/r2";
+
+// Removes R2 objects (an artwork and its renditions) on behalf of the
+// signed-in family. Only keys under the caller's own `<family_id>/` prefix
+// may be deleted.
+
+export const dynamic = "force-dynamic";
+
+export async function DELETE(request: Request) {
+  if (!isR2Configured()) {
+    return NextResponse.json({ ok: false, error: "R2_NOT_CONFIGURED" }, { status: 501 });
+  }
+
+  const who = await getRequestFamily(request);
+  if (!who.ok) return NextResponse.json({ ok: false, error: who.error }, { status: who.status });
+
+  const body = (await request.json().catch(() => null)) as { keys?: unknown } | null;
+  const keys = Array.isArray(body?.keys) ? body.keys.filter((k): k is string => typeof k === "string").map((k) => k.trim()) : [];
+  if (keys.length === 0 || keys.some((key) => !key || key.includes("..") || !key.startsWith(`${who.familyId}/`))) {
+    return NextResponse.json({ ok: false, error: "FORBIDDEN_KEY" }, { status: 403 });
+  }
+
+  try {
+    for (const key of keys) await deleteR2Object(key);
+    return NextResponse.json({ ok: true });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "delete failed" }, { status: 502 });
+  }
+}
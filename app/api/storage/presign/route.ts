@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { getRequestFamily } from "../../../../lib/supabaseServer";
+import { isR2Configured, presignR2Put, safeExt } from "../../../../lib/r2";
+
+// Issues a short-lived presigned PUT URL so the browser can upload an artwork
+// straight to R2. Keys are always prefixed with the caller's family_id, which
+// is what the delete route checks before removing anything.
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  if (!isR2Configured()) {
+    return NextResponse.json({ ok: false, error: "R2_NOT_CONFIGURED" }, { status: 501 });
+  }
+
+  const who = await getRequestFamily(request);
+  if (!who.ok) return NextResponse.json({ ok: false, error: who.error }, { status: who.status });
+
+  const body = (await request.json().catch(() => null)) as { filename?: unknown; contentType?: unknown } | null;
+  const contentType = typeof body?.contentType === "string" && body.contentType.startsWith("image/") ? body.contentType : null;
+  if (!contentType) {
+    return NextResponse.json({ ok: false, error: "INVALID_CONTENT_TYPE" }, { status: 400 });
+  }
+
+  const key = `${who.familyId}/${Date.now()}-${crypto.randomUUID()}.${safeExt(body?.filename)}`;
+
+  try {
+    const uploadUrl = await presignR2Put(key, contentType);
+    return NextResponse.json({ ok: true, key, uploadUrl });
+  } catch (e) {
+    return NextResponse.json({ ok: false, error: e instanceof Error ? e.message : "presign failed" }, { status: 502 });
+  }
+}
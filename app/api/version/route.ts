@@ -0,0 +1,20 @@
+import { NextResponse } from "next/server";
+import { notesSince } from "../../../lib/releaseNotes";
+
+// Which build is deployed right now. Open tabs and installed PWAs poll this
+// (app/components/UpdatePrompt.tsx) and offer a refresh when it differs from
+// the build they are running. ?since=<client version> adds the release notes
+// the client has not seen yet.
+
+export const dynamic = "force-dynamic";
+
+export async function GET(request: Request) {
+  const since = new URL(request.url).searchParams.get("since") ?? "";
+  const version = process.env.NEXT_PUBLIC_APP_VERSION ?? "";
+  const build = process.env.NEXT_PUBLIC_BUILD_ID ?? "";
+
+  return NextResponse.json(
+    { ok: true, version, build, notes: notesSince(since, version) },
+    { headers: { "Cache-Control": "no-store" } }
+  );
+}
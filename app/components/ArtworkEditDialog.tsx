@@ -0,0 +1,330 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { supabase } from "../../lib/supabaseClient";
+import { formatDateForInput, parseArtworkMadeAt } from "../../lib/artworkDate";
+import { replaceArtworkImage, requestArtworkRenditions } from "../../lib/storage";
+import { uploadArtworkObjectResumable } from "../../lib/resumableUpload";
+import { DEFAULT_COMPRESS_SETTINGS, prepareImageForUpload } from "../../lib/imageProcessing";
+import { convertHeicToJpeg, isHeicFile } from "../../lib/heic";
+import { sha256Hex } from "../../lib/contentHash";
+import {
+  ARTWORK_MEDIUMS,
+  catalogToInput,
+  MAX_STORY_LENGTH,
+  normalizeStory,
+  parseCatalogInput,
+  type ArtworkCatalog,
+  type CatalogInput,
+} from "../../lib/artworkCatalog";
+import { findKidByName, formatKidAge, kidAgeMonths, type Kid } from "../../lib/kids";
+
+export type EditableArtwork = ArtworkCatalog & {
+  id: string;
+  title: string;
+  kid_name: string;
+  artwork_made_at: string | null;
+  created_at: string;
+  story: string | null;
+};
+
+/**
+ * 올린 뒤에 작품 정보(제목·작가·작품제작일·이야기·재료·태그·크기)를 고치고, 원하면 사진만 바꾼다.
+ * 작품 id는 그대로라 공개 상태나 전시 기간은 유지된다.
+ * 작품제작일·카탈로그는 업로드 화면과 같은 형식·검사(lib/artworkDate.ts, lib/artworkCatalog.ts)를 쓴다.
+ */
+export default function ArtworkEditDialog({
+  artwork,
+  kids,
+  onClose,
+  onSaved,
+}: {
+  artwork: EditableArtwork;
+  kids: Kid[];
+  onClose: () => void;
+  onSaved: (id: string) => Promise<void> | void;
+}) {
+  const [title, setTitle] = useState(artwork.title);
+  const [kidName, setKidName] = useState(artwork.kid_name);
+  const [madeAtInput, setMadeAtInput] = useState(formatDateForInput(new Date(artwork.artwork_made_at ?? artwork.created_at)));
+  const [storyInput, setStoryInput] = useState(artwork.story ?? "");
+  const [catalogInput, setCatalogInput] = useState<CatalogInput>(catalogToInput(artwork));
+  const [newFile, setNewFile] = useState<File | null>(null);
+  const [newPreview, setNewPreview] = useState("");
+  const [busy, setBusy] = useState(false);
+  const [status, setStatus] = useState("");
+  const [error, setError] = useState("");
+
+  const madeAt = parseArtworkMadeAt(madeAtInput);
+  const catalog = parseCatalogInput(catalogInput);
+  const story = normalizeStory(storyInput);
+  const storyTooLong = (story?.length ?? 0) > MAX_STORY_LENGTH;
+  const kid = findKidByName(kids, kidName);
+  const age = kid?.birthdate && madeAt.iso ? formatKidAge(kidAgeMonths(kid.birthdate, madeAt.iso)) : "";
+
+  useEffect(() => {
+    if (!newFile) return;
+    const url = URL.createObjectURL(newFile);
+    queueMicrotask(() => setNewPreview(url));
+    return () => URL.revokeObjectURL(url);
+  }, [newFile]);
+
+  /** 새 사진: 업로드 화면처럼 HEIC 변환 → 용량 줄이기·메타데이터 정리 → 업로드 → 작품에 연결 → rendition 요청 */
+  const replaceImage = async (picked: File) => {
+    setStatus("사진 준비 중...");
+    const contentHash = await sha256Hex(picked).catch(() => null);
+    const source = isHeicFile(picked) ? await convertHeicToJpeg(picked) : picked;
+    const prepared = await prepareImageForUpload(source, DEFAULT_COMPRESS_SETTINGS);
+
+    const ext = prepared.file.name.split(".").pop() || "jpg";
+    const stored = await uploadArtworkObjectResumable(prepared.file, `${Date.now()}-r-${Math.random().toString(16).slice(2)}.${ext}`, (loaded, total) =>
+      setStatus(`사진 올리는 중... ${Math.round((loaded / total) * 100)}%`)
+    );
+
+    setStatus("사진 바꾸는 중...");
+    const replaced = await replaceArtworkImage(artwork.id, stored, contentHash);
+    if (replaced.error) throw new Error(`사진 바꾸기 실패: ${replaced.error}`);
+
+    setStatus("썸네일 만드는 중...");
+    const rendered = await requestArtworkRenditions(artwork.id);
+    if (rendered.error) console.warn("[renditions]", rendered.error);
+  };
+
+  const save = async () => {
+    setError("");
+    if (!title.trim() || !kidName.trim()) {
+      setError("제목과 작가(아이 이름)를 입력해 주세요.");
+      return;
+    }
+    if (madeAt.error || !madeAt.iso) {
+      setError(madeAt.error ?? "작품제작일 형식이 올바르지 않습니다.");
+      return;
+    }
+    if (storyTooLong) {
+      setError(`작품 설명은 ${MAX_STORY_LENGTH}자까지 적을 수 있어요.`);
+      return;
+    }
+    if (catalog.error || !catalog.catalog) {
+      setError(catalog.error ?? "재료·태그·크기를 확인해 주세요.");
+      return;
+    }
+
+    setBusy(true);
+    try {
+      if (newFile) {
+        await replaceImage(newFile);
+        // 정보 저장이 실패해 다시 눌러도 사진은 또 올리지 않는다.
+        setNewFile(null);
+      }
+
+      const patch = { title: title.trim(), kid_name: kidName.trim(), artwork_made_at: madeAt.iso, story, ...catalog.catalog };
+      const changed =
+        patch.title !== artwork.title ||
+        patch.kid_name !== artwork.kid_name ||
+        new Date(patch.artwork_made_at).getTime() !== new Date(artwork.artwork_made_at ?? "").getTime() ||
+        patch.story !== (artwork.story ?? null) ||
+        patch.medium !== artwork.medium ||
+        patch.tags.join("\n") !== (artwork.tags ?? []).join("\n") ||
+        patch.width_cm !== artwork.width_cm ||
+        patch.height_cm !== artwork.height_cm ||
+        patch.depth_cm !== artwork.depth_cm;
+
+      if (changed) {
+        setStatus("저장 중...");
+        // kid_name 이 바뀌면 DB 트리거가 그 이름의 아이에 연결한다 (없으면 새로 만든다).
+        const { error: upErr } = await supabase.from("artworks").update(patch).eq("id", artwork.id);
+        if (upErr) throw new Error((newFile ? "사진은 바꿨지만 정보 저장 실패: " : "저장 실패: ") + upErr.message);
+      }
+
+      setStatus("");
+      await onSaved(artwork.id);
+      onClose();
+    } catch (e) {
+      setStatus("");
+      setError(e instanceof Error ? e.message : "저장 실패");
+    } finally {
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div
+      className="editModal"
+      onClick={() => !busy && onClose()}
+      onKeyDown={(e) => {
+        // 뒤에 열린 확대 보기가 방향키·ESC를 받지 않게 한다.
+        e.stopPropagation();
+        if (e.key === "Escape" && !busy) onClose();
+      }}
+      role="dialog"
+      aria-modal="true"
+      aria-label="작품 정보 수정"
+    >
+      <div className="editCard" onClick={(e) => e.stopPropagation()}>
+        <div className="editTop">
+          <div className="editTitle">작품 정보 수정</div>
+          <button className="closeBtn" onClick={onClose} disabled={busy} aria-label="닫기">
+            닫기
+          </button>
+        </div>
+
+        <label className="field">
+          <span className="label">제목</span>
+          <input className="input" value={title} onChange={(e) => setTitle(e.target.value)} disabled={busy} autoFocus />
+        </label>
+
+        <label className="field">
+          <span className="label">작가(아이 이름)</span>
+          <input className="input" value={kidName} onChange={(e) => setKidName(e.target.value)} disabled={busy} list="edit-kid-names" />
+          <datalist id="edit-kid-names">
+            {kids.map((k) => (
+              <option key={k.id} value={k.name} />
+            ))}
+          </datalist>
+          {kidName.trim() && kids.length > 0 && !kid ? <span className="hint">새 아이로 등록돼요.</span> : null}
+        </label>
+
+        <label className="field">
+          <span className="label">작품제작일</span>
+          <input className="input" placeholder="YYYY-MM-DD HH:mm" value={madeAtInput} onChange={(e) => setMadeAtInput(e.target.value)} disabled={busy} />
+          {madeAt.error ? <span className="hint err">{madeAt.error}</span> : age ? <span className="hint">그린 나이 {age}</span> : null}
+        </label>
+
+        <label className="field">
+          <span className="label">작품 설명 / 아이의 한마디</span>
+          <textarea
+            className="input story"
+            rows={4}
+            placeholder="아이가 이 그림에 대해 한 말을 그대로 적어 두세요."
+            value={storyInput}
+            onChange={(e) => setStoryInput(e.target.value)}
+            disabled={busy}
+          />
+          {storyTooLong ? (
+            <span className="hint err">
+              {MAX_STORY_LENGTH}자까지 적을 수 있어요. (지금 {story?.length}자)
+            </span>
+          ) : null}
+        </label>
+
+        <label className="field">
+          <span className="label">재료</span>
+          <select
+            className="input"
+            value={catalogInput.medium}
+            onChange={(e) => setCatalogInput((prev) => ({ ...prev, medium: e.target.value }))}
+            disabled={busy}
+          >
+            <option value="">모름 / 적지 않기</option>
+            {ARTWORK_MEDIUMS.map((m) => (
+              <option key={m.value} value={m.value}>
+                {m.label}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <label className="field">
+          <span className="label">태그</span>
+          <input
+            className="input"
+            placeholder="쉼표로 구분: 공룡, 가족 여행"
+            value={catalogInput.tags}
+            onChange={(e) => setCatalogInput((prev) => ({ ...prev, tags: e.target.value }))}
+            disabled={busy}
+          />
+        </label>
+
+        <div className="field">
+          <span className="label">실물 크기 (cm)</span>
+          <div className="sizeRow">
+            {(
+              [
+                ["width", "가로"],
+                ["height", "세로"],
+                ["depth", "높이 (입체만)"],
+              ] as const
+            ).map(([field, label]) => (
+              <input
+                key={field}
+                className="input"
+                inputMode="decimal"
+                placeholder={label}
+                aria-label={`${label} cm`}
+                value={catalogInput[field]}
+                onChange={(e) => setCatalogInput((prev) => ({ ...prev, [field]: e.target.value }))}
+                disabled={busy}
+              />
+            ))}
+          </div>
+          {catalog.error ? <span className="hint err">{catalog.error}</span> : null}
+        </div>
+
+        <div className="field">
+          <span className="label">사진 바꾸기 (선택)</span>
+          <div className="replaceRow">
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            {newPreview && newFile ? <img className="replacePreview" src={newPreview} alt="" /> : null}
+            <label className="fileBtn">
+              {newFile ? "다른 사진 고르기" : "사진 고르기"}
+              <input
+                type="file"
+                accept="image/*,.heic,.heif"
+                hidden
+                disabled={busy}
+                onChange={(e) => {
+                  const file = e.target.files?.[0] ?? null;
+                  e.target.value = "";
+                  if (file) setNewFile(file);
+                }}
+              />
+            </label>
+            {newFile ? (
+              <button className="linkBtn" onClick={() => setNewFile(null)} disabled={busy}>
+                바꾸지 않기
+              </button>
+            ) : null}
+          </div>
+          <span className="hint">작품은 그대로 두고 사진 파일만 바꿔요. 공개 상태와 전시 기간은 유지돼요.</span>
+        </div>
+
+        {status ? <div className="status">{status}</div> : null}
+        {error ? <div className="status err">{error}</div> : null}
+
+        <div className="editBtns">
+          <button className="ghostBtn" onClick={onClose} disabled={busy}>
+            취소
+          </button>
+          <button className="darkBtn" onClick={() => void save()} disabled={busy || !!madeAt.error || !!catalog.error || storyTooLong}>
+            {busy ? "저장 중..." : "저장"}
+          </button>
+        </div>
+      </div>
+
+      <style jsx>{`
+        .editModal { position: fixed; inset: 0; background: rgba(17, 24, 39, 0.6); display: flex; align-items: center; justify-content: center; padding: 18px; z-index: 1100; }
+        .editCard { width: min(480px, 100%); max-height: 92vh; overflow: auto; background: #fff; border-radius: 16px; border: 1px solid rgba(0,0,0,0.08); padding: 16px; box-shadow: 0 10px 30px rgba(0,0,0,0.18); display: grid; gap: 12px; }
+        .editTop { display: flex; align-items: center; justify-content: space-between; }
+        .editTitle { font-weight: 900; font-size: 16px; letter-spacing: -0.3px; }
+        .closeBtn { padding: 8px 10px; border-radius: 12px; border: 1px solid #e5e7eb; background: #fff; font-size: 12px; font-weight: 900; cursor: pointer; }
+        .field { display: grid; gap: 4px; }
+        .label { font-size: 12px; font-weight: 800; color: #374151; }
+        .input { padding: 10px 12px; border-radius: 12px; border: 1px solid #e5e7eb; font-size: 14px; }
+        .story { resize: vertical; font-family: inherit; line-height: 1.5; }
+        .sizeRow { display: grid; grid-template-columns: repeat(3, 1fr); gap: 6px; }
+        .sizeRow .input { min-width: 0; }
+        .hint { font-size: 12px; color: #6b7280; line-height: 1.4; }
+        .err { color: #b91c1c; font-weight: 800; }
+        .replaceRow { display: flex; align-items: center; gap: 10px; flex-wrap: wrap; }
+        .replacePreview { width: 64px; height: 64px; object-fit: cover; border-radius: 10px; border: 1px solid #eef0f3; }
+        .fileBtn { padding: 9px 12px; border-radius: 12px; border: 1px solid #e5e7eb; background: #fff; font-size: 12px; font-weight: 900; cursor: pointer; }
+        .linkBtn { padding: 0; border: 0; background: none; color: #6b7280; font-size: 12px; text-decoration: underline; cursor: pointer; }
+        .status { padding: 9px 12px; border-radius: 12px; background: #f9fafb; font-size: 13px; }
+        .editBtns { display: flex; justify-content: flex-end; gap: 8px; }
+        .ghostBtn { padding: 10px 14px; border-radius: 12px; border: 1px solid #e5e7eb; background: #fff; cursor: pointer; font-size: 12px; font-weight: 900; }
+        .darkBtn { padding: 10px 14px; border-radius: 12px; border: 1px solid rgba(0,0,0,0.08); background: #111827; color: #fff; cursor: pointer; font-size: 12px; font-weight: 900; }
+        .ghostBtn:disabled, .darkBtn:disabled, .closeBtn:disabled { opacity: 0.45; cursor: not-allowed; }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,55 @@
+"use client";
+
+import { formatKidAge } from "../../lib/kids";
+import { formatArtworkSize, mediumLabel, type ArtworkCatalog } from "../../lib/artworkCatalog";
+
+/**
+ * 확대 보기에서 사진 아래에 붙이는 미술관 명판: 제목, 작가·나이, 재료·크기, 그리고 작품 이야기.
+ * 이야기(artworks.story, migration 011)가 없으면 그리지 않는다 (나머지는 정보 줄에 이미 있다).
+ */
+export default function ArtworkPlacard({
+  title,
+  kidName,
+  ageMonths,
+  catalog,
+  story,
+}: {
+  title: string;
+  kidName: string;
+  ageMonths?: number | null;
+  catalog?: Partial<ArtworkCatalog> | null;
+  story: string | null | undefined;
+}) {
+  const text = story?.trim();
+  if (!text) return null;
+
+  const artist = [kidName.trim(), formatKidAge(ageMonths)].filter(Boolean).join(", ");
+  const material = [mediumLabel(catalog?.medium), formatArtworkSize(catalog)].filter(Boolean).join(" · ");
+
+  return (
+    <figure className="placard">
+      <figcaption className="head">
+        <div className="title">{title}</div>
+        {artist ? <div className="artist">{artist}</div> : null}
+        {material ? <div className="material">{material}</div> : null}
+      </figcaption>
+      <blockquote className="story">{text}</blockquote>
+
+      <style jsx>{`
+        .placard { margin: 0; padding: 16px 18px; border-top: 1px solid #eef0f3; background: #fbfaf7; display: grid; grid-template-columns: minmax(140px, 220px) 1fr; gap: 18px; }
+        .head { border-right: 1px solid #e7e3da; padding-right: 16px; }
+        .title { font-family: Georgia, "Nanum Myeongjo", serif; font-size: 16px; font-weight: 700; font-style: italic; color: #111827; line-height: 1.35; word-break: keep-all; }
+        .artist { margin-top: 6px; font-size: 12px; font-weight: 800; color: #374151; }
+        .material { margin-top: 2px; font-size: 11px; color: #6b7280; }
+        .story { margin: 0; font-family: Georgia, "Nanum Myeongjo", serif; font-size: 14px; line-height: 1.7; color: #1f2937; white-space: pre-wrap; word-break: keep-all; }
+        .story::before { content: "“"; margin-right: 2px; color: #9ca3af; }
+        .story::after { content: "”"; margin-left: 2px; color: #9ca3af; }
+
+        @media (max-width: 640px) {
+          .placard { grid-template-columns: 1fr; gap: 10px; }
+          .head { border-right: 0; padding-right: 0; border-bottom: 1px solid #e7e3da; padding-bottom: 8px; }
+        }
+      `}</style>
+    </figure>
+  );
+}
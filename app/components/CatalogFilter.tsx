@@ -0,0 +1,116 @@
+"use client";
+
+import { useState } from "react";
+import { ARTWORK_MEDIUMS } from "../../lib/artworkCatalog";
+
+export type CatalogFilterValue = { medium: string | null; tag: string | null };
+
+export const NO_CATALOG_FILTER: CatalogFilterValue = { medium: null, tag: null };
+
+type CatalogRow = { medium?: string | null; tags?: string[] | null };
+
+/** 처음에 보여 줄 태그 수 (많이 쓴 순). 나머지는 "더 보기" */
+const TOP_TAGS = 12;
+
+export function matchesCatalogFilter(row: CatalogRow, filter: CatalogFilterValue) {
+  if (filter.medium && row.medium !== filter.medium) return false;
+  if (filter.tag) {
+    const tag = filter.tag.toLowerCase();
+    if (!(row.tags ?? []).some((t) => t.toLowerCase() === tag)) return false;
+  }
+  return true;
+}
+
+function countBy(values: string[]) {
+  const counts = new Map<string, number>();
+  values.forEach((v) => counts.set(v, (counts.get(v) ?? 0) + 1));
+  return counts;
+}
+
+/**
+ * 작품 목록 위의 "재료·태그로 보기" 칩. 아이 칩(KidFilter)과 함께 걸린다.
+ * 재료는 정해진 순서대로, 태그는 많이 쓴 순으로. 고를 게 없으면 그리지 않는다.
+ */
+export default function CatalogFilter({
+  rows,
+  value,
+  onChange,
+}: {
+  rows: CatalogRow[];
+  value: CatalogFilterValue;
+  onChange: (next: CatalogFilterValue) => void;
+}) {
+  const [showAllTags, setShowAllTags] = useState(false);
+
+  const mediumCounts = countBy(rows.map((r) => r.medium ?? "").filter(Boolean));
+  const mediums = ARTWORK_MEDIUMS.filter((m) => mediumCounts.has(m.value));
+
+  // 대소문자만 다른 태그는 처음 나온 모양으로 묶는다.
+  const tagNames = new Map<string, string>();
+  const tagCounts = countBy(
+    rows.flatMap((r) =>
+      (r.tags ?? []).map((t) => {
+        const key = t.toLowerCase();
+        if (!tagNames.has(key)) tagNames.set(key, t);
+        return key;
+      })
+    )
+  );
+  const tags = [...tagCounts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0], "ko"))
+    .map(([key, count]) => ({ key, label: tagNames.get(key) ?? key, count }));
+  const shownTags = showAllTags
+    ? tags
+    : tags.filter((t, i) => i < TOP_TAGS || t.key === value.tag?.toLowerCase());
+
+  if (mediums.length === 0 && tags.length === 0) return null;
+
+  return (
+    <div className="catalogFilter">
+      {mediums.length > 0 ? (
+        <div className="row" role="group" aria-label="재료로 보기">
+          <span className="rowLabel">재료</span>
+          {mediums.map((m) => (
+            <button
+              key={m.value}
+              type="button"
+              className={value.medium === m.value ? "chip active" : "chip"}
+              onClick={() => onChange({ ...value, medium: value.medium === m.value ? null : m.value })}
+            >
+              {m.label} <span className="count">{mediumCounts.get(m.value)}</span>
+            </button>
+          ))}
+        </div>
+      ) : null}
+
+      {tags.length > 0 ? (
+        <div className="row" role="group" aria-label="태그로 보기">
+          <span className="rowLabel">태그</span>
+          {shownTags.map((t) => {
+            const active = value.tag?.toLowerCase() === t.key;
+            return (
+              <button key={t.key} type="button" className={active ? "chip active" : "chip"} onClick={() => onChange({ ...value, tag: active ? null : t.label })}>
+                #{t.label} <span className="count">{t.count}</span>
+              </button>
+            );
+          })}
+          {tags.length > TOP_TAGS ? (
+            <button type="button" className="more" onClick={() => setShowAllTags((v) => !v)}>
+              {showAllTags ? "접기" : `+${tags.length - TOP_TAGS}개 더 보기`}
+            </button>
+          ) : null}
+        </div>
+      ) : null}
+
+      <style jsx>{`
+        .catalogFilter { display: grid; gap: 6px; margin-top: 8px; }
+        .row { display: flex; flex-wrap: wrap; align-items: center; gap: 6px; }
+        .rowLabel { font-size: 11px; font-weight: 900; color: #6b7280; margin-right: 2px; }
+        .chip { display: inline-flex; align-items: center; gap: 4px; padding: 5px 10px; border-radius: 999px; border: 1px solid #e5e7eb; background: #fff; color: #111827; cursor: pointer; font-size: 12px; font-weight: 800; }
+        .chip.active { background: #111827; border-color: #111827; color: #fff; }
+        .count { font-weight: 700; opacity: 0.6; }
+        .more { padding: 0; border: 0; background: none; color: #6b7280; font-size: 12px; text-decoration: underline; cursor: pointer; }
+      `}</style>
+    </div>
+  );
+}
@@ -0,0 +1,221 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  applyCorners,
+  drawEdited,
+  isIdentityEdit,
+  loadOrientedBitmap,
+  type CropRect,
+  type ImageEdit,
+  type Rotation,
+} from "../../lib/imageProcessing";
+
+type CropRotateEditorProps = {
+  file: File;
+  initial: ImageEdit | null;
+  onCancel: () => void;
+  /** 원래대로면 null */
+  onApply: (edit: ImageEdit | null) => void;
+};
+
+type DragMode = "move" | "nw" | "ne" | "sw" | "se";
+
+type DragState = {
+  mode: DragMode;
+  startX: number;
+  startY: number;
+  startCrop: CropRect;
+};
+
+const FULL_CROP: CropRect = { x: 0, y: 0, w: 1, h: 1 };
+const MIN_CROP = 0.05;
+const PREVIEW_EDGE = 900;
+
+function clamp(v: number, min: number, max: number) {
+  return Math.min(max, Math.max(min, v));
+}
+
+function dragCrop(start: CropRect, mode: DragMode, dx: number, dy: number): CropRect {
+  if (mode === "move") {
+    return { ...start, x: clamp(start.x + dx, 0, 1 - start.w), y: clamp(start.y + dy, 0, 1 - start.h) };
+  }
+
+  let left = start.x;
+  let top = start.y;
+  let right = start.x + start.w;
+  let bottom = start.y + start.h;
+
+  if (mode === "nw" || mode === "sw") left = clamp(left + dx, 0, right - MIN_CROP);
+  if (mode === "ne" || mode === "se") right = clamp(right + dx, left + MIN_CROP, 1);
+  if (mode === "nw" || mode === "ne") top = clamp(top + dy, 0, bottom - MIN_CROP);
+  if (mode === "sw" || mode === "se") bottom = clamp(bottom + dy, top + MIN_CROP, 1);
+
+  return { x: left, y: top, w: right - left, h: bottom - top };
+}
+
+/** 시계 방향 90도 회전에 맞춰 자르기 영역도 같이 돌린다. */
+function rotateCropClockwise(c: CropRect): CropRect {
+  return { x: 1 - (c.y + c.h), y: c.x, w: c.h, h: c.w };
+}
+
+export default function CropRotateEditor({ file, initial, onCancel, onApply }: CropRotateEditorProps) {
+  const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [rotation, setRotation] = useState<Rotation>(initial?.rotation ?? 0);
+  const [crop, setCrop] = useState<CropRect>(initial?.crop ?? FULL_CROP);
+
+  const stageRef = useRef<HTMLDivElement | null>(null);
+  const dragRef = useRef<DragState | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    let loaded: ImageBitmap | null = null;
+
+    loadOrientedBitmap(file)
+      .then((bmp) => {
+        if (!alive) {
+          bmp.close();
+          return;
+        }
+        loaded = bmp;
+        setBitmap(bmp);
+      })
+      .catch((e) => {
+        if (alive) setLoadError(e instanceof Error ? e.message : "사진을 열지 못했습니다.");
+      });
+
+    return () => {
+      alive = false;
+      loaded?.close();
+    };
+  }, [file]);
+
+  // 스캔 보정을 했다면 편 종이 위에서 자른다.
+  const corners = initial?.corners;
+  const source = useMemo(() => (bitmap ? applyCorners(bitmap, corners, PREVIEW_EDGE) : null), [bitmap, corners]);
+
+  const previewSrc = useMemo(() => {
+    if (!source) return "";
+    return drawEdited(source, { rotation, crop: null }, PREVIEW_EDGE).canvas.toDataURL("image/jpeg", 0.85);
+  }, [source, rotation]);
+
+  const rotate = (direction: 1 | -1) => {
+    // 반시계 90도 = 시계 90도 세 번
+    const turns = direction === 1 ? 1 : 3;
+    let next = crop;
+    for (let i = 0; i < turns; i++) next = rotateCropClockwise(next);
+    setCrop(next);
+    setRotation((prev) => (((prev + turns * 90) % 360) as Rotation));
+  };
+
+  const startDrag = (mode: DragMode) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    (e.currentTarget as Element).setPointerCapture(e.pointerId);
+    dragRef.current = { mode, startX: e.clientX, startY: e.clientY, startCrop: crop };
+  };
+
+  const onDrag = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const stage = stageRef.current;
+    if (!drag || !stage) return;
+    const rect = stage.getBoundingClientRect();
+    setCrop(dragCrop(drag.startCrop, drag.mode, (e.clientX - drag.startX) / rect.width, (e.clientY - drag.startY) / rect.height));
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const apply = () => {
+    const edit: ImageEdit = { rotation, crop, corners };
+    onApply(isIdentityEdit(edit) ? null : edit);
+  };
+
+  const pct = (v: number) => `${v * 100}%`;
+
+  return (
+    <div className="modal" onClick={onCancel} role="dialog" aria-modal="true">
+      <div className="modalCard" onClick={(e) => e.stopPropagation()}>
+        <div className="modalTop">
+          <div className="modalTitle">회전 · 자르기</div>
+          <div className="modalActions">
+            <button className="navBtn" onClick={() => rotate(-1)} disabled={!bitmap} aria-label="왼쪽으로 회전">
+              ⟲ 왼쪽
+            </button>
+            <button className="navBtn" onClick={() => rotate(1)} disabled={!bitmap} aria-label="오른쪽으로 회전">
+              ⟳ 오른쪽
+            </button>
+            <button
+              className="navBtn"
+              onClick={() => {
+                setRotation(0);
+                setCrop(FULL_CROP);
+              }}
+              disabled={!bitmap}
+            >
+              원래대로
+            </button>
+          </div>
+        </div>
+
+        <div className="body">
+          {loadError ? (
+            <div className="hint">{loadError}</div>
+          ) : !previewSrc ? (
+            <div className="hint">사진을 여는 중...</div>
+          ) : (
+            <div className="stage" ref={stageRef} onPointerMove={onDrag} onPointerUp={endDrag} onPointerCancel={endDrag}>
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img className="img" src={previewSrc} alt="편집할 사진" draggable={false} />
+              <div
+                className="crop"
+                style={{ left: pct(crop.x), top: pct(crop.y), width: pct(crop.w), height: pct(crop.h) }}
+                onPointerDown={startDrag("move")}
+              >
+                {(["nw", "ne", "sw", "se"] as const).map((corner) => (
+                  <span key={corner} className={`handle ${corner}`} onPointerDown={startDrag(corner)} />
+                ))}
+              </div>
+            </div>
+          )}
+          <div className="hint">네 모서리를 끌어 테이블 가장자리 등을 잘라내고, 상자를 끌어 위치를 옮길 수 있습니다.</div>
+        </div>
+
+        <div className="footer">
+          <button className="ghostBtn" onClick={onCancel}>
+            취소
+          </button>
+          <button className="primary" onClick={apply} disabled={!bitmap}>
+            적용
+          </button>
+        </div>
+      </div>
+
+      <style jsx>{`
+        .modal { position: fixed; inset: 0; background: rgba(17, 24, 39, 0.6); display: flex; align-items: center; justify-content: center; padding: 18px; z-index: 1000; }
+        .modalCard { width: min(760px, 100%); max-height: 92vh; display: flex; flex-direction: column; background: #fff; border-radius: 16px; border: 1px solid rgba(0,0,0,0.08); overflow: hidden; box-shadow: 0 10px 30px rgba(0,0,0,0.18); }
+        .modalTop { display: flex; justify-content: space-between; gap: 12px; align-items: center; padding: 12px 14px; border-bottom: 1px solid #eef0f3; flex-wrap: wrap; }
+        .modalTitle { font-weight: 900; letter-spacing: -0.3px; }
+        .modalActions { display: flex; align-items: center; gap: 8px; flex-wrap: wrap; }
+        .navBtn { padding: 8px 10px; border-radius: 12px; border: 1px solid #e5e7eb; background: #fff; color: #111827; font-size: 12px; font-weight: 900; cursor: pointer; }
+        .navBtn:disabled { opacity: 0.45; cursor: not-allowed; }
+        .body { padding: 14px; overflow: auto; background: #111827; display: grid; gap: 10px; justify-items: center; }
+        .stage { position: relative; display: inline-block; touch-action: none; user-select: none; }
+        .img { display: block; max-width: 100%; max-height: calc(92vh - 190px); }
+        .crop { position: absolute; box-shadow: 0 0 0 9999px rgba(0,0,0,0.5); border: 2px solid #fff; cursor: move; }
+        .handle { position: absolute; width: 18px; height: 18px; border-radius: 999px; background: #fff; border: 2px solid #111827; }
+        .handle.nw { left: -10px; top: -10px; cursor: nwse-resize; }
+        .handle.ne { right: -10px; top: -10px; cursor: nesw-resize; }
+        .handle.sw { left: -10px; bottom: -10px; cursor: nesw-resize; }
+        .handle.se { right: -10px; bottom: -10px; cursor: nwse-resize; }
+        .hint { font-size: 12px; color: #d1d5db; line-height: 1.45; text-align: center; }
+        .footer { display: flex; justify-content: flex-end; gap: 10px; padding: 12px 14px; border-top: 1px solid #eef0f3; }
+        .primary { padding: 11px 14px; border-radius: 14px; border: 1px solid rgba(0,0,0,0.08); background: #111827; color: #fff; font-size: 13px; font-weight: 900; cursor: pointer; }
+        .primary:disabled { opacity: 0.6; cursor: not-allowed; }
+        .ghostBtn { padding: 11px 14px; border-radius: 14px; border: 1px solid #e5e7eb; background: #fff; color: #111827; font-size: 13px; font-weight: 900; cursor: pointer; }
+      `}</style>
+    </div>
+  );
+}
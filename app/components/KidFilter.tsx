@@ -0,0 +1,79 @@
+"use client";
+
+import { kidColor } from "../../lib/kids";
+
+export type KidFilterOption = {
+  /** 가족 화면은 kids.id, 공유 화면은 kid_name */
+  key: string;
+  label: string;
+  count: number;
+  color?: string;
+  avatarUrl?: string;
+};
+
+/**
+ * kids 를 읽을 수 없는 공유 화면(공개 갤러리, 초대 링크)용: 작품의 kid_name 으로 칩을 만든다.
+ * 많이 그린 아이부터.
+ */
+export function kidNameFilterOptions(rows: { kid_name: string }[]): KidFilterOption[] {
+  const counts = new Map<string, number>();
+  rows.forEach((a) => {
+    const name = a.kid_name.trim();
+    if (name) counts.set(name, (counts.get(name) ?? 0) + 1);
+  });
+  return [...counts.entries()]
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0], "ko"))
+    .map(([name, count]) => ({ key: name, label: name, count, color: kidColor({ name, color: null }) }));
+}
+
+/**
+ * 작품 목록 위의 "아이별로 보기" 칩. value=null 이면 전체.
+ * 아이가 한 명뿐이면 고를 게 없으니 그리지 않는다.
+ */
+export default function KidFilter({
+  options,
+  value,
+  onChange,
+  total,
+}: {
+  options: KidFilterOption[];
+  value: string | null;
+  onChange: (key: string | null) => void;
+  total: number;
+}) {
+  if (options.length < 2) return null;
+
+  return (
+    <div className="kidFilter" role="group" aria-label="아이별로 보기">
+      <button type="button" className={value === null ? "chip active" : "chip"} onClick={() => onChange(null)}>
+        전체 <span className="count">{total}</span>
+      </button>
+      {options.map((opt) => (
+        <button
+          key={opt.key}
+          type="button"
+          className={value === opt.key ? "chip active" : "chip"}
+          style={opt.color ? { borderColor: opt.color } : undefined}
+          onClick={() => onChange(value === opt.key ? null : opt.key)}
+        >
+          {opt.color || opt.avatarUrl ? (
+            <span className="dot" style={{ background: opt.color ?? "#e5e7eb" }}>
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              {opt.avatarUrl ? <img src={opt.avatarUrl} alt="" /> : null}
+            </span>
+          ) : null}
+          {opt.label} <span className="count">{opt.count}</span>
+        </button>
+      ))}
+
+      <style jsx>{`
+        .kidFilter { display: flex; flex-wrap: wrap; gap: 6px; margin-top: 12px; }
+        .chip { display: inline-flex; align-items: center; gap: 6px; padding: 6px 10px; border-radius: 999px; border: 2px solid #e5e7eb; background: #fff; color: #111827; cursor: pointer; font-size: 12px; font-weight: 800; }
+        .chip.active { background: #111827; color: #fff; }
+        .count { font-weight: 700; opacity: 0.6; }
+        .dot { width: 18px; height: 18px; border-radius: 999px; overflow: hidden; display: inline-block; }
+        .dot img { width: 100%; height: 100%; object-fit: cover; display: block; }
+      `}</style>
+    </div>
+  );
+}
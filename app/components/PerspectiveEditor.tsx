@@ -0,0 +1,190 @@
+"use client";
+
+import { useEffect, useMemo, useRef, useState } from "react";
+import { drawEdited, loadOrientedBitmap } from "../../lib/imageProcessing";
+import { detectPaperQuad, isConvexQuad, type Point, type Quad } from "../../lib/perspective";
+
+type PerspectiveEditorProps = {
+  file: File;
+  initial: Quad | null;
+  onCancel: () => void;
+  /** 보정 안 함이면 null */
+  onApply: (corners: Quad | null) => void;
+};
+
+const PREVIEW_EDGE = 900;
+const CORNER_LABELS = ["왼쪽 위", "오른쪽 위", "오른쪽 아래", "왼쪽 아래"];
+
+/** 자동으로 못 찾았을 때 시작 위치: 가장자리에서 조금 안쪽 */
+const INSET_QUAD: Quad = [
+  { x: 0.08, y: 0.08 },
+  { x: 0.92, y: 0.08 },
+  { x: 0.92, y: 0.92 },
+  { x: 0.08, y: 0.92 },
+];
+
+function clamp01(v: number) {
+  return Math.min(1, Math.max(0, v));
+}
+
+export default function PerspectiveEditor({ file, initial, onCancel, onApply }: PerspectiveEditorProps) {
+  const [bitmap, setBitmap] = useState<ImageBitmap | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [corners, setCorners] = useState<Quad>(initial ?? INSET_QUAD);
+  const [note, setNote] = useState<string | null>(null);
+
+  const stageRef = useRef<HTMLDivElement | null>(null);
+  const dragRef = useRef<number | null>(null);
+
+  useEffect(() => {
+    let alive = true;
+    let loaded: ImageBitmap | null = null;
+
+    loadOrientedBitmap(file)
+      .then((bmp) => {
+        if (!alive) {
+          bmp.close();
+          return;
+        }
+        loaded = bmp;
+        setBitmap(bmp);
+      })
+      .catch((e) => {
+        if (alive) setLoadError(e instanceof Error ? e.message : "사진을 열지 못했습니다.");
+      });
+
+    return () => {
+      alive = false;
+      loaded?.close();
+    };
+  }, [file]);
+
+  const previewSrc = useMemo(() => {
+    if (!bitmap) return "";
+    return drawEdited(bitmap, null, PREVIEW_EDGE).canvas.toDataURL("image/jpeg", 0.85);
+  }, [bitmap]);
+
+  const valid = isConvexQuad(corners);
+
+  const autoDetect = () => {
+    if (!bitmap) return;
+    const found = detectPaperQuad(bitmap);
+    if (found) {
+      setCorners(found);
+      setNote(null);
+    } else {
+      setNote("종이 가장자리를 찾지 못했습니다. 네 점을 직접 끌어 맞춰 주세요.");
+    }
+  };
+
+  const startDrag = (index: number) => (e: React.PointerEvent) => {
+    e.preventDefault();
+    e.stopPropagation();
+    (e.currentTarget as Element).setPointerCapture(e.pointerId);
+    dragRef.current = index;
+  };
+
+  const onDrag = (e: React.PointerEvent) => {
+    const index = dragRef.current;
+    const stage = stageRef.current;
+    if (index == null || !stage) return;
+    const rect = stage.getBoundingClientRect();
+    const point: Point = {
+      x: clamp01((e.clientX - rect.left) / rect.width),
+      y: clamp01((e.clientY - rect.top) / rect.height),
+    };
+    setCorners((prev) => prev.map((p, i) => (i === index ? point : p)) as Quad);
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const pct = (v: number) => `${v * 100}%`;
+
+  return (
+    <div className="modal" onClick={onCancel} role="dialog" aria-modal="true">
+      <div className="modalCard" onClick={(e) => e.stopPropagation()}>
+        <div className="modalTop">
+          <div className="modalTitle">스캔 보정 · 종이 모서리 맞추기</div>
+          <div className="modalActions">
+            <button className="navBtn" onClick={autoDetect} disabled={!bitmap}>
+              자동 찾기
+            </button>
+            <button className="navBtn" onClick={() => setCorners(INSET_QUAD)} disabled={!bitmap}>
+              처음 위치로
+            </button>
+          </div>
+        </div>
+
+        <div className="body">
+          {loadError ? (
+            <div className="hint">{loadError}</div>
+          ) : !previewSrc ? (
+            <div className="hint">사진을 여는 중...</div>
+          ) : (
+            <div className="stage" ref={stageRef} onPointerMove={onDrag} onPointerUp={endDrag} onPointerCancel={endDrag}>
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img className="img" src={previewSrc} alt="보정할 사진" draggable={false} />
+              <svg className="overlay" viewBox="0 0 1 1" preserveAspectRatio="none" aria-hidden="true">
+                <polygon
+                  points={corners.map((p) => `${p.x},${p.y}`).join(" ")}
+                  fill="rgba(255,255,255,0.12)"
+                  stroke={valid ? "#fff" : "#f87171"}
+                  strokeWidth={2}
+                  vectorEffect="non-scaling-stroke"
+                />
+              </svg>
+              {corners.map((p, i) => (
+                <span
+                  key={i}
+                  className="handle"
+                  style={{ left: pct(p.x), top: pct(p.y) }}
+                  onPointerDown={startDrag(i)}
+                  aria-label={`${CORNER_LABELS[i]} 모서리`}
+                />
+              ))}
+            </div>
+          )}
+          <div className="hint">
+            {note ?? (valid ? "네 점을 종이의 모서리에 맞추면 비스듬히 찍은 그림을 반듯하게 펴서 올립니다." : "모서리 순서가 꼬였습니다. 점 위치를 다시 맞춰 주세요.")}
+          </div>
+        </div>
+
+        <div className="footer">
+          <button className="ghostBtn" onClick={() => onApply(null)}>
+            보정 안 함
+          </button>
+          <div className="spacer" />
+          <button className="ghostBtn" onClick={onCancel}>
+            취소
+          </button>
+          <button className="primary" onClick={() => onApply(corners)} disabled={!bitmap || !valid}>
+            적용
+          </button>
+        </div>
+      </div>
+
+      <style jsx>{`
+        .modal { position: fixed; inset: 0; background: rgba(17, 24, 39, 0.6); display: flex; align-items: center; justify-content: center; padding: 18px; z-index: 1000; }
+        .modalCard { width: min(760px, 100%); max-height: 92vh; display: flex; flex-direction: column; background: #fff; border-radius: 16px; border: 1px solid rgba(0,0,0,0.08); overflow: hidden; box-shadow: 0 10px 30px rgba(0,0,0,0.18); }
+        .modalTop { display: flex; justify-content: space-between; gap: 12px; align-items: center; padding: 12px 14px; border-bottom: 1px solid #eef0f3; flex-wrap: wrap; }
+        .modalTitle { font-weight: 900; letter-spacing: -0.3px; }
+        .modalActions { display: flex; align-items: center; gap: 8px; flex-wrap: wrap; }
+        .navBtn { padding: 8px 10px; border-radius: 12px; border: 1px solid #e5e7eb; background: #fff; color: #111827; font-size: 12px; font-weight: 900; cursor: pointer; }
+        .navBtn:disabled { opacity: 0.45; cursor: not-allowed; }
+        .body { padding: 14px; overflow: auto; background: #111827; display: grid; gap: 10px; justify-items: center; }
+        .stage { position: relative; display: inline-block; touch-action: none; user-select: none; }
+        .img { display: block; max-width: 100%; max-height: calc(92vh - 190px); }
+        .overlay { position: absolute; inset: 0; width: 100%; height: 100%; pointer-events: none; }
+        .handle { position: absolute; width: 22px; height: 22px; margin: -11px 0 0 -11px; border-radius: 999px; background: #fff; border: 2px solid #111827; cursor: grab; }
+        .hint { font-size: 12px; color: #d1d5db; line-height: 1.45; text-align: center; }
+        .footer { display: flex; align-items: center; gap: 10px; padding: 12px 14px; border-top: 1px solid #eef0f3; }
+        .spacer { flex: 1; }
+        .primary { padding: 11px 14px; border-radius: 14px; border: 1px solid rgba(0,0,0,0.08); background: #111827; color: #fff; font-size: 13px; font-weight: 900; cursor: pointer; }
+        .primary:disabled { opacity: 0.6; cursor: not-allowed; }
+        .ghostBtn { padding: 11px 14px; border-radius: 14px; border: 1px solid #e5e7eb; background: #fff; color: #111827; font-size: 13px; font-weight: 900; cursor: pointer; }
+      `}</style>
+    </div>
+  );
+}
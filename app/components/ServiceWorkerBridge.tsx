@@ -0,0 +1,45 @@
+"use client";
+
+import { useEffect } from "react";
+import { supabase } from "../../lib/supabaseClient";
+import { saveServiceWorkerSession, syncUploadQueue } from "../../lib/offlineQueue";
+import { clearGallerySnapshots } from "../../lib/offlineGallery";
+
+/**
+ * 모든 페이지에 붙는 보이지 않는 컴포넌트.
+ * - public/sw.js 등록 (개발 서버에서는 캐시가 헷갈리므로 production에서만)
+ * - 로그인 토큰을 서비스 워커에 넘겨 둔다 (창이 없을 때 대기열을 올리는 용도)
+ * - 연결이 돌아오거나 서비스 워커가 부르면 오프라인 대기열을 올린다
+ * - 로그아웃하면 오프라인용으로 남겨 둔 작품 목록을 지운다
+ */
+export default function ServiceWorkerBridge() {
+  useEffect(() => {
+    if (process.env.NODE_ENV === "production" && "serviceWorker" in navigator) {
+      navigator.serviceWorker.register("/sw.js").catch((e) => console.warn("[sw] register failed:", e));
+      // 앨범처럼 쓰는 앱이라, 저장 공간이 부족해도 브라우저가 캐시를 함부로 지우지 않게 부탁해 둔다.
+      void navigator.storage?.persist?.().catch(() => false);
+    }
+
+    const { data: sub } = supabase.auth.onAuthStateChange((event, session) => {
+      void saveServiceWorkerSession(session);
+      if (event === "SIGNED_OUT") void clearGallerySnapshots();
+    });
+
+    const onOnline = () => void syncUploadQueue();
+    const onMessage = (e: MessageEvent) => {
+      if (e.data?.type === "sync-upload-queue") void syncUploadQueue();
+    };
+
+    window.addEventListener("online", onOnline);
+    navigator.serviceWorker?.addEventListener("message", onMessage);
+    if (navigator.onLine) void syncUploadQueue();
+
+    return () => {
+      sub.subscription.unsubscribe();
+      window.removeEventListener("online", onOnline);
+      navigator.serviceWorker?.removeEventListener("message", onMessage);
+    };
+  }, []);
+
+  return null;
+}
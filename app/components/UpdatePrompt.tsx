@@ -0,0 +1,139 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import { APP_VERSION, applyAppUpdate, fetchNewerRelease, type DeployedRelease } from "../../lib/appUpdate";
+
+/** 새 배포 확인 주기 */
+const POLL_MS = 15 * 60 * 1000;
+/** 화면으로 돌아왔을 때 너무 자주 묻지 않도록 */
+const MIN_CHECK_GAP_MS = 60 * 1000;
+
+/**
+ * 새 버전이 배포됐거나 새 서비스 워커가 기다리고 있으면 화면 아래에 새로고침 안내를 띄운다.
+ * 새로고침 전에 업로드 화면 같은 곳의 작성 중인 내용은 lib/appUpdate.ts의 핸들러가 저장한다.
+ */
+export default function UpdatePrompt() {
+  const [release, setRelease] = useState<DeployedRelease | null>(null);
+  const [swWaiting, setSwWaiting] = useState(false);
+  const [dismissedKey, setDismissedKey] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [blockedMsg, setBlockedMsg] = useState("");
+
+  useEffect(() => {
+    let lastCheck = 0;
+    let cancelled = false;
+
+    const check = async () => {
+      if (Date.now() - lastCheck < MIN_CHECK_GAP_MS) return;
+      lastCheck = Date.now();
+
+      const next = await fetchNewerRelease();
+      if (cancelled || !next) return;
+      setRelease(next);
+      // 새 배포에 sw.js 변경이 있으면 미리 받아 둔다 (대기 상태가 된다).
+      void navigator.serviceWorker?.getRegistration().then((reg) => reg?.update().catch(() => {}));
+    };
+
+    const onVisible = () => {
+      if (document.visibilityState === "visible") void check();
+    };
+
+    const timer = window.setInterval(() => void check(), POLL_MS);
+    document.addEventListener("visibilitychange", onVisible);
+    void check();
+
+    // 서비스 워커는 설치돼도 스스로 켜지지 않고 기다린다 (public/sw.js). 기다리는 게 생기면 안내한다.
+    const watchWorker = (worker: ServiceWorker | null) => {
+      if (!worker) return;
+      const onState = () => {
+        if (worker.state === "installed" && navigator.serviceWorker.controller && !cancelled) setSwWaiting(true);
+      };
+      worker.addEventListener("statechange", onState);
+      onState();
+    };
+
+    navigator.serviceWorker?.ready.then((reg) => {
+      if (cancelled) return;
+      watchWorker(reg.waiting);
+      reg.addEventListener("updatefound", () => watchWorker(reg.installing));
+    });
+
+    return () => {
+      cancelled = true;
+      window.clearInterval(timer);
+      document.removeEventListener("visibilitychange", onVisible);
+    };
+  }, []);
+
+  const key = release ? `${release.version}|${release.build}` : swWaiting ? "sw" : null;
+  if (!key || key === dismissedKey) return null;
+
+  const refresh = async () => {
+    setBusy(true);
+    setBlockedMsg("");
+    const blocked = await applyAppUpdate();
+    if (blocked) {
+      setBlockedMsg(blocked);
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="updateBar" role="status">
+      <div className="updateBody">
+        <div className="updateTitle">
+          새 버전이 나왔어요{release?.version && release.version !== APP_VERSION ? ` (v${release.version})` : ""}
+        </div>
+        {release && release.notes.length > 0 ? (
+          <ul className="updateNotes">
+            {release.notes.flatMap((n) => n.notes.map((line, i) => <li key={`${n.version}-${i}`}>{line}</li>))}
+          </ul>
+        ) : (
+          <div className="updateDesc">새로고침하면 최신 화면으로 바뀌어요. 작성 중인 업로드는 그대로 남아요.</div>
+        )}
+        {blockedMsg ? <div className="updateBlocked">{blockedMsg}</div> : null}
+      </div>
+      <div className="updateBtns">
+        <button className="later" onClick={() => setDismissedKey(key)} disabled={busy}>
+          나중에
+        </button>
+        <button className="refresh" onClick={() => void refresh()} disabled={busy}>
+          {busy ? "준비 중..." : "새로고침"}
+        </button>
+      </div>
+
+      <style jsx>{`
+        .updateBar {
+          position: fixed;
+          left: 50%;
+          bottom: calc(16px + env(safe-area-inset-bottom));
+          transform: translateX(-50%);
+          z-index: 1000;
+          width: min(560px, calc(100vw - 24px));
+          display: grid;
+          grid-template-columns: 1fr auto;
+          gap: 12px;
+          align-items: center;
+          padding: 14px 16px;
+          border-radius: 18px;
+          background: #111827;
+          color: #fff;
+          box-shadow: 0 18px 40px rgba(17, 24, 39, 0.28);
+        }
+        .updateTitle { font-size: 14px; font-weight: 900; letter-spacing: -0.3px; }
+        .updateDesc { margin-top: 4px; font-size: 12px; color: rgba(255,255,255,0.75); line-height: 1.45; }
+        .updateNotes { margin: 6px 0 0; padding-left: 18px; font-size: 12px; color: rgba(255,255,255,0.8); line-height: 1.5; max-height: 120px; overflow: auto; }
+        .updateBlocked { margin-top: 6px; font-size: 12px; color: #fcd34d; font-weight: 800; }
+        .updateBtns { display: flex; gap: 8px; }
+        .later { padding: 9px 12px; border-radius: 12px; border: 1px solid rgba(255,255,255,0.2); background: transparent; color: #fff; cursor: pointer; font-size: 12px; font-weight: 800; }
+        .refresh { padding: 9px 12px; border-radius: 12px; border: 0; background: #fff; color: #111827; cursor: pointer; font-size: 12px; font-weight: 900; }
+        .later:disabled, .refresh:disabled { opacity: 0.5; cursor: not-allowed; }
+
+        @media (max-width: 520px) {
+          .updateBar { grid-template-columns: 1fr; }
+          .updateBtns { justify-content: flex-end; }
+        }
+      `}</style>
+    </div>
+  );
+}
@@ -4,21 +4,36 @@ import { useEffect, useEffectEvent, useMemo, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { supabase } from "../../lib/supabaseClient";
-
-type Artwork = {
+import type { StorageProvider } from "../../lib/storage";
+import { resolveArtworkImage, type PictureSources } from "../../lib/artworkImage";
+import type { ArtworkRenditions } from "../../lib/renditions";
+import KidFilter, { kidNameFilterOptions } from "../components/KidFilter";
+import { formatKidAge } from "../../lib/kids";
+import { formatArtworkSize, mediumLabel, pickCatalog, type ArtworkCatalog } from "../../lib/artworkCatalog";
+import ArtworkPlacard from "../components/ArtworkPlacard";
+import CatalogFilter, { matchesCatalogFilter, NO_CATALOG_FILTER, type CatalogFilterValue } from "../components/CatalogFilter";
+
+type Artwork = ArtworkCatalog & {
   id: string;
   kid_name: string;
   title: string;
-  public_image_path: string;
   private_image_path: string;
+  storage_provider: StorageProvider;
+  storage_key: string | null;
+  renditions: ArtworkRenditions | null;
   created_at: string;
   public_until: string | null;
+  kid_age_months: number | null;
+  story: string | null;
 };
 
-type ViewerArtwork = {
+type ViewerArtwork = ArtworkCatalog & {
   kid_name: string;
   title: string;
   public_until: string | null;
+  kid_age_months: number | null;
+  story: string | null;
+  sources: PictureSources;
 };
 
 const PAGE_SIZE = 24;
@@ -44,6 +59,8 @@ export default function GalleryPage() {
   const [msg, setMsg] = useState("");
   const [loading, setLoading] = useState(true);
   const [page, setPage] = useState(1);
+  const [kidFilter, setKidFilter] = useState<string | null>(null);
+  const [catalogFilter, setCatalogFilter] = useState<CatalogFilterValue>(NO_CATALOG_FILTER);
 
   const [viewerOpen, setViewerOpen] = useState(false);
   const [viewerSrc, setViewerSrc] = useState("");
@@ -64,21 +81,34 @@ export default function GalleryPage() {
     setViewerIndex(null);
   };
 
+  // 다른 가족의 kids 는 읽을 수 없어서 작가 이름으로 고른다.
+  const kidOptions = useMemo(() => kidNameFilterOptions(items), [items]);
+  const activeKid = kidOptions.length > 1 && kidOptions.some((o) => o.key === kidFilter) ? kidFilter : null;
+  const shown = useMemo(
+    () =>
+      items.filter((a) => (activeKid === null || a.kid_name.trim() === activeKid) && matchesCatalogFilter(a, catalogFilter)),
+    [items, activeKid, catalogFilter]
+  );
+
   const canMovePrev = viewerIndex != null && viewerIndex > 0;
-  const canMoveNext = viewerIndex != null && viewerIndex < items.length - 1;
+  const canMoveNext = viewerIndex != null && viewerIndex < shown.length - 1;
 
   const moveViewer = (direction: -1 | 1) => {
     if (viewerIndex == null) return;
     const nextIndex = viewerIndex + direction;
-    if (nextIndex < 0 || nextIndex >= items.length) return;
-    const nextArt = items[nextIndex];
-    const nextSrc = nextArt.public_image_path || nextArt.private_image_path;
+    if (nextIndex < 0 || nextIndex >= shown.length) return;
+    const nextArt = shown[nextIndex];
+    const nextUrls = resolveArtworkImage(nextArt);
     setViewerIndex(nextIndex);
-    setViewerSrc(nextSrc);
+    setViewerSrc(nextUrls.display);
     setViewerArt({
       kid_name: nextArt.kid_name,
       title: nextArt.title,
       public_until: nextArt.public_until,
+      kid_age_months: nextArt.kid_age_months,
+      story: nextArt.story,
+      ...pickCatalog(nextArt),
+      sources: nextUrls.displaySources,
     });
   };
 
@@ -86,11 +116,11 @@ export default function GalleryPage() {
     moveViewer(direction);
   });
 
-  const totalPages = Math.max(1, Math.ceil(items.length / PAGE_SIZE));
+  const totalPages = Math.max(1, Math.ceil(shown.length / PAGE_SIZE));
   const currentPage = Math.min(page, totalPages);
   const pagedItems = useMemo(
-    () => items.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE),
-    [currentPage, items]
+    () => shown.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE),
+    [currentPage, shown]
   );
 
   useEffect(() => {
@@ -113,7 +143,7 @@ export default function GalleryPage() {
 
     const { data, error } = await supabase
       .from("artworks")
-      .select("id, kid_name, title, public_image_path, private_image_path, created_at, public_until")
+      .select("id, kid_name, title, private_image_path, storage_provider, storage_key, renditions, created_at, public_until, kid_age_months, medium, tags, width_cm, height_cm, depth_cm, story")
       .eq("is_public", true)
       .order("created_at", { ascending: false })
       .limit(200);
@@ -176,6 +206,28 @@ export default function GalleryPage() {
         </div>
       </header>
 
+      {!loading && (
+        <KidFilter
+          options={kidOptions}
+          value={activeKid}
+          total={items.length}
+          onChange={(key) => {
+            setKidFilter(key);
+            setPage(1);
+          }}
+        />
+      )}
+      {!loading && (
+        <CatalogFilter
+          rows={items}
+          value={catalogFilter}
+          onChange={(next) => {
+            setCatalogFilter(next);
+            setPage(1);
+          }}
+        />
+      )}
+
       {msg && <div className="notice">{msg}</div>}
       {loading && !msg && <div className="notice">불러오는 중...</div>}
 
@@ -190,8 +242,17 @@ export default function GalleryPage() {
             {pagedItems.map((a) => {
               const left = daysLeft(a.public_until);
               const leftText = left == null ? "" : left <= 0 ? "오늘 종료" : `${left}일 남음`;
-              const imgSrc = a.public_image_path || a.private_image_path;
-              const absoluteIndex = items.findIndex((item) => item.id === a.id);
+              const urls = resolveArtworkImage(a);
+              const viewerInfo: ViewerArtwork = {
+                kid_name: a.kid_name,
+                title: a.title,
+                public_until: a.public_until,
+                kid_age_months: a.kid_age_months,
+                story: a.story,
+                ...pickCatalog(a),
+                sources: urls.displaySources,
+              };
+              const absoluteIndex = shown.findIndex((item) => item.id === a.id);
 
               return (
                 <article className="card" key={a.id}>
@@ -199,17 +260,23 @@ export default function GalleryPage() {
                     className="thumbWrap"
                     role="button"
                     tabIndex={0}
-                    onClick={() => openViewer({ kid_name: a.kid_name, title: a.title, public_until: a.public_until }, imgSrc, absoluteIndex)}
+                    onClick={() => openViewer(viewerInfo, urls.display, absoluteIndex)}
                     onKeyDown={(e) =>
-                      e.key === "Enter" && openViewer({ kid_name: a.kid_name, title: a.title, public_until: a.public_until }, imgSrc, absoluteIndex)
+                      e.key === "Enter" && openViewer(viewerInfo, urls.display, absoluteIndex)
                     }
                     title="클릭하면 크게 보기"
                   >
-                    {/* eslint-disable-next-line @next/next/no-img-element */}
-                    <img className="img" src={imgSrc} alt={a.title} loading="lazy" />
+                    <picture className="pic">
+                      {urls.thumbnailSources.avif ? <source type="image/avif" srcSet={urls.thumbnailSources.avif} /> : null}
+                      {urls.thumbnailSources.webp ? <source type="image/webp" srcSet={urls.thumbnailSources.webp} /> : null}
+                      <img className="img" src={urls.thumbnail} alt={a.title} loading="lazy" />
+                    </picture>
                     <div className="overlay">
                       <div className="overlayTop">
-                        <div className="kid">{a.kid_name}</div>
+                        <div className="kid">
+                          {a.kid_name}
+                          {a.kid_age_months != null ? ` · ${formatKidAge(a.kid_age_months)}` : ""}
+                        </div>
                         {leftText ? <span className="pill">{leftText}</span> : null}
                       </div>
                       <div className="title">{a.title}</div>
@@ -223,7 +290,7 @@ export default function GalleryPage() {
         )
       )}
 
-      {!loading && items.length > PAGE_SIZE && (
+      {!loading && shown.length > PAGE_SIZE && (
         <div className="pager">
           <button className="ghost" onClick={() => setPage((prev) => Math.max(1, prev - 1))} disabled={currentPage === 1}>
             이전
@@ -258,10 +325,44 @@ export default function GalleryPage() {
               </div>
             </div>
 
-            {/* eslint-disable-next-line @next/next/no-img-element */}
-            <img className="modalImg" src={viewerSrc} alt={viewerArt.title} />
+            <picture className="pic">
+              {viewerArt.sources.avif ? <source type="image/avif" srcSet={viewerArt.sources.avif} /> : null}
+              {viewerArt.sources.webp ? <source type="image/webp" srcSet={viewerArt.sources.webp} /> : null}
+              <img className="modalImg" src={viewerSrc} alt={viewerArt.title} />
+            </picture>
+            <ArtworkPlacard
+              title={viewerArt.title}
+              kidName={viewerArt.kid_name}
+              ageMonths={viewerArt.kid_age_months}
+              catalog={viewerArt}
+              story={viewerArt.story}
+            />
 
             <div className="modalInfo">
+              {viewerArt.kid_age_months != null ? (
+                <div className="infoRow">
+                  <span className="infoKey">그린 나이</span>
+                  <span className="infoVal">{formatKidAge(viewerArt.kid_age_months)}</span>
+                </div>
+              ) : null}
+              {viewerArt.medium ? (
+                <div className="infoRow">
+                  <span className="infoKey">재료</span>
+                  <span className="infoVal">{mediumLabel(viewerArt.medium)}</span>
+                </div>
+              ) : null}
+              {formatArtworkSize(viewerArt) ? (
+                <div className="infoRow">
+                  <span className="infoKey">크기</span>
+                  <span className="infoVal">{formatArtworkSize(viewerArt)}</span>
+                </div>
+              ) : null}
+              {viewerArt.tags.length > 0 ? (
+                <div className="infoRow">
+                  <span className="infoKey">태그</span>
+                  <span className="infoVal">{viewerArt.tags.map((t) => `#${t}`).join(" ")}</span>
+                </div>
+              ) : null}
               <div className="infoRow">
                 <span className="infoKey">공개 종료</span>
                 <span className="infoVal">{formatKoreanDate(viewerArt.public_until)}</span>
@@ -292,11 +393,12 @@ export default function GalleryPage() {
         .pill { font-size: 11px; padding: 3px 8px; border-radius: 999px; background: rgba(255,255,255,0.88); border: 1px solid rgba(255,255,255,0.4); color: #111827; font-weight: 800; }
         .title { font-weight: 900; letter-spacing: -0.3px; word-break: break-word; line-height: 1.25; }
         .overlayMeta { margin-top: 6px; font-size: 11px; color: rgba(255,255,255,0.78); font-weight: 700; }
+        .pic { display: block; }
         .img { width: 100%; aspect-ratio: 1 / 1; object-fit: cover; display: block; background: #f3f4f6; border: 1px solid #f1f5f9; }
         .pager { margin-top: 16px; display: flex; align-items: center; justify-content: center; gap: 10px; }
         .pagerText { min-width: 72px; text-align: center; font-size: 12px; color: #6b7280; font-weight: 900; }
         .modal { position: fixed; inset: 0; background: rgba(17, 24, 39, 0.6); display: flex; align-items: center; justify-content: center; padding: 18px; z-index: 1000; }
-        .modalCard { width: min(1080px, 100%); max-height: 92vh; background: #fff; border-radius: 16px; border: 1px solid rgba(0, 0, 0, 0.08); overflow: hidden; box-shadow: 0 10px 30px rgba(0, 0, 0, 0.18); }
+        .modalCard { width: min(1080px, 100%); max-height: 92vh; background: #fff; border-radius: 16px; border: 1px solid rgba(0, 0, 0, 0.08); overflow: hidden auto; box-shadow: 0 10px 30px rgba(0, 0, 0, 0.18); }
         .modalTop { display: flex; justify-content: space-between; gap: 12px; align-items: center; padding: 12px 14px; border-bottom: 1px solid #eef0f3; }
         .modalTitleWrap { min-width: 0; }
         .modalEyebrow { font-size: 11px; color: #6b7280; font-weight: 900; letter-spacing: 0.08em; text-transform: uppercase; }
@@ -3,6 +3,16 @@
 import { useEffect, useEffectEvent, useMemo, useState } from "react";
 import { useParams } from "next/navigation";
 import { supabase } from "../../../lib/supabaseClient";
+import type { StorageProvider } from "../../../lib/storage";
+import { resolveArtworkImage, type PictureSources } from "../../../lib/artworkImage";
+import { formatSnapshotTime, isNetworkFailure, loadGallerySnapshot, saveGallerySnapshot } from "../../../lib/offlineGallery";
+import { kickPushDispatch } from "../../../lib/push";
+import type { ArtworkRenditions } from "../../../lib/renditions";
+import KidFilter, { kidNameFilterOptions } from "../../components/KidFilter";
+import { formatKidAge } from "../../../lib/kids";
+import { formatArtworkSize, mediumLabel, pickCatalog, type ArtworkCatalog } from "../../../lib/artworkCatalog";
+import ArtworkPlacard from "../../components/ArtworkPlacard";
+import CatalogFilter, { matchesCatalogFilter, NO_CATALOG_FILTER, type CatalogFilterValue } from "../../components/CatalogFilter";
 
 type Entry = {
   id: string;
@@ -11,22 +21,35 @@ type Entry = {
   created_at: string;
 };
 
-type ArtworkRowFromRPC = {
+/** 재료·태그·크기(migration 010)는 그 이전 RPC·오프라인 목록에 없어서 Partial */
+type ArtworkRowFromRPC = Partial<ArtworkCatalog> & {
   id: string;
   kid_name: string;
   title: string;
   private_image_path: string;
+  storage_provider?: StorageProvider | null;
+  storage_key?: string | null;
+  renditions?: ArtworkRenditions | null;
   created_at: string;
   artwork_made_at: string | null;
+  /** migration 009 이전 RPC에는 없다 */
+  kid_age_months?: number | null;
+  /** migration 011 이전 RPC에는 없다 */
+  story?: string | null;
 };
 
-type ArtworkView = {
+type ArtworkView = ArtworkCatalog & {
   id: string;
   kid_name: string;
   title: string;
   image_url: string;
+  image_sources: PictureSources;
+  thumb_url: string;
+  thumb_sources: PictureSources;
   created_at: string;
   artwork_made_at: string | null;
+  kid_age_months: number | null;
+  story: string | null;
 };
 
 const PAGE_SIZE = 24;
@@ -44,14 +67,6 @@ function fmt(iso: string | null | undefined) {
   }).format(d);
 }
 
-function toImageUrlFromRow(a: ArtworkRowFromRPC) {
-  const v = (a.private_image_path ?? "").trim();
-  if (!v) return "";
-  if (v.startsWith("http://") || v.startsWith("https://")) return v;
-  const { data } = supabase.storage.from("artworks").getPublicUrl(v);
-  return data.publicUrl;
-}
-
 export default function InvitePage() {
   const params = useParams<{ token?: string }>();
 
@@ -70,8 +85,12 @@ export default function InvitePage() {
   const [debug, setDebug] = useState("");
 
   const [loading, setLoading] = useState(true);
+  /** 오프라인이라 저장해 둔 목록을 보여 주는 중이면 그 목록을 저장한 시각 */
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
   const [submitBusy, setSubmitBusy] = useState(false);
   const [page, setPage] = useState(1);
+  const [kidFilter, setKidFilter] = useState<string | null>(null);
+  const [catalogFilter, setCatalogFilter] = useState<CatalogFilterValue>(NO_CATALOG_FILTER);
 
   const [viewerOpen, setViewerOpen] = useState(false);
   const [viewerSrc, setViewerSrc] = useState("");
@@ -92,14 +111,23 @@ export default function InvitePage() {
     setViewerIndex(null);
   };
 
+  // 초대 링크로는 kids 를 읽을 수 없어서 작가 이름으로 고른다.
+  const kidOptions = useMemo(() => kidNameFilterOptions(artworks), [artworks]);
+  const activeKid = kidOptions.length > 1 && kidOptions.some((o) => o.key === kidFilter) ? kidFilter : null;
+  const shown = useMemo(
+    () =>
+      artworks.filter((a) => (activeKid === null || a.kid_name.trim() === activeKid) && matchesCatalogFilter(a, catalogFilter)),
+    [artworks, activeKid, catalogFilter]
+  );
+
   const canMovePrev = viewerIndex != null && viewerIndex > 0;
-  const canMoveNext = viewerIndex != null && viewerIndex < artworks.length - 1;
+  const canMoveNext = viewerIndex != null && viewerIndex < shown.length - 1;
 
   const moveViewer = (direction: -1 | 1) => {
     if (viewerIndex == null) return;
     const nextIndex = viewerIndex + direction;
-    if (nextIndex < 0 || nextIndex >= artworks.length) return;
-    const nextArt = artworks[nextIndex];
+    if (nextIndex < 0 || nextIndex >= shown.length) return;
+    const nextArt = shown[nextIndex];
     setViewerIndex(nextIndex);
     setViewerSrc(nextArt.image_url);
     setViewerArt(nextArt);
@@ -109,11 +137,11 @@ export default function InvitePage() {
     moveViewer(direction);
   });
 
-  const totalPages = Math.max(1, Math.ceil(artworks.length / PAGE_SIZE));
+  const totalPages = Math.max(1, Math.ceil(shown.length / PAGE_SIZE));
   const currentPage = Math.min(page, totalPages);
   const pagedArtworks = useMemo(
-    () => artworks.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE),
-    [artworks, currentPage]
+    () => shown.slice((currentPage - 1) * PAGE_SIZE, currentPage * PAGE_SIZE),
+    [shown, currentPage]
   );
 
   useEffect(() => {
@@ -127,42 +155,69 @@ export default function InvitePage() {
     return () => window.removeEventListener("keydown", onKey);
   }, [viewerOpen]);
 
-  const loadArtworks = async (): Promise<{ ok: boolean; count: number }> => {
+  const loadArtworks = async (): Promise<{ ok: boolean; count: number; cachedAt: number | null }> => {
+    const snapshotKey = `invite:${token}:artworks`;
     const { data, error } = await supabase.rpc("get_artworks_by_token", { p_token: token });
 
+    let rows: ArtworkRowFromRPC[];
+    let cachedAt: number | null = null;
     if (error) {
-      setArtworks([]);
-      setDebug((prev) => (prev ? prev : "") + `\n[get_artworks_by_token] ${error.message}`);
-      return { ok: false, count: 0 };
+      // 연결이 없으면 이 기기에서 마지막으로 본 목록을 보여 준다.
+      const snap = isNetworkFailure(error.message) ? await loadGallerySnapshot<ArtworkRowFromRPC[]>(snapshotKey) : null;
+      if (!snap) {
+        setArtworks([]);
+        setDebug((prev) => (prev ? prev : "") + `\n[get_artworks_by_token] ${error.message}`);
+        return { ok: false, count: 0, cachedAt: null };
+      }
+      rows = snap.data;
+      cachedAt = snap.savedAt;
+    } else {
+      rows = (data ?? []) as ArtworkRowFromRPC[];
+      void saveGallerySnapshot(snapshotKey, rows);
     }
 
-    const rows = (data ?? []) as ArtworkRowFromRPC[];
-    const mapped: ArtworkView[] = rows.map((a) => ({
-      id: a.id,
-      kid_name: a.kid_name,
-      title: a.title,
-      image_url: toImageUrlFromRow(a),
-      created_at: a.created_at,
-      artwork_made_at: a.artwork_made_at ?? null,
-    }));
+    const mapped: ArtworkView[] = rows.map((a) => {
+      const urls = resolveArtworkImage(a);
+      return {
+        id: a.id,
+        kid_name: a.kid_name,
+        title: a.title,
+        image_url: urls.display,
+        image_sources: urls.displaySources,
+        thumb_url: urls.thumbnail,
+        thumb_sources: urls.thumbnailSources,
+        created_at: a.created_at,
+        artwork_made_at: a.artwork_made_at ?? null,
+        kid_age_months: a.kid_age_months ?? null,
+        story: a.story ?? null,
+        ...pickCatalog(a),
+      };
+    });
 
     setArtworks(mapped);
     setPage(1);
-    return { ok: true, count: mapped.length };
+    return { ok: true, count: mapped.length, cachedAt };
   };
 
-  const loadGuestbook = async (): Promise<{ ok: boolean; count: number }> => {
+  const loadGuestbook = async (): Promise<{ ok: boolean; count: number; cachedAt: number | null }> => {
+    const snapshotKey = `invite:${token}:guestbook`;
     const { data, error } = await supabase.rpc("get_guestbook_entries_by_token", { p_token: token });
 
     if (error) {
-      setEntries([]);
-      setDebug((prev) => (prev ? prev : "") + `\n[get_guestbook_entries_by_token] ${error.message}`);
-      return { ok: false, count: 0 };
+      const snap = isNetworkFailure(error.message) ? await loadGallerySnapshot<Entry[]>(snapshotKey) : null;
+      if (!snap) {
+        setEntries([]);
+        setDebug((prev) => (prev ? prev : "") + `\n[get_guestbook_entries_by_token] ${error.message}`);
+        return { ok: false, count: 0, cachedAt: null };
+      }
+      setEntries(snap.data);
+      return { ok: true, count: snap.data.length, cachedAt: snap.savedAt };
     }
 
     const list = (data ?? []) as Entry[];
     setEntries(list);
-    return { ok: true, count: list.length };
+    void saveGallerySnapshot(snapshotKey, list);
+    return { ok: true, count: list.length, cachedAt: null };
   };
 
   const loadAll = async () => {
@@ -187,6 +242,7 @@ export default function InvitePage() {
       return;
     }
 
+    setCachedAt(artRes.cachedAt ?? guestRes.cachedAt);
     setStatus(artRes.count === 0 ? "전시된 작품이 아직 없어요." : "");
     setLoading(false);
   };
@@ -202,6 +258,14 @@ export default function InvitePage() {
     return () => window.clearTimeout(timer);
   }, [token]);
 
+  // 저장해 둔 목록을 보는 중에 연결이 돌아오면 새로 불러온다.
+  useEffect(() => {
+    if (cachedAt == null) return;
+    const onOnline = () => loadAllEvent();
+    window.addEventListener("online", onOnline);
+    return () => window.removeEventListener("online", onOnline);
+  }, [cachedAt]);
+
   const submit = async () => {
     if (submitBusy) return;
 
@@ -231,6 +295,10 @@ export default function InvitePage() {
     }
 
     const newEntry = data as unknown as Entry;
+
+    // 가족에게 바로 알림이 가도록 (DB 트리거가 쌓아 둔 푸시를 보낸다)
+    if (newEntry?.id) kickPushDispatch(token, newEntry.id);
+
     setEntries((prev) => [newEntry, ...prev]);
     setName("");
     setContent("");
@@ -250,6 +318,12 @@ export default function InvitePage() {
         <div className="right" />
       </header>
 
+      {cachedAt != null ? (
+        <div className="offlineBanner">
+          오프라인 — 저장해 둔 작품을 보여 주는 중 ({formatSnapshotTime(cachedAt)} 기준). 연결되면 새로 불러와요.
+        </div>
+      ) : null}
+
       {status && <div className="notice">{status}</div>}
       {loading && !status && <div className="notice">불러오는 중...</div>}
 
@@ -263,6 +337,24 @@ export default function InvitePage() {
       <section className="section">
         <div className="secTitle">작품</div>
 
+        <KidFilter
+          options={kidOptions}
+          value={activeKid}
+          total={artworks.length}
+          onChange={(key) => {
+            setKidFilter(key);
+            setPage(1);
+          }}
+        />
+        <CatalogFilter
+          rows={artworks}
+          value={catalogFilter}
+          onChange={(next) => {
+            setCatalogFilter(next);
+            setPage(1);
+          }}
+        />
+
         {artworks.length === 0 ? (
           <div className="empty">
             <div className="emptyTitle">전시된 작품이 없어요.</div>
@@ -273,7 +365,7 @@ export default function InvitePage() {
             {pagedArtworks.map((a) => (
               <article className="card" key={a.id}>
                 {(() => {
-                  const absoluteIndex = artworks.findIndex((item) => item.id === a.id);
+                  const absoluteIndex = shown.findIndex((item) => item.id === a.id);
                   return (
                 <div
                   className="thumbWrap"
@@ -283,22 +375,28 @@ export default function InvitePage() {
                   onKeyDown={(e) => e.key === "Enter" && openViewer(a, absoluteIndex)}
                   title="클릭하면 크게 보기"
                 >
-                  {/* eslint-disable-next-line @next/next/no-img-element */}
-                  <img
-                    className="img"
-                    src={a.image_url}
-                    alt={a.title}
-                    loading="lazy"
-                    onError={() => {
-                      setDebug((prev) => (prev ? prev : "") + `\n[img_error] ${a.image_url || "(empty url)"}`);
-                    }}
-                  />
+                  <picture className="pic">
+                    {a.thumb_sources.avif ? <source type="image/avif" srcSet={a.thumb_sources.avif} /> : null}
+                    {a.thumb_sources.webp ? <source type="image/webp" srcSet={a.thumb_sources.webp} /> : null}
+                    <img
+                      className="img"
+                      src={a.thumb_url}
+                      alt={a.title}
+                      loading="lazy"
+                      onError={() => {
+                        setDebug((prev) => (prev ? prev : "") + `\n[img_error] ${a.thumb_url || "(empty url)"}`);
+                      }}
+                    />
+                  </picture>
                   <div className="overlay">
                     <div className="overlayTop">
                       <div className="kid">{a.kid_name}</div>
                     </div>
                     <div className="title">{a.title}</div>
-                    <div className="overlayMeta">작품제작일 {fmt(a.artwork_made_at ?? a.created_at)}</div>
+                    <div className="overlayMeta">
+                      작품제작일 {fmt(a.artwork_made_at ?? a.created_at)}
+                      {a.kid_age_months != null ? ` · ${formatKidAge(a.kid_age_months)}` : ""}
+                    </div>
                   </div>
                 </div>
                   );
@@ -309,7 +407,7 @@ export default function InvitePage() {
         )}
       </section>
 
-      {artworks.length > PAGE_SIZE && (
+      {shown.length > PAGE_SIZE && (
         <div className="pager">
           <button className="pageBtn" onClick={() => setPage((prev) => Math.max(1, prev - 1))} disabled={currentPage === 1}>
             이전
@@ -344,14 +442,48 @@ export default function InvitePage() {
               </div>
             </div>
 
-            {/* eslint-disable-next-line @next/next/no-img-element */}
-            <img className="modalImg" src={viewerSrc} alt={viewerArt.title} />
+            <picture className="pic">
+              {viewerArt.image_sources.avif ? <source type="image/avif" srcSet={viewerArt.image_sources.avif} /> : null}
+              {viewerArt.image_sources.webp ? <source type="image/webp" srcSet={viewerArt.image_sources.webp} /> : null}
+              <img className="modalImg" src={viewerSrc} alt={viewerArt.title} />
+            </picture>
+            <ArtworkPlacard
+              title={viewerArt.title}
+              kidName={viewerArt.kid_name}
+              ageMonths={viewerArt.kid_age_months}
+              catalog={viewerArt}
+              story={viewerArt.story}
+            />
 
             <div className="modalInfo">
               <div className="infoRow">
                 <span className="infoKey">작품제작일</span>
                 <span className="infoVal">{fmt(viewerArt.artwork_made_at ?? viewerArt.created_at)}</span>
               </div>
+              {viewerArt.kid_age_months != null ? (
+                <div className="infoRow">
+                  <span className="infoKey">그린 나이</span>
+                  <span className="infoVal">{formatKidAge(viewerArt.kid_age_months)}</span>
+                </div>
+              ) : null}
+              {viewerArt.medium ? (
+                <div className="infoRow">
+                  <span className="infoKey">재료</span>
+                  <span className="infoVal">{mediumLabel(viewerArt.medium)}</span>
+                </div>
+              ) : null}
+              {formatArtworkSize(viewerArt) ? (
+                <div className="infoRow">
+                  <span className="infoKey">크기</span>
+                  <span className="infoVal">{formatArtworkSize(viewerArt)}</span>
+                </div>
+              ) : null}
+              {viewerArt.tags.length > 0 ? (
+                <div className="infoRow">
+                  <span className="infoKey">태그</span>
+                  <span className="infoVal">{viewerArt.tags.map((t) => `#${t}`).join(" ")}</span>
+                </div>
+              ) : null}
             </div>
           </div>
         </div>
@@ -416,6 +548,7 @@ export default function InvitePage() {
         .h1 { margin: 6px 0 6px; letter-spacing: -0.6px; font-size: 28px; }
         .desc { margin: 0; color: #6b7280; font-size: 14px; line-height: 1.45; }
         .right { min-height: 1px; }
+        .offlineBanner { margin-top: 14px; padding: 10px 12px; border-radius: 12px; background: #fef3c7; color: #92400e; font-size: 13px; font-weight: 800; }
         .notice { margin-top: 14px; padding: 10px 12px; border: 1px solid #eee; border-radius: 12px; background: #fff; color: #111827; font-size: 13px; }
         .debug { margin-top: 12px; border: 1px solid #fee2e2; background: #fff7ed; border-radius: 12px; padding: 10px 12px; }
         .pre { margin: 8px 0 0; white-space: pre-wrap; word-break: break-word; font-size: 12px; }
@@ -432,12 +565,13 @@ export default function InvitePage() {
         .kid { font-size: 12px; color: rgba(255,255,255,0.82); font-weight: 800; }
         .title { font-weight: 900; letter-spacing: -0.3px; word-break: break-word; line-height: 1.25; }
         .overlayMeta { margin-top: 6px; font-size: 11px; color: rgba(255,255,255,0.78); font-weight: 700; }
+        .pic { display: block; }
         .img { width: 100%; aspect-ratio: 1 / 1; object-fit: cover; display: block; background: #f3f4f6; border: 1px solid #f1f5f9; }
         .pager { margin-top: -4px; display: flex; align-items: center; justify-content: center; gap: 10px; }
         .pageBtn { padding: 10px 12px; border-radius: 12px; border: 1px solid #e5e7eb; background: #fff; color: #111827; font-size: 12px; font-weight: 900; cursor: pointer; }
         .pagerText { min-width: 72px; text-align: center; font-size: 12px; color: #6b7280; font-weight: 900; }
         .modal { position: fixed; inset: 0; background: rgba(17, 24, 39, 0.6); display: flex; align-items: center; justify-content: center; padding: 18px; z-index: 1000; }
-        .modalCard { width: min(1080px, 100%); max-height: 92vh; background: #fff; border-radius: 16px; border: 1px solid rgba(0, 0, 0, 0.08); overflow: hidden; box-shadow: 0 10px 30px rgba(0, 0, 0, 0.18); }
+        .modalCard { width: min(1080px, 100%); max-height: 92vh; background: #fff; border-radius: 16px; border: 1px solid rgba(0, 0, 0, 0.08); overflow: hidden auto; box-shadow: 0 10px 30px rgba(0, 0, 0, 0.18); }
         .modalTop { display: flex; justify-content: space-between; gap: 12px; align-items: center; padding: 12px 14px; border-bottom: 1px solid #eef0f3; }
         .modalTitleWrap { min-width: 0; }
         .modalEyebrow { font-size: 11px; color: #6b7280; font-weight: 900; letter-spacing: 0.08em; text-transform: uppercase; }
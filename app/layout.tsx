@@ -1,6 +1,8 @@
 import type { Metadata, Viewport } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
+import ServiceWorkerBridge from "./components/ServiceWorkerBridge";
+import UpdatePrompt from "./components/UpdatePrompt";
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -41,6 +43,8 @@ export default function RootLayout({ children }: { children: React.ReactNode })
         className={`${geistSans.variable} ${geistMono.variable} antialiased min-h-dvh bg-background text-foreground`}
       >
         {children}
+        <ServiceWorkerBridge />
+        <UpdatePrompt />
       </body>
     </html>
   );
@@ -0,0 +1,481 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { supabase } from "../../../lib/supabaseClient";
+import { backfillPerceptualHashes, deleteArtworkRecord, MAX_PHASH_SKIP, type StorageProvider } from "../../../lib/storage";
+import { resolveArtworkImage } from "../../../lib/artworkImage";
+import { dismissalPair, groupSimilar, hammingDistance, PHASH_THRESHOLDS, type PhashSensitivity } from "../../../lib/phash";
+import type { ArtworkRenditions } from "../../../lib/renditions";
+import { kidAvatarUrl, kidColor, kidLabel, listKids, type Kid } from "../../../lib/kids";
+import KidFilter, { type KidFilterOption } from "../../components/KidFilter";
+
+type Artwork = {
+  id: string;
+  kid_id: string | null;
+  kid_name: string;
+  title: string;
+  private_image_path: string;
+  created_at: string;
+  is_public: boolean;
+  public_until: string | null;
+  artwork_made_at: string | null;
+  storage_provider: StorageProvider;
+  storage_key: string | null;
+  renditions: ArtworkRenditions | null;
+  phash: string | null;
+};
+
+type Group = { key: string; items: Artwork[]; distance: number };
+
+const SENSITIVITY_LABELS: Record<PhashSensitivity, string> = {
+  strict: "거의 똑같은 것만",
+  normal: "보통",
+  loose: "조금 달라도",
+};
+
+function formatKoreanDate(iso: string | null) {
+  if (!iso) return "-";
+  const d = new Date(iso);
+  if (Number.isNaN(d.getTime())) return "-";
+  return new Intl.DateTimeFormat("ko-KR", { year: "numeric", month: "2-digit", day: "2-digit" }).format(d);
+}
+
+function earliest(values: (string | null)[]) {
+  const times = values.filter((v): v is string => !!v).sort((a, b) => new Date(a).getTime() - new Date(b).getTime());
+  return times[0] ?? null;
+}
+
+function latest(values: (string | null)[]) {
+  const times = values.filter((v): v is string => !!v).sort((a, b) => new Date(b).getTime() - new Date(a).getTime());
+  return times[0] ?? null;
+}
+
+/** 합치기 전에 남길 작품에 옮겨 줄 값: 가장 이른 제작일, 누구 하나라도 공개 중이면 가장 긴 공개 기간 */
+function mergedFields(keep: Artwork, others: Artwork[]) {
+  const all = [keep, ...others];
+  const patch: { artwork_made_at?: string; is_public?: boolean; public_until?: string | null } = {};
+
+  const madeAt = earliest(all.map((a) => a.artwork_made_at));
+  if (madeAt && madeAt !== keep.artwork_made_at) patch.artwork_made_at = madeAt;
+
+  const publicOnes = all.filter((a) => a.is_public);
+  if (publicOnes.length > 0) {
+    const until = publicOnes.some((a) => !a.public_until) ? null : latest(publicOnes.map((a) => a.public_until));
+    if (!keep.is_public || until !== keep.public_until) {
+      patch.is_public = true;
+      patch.public_until = until;
+    }
+  }
+  return patch;
+}
+
+/** fromIds 작품들의 중복 확인용 지문(artwork_hashes)을 toId 작품에도 넣는다. 실패하면 오류 메시지 */
+async function copyHashes(fromIds: string[], toId: string) {
+  const { data, error } = await supabase.from("artwork_hashes").select("family_id, sha256").in("artwork_id", fromIds);
+  if (error) return error.message;
+
+  const rows = (data ?? []).map((h) => ({ artwork_id: toId, family_id: h.family_id as string, sha256: h.sha256 as string }));
+  if (rows.length === 0) return null;
+  const { error: upErr } = await supabase
+    .from("artwork_hashes")
+    .upsert(rows, { onConflict: "artwork_id,sha256", ignoreDuplicates: true });
+  return upErr ? upErr.message : null;
+}
+
+export default function DuplicatesPage() {
+  const router = useRouter();
+
+  const [items, setItems] = useState<Artwork[]>([]);
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set());
+  const [familyId, setFamilyId] = useState<string | null>(null);
+  const [msg, setMsg] = useState("");
+  const [loaded, setLoaded] = useState(false);
+
+  const [sensitivity, setSensitivity] = useState<PhashSensitivity>("normal");
+  const [keepChoice, setKeepChoice] = useState<Record<string, string>>({});
+  const [busyGroup, setBusyGroup] = useState<string | null>(null);
+  const [hashing, setHashing] = useState(false);
+  const [kids, setKids] = useState<Kid[]>([]);
+  const [kidFilter, setKidFilter] = useState<string | null>(null);
+
+  const missingCount = items.filter((a) => !a.phash).length;
+
+  const groups = useMemo<Group[]>(
+    () =>
+      groupSimilar(items, PHASH_THRESHOLDS[sensitivity], dismissed).map((g) => ({
+        ...g,
+        key: g.items.map((a) => a.id).sort().join(","),
+      })),
+    [items, sensitivity, dismissed]
+  );
+
+  // 아이로 고르면 그 아이 작품이 하나라도 든 묶음만 보여 준다.
+  const kidOptions = useMemo<KidFilterOption[]>(
+    () =>
+      kids
+        .map((k) => ({
+          key: k.id,
+          label: kidLabel(k),
+          count: groups.filter((g) => g.items.some((a) => a.kid_id === k.id)).length,
+          color: kidColor(k),
+          avatarUrl: kidAvatarUrl(k),
+        }))
+        .filter((o) => o.count > 0),
+    [kids, groups]
+  );
+  const activeKid = kidOptions.some((o) => o.key === kidFilter) ? kidFilter : null;
+  const shownGroups = activeKid === null ? groups : groups.filter((g) => g.items.some((a) => a.kid_id === activeKid));
+
+  const load = async (fid: string) => {
+    setMsg("불러오는 중...");
+
+    const [arts, dis] = await Promise.all([
+      supabase
+        .from("artworks")
+        .select("id, kid_id, kid_name, title, private_image_path, created_at, is_public, public_until, artwork_made_at, storage_provider, storage_key, renditions, phash")
+        .eq("family_id", fid)
+        .order("created_at", { ascending: true })
+        .limit(2000),
+      supabase.from("artwork_duplicate_dismissals").select("artwork_a, artwork_b").eq("family_id", fid),
+      listKids().then(({ kids }) => setKids(kids)),
+    ]);
+
+    if (arts.error) {
+      setMsg("❌ 조회 실패: " + arts.error.message);
+      return;
+    }
+    if (dis.error) setMsg("⚠️ ‘모두 남기기’ 기록 조회 실패: " + dis.error.message);
+    else setMsg("");
+
+    setItems((arts.data ?? []) as Artwork[]);
+    setDismissed(new Set((dis.data ?? []).map((d) => `${d.artwork_a}|${d.artwork_b}`)));
+    setLoaded(true);
+  };
+
+  useEffect(() => {
+    const run = async () => {
+      const { data } = await supabase.auth.getSession();
+      if (!data.session) {
+        router.replace("/login");
+        return;
+      }
+
+      const { data: prof, error } = await supabase
+        .from("profiles")
+        .select("family_id")
+        .eq("user_id", data.session.user.id)
+        .maybeSingle();
+
+      if (error || !prof?.family_id) {
+        setMsg("⚠️ 프로필 조회 실패: " + (error?.message ?? "unknown"));
+        return;
+      }
+
+      setFamilyId(prof.family_id);
+      await load(prof.family_id);
+    };
+
+    run();
+  }, [router]);
+
+  /** 예전 작품의 지문(phash)을 서버에서 묶음으로 계산한다. */
+  const computeMissing = async () => {
+    if (!familyId) return;
+    setHashing(true);
+
+    const skip: string[] = [];
+    let done = 0;
+    let result = "";
+    for (;;) {
+      setMsg(`지문 계산 중... ${done}개 완료`);
+      const res = await backfillPerceptualHashes(skip);
+      if (res.error) {
+        result = "❌ 지문 계산 실패: " + res.error;
+        break;
+      }
+      done += res.hashed;
+      skip.push(...res.failed);
+      // 실패가 너무 많이 쌓이면 서버가 더 받지 않으므로 여기서 멈춘다.
+      if (res.hashed + res.failed.length === 0 || res.remaining <= skip.length || skip.length >= MAX_PHASH_SKIP) {
+        result = skip.length > 0 ? `⚠️ 지문 계산 ${done}개 완료, ${skip.length}개는 사진을 읽지 못했어요.` : `✅ 지문 계산 ${done}개 완료`;
+        break;
+      }
+    }
+
+    await load(familyId);
+    setMsg(result);
+    setHashing(false);
+  };
+
+  /** 모두 남기기: 이 묶음의 모든 쌍을 다시 제안하지 않는다. */
+  const keepAll = async (group: Group) => {
+    if (!familyId) return;
+    setBusyGroup(group.key);
+
+    const rows: { family_id: string; artwork_a: string; artwork_b: string }[] = [];
+    for (let i = 0; i < group.items.length; i++) {
+      for (let j = i + 1; j < group.items.length; j++) {
+        const [a, b] = dismissalPair(group.items[i].id, group.items[j].id);
+        rows.push({ family_id: familyId, artwork_a: a, artwork_b: b });
+      }
+    }
+
+    const { error } = await supabase
+      .from("artwork_duplicate_dismissals")
+      .upsert(rows, { onConflict: "artwork_a,artwork_b", ignoreDuplicates: true });
+
+    setBusyGroup(null);
+    if (error) {
+      setMsg("❌ 저장 실패: " + error.message);
+      return;
+    }
+
+    setDismissed((prev) => new Set([...prev, ...rows.map((r) => `${r.artwork_a}|${r.artwork_b}`)]));
+    setMsg("✅ 서로 다른 작품으로 표시했어요.");
+  };
+
+  /** 합치기: 고른 작품 하나만 남기고 나머지는 지운다. 제작일·공개 기간·중복 확인용 지문은 남길 작품으로 옮긴다. */
+  const merge = async (group: Group) => {
+    const keepId = keepChoice[group.key] ?? group.items[0].id;
+    const keep = group.items.find((a) => a.id === keepId);
+    if (!keep) return;
+    const others = group.items.filter((a) => a.id !== keepId);
+
+    const ok = confirm(`‘${keep.title}’만 남기고 나머지 ${others.length}개를 삭제할까? (사진도 함께 삭제돼)`);
+    if (!ok) return;
+
+    setBusyGroup(group.key);
+    setMsg("합치는 중...");
+
+    const patch = mergedFields(keep, others);
+    if (Object.keys(patch).length > 0) {
+      const { error } = await supabase.from("artworks").update(patch).eq("id", keep.id);
+      if (error) {
+        setMsg("❌ 합치기 실패(아무것도 지우지 않았어요): " + error.message);
+        setBusyGroup(null);
+        return;
+      }
+    }
+
+    // 지운 작품의 원본을 다시 골라도 업로드 화면이 "이미 올린 작품"으로 알려 주도록 지문을 남길 작품에도 넣는다.
+    // 같은 지문이 이미 있으면 그대로 둔다 (기본 키가 (artwork_id, sha256)). 지운 작품 쪽 행은 삭제와 함께 사라진다.
+    const hashErr = await copyHashes(others.map((a) => a.id), keep.id);
+    if (hashErr) {
+      setMsg("❌ 합치기 실패(아무것도 지우지 않았어요): " + hashErr);
+      setBusyGroup(null);
+      return;
+    }
+
+    const removed: string[] = [];
+    const failures: string[] = [];
+    for (const other of others) {
+      const { error, rowDeleted } = await deleteArtworkRecord(other.id);
+      if (!error || rowDeleted) removed.push(other.id);
+      if (error) failures.push(`${other.title}: ${error}`);
+    }
+
+    setItems((prev) =>
+      prev.filter((a) => !removed.includes(a.id)).map((a) => (a.id === keep.id ? { ...a, ...patch } : a))
+    );
+    setBusyGroup(null);
+    setMsg(failures.length > 0 ? "⚠️ 일부 작품을 지우지 못했어요 — " + failures.join(" / ") : `✅ ${removed.length}개를 ‘${keep.title}’로 합쳤어요.`);
+  };
+
+  const deleteOne = async (group: Group, art: Artwork) => {
+    const ok = confirm(`‘${art.title}’을(를) 삭제할까? (사진도 함께 삭제돼)`);
+    if (!ok) return;
+
+    setBusyGroup(group.key);
+    setMsg("삭제 중...");
+
+    const { error, rowDeleted } = await deleteArtworkRecord(art.id);
+    setBusyGroup(null);
+
+    if (error && !rowDeleted) {
+      setMsg("❌ 삭제 실패(작품은 그대로 있어요): " + error);
+      return;
+    }
+
+    setItems((prev) => prev.filter((a) => a.id !== art.id));
+    setMsg(error ? "⚠️ 작품은 지웠지만 사진 파일이 남았어요. ‘저장소 점검’에서 확인할 수 있어요." : "✅ 삭제 완료");
+  };
+
+  return (
+    <main className="wrap">
+      <header className="header">
+        <div>
+          <div className="eyebrow">FAMILY ROOM</div>
+          <h1 className="h1">비슷한 작품 정리</h1>
+          <p className="desc">같은 그림을 여러 번 찍은 것 같은 작품을 나란히 보여줘요. 남길 작품을 골라 합치거나, 서로 다른 작품이면 ‘모두 남기기’를 눌러주세요.</p>
+        </div>
+
+        <div className="right">
+          <Link className="ghost" href="/manage">
+            작품 관리
+          </Link>
+        </div>
+      </header>
+
+      <div className="toolbar">
+        <label className="field">
+          <span className="fieldLabel">얼마나 닮아야 묶을까요?</span>
+          <select className="select" value={sensitivity} onChange={(e) => setSensitivity(e.target.value as PhashSensitivity)}>
+            {(Object.keys(PHASH_THRESHOLDS) as PhashSensitivity[]).map((s) => (
+              <option key={s} value={s}>
+                {SENSITIVITY_LABELS[s]}
+              </option>
+            ))}
+          </select>
+        </label>
+
+        <div className="toolbarBtns">
+          {missingCount > 0 && (
+            <button className="darkBtn" onClick={computeMissing} disabled={hashing || !familyId} title="예전에 올린 작품은 지문이 없어서 비교할 수 없어요">
+              {hashing ? "계산 중..." : `지문 계산 (${missingCount}개 남음)`}
+            </button>
+          )}
+          <button className="ghostBtn" onClick={() => familyId && load(familyId)} disabled={!familyId || hashing}>
+            새로고침
+          </button>
+        </div>
+      </div>
+
+      <KidFilter options={kidOptions} value={activeKid} total={groups.length} onChange={setKidFilter} />
+
+      {msg && <div className="notice">{msg}</div>}
+
+      {loaded && shownGroups.length === 0 ? (
+        <div className="empty">
+          <div className="emptyTitle">비슷한 작품이 없어요</div>
+          <div className="emptyDesc">
+            {missingCount > 0 ? `아직 지문이 없는 작품 ${missingCount}개는 비교하지 못했어요. ‘지문 계산’을 눌러주세요.` : "작품 전체를 비교했어요."}
+          </div>
+        </div>
+      ) : (
+        <div className="groups">
+          {shownGroups.map((group) => {
+            const keepId = keepChoice[group.key] ?? group.items[0].id;
+            const busy = busyGroup === group.key;
+            const keep = group.items.find((a) => a.id === keepId) ?? group.items[0];
+
+            return (
+              <section className="group" key={group.key}>
+                <div className="groupTop">
+                  <div className="groupTitle">
+                    {group.items.length}개 · {group.distance === 0 ? "똑같아 보여요" : `차이 ${group.distance}/64`}
+                  </div>
+                  <div className="groupBtns">
+                    <button className="ghostBtn" onClick={() => keepAll(group)} disabled={busy}>
+                      모두 남기기
+                    </button>
+                    <button className="darkBtn" onClick={() => merge(group)} disabled={busy}>
+                      고른 작품으로 합치기
+                    </button>
+                  </div>
+                </div>
+
+                <div className="row">
+                  {group.items.map((a) => {
+                    const urls = resolveArtworkImage(a);
+                    const chosen = a.id === keepId;
+                    return (
+                      <article className={`card ${chosen ? "chosen" : ""}`} key={a.id}>
+                        <picture className="pic">
+                          {urls.thumbnailSources.avif ? <source type="image/avif" srcSet={urls.thumbnailSources.avif} /> : null}
+                          {urls.thumbnailSources.webp ? <source type="image/webp" srcSet={urls.thumbnailSources.webp} /> : null}
+                          <img className="img" src={urls.thumbnail} alt={a.title} loading="lazy" />
+                        </picture>
+
+                        <div className="meta">
+                          <div className="kid">{a.kid_name}</div>
+                          <div className="title">{a.title}</div>
+                          <div className="sub">제작일 {formatKoreanDate(a.artwork_made_at)}</div>
+                          <div className="sub">업로드 {formatKoreanDate(a.created_at)}</div>
+                          {a.is_public && <div className="sub">공개중</div>}
+                          {!chosen && a.phash && keep.phash && <div className="sub">남길 작품과 차이 {hammingDistance(a.phash, keep.phash)}/64</div>}
+                        </div>
+
+                        <div className="cardActions">
+                          <label className="radio">
+                            <input
+                              type="radio"
+                              name={`keep-${group.key}`}
+                              checked={chosen}
+                              onChange={() => setKeepChoice((prev) => ({ ...prev, [group.key]: a.id }))}
+                              disabled={busy}
+                            />
+                            남길 작품
+                          </label>
+                          <Link className="linkBtn" href={`/manage?artwork=${a.id}`}>
+                            크게 보기
+                          </Link>
+                          <button className="delBtn" onClick={() => deleteOne(group, a)} disabled={busy}>
+                            삭제
+                          </button>
+                        </div>
+                      </article>
+                    );
+                  })}
+                </div>
+
+                {busy && <div className="busy">처리 중…</div>}
+              </section>
+            );
+          })}
+        </div>
+      )}
+
+      <style jsx>{`
+        .wrap { padding: 38px; max-width: 1280px; margin: 0 auto; }
+        .header { display: flex; align-items: flex-end; justify-content: space-between; gap: 14px; padding-bottom: 14px; border-bottom: 1px solid #eef0f3; }
+        .eyebrow { font-size: 11px; letter-spacing: 0.18em; color: #6b7280; }
+        .h1 { margin: 6px 0 6px; letter-spacing: -0.6px; font-size: 28px; }
+        .desc { margin: 0; color: #6b7280; font-size: 14px; line-height: 1.45; max-width: 640px; }
+        .right { display: flex; gap: 10px; align-items: center; flex-wrap: wrap; justify-content: flex-end; }
+        .ghost { font-size: 12px; padding: 10px 12px; border-radius: 12px; border: 1px solid #e5e7eb; background: #fff; color: #111827; text-decoration: none; font-weight: 800; }
+
+        .toolbar { margin-top: 14px; display: flex; gap: 10px; align-items: flex-end; justify-content: space-between; flex-wrap: wrap; }
+        .toolbarBtns { display: flex; gap: 8px; flex-wrap: wrap; justify-content: flex-end; }
+        .field { display: grid; gap: 6px; }
+        .fieldLabel { font-size: 12px; color: #6b7280; font-weight: 800; }
+        .select { padding: 10px 12px; border-radius: 12px; border: 1px solid #e5e7eb; background: #fff; font-size: 13px; }
+        .ghostBtn { padding: 10px 12px; border-radius: 12px; border: 1px solid #e5e7eb; background: #fff; cursor: pointer; font-size: 12px; font-weight: 900; }
+        .darkBtn { padding: 10px 12px; border-radius: 12px; border: 1px solid rgba(0,0,0,0.08); background: #111827; color: #fff; cursor: pointer; font-size: 12px; font-weight: 900; }
+        .ghostBtn:disabled, .darkBtn:disabled { opacity: 0.45; cursor: not-allowed; }
+        .notice { margin-top: 14px; padding: 10px 12px; border: 1px solid #eee; border-radius: 12px; background: #fff; color: #111827; font-size: 13px; }
+
+        .empty { margin-top: 18px; border: 1px solid #eef0f3; border-radius: 16px; padding: 18px; background: #fafafa; }
+        .emptyTitle { font-weight: 900; letter-spacing: -0.4px; }
+        .emptyDesc { margin-top: 6px; font-size: 13px; color: #6b7280; line-height: 1.45; }
+
+        .groups { margin-top: 16px; display: grid; gap: 14px; }
+        .group { border: 1px solid #e8ebf0; border-radius: 18px; background: #fff; padding: 14px; box-shadow: 0 10px 24px rgba(17, 24, 39, 0.06); }
+        .groupTop { display: flex; align-items: center; justify-content: space-between; gap: 10px; flex-wrap: wrap; }
+        .groupTitle { font-weight: 900; letter-spacing: -0.3px; }
+        .groupBtns { display: flex; gap: 8px; flex-wrap: wrap; }
+        .row { margin-top: 12px; display: grid; grid-auto-flow: column; grid-auto-columns: minmax(200px, 240px); gap: 12px; overflow-x: auto; padding-bottom: 4px; }
+        .card { border: 2px solid #eef0f3; border-radius: 16px; padding: 8px; background: #fff; display: grid; gap: 8px; align-content: start; }
+        .card.chosen { border-color: #111827; }
+        .pic { display: block; }
+        .img { width: 100%; aspect-ratio: 1 / 1; object-fit: contain; display: block; background: #f3f4f6; border-radius: 12px; }
+        .meta { display: grid; gap: 3px; }
+        .kid { font-size: 12px; color: #6b7280; font-weight: 800; }
+        .title { font-weight: 900; letter-spacing: -0.3px; word-break: break-word; line-height: 1.25; }
+        .sub { font-size: 12px; color: #6b7280; font-weight: 700; }
+        .cardActions { display: flex; align-items: center; gap: 8px; flex-wrap: wrap; }
+        .radio { display: flex; align-items: center; gap: 4px; font-size: 12px; font-weight: 900; cursor: pointer; }
+        .linkBtn { font-size: 12px; font-weight: 900; color: #111827; text-decoration: underline; }
+        .delBtn { margin-left: auto; padding: 8px 10px; border-radius: 12px; border: 1px solid #e5e7eb; background: #fff; cursor: pointer; font-size: 12px; font-weight: 900; }
+        .busy { margin-top: 10px; font-size: 12px; color: #6b7280; }
+
+        @media (max-width: 720px) {
+          .wrap { padding: 18px; }
+          .header { align-items: flex-start; flex-direction: column; }
+          .row { grid-auto-columns: minmax(160px, 70%); }
+        }
+      `}</style>
+    </main>
+  );
+}
@@ -0,0 +1,239 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { useParams, useRouter } from "next/navigation";
+import { supabase } from "../../../../lib/supabaseClient";
+import type { StorageProvider } from "../../../../lib/storage";
+import { resolveArtworkImage } from "../../../../lib/artworkImage";
+import type { ArtworkRenditions } from "../../../../lib/renditions";
+import { formatKidAge, kidAvatarUrl, kidColor, kidLabel, type Kid } from "../../../../lib/kids";
+
+type Artwork = {
+  id: string;
+  title: string;
+  private_image_path: string;
+  created_at: string;
+  artwork_made_at: string | null;
+  kid_age_months: number | null;
+  storage_provider: StorageProvider;
+  storage_key: string | null;
+  renditions: ArtworkRenditions | null;
+};
+
+type MonthGroup = { key: string; label: string; items: Artwork[] };
+type YearGroup = { key: string; label: string; months: MonthGroup[] };
+
+function madeAt(a: Artwork) {
+  return new Date(a.artwork_made_at ?? a.created_at);
+}
+
+function formatShortDate(d: Date) {
+  if (Number.isNaN(d.getTime())) return "-";
+  return new Intl.DateTimeFormat("ko-KR", { year: "numeric", month: "2-digit", day: "2-digit" }).format(d);
+}
+
+/**
+ * 오래된 작품부터 연·월로 묶는다.
+ * 생일을 알면 나이(만 N세 › M개월), 모르면 달력(YYYY년 › M월)으로. 나이를 모르는 작품은 맨 끝.
+ */
+function buildTimeline(items: Artwork[], byAge: boolean): YearGroup[] {
+  const sorted = [...items].sort((a, b) => madeAt(a).getTime() - madeAt(b).getTime());
+  const years: YearGroup[] = [];
+  const unknown: Artwork[] = [];
+
+  for (const a of sorted) {
+    let yearKey: string;
+    let yearLabel: string;
+    let monthKey: string;
+    let monthLabel: string;
+
+    if (byAge) {
+      if (a.kid_age_months == null) {
+        unknown.push(a);
+        continue;
+      }
+      const y = Math.floor(a.kid_age_months / 12);
+      yearKey = `age-${y}`;
+      yearLabel = y === 0 ? "첫 돌 전" : `만 ${y}세`;
+      monthKey = `${yearKey}-${a.kid_age_months}`;
+      monthLabel = formatKidAge(a.kid_age_months);
+    } else {
+      const d = madeAt(a);
+      yearKey = `year-${d.getFullYear()}`;
+      yearLabel = `${d.getFullYear()}년`;
+      monthKey = `${yearKey}-${d.getMonth()}`;
+      monthLabel = `${d.getMonth() + 1}월`;
+    }
+
+    let year = years[years.length - 1];
+    if (!year || year.key !== yearKey) {
+      year = { key: yearKey, label: yearLabel, months: [] };
+      years.push(year);
+    }
+    let month = year.months[year.months.length - 1];
+    if (!month || month.key !== monthKey) {
+      month = { key: monthKey, label: monthLabel, items: [] };
+      year.months.push(month);
+    }
+    month.items.push(a);
+  }
+
+  if (unknown.length > 0) {
+    years.push({ key: "unknown", label: "나이 모름", months: [{ key: "unknown-all", label: "생일 전이거나 제작일이 없는 작품", items: unknown }] });
+  }
+  return years;
+}
+
+export default function KidTimelinePage() {
+  const router = useRouter();
+  const params = useParams<{ id?: string }>();
+  const kidId = typeof params?.id === "string" ? params.id : "";
+
+  const [kid, setKid] = useState<Kid | null>(null);
+  const [items, setItems] = useState<Artwork[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [msg, setMsg] = useState("");
+
+  useEffect(() => {
+    const run = async () => {
+      const { data } = await supabase.auth.getSession();
+      if (!data.session) {
+        router.replace("/login");
+        return;
+      }
+
+      const [kidRes, arts] = await Promise.all([
+        supabase
+          .from("kids")
+          .select("id, family_id, name, nickname, birthdate, avatar_provider, avatar_key, color, aliases, created_at")
+          .eq("id", kidId)
+          .maybeSingle(),
+        supabase
+          .from("artworks")
+          .select("id, title, private_image_path, created_at, artwork_made_at, kid_age_months, storage_provider, storage_key, renditions")
+          .eq("kid_id", kidId)
+          .order("artwork_made_at", { ascending: true })
+          .limit(1000),
+      ]);
+
+      if (kidRes.error || !kidRes.data) {
+        setMsg("❌ 아이를 찾지 못했어요." + (kidRes.error ? " " + kidRes.error.message : ""));
+        setLoading(false);
+        return;
+      }
+      if (arts.error) setMsg("❌ 작품 조회 실패: " + arts.error.message);
+
+      setKid(kidRes.data as Kid);
+      setItems((arts.data ?? []) as Artwork[]);
+      setLoading(false);
+    };
+
+    run();
+  }, [router, kidId]);
+
+  const timeline = useMemo(() => buildTimeline(items, !!kid?.birthdate), [items, kid?.birthdate]);
+  const color = kidColor(kid);
+  const avatar = kidAvatarUrl(kid);
+
+  return (
+    <main className="wrap">
+      <header className="header">
+        <div className="who">
+          <span className="avatar" style={{ background: color }}>
+            {/* eslint-disable-next-line @next/next/no-img-element */}
+            {avatar ? <img src={avatar} alt="" /> : kid?.name.slice(0, 1)}
+          </span>
+          <div>
+            <div className="eyebrow">GROWTH TIMELINE</div>
+            <h1 className="h1">{kid ? kidLabel(kid) : "성장 타임라인"}</h1>
+            <p className="desc">
+              {kid?.birthdate
+                ? `${formatShortDate(new Date(`${kid.birthdate}T00:00:00`))} 생 · 작품 ${items.length}개를 그린 나이별로 모았어요.`
+                : "생일을 입력하면 작품을 그린 나이별로 묶어 보여 줘요. 지금은 만든 날짜별이에요."}
+            </p>
+          </div>
+        </div>
+        <div className="right">
+          <Link className="ghost" href="/manage/kids">
+            아이 관리
+          </Link>
+          <Link className="ghost" href="/manage">
+            가족 전시관
+          </Link>
+        </div>
+      </header>
+
+      {msg && <div className="notice">{msg}</div>}
+      {loading ? <div className="notice">불러오는 중...</div> : null}
+      {!loading && kid && items.length === 0 ? <div className="notice">아직 {kid.name}의 작품이 없어요.</div> : null}
+
+      <div className="timeline" style={{ borderColor: color }}>
+        {timeline.map((year) => (
+          <section className="year" key={year.key}>
+            <h2 className="yearLabel" style={{ background: color }}>
+              {year.label}
+            </h2>
+            {year.months.map((month) => (
+              <div className="month" key={month.key}>
+                <span className="dot" style={{ background: color }} />
+                <div className="monthLabel">
+                  {month.label} <span className="monthCount">{month.items.length}점</span>
+                </div>
+                <div className="grid">
+                  {month.items.map((a) => {
+                    const urls = resolveArtworkImage(a);
+                    return (
+                      <Link className="item" key={a.id} href={`/manage?artwork=${encodeURIComponent(a.id)}`} title="가족 전시관에서 크게 보기">
+                        <picture className="pic">
+                          {urls.thumbnailSources.avif ? <source type="image/avif" srcSet={urls.thumbnailSources.avif} /> : null}
+                          {urls.thumbnailSources.webp ? <source type="image/webp" srcSet={urls.thumbnailSources.webp} /> : null}
+                          <img className="img" src={urls.thumbnail} alt={a.title} loading="lazy" />
+                        </picture>
+                        <div className="itemTitle">{a.title}</div>
+                        <div className="itemDate">{formatShortDate(madeAt(a))}</div>
+                      </Link>
+                    );
+                  })}
+                </div>
+              </div>
+            ))}
+          </section>
+        ))}
+      </div>
+
+      <style jsx>{`
+        .wrap { padding: 38px; max-width: 960px; margin: 0 auto; }
+        .header { display: flex; align-items: flex-end; justify-content: space-between; gap: 14px; padding-bottom: 14px; border-bottom: 1px solid #eef0f3; }
+        .who { display: flex; gap: 14px; align-items: center; }
+        .avatar { width: 64px; height: 64px; border-radius: 999px; overflow: hidden; display: flex; align-items: center; justify-content: center; color: #fff; font-size: 26px; font-weight: 900; flex: 0 0 auto; }
+        .avatar img { width: 100%; height: 100%; object-fit: cover; }
+        .eyebrow { font-size: 11px; letter-spacing: 0.18em; color: #6b7280; }
+        .h1 { margin: 6px 0 6px; letter-spacing: -0.6px; font-size: 28px; }
+        .desc { margin: 0; color: #6b7280; font-size: 14px; line-height: 1.45; }
+        .right { display: flex; gap: 10px; align-items: center; }
+        .ghost { font-size: 12px; padding: 10px 12px; border-radius: 12px; border: 1px solid #e5e7eb; background: #fff; color: #111827; text-decoration: none; font-weight: 800; }
+        .notice { margin-top: 14px; padding: 10px 12px; border: 1px solid #eee; border-radius: 12px; background: #fff; color: #111827; font-size: 13px; line-height: 1.45; }
+
+        .timeline { margin: 22px 0 0 12px; padding-left: 22px; border-left: 3px solid #e5e7eb; }
+        .year { padding-bottom: 8px; }
+        .yearLabel { position: sticky; top: 0; z-index: 1; display: inline-block; margin: 0 0 12px -36px; padding: 6px 12px; border-radius: 999px; color: #fff; font-size: 14px; font-weight: 900; letter-spacing: -0.3px; }
+        .month { position: relative; margin-bottom: 22px; }
+        .dot { position: absolute; left: -30px; top: 4px; width: 13px; height: 13px; border-radius: 999px; border: 3px solid #fff; box-shadow: 0 0 0 1px #e5e7eb; }
+        .monthLabel { font-size: 14px; font-weight: 900; color: #111827; }
+        .monthCount { margin-left: 4px; font-size: 12px; font-weight: 700; color: #6b7280; }
+        .grid { margin-top: 10px; display: grid; grid-template-columns: repeat(auto-fill, minmax(140px, 1fr)); gap: 10px; }
+        .item { display: block; text-decoration: none; color: #111827; }
+        .pic { display: block; }
+        .img { width: 100%; aspect-ratio: 1 / 1; object-fit: cover; border-radius: 12px; border: 1px solid #eef0f3; background: #f9fafb; display: block; }
+        .itemTitle { margin-top: 6px; font-size: 13px; font-weight: 800; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
+        .itemDate { font-size: 11px; color: #6b7280; }
+
+        @media (max-width: 720px) {
+          .wrap { padding: 18px; }
+          .header { align-items: flex-start; flex-direction: column; }
+        }
+      `}</style>
+    </main>
+  );
+}
@@ -0,0 +1,380 @@
+"use client";
+
+import { useEffect, useState } from "react";
+import Link from "next/link";
+import { useRouter } from "next/navigation";
+import { supabase } from "../../../lib/supabaseClient";
+import {
+  clearKidAvatar,
+  createKid,
+  deleteKid,
+  KID_COLORS,
+  kidAvatarUrl,
+  kidColor,
+  listKids,
+  mergeKids,
+  setKidAvatar,
+  updateKid,
+  type Kid,
+  type KidPatch,
+} from "../../../lib/kids";
+
+type KidCardProps = {
+  kid: Kid;
+  others: Kid[];
+  artworkCount: number;
+  busy: boolean;
+  onSave: (kid: Kid, patch: KidPatch) => Promise<void>;
+  onAvatar: (kid: Kid, file: File | null) => Promise<void>;
+  onMerge: (kid: Kid, targetId: string) => Promise<void>;
+  onDelete: (kid: Kid) => Promise<void>;
+};
+
+function KidCard({ kid, others, artworkCount, busy, onSave, onAvatar, onMerge, onDelete }: KidCardProps) {
+  const [name, setName] = useState(kid.name);
+  const [nickname, setNickname] = useState(kid.nickname ?? "");
+  const [birthdate, setBirthdate] = useState(kid.birthdate ?? "");
+  const [color, setColor] = useState(kidColor(kid));
+  const [mergeTarget, setMergeTarget] = useState("");
+
+  const avatar = kidAvatarUrl(kid);
+  const dirty =
+    name.trim() !== kid.name ||
+    nickname.trim() !== (kid.nickname ?? "") ||
+    birthdate !== (kid.birthdate ?? "") ||
+    color !== kidColor(kid);
+
+  const save = () =>
+    onSave(kid, {
+      name: name.trim(),
+      nickname: nickname.trim() || null,
+      birthdate: birthdate || null,
+      color,
+    });
+
+  return (
+    <section className="card">
+      <div className="kidTop">
+        <label className="avatar" style={{ background: color }} title="사진을 고르면 아바타로 써요">
+          {/* eslint-disable-next-line @next/next/no-img-element */}
+          {avatar ? <img src={avatar} alt={kid.name} /> : <span>{kid.name.slice(0, 1)}</span>}
+          <input
+            type="file"
+            accept="image/*"
+            hidden
+            disabled={busy}
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              e.target.value = "";
+              if (file) void onAvatar(kid, file);
+            }}
+          />
+        </label>
+        <div className="kidHead">
+          <div className="kidName">{kid.name}</div>
+          <div className="kidMeta">
+            작품 {artworkCount}개{kid.aliases.length > 0 ? ` · 예전 이름: ${kid.aliases.join(", ")}` : ""}
+          </div>
+          <div className="kidLinks">
+            <Link className="linkBtn" href={`/manage/kids/${kid.id}`}>
+              성장 타임라인
+            </Link>
+            {avatar ? (
+              <button className="linkBtn" onClick={() => void onAvatar(kid, null)} disabled={busy}>
+                아바타 지우기
+              </button>
+            ) : null}
+          </div>
+        </div>
+      </div>
+
+      <div className="fields">
+        <label className="field">
+          <span className="label">이름</span>
+          <input className="input" value={name} onChange={(e) => setName(e.target.value)} disabled={busy} />
+        </label>
+        <label className="field">
+          <span className="label">애칭</span>
+          <input className="input" placeholder="예: 꼬마화가" value={nickname} onChange={(e) => setNickname(e.target.value)} disabled={busy} />
+        </label>
+        <label className="field">
+          <span className="label">생일</span>
+          <input className="input" type="date" value={birthdate} onChange={(e) => setBirthdate(e.target.value)} disabled={busy} />
+        </label>
+        <div className="field">
+          <span className="label">색</span>
+          <div className="swatches">
+            {KID_COLORS.map((c) => (
+              <button
+                key={c}
+                type="button"
+                className={c === color ? "swatch active" : "swatch"}
+                style={{ background: c }}
+                onClick={() => setColor(c)}
+                disabled={busy}
+                aria-label={c}
+              />
+            ))}
+          </div>
+        </div>
+      </div>
+
+      <div className="cardActions">
+        <button className="darkBtn" onClick={() => void save()} disabled={busy || !dirty || !name.trim()}>
+          저장
+        </button>
+
+        {others.length > 0 ? (
+          <div className="merge">
+            <select className="select" value={mergeTarget} onChange={(e) => setMergeTarget(e.target.value)} disabled={busy}>
+              <option value="">다른 아이로 합치기…</option>
+              {others.map((o) => (
+                <option key={o.id} value={o.id}>
+                  {o.name}
+                </option>
+              ))}
+            </select>
+            <button className="ghostBtn" onClick={() => void onMerge(kid, mergeTarget)} disabled={busy || !mergeTarget}>
+              합치기
+            </button>
+          </div>
+        ) : null}
+
+        <button className="delBtn" onClick={() => void onDelete(kid)} disabled={busy || artworkCount > 0} title={artworkCount > 0 ? "작품이 있는 아이는 합치기만 할 수 있어요" : "삭제"}>
+          삭제
+        </button>
+      </div>
+
+      <style jsx>{`
+        .card { margin-top: 14px; border: 1px solid #e8ebf0; border-radius: 16px; background: #fff; padding: 14px; }
+        .kidTop { display: flex; gap: 12px; align-items: center; }
+        .avatar { width: 56px; height: 56px; border-radius: 999px; overflow: hidden; display: flex; align-items: center; justify-content: center; color: #fff; font-size: 22px; font-weight: 900; cursor: pointer; flex: 0 0 auto; }
+        .avatar img { width: 100%; height: 100%; object-fit: cover; }
+        .kidName { font-weight: 900; font-size: 17px; letter-spacing: -0.3px; }
+        .kidMeta { margin-top: 2px; font-size: 12px; color: #6b7280; }
+        .kidLinks { margin-top: 4px; display: flex; gap: 10px; align-items: center; }
+        .linkBtn { padding: 0; border: 0; background: none; color: #6b7280; font-size: 12px; text-decoration: underline; cursor: pointer; }
+
+        .fields { margin-top: 12px; display: grid; grid-template-columns: repeat(2, minmax(0, 1fr)); gap: 10px; }
+        .field { display: grid; gap: 4px; }
+        .label { font-size: 12px; font-weight: 800; color: #374151; }
+        .input, .select { padding: 9px 10px; border-radius: 10px; border: 1px solid #e5e7eb; font-size: 13px; background: #fff; }
+        .swatches { display: flex; flex-wrap: wrap; gap: 6px; padding-top: 4px; }
+        .swatch { width: 24px; height: 24px; border-radius: 999px; border: 2px solid transparent; cursor: pointer; }
+        .swatch.active { border-color: #111827; box-shadow: inset 0 0 0 2px #fff; }
+
+        .cardActions { margin-top: 12px; display: flex; flex-wrap: wrap; gap: 8px; align-items: center; }
+        .merge { display: flex; gap: 6px; align-items: center; }
+        .ghostBtn { padding: 9px 12px; border-radius: 12px; border: 1px solid #e5e7eb; background: #fff; cursor: pointer; font-size: 12px; font-weight: 900; }
+        .darkBtn { padding: 9px 12px; border-radius: 12px; border: 1px solid rgba(0,0,0,0.08); background: #111827; color: #fff; cursor: pointer; font-size: 12px; font-weight: 900; }
+        .delBtn { margin-left: auto; padding: 9px 12px; border-radius: 12px; border: 1px solid #fecaca; background: #fff; color: #b91c1c; cursor: pointer; font-size: 12px; font-weight: 900; }
+        .ghostBtn:disabled, .darkBtn:disabled, .delBtn:disabled { opacity: 0.45; cursor: not-allowed; }
+
+        @media (max-width: 560px) {
+          .fields { grid-template-columns: 1fr; }
+        }
+      `}</style>
+    </section>
+  );
+}
+
+export default function KidsPage() {
+  const router = useRouter();
+
+  const [familyId, setFamilyId] = useState<string | null>(null);
+  const [kids, setKids] = useState<Kid[]>([]);
+  const [counts, setCounts] = useState<Record<string, number>>({});
+  const [loading, setLoading] = useState(true);
+  const [busyId, setBusyId] = useState<string | null>(null);
+  const [newName, setNewName] = useState("");
+  const [msg, setMsg] = useState("");
+
+  const load = async (fid: string) => {
+    const [kidsRes, arts] = await Promise.all([listKids(), supabase.from("artworks").select("kid_id").eq("family_id", fid)]);
+    if (kidsRes.error) {
+      setMsg("❌ 조회 실패: " + kidsRes.error);
+      return;
+    }
+
+    const next: Record<string, number> = {};
+    for (const row of (arts.data ?? []) as { kid_id: string | null }[]) {
+      if (row.kid_id) next[row.kid_id] = (next[row.kid_id] ?? 0) + 1;
+    }
+    setKids(kidsRes.kids);
+    setCounts(next);
+  };
+
+  useEffect(() => {
+    const run = async () => {
+      const { data } = await supabase.auth.getSession();
+      if (!data.session) {
+        router.replace("/login");
+        return;
+      }
+
+      const { data: prof, error } = await supabase
+        .from("profiles")
+        .select("family_id")
+        .eq("user_id", data.session.user.id)
+        .maybeSingle();
+
+      if (error || !prof?.family_id) {
+        setMsg("❌ 가족 정보(profiles)를 찾지 못했습니다.");
+        setLoading(false);
+        return;
+      }
+
+      setFamilyId(prof.family_id);
+      await load(prof.family_id);
+      setLoading(false);
+    };
+
+    run();
+  }, [router]);
+
+  const replaceKid = (kid: Kid) => setKids((prev) => prev.map((k) => (k.id === kid.id ? kid : k)));
+
+  const addKid = async () => {
+    if (!familyId || !newName.trim()) return;
+    setBusyId("new");
+    setMsg("");
+    const { kid, error } = await createKid(familyId, newName);
+    setBusyId(null);
+    if (error || !kid) {
+      setMsg("❌ " + (error ?? "추가 실패"));
+      return;
+    }
+    setKids((prev) => [...prev, kid]);
+    setNewName("");
+  };
+
+  const saveKid = async (kid: Kid, patch: KidPatch) => {
+    setBusyId(kid.id);
+    setMsg("");
+    const res = await updateKid(kid.id, patch);
+    setBusyId(null);
+    if (res.error || !res.kid) {
+      setMsg("❌ " + (res.error ?? "저장 실패"));
+      return;
+    }
+    replaceKid(res.kid);
+    setMsg(patch.name && patch.name !== kid.name ? `✅ 저장했어요. ${kid.name}의 작품도 모두 "${res.kid.name}"(으)로 바뀌었어요.` : "✅ 저장했어요.");
+  };
+
+  const changeAvatar = async (kid: Kid, file: File | null) => {
+    setBusyId(kid.id);
+    setMsg(file ? "아바타 올리는 중..." : "");
+    const res = file ? await setKidAvatar(kid, file) : await clearKidAvatar(kid);
+    setBusyId(null);
+    if (res.error || !res.kid) {
+      setMsg("❌ " + (res.error ?? "아바타 저장 실패"));
+      return;
+    }
+    replaceKid(res.kid);
+    setMsg("");
+  };
+
+  const merge = async (kid: Kid, targetId: string) => {
+    const target = kids.find((k) => k.id === targetId);
+    if (!target || !familyId) return;
+    if (!confirm(`${kid.name}의 작품을 모두 ${target.name}(으)로 옮기고 ${kid.name}은(는) 지울까요?`)) return;
+
+    setBusyId(kid.id);
+    setMsg("");
+    const { moved, error } = await mergeKids(kid, target.id);
+    setBusyId(null);
+    if (error) {
+      setMsg("❌ 합치기 실패: " + error);
+      return;
+    }
+    await load(familyId);
+    setMsg(`✅ 작품 ${moved}개를 ${target.name}(으)로 옮겼어요.`);
+  };
+
+  const remove = async (kid: Kid) => {
+    if (!confirm(`${kid.name}을(를) 지울까요?`)) return;
+    setBusyId(kid.id);
+    setMsg("");
+    const { error } = await deleteKid(kid);
+    setBusyId(null);
+    if (error) {
+      setMsg("❌ " + error);
+      return;
+    }
+    setKids((prev) => prev.filter((k) => k.id !== kid.id));
+  };
+
+  return (
+    <main className="wrap">
+      <header className="header">
+        <div>
+          <div className="eyebrow">FAMILY ROOM</div>
+          <h1 className="h1">아이 관리</h1>
+          <p className="desc">작가(아이)마다 애칭·생일·색·아바타를 정해요. 같은 아이가 두 이름으로 나뉘어 있으면 합쳐 주세요.</p>
+        </div>
+        <div className="right">
+          <Link className="ghost" href="/manage">
+            가족 전시관
+          </Link>
+        </div>
+      </header>
+
+      <section className="addBox">
+        <input
+          className="addInput"
+          placeholder="새 아이 이름"
+          value={newName}
+          onChange={(e) => setNewName(e.target.value)}
+          onKeyDown={(e) => e.key === "Enter" && void addKid()}
+          disabled={!familyId || busyId === "new"}
+        />
+        <button className="addBtn" onClick={() => void addKid()} disabled={!familyId || !newName.trim() || busyId === "new"}>
+          추가
+        </button>
+      </section>
+
+      {msg && <div className="notice">{msg}</div>}
+
+      {loading ? (
+        <div className="notice">불러오는 중...</div>
+      ) : kids.length === 0 ? (
+        <div className="notice">아직 등록된 아이가 없어요. 작품을 올리면 작가 이름으로 자동 등록돼요.</div>
+      ) : (
+        kids.map((kid) => (
+          <KidCard
+            key={`${kid.id}:${kid.name}:${kid.nickname ?? ""}:${kid.birthdate ?? ""}:${kid.color ?? ""}`}
+            kid={kid}
+            others={kids.filter((k) => k.id !== kid.id)}
+            artworkCount={counts[kid.id] ?? 0}
+            busy={busyId === kid.id}
+            onSave={saveKid}
+            onAvatar={changeAvatar}
+            onMerge={merge}
+            onDelete={remove}
+          />
+        ))
+      )}
+
+      <style jsx>{`
+        .wrap { padding: 38px; max-width: 720px; margin: 0 auto; }
+        .header { display: flex; align-items: flex-end; justify-content: space-between; gap: 14px; padding-bottom: 14px; border-bottom: 1px solid #eef0f3; }
+        .eyebrow { font-size: 11px; letter-spacing: 0.18em; color: #6b7280; }
+        .h1 { margin: 6px 0 6px; letter-spacing: -0.6px; font-size: 28px; }
+        .desc { margin: 0; color: #6b7280; font-size: 14px; line-height: 1.45; }
+        .right { display: flex; gap: 10px; align-items: center; }
+        .ghost { font-size: 12px; padding: 10px 12px; border-radius: 12px; border: 1px solid #e5e7eb; background: #fff; color: #111827; text-decoration: none; font-weight: 800; }
+
+        .addBox { margin-top: 14px; display: flex; gap: 8px; }
+        .addInput { flex: 1; padding: 10px 12px; border-radius: 12px; border: 1px solid #e5e7eb; font-size: 14px; }
+        .addBtn { padding: 10px 14px; border-radius: 12px; border: 1px solid rgba(0,0,0,0.08); background: #111827; color: #fff; cursor: pointer; font-size: 12px; font-weight: 900; }
+        .addBtn:disabled { opacity: 0.45; cursor: not-allowed; }
+        .notice { margin-top: 14px; padding: 10px 12px; border: 1px solid #eee; border-radius: 12px; background: #fff; color: #111827; font-size: 13px; line-height: 1.45; }
+
+        @media (max-width: 720px) {
+          .wrap { padding: 18px; }
+          .header { align-items: flex-start; flex-direction: column; }
+        }
+      `}</style>
+    </main>
+  );
+}
@@ -3,10 +3,21 @@
 import { useEffect, useEffectEvent, useMemo, useState } from "react";
 import Link from "next/link";
 import { supabase } from "../../lib/supabaseClient";
+import { checkStorageConsistency, deleteArtworkRecord, type StorageProvider } from "../../lib/storage";
+import { resolveArtworkImage } from "../../lib/artworkImage";
+import { formatSnapshotTime, isNetworkFailure, loadGallerySnapshot, saveGallerySnapshot } from "../../lib/offlineGallery";
+import type { ArtworkRenditions } from "../../lib/renditions";
+import { formatKidAge, kidAvatarUrl, kidColor, kidLabel, listKids, type Kid } from "../../lib/kids";
+import { formatArtworkSize, mediumLabel, type ArtworkMedium } from "../../lib/artworkCatalog";
+import KidFilter, { type KidFilterOption } from "../components/KidFilter";
+import CatalogFilter, { matchesCatalogFilter, NO_CATALOG_FILTER, type CatalogFilterValue } from "../components/CatalogFilter";
+import ArtworkEditDialog from "../components/ArtworkEditDialog";
+import ArtworkPlacard from "../components/ArtworkPlacard";
 import { useRouter } from "next/navigation";
 
 type Artwork = {
   id: string;
+  kid_id: string | null;
   kid_name: string;
   title: string;
   private_image_path: string;
@@ -14,8 +25,27 @@ type Artwork = {
   is_public: boolean;
   public_until: string | null;
   artwork_made_at: string | null;
+  /** 작품을 만든 날의 아이 나이 (개월, migration 009) */
+  kid_age_months: number | null;
+  /** 재료·태그·크기 (migration 010) */
+  medium: ArtworkMedium | null;
+  tags: string[];
+  width_cm: number | null;
+  height_cm: number | null;
+  depth_cm: number | null;
+  /** 작품 설명 / 아이의 한마디 (migration 011) */
+  story: string | null;
+  storage_provider: StorageProvider;
+  storage_key: string | null;
+  renditions: ArtworkRenditions | null;
 };
 
+/** 오프라인용으로 남겨 두는 마지막 목록 (lib/offlineGallery.ts, key "manage") */
+type ManageSnapshot = { familyId: string; rows: Artwork[]; kids?: Kid[] };
+
+/** 아이 필터에서 kids 에 연결되지 않은 작품 */
+const NO_KID = "none";
+
 /** ✅ 방명록 타입 */
 type Entry = {
   id: string;
@@ -101,27 +131,6 @@ function makeToken(len = 24) {
   return out;
 }
 
-/**
- * private_image_path가 URL이어도 bucket 내부 경로를 최대한 뽑아준다.
- */
-function getStoragePathFromPrivateImagePath(privateImagePath: string) {
-  const raw = (privateImagePath ?? "").trim();
-  if (!raw) return "";
-
-  if (!raw.startsWith("http://") && !raw.startsWith("https://")) return raw;
-
-  try {
-    const u = new URL(raw);
-    const p = u.pathname;
-    const marker = "/artworks/";
-    const idx = p.indexOf(marker);
-    if (idx >= 0) return decodeURIComponent(p.slice(idx + marker.length));
-    return decodeURIComponent(p.split("/").pop() || "");
-  } catch {
-    return raw.split("/").pop() || "";
-  }
-}
-
 /** profiles.user_id 기준으로 내 프로필을 찾는다 */
 async function fetchMyProfile(): Promise<{
   family_id: string | null;
@@ -183,13 +192,19 @@ export default function ManagePage() {
   const [items, setItems] = useState<Artwork[]>([]);
   const [msg, setMsg] = useState("");
   const [busyId, setBusyId] = useState<string | null>(null);
+  const [checkBusy, setCheckBusy] = useState(false);
   const [myFamilyId, setMyFamilyId] = useState<string | null>(null);
+  /** 오프라인이라 저장해 둔 목록을 보여 주는 중이면 그 목록을 저장한 시각 */
+  const [cachedAt, setCachedAt] = useState<number | null>(null);
 
   const [inviteToken, setInviteToken] = useState<string>("");
   const [inviteBusy, setInviteBusy] = useState(false);
 
   const [q, setQ] = useState("");
   const [page, setPage] = useState(1);
+  const [kids, setKids] = useState<Kid[]>([]);
+  const [kidFilter, setKidFilter] = useState<string | null>(null);
+  const [catalogFilter, setCatalogFilter] = useState<CatalogFilterValue>(NO_CATALOG_FILTER);
 
   /** ✅ 방명록 상태 */
   const [entries, setEntries] = useState<Entry[]>([]);
@@ -202,8 +217,11 @@ export default function ManagePage() {
   const [viewerArt, setViewerArt] = useState<Artwork | null>(null);
   const [viewerIndex, setViewerIndex] = useState<number | null>(null);
 
+  /** 정보 수정 대화상자 (격자와 확대 보기 모두에서 연다) */
+  const [editingArt, setEditingArt] = useState<Artwork | null>(null);
+
   const openViewer = (art: Artwork, index: number) => {
-    setViewerSrc(art.private_image_path);
+    setViewerSrc(resolveArtworkImage(art).display);
     setViewerTitle(art.title);
     setViewerArt(art);
     setViewerIndex(index);
@@ -218,6 +236,8 @@ export default function ManagePage() {
     setViewerIndex(null);
   };
 
+  const viewerSources = viewerArt ? resolveArtworkImage(viewerArt).displaySources : {};
+
   const canMovePrev = viewerIndex != null && viewerIndex > 0;
   const canMoveNext = viewerIndex != null && viewerIndex < items.length - 1;
 
@@ -227,7 +247,7 @@ export default function ManagePage() {
     if (nextIndex < 0 || nextIndex >= items.length) return;
     const nextArt = items[nextIndex];
     setViewerIndex(nextIndex);
-    setViewerSrc(nextArt.private_image_path);
+    setViewerSrc(resolveArtworkImage(nextArt).display);
     setViewerTitle(nextArt.title);
     setViewerArt(nextArt);
   };
@@ -254,11 +274,33 @@ export default function ManagePage() {
     return `${window.location.origin}/invite/${inviteToken}`;
   }, [inviteToken]);
 
+  const kidOptions = useMemo(() => {
+    const counts = new Map<string, number>();
+    items.forEach((a) => counts.set(a.kid_id ?? NO_KID, (counts.get(a.kid_id ?? NO_KID) ?? 0) + 1));
+
+    const options: KidFilterOption[] = kids
+      .filter((k) => counts.has(k.id))
+      .map((k) => ({ key: k.id, label: kidLabel(k), count: counts.get(k.id) ?? 0, color: kidColor(k), avatarUrl: kidAvatarUrl(k) }));
+    if (counts.has(NO_KID)) options.push({ key: NO_KID, label: "미지정", count: counts.get(NO_KID) ?? 0 });
+    return options;
+  }, [items, kids]);
+
+  // 새로 불러온 목록에 그 아이가 없으면 필터는 풀린 것으로 본다.
+  const activeKid = kidOptions.length > 1 && kidOptions.some((o) => o.key === kidFilter) ? kidFilter : null;
+
   const filtered = useMemo(() => {
     const t = q.trim().toLowerCase();
-    if (!t) return items;
-    return items.filter((a) => a.kid_name.toLowerCase().includes(t) || a.title.toLowerCase().includes(t));
-  }, [items, q]);
+    const byKid = activeKid === null ? items : items.filter((a) => (a.kid_id ?? NO_KID) === activeKid);
+    const byCatalog = byKid.filter((a) => matchesCatalogFilter(a, catalogFilter));
+    if (!t) return byCatalog;
+    return byCatalog.filter(
+      (a) =>
+        a.kid_name.toLowerCase().includes(t) ||
+        a.title.toLowerCase().includes(t) ||
+        (a.tags ?? []).some((tag) => tag.toLowerCase().includes(t)) ||
+        (a.story ?? "").toLowerCase().includes(t)
+    );
+  }, [items, q, activeKid, catalogFilter]);
 
   const totalPages = Math.max(1, Math.ceil(filtered.length / PAGE_SIZE));
   const currentPage = Math.min(page, totalPages);
@@ -267,26 +309,62 @@ export default function ManagePage() {
     [currentPage, filtered]
   );
 
+  /** 연결이 없을 때: 이 기기에 남겨 둔 마지막 목록을 보여 준다 (보기만 가능). */
+  const showCached = async () => {
+    const snap = await loadGallerySnapshot<ManageSnapshot>("manage");
+    if (!snap) {
+      setMsg("⚠️ 인터넷에 연결되어 있지 않아요. 연결되면 작품이 보여요.");
+      return;
+    }
+    setItems(snap.data.rows);
+    setKids(snap.data.kids ?? []);
+    setPage(1);
+    setCachedAt(snap.savedAt);
+    setMsg("");
+    return snap.data.rows;
+  };
+
   const load = async (familyId: string) => {
     setMsg("불러오는 중...");
 
-    const { data, error } = await supabase
-      .from("artworks")
-      .select("id, kid_name, title, private_image_path, created_at, is_public, public_until, artwork_made_at")
-      .eq("family_id", familyId)
-      .order("created_at", { ascending: false })
-      .limit(200);
+    const [{ data, error }, kidsRes] = await Promise.all([
+      supabase
+        .from("artworks")
+        .select("id, kid_id, kid_name, title, private_image_path, created_at, is_public, public_until, artwork_made_at, kid_age_months, medium, tags, width_cm, height_cm, depth_cm, story, storage_provider, storage_key, renditions")
+        .eq("family_id", familyId)
+        .order("created_at", { ascending: false })
+        .limit(200),
+      listKids(),
+    ]);
 
     if (error) {
+      if (isNetworkFailure(error.message)) return showCached();
       setMsg("❌ 조회 실패: " + error.message);
       return;
     }
 
-    setItems((data ?? []) as Artwork[]);
+    const list = (data ?? []) as Artwork[];
+    setItems(list);
+    // 아이 목록을 못 불러와도 작품은 보여 준다 (필터만 빠진다).
+    setKids(kidsRes.kids);
     setPage(1);
+    setCachedAt(null);
+    void saveGallerySnapshot<ManageSnapshot>("manage", { familyId, rows: list, kids: kidsRes.kids });
     setMsg("");
+    return list;
   };
 
+  const loadEvent = useEffectEvent((familyId: string) => load(familyId));
+
+  // /manage?artwork=<id> (업로드 화면의 "이미 올린 작품" 링크) → 그 작품을 바로 연다.
+  const openLinkedArtworkEvent = useEffectEvent((list: Artwork[]) => {
+    const linkedId = new URLSearchParams(window.location.search).get("artwork");
+    if (!linkedId) return;
+    const index = list.findIndex((a) => a.id === linkedId);
+    if (index >= 0) openViewer(list[index], index);
+    window.history.replaceState(null, "", window.location.pathname);
+  });
+
   /** 방명록 조회: SQL 함수 public.get_guestbook_entries_by_token(text) 호출 */
   const loadGuestbook = async (token: string) => {
     if (!token) return;
@@ -326,11 +404,20 @@ export default function ManagePage() {
       const { data } = await supabase.auth.getSession();
 
       if (!data.session) {
+        // 오프라인에서는 토큰을 새로 받지 못해 세션이 비어 보일 수 있다.
+        if (!navigator.onLine) {
+          await showCached();
+          return;
+        }
         router.replace("/login");
         return;
       }
 
       const prof = await fetchMyProfile();
+      if (prof.error && isNetworkFailure(prof.error)) {
+        await showCached();
+        return;
+      }
       if (prof.error || !prof.family_id) {
         setMsg("⚠️ 프로필 조회 실패: " + (prof.error ?? "unknown"));
         return;
@@ -341,13 +428,22 @@ export default function ManagePage() {
       const t = prof.invite_token ?? "";
       setInviteToken(t);
 
-      await load(prof.family_id);
+      const list = await loadEvent(prof.family_id);
+      if (list) openLinkedArtworkEvent(list);
       if (t) await loadGuestbook(t);
     };
 
     run();
   }, [router]);
 
+  // 저장해 둔 목록을 보는 중에 연결이 돌아오면 새로 불러온다.
+  useEffect(() => {
+    if (cachedAt == null) return;
+    const onOnline = () => window.location.reload();
+    window.addEventListener("online", onOnline);
+    return () => window.removeEventListener("online", onOnline);
+  }, [cachedAt]);
+
   const createOrRegenerateInvite = async () => {
     setInviteBusy(true);
     setMsg("초대코드 처리 중...");
@@ -441,6 +537,19 @@ export default function ManagePage() {
     setMsg("");
   };
 
+  /** 수정 후: 목록을 다시 불러오고, 확대 보기가 열려 있으면 고친 작품으로 바꿔 보여 준다. */
+  const afterEdit = async (id: string) => {
+    if (!myFamilyId) return;
+    const list = await load(myFamilyId);
+    const index = list?.findIndex((a) => a.id === id) ?? -1;
+    if (!viewerOpen || !list || index < 0) return;
+    const art = list[index];
+    setViewerArt(art);
+    setViewerTitle(art.title);
+    setViewerSrc(resolveArtworkImage(art).display);
+    setViewerIndex(index);
+  };
+
   const deleteArtwork = async (art: Artwork) => {
     const ok = confirm("이 작품을 삭제할까? (사진도 함께 삭제돼)");
     if (!ok) return;
@@ -448,20 +557,20 @@ export default function ManagePage() {
     setBusyId(art.id);
     setMsg("삭제 중...");
 
-    const storagePath = getStoragePathFromPrivateImagePath(art.private_image_path);
+    // 서버가 작품 행을 지운 뒤 사진을 지운다. 사진 삭제가 실패하면 서버가 기록해 두고 저장소 정리 때 지운다.
+    const { error: delErr, rowDeleted } = await deleteArtworkRecord(art.id);
 
-    if (storagePath) {
-      const { error: stErr } = await supabase.storage.from("artworks").remove([storagePath]);
-      if (stErr) setMsg("⚠️ 사진 삭제 실패(그래도 DB는 지울게): " + stErr.message);
-    } else {
-      setMsg("⚠️ 사진 경로를 못 찾아서 DB만 지울게요.");
+    if (delErr && !rowDeleted) {
+      setMsg("❌ 삭제 실패(작품은 그대로 있어요): " + delErr);
+      setBusyId(null);
+      return;
     }
 
-    const { error: dbErr } = await supabase.from("artworks").delete().eq("id", art.id);
-
-    if (dbErr) {
-      setMsg("❌ DB 삭제 실패: " + dbErr.message);
+    if (delErr) {
+      // 작품은 지워졌지만 사진이 남았다. 서버가 불일치 기록에 남겨 두었고, 저장소 정리(GC)가 지운다.
+      setItems((prev) => prev.filter((x) => x.id !== art.id));
       setBusyId(null);
+      setMsg("⚠️ 작품은 지웠지만 사진 파일이 남았어요. ‘저장소 점검’에서 확인할 수 있어요.");
       return;
     }
 
@@ -471,6 +580,33 @@ export default function ManagePage() {
     setTimeout(() => setMsg(""), 1200);
   };
 
+  /** 저장소 점검: 사진이 사라진 작품 + 서버가 정리하지 못하고 기록해 둔 파일 */
+  const checkStorage = async () => {
+    setCheckBusy(true);
+    setMsg("저장소 점검 중...");
+
+    const { report, error } = await checkStorageConsistency();
+    setCheckBusy(false);
+
+    if (error || !report) {
+      setMsg("❌ 저장소 점검 실패: " + (error ?? "unknown"));
+      return;
+    }
+
+    if (report.missing.length === 0 && report.logged.length === 0) {
+      setMsg(`✅ 저장소 점검: 작품 ${report.checked}개 모두 사진이 잘 있어요.`);
+      return;
+    }
+
+    const parts: string[] = [];
+    if (report.missing.length > 0) {
+      const titles = report.missing.map((m) => m.title || m.artworkId).slice(0, 5).join(", ");
+      parts.push(`사진 파일이 없는 작품 ${report.missing.length}개 (${titles}${report.missing.length > 5 ? " 외" : ""})`);
+    }
+    if (report.logged.length > 0) parts.push(`정리하지 못한 사진 파일 ${report.logged.length}개`);
+    setMsg(`⚠️ 저장소 점검 (작품 ${report.checked}개): ${parts.join(" / ")}`);
+  };
+
   return (
     <main className="wrap">
       <header className="header">
@@ -484,12 +620,24 @@ export default function ManagePage() {
           <Link className="ghost" href="/">
             메인
           </Link>
+          <Link className="ghost" href="/manage/kids">
+            아이 관리
+          </Link>
+          <Link className="ghost" href="/account/notifications">
+            알림 설정
+          </Link>
           <Link className="primary" href="/upload">
             업로드
           </Link>
         </div>
       </header>
 
+      {cachedAt != null ? (
+        <div className="offlineBanner">
+          오프라인 — 저장해 둔 작품을 보여 주는 중 ({formatSnapshotTime(cachedAt)} 기준). 연결되면 새로 불러와요.
+        </div>
+      ) : null}
+
       <section className="inviteBox">
         <div className="inviteTop">
           <div>
@@ -567,7 +715,7 @@ export default function ManagePage() {
         <div className="searchWrap">
           <input
             className="search"
-            placeholder="검색 (아이 이름 / 제목)"
+            placeholder="검색 (아이 이름 / 제목 / 태그)"
             value={q}
             onChange={(e) => {
               setQ(e.target.value);
@@ -579,11 +727,42 @@ export default function ManagePage() {
             {filtered.length > PAGE_SIZE ? ` · ${currentPage}/${totalPages} 페이지` : ""}
           </div>
         </div>
-        <button className="ghostBtn" onClick={() => myFamilyId && load(myFamilyId)} disabled={!myFamilyId}>
-          새로고침
-        </button>
+        <div className="toolbarBtns">
+          <Link className="ghost" href="/manage/duplicates" title="같은 그림을 여러 번 찍은 것 같은 작품 찾기">
+            비슷한 작품 정리
+          </Link>
+          <button className="ghostBtn" onClick={checkStorage} disabled={!myFamilyId || checkBusy} title="사진 파일과 작품 목록이 서로 맞는지 확인">
+            {checkBusy ? "점검 중..." : "저장소 점검"}
+          </button>
+          <button className="ghostBtn" onClick={() => myFamilyId && load(myFamilyId)} disabled={!myFamilyId}>
+            새로고침
+          </button>
+        </div>
       </div>
 
+      <KidFilter
+        options={kidOptions}
+        value={activeKid}
+        total={items.length}
+        onChange={(key) => {
+          setKidFilter(key);
+          setPage(1);
+        }}
+      />
+      <CatalogFilter
+        rows={items}
+        value={catalogFilter}
+        onChange={(next) => {
+          setCatalogFilter(next);
+          setPage(1);
+        }}
+      />
+      {activeKid && activeKid !== NO_KID ? (
+        <Link className="timelineLink" href={`/manage/kids/${activeKid}`}>
+          {kids.find((k) => k.id === activeKid)?.name ?? ""}의 성장 타임라인 보기 →
+        </Link>
+      ) : null}
+
       {msg && <div className="notice">{msg}</div>}
 
       {filtered.length === 0 ? (
@@ -598,6 +777,7 @@ export default function ManagePage() {
             const expired = isExpired(a);
             const extendEnabled = a.is_public && expired;
             const absoluteIndex = items.findIndex((item) => item.id === a.id);
+            const urls = resolveArtworkImage(a);
 
             const showPublic = a.is_public;
             const publicBtnStyle: React.CSSProperties = showPublic
@@ -614,15 +794,22 @@ export default function ManagePage() {
                   onKeyDown={(e) => e.key === "Enter" && openViewer(a, absoluteIndex)}
                   title="클릭하면 크게 보기"
                 >
-                  {/* eslint-disable-next-line @next/next/no-img-element */}
-                  <img className="img" src={a.private_image_path} alt={a.title} loading="lazy" />
+                  <picture className="pic">
+                    {urls.thumbnailSources.avif ? <source type="image/avif" srcSet={urls.thumbnailSources.avif} /> : null}
+                    {urls.thumbnailSources.webp ? <source type="image/webp" srcSet={urls.thumbnailSources.webp} /> : null}
+                    <img className="img" src={urls.thumbnail} alt={a.title} loading="lazy" />
+                  </picture>
                   <div className="overlay">
                     <div className="overlayTop">
                       <div className="kid">{a.kid_name}</div>
                       <StatusBadge art={a} />
                     </div>
                     <div className="title">{a.title}</div>
-                    <div className="overlayMeta">작품제작일 {formatKoreanDate(a.artwork_made_at)}</div>
+                    <div className="overlayMeta">
+                      작품제작일 {formatKoreanDate(a.artwork_made_at)}
+                      {a.kid_age_months != null ? ` · ${formatKidAge(a.kid_age_months)}` : ""}
+                      {a.medium ? ` · ${mediumLabel(a.medium)}` : ""}
+                    </div>
                   </div>
                 </div>
 
@@ -642,6 +829,9 @@ export default function ManagePage() {
 
                   <span className="spacer" />
 
+                  <button onClick={() => setEditingArt(a)} disabled={busy || cachedAt != null} className="editBtn">
+                    수정
+                  </button>
                   <button onClick={() => deleteArtwork(a)} disabled={busy} className="delBtn">
                     삭제
                   </button>
@@ -682,6 +872,16 @@ export default function ManagePage() {
                 <div className="modalTitle">{viewerTitle}</div>
               </div>
               <div className="modalActions">
+                {viewerArt && cachedAt == null && (
+                  <button className="navBtn" onClick={() => setEditingArt(viewerArt)}>
+                    수정
+                  </button>
+                )}
+                {viewerArt && (
+                  <a className="navBtn" href={resolveArtworkImage(viewerArt).download} download target="_blank" rel="noreferrer">
+                    원본 받기
+                  </a>
+                )}
                 <button className="navBtn" onClick={() => moveViewer(-1)} disabled={!canMovePrev} aria-label="이전 작품">
                   이전
                 </button>
@@ -694,14 +894,50 @@ export default function ManagePage() {
               </div>
             </div>
 
-            {/* eslint-disable-next-line @next/next/no-img-element */}
-            <img className="modalImg" src={viewerSrc} alt={viewerTitle} />
+            <picture className="pic">
+              {viewerSources.avif ? <source type="image/avif" srcSet={viewerSources.avif} /> : null}
+              {viewerSources.webp ? <source type="image/webp" srcSet={viewerSources.webp} /> : null}
+              <img className="modalImg" src={viewerSrc} alt={viewerTitle} />
+            </picture>
+            {viewerArt && (
+              <ArtworkPlacard
+                title={viewerArt.title}
+                kidName={viewerArt.kid_name}
+                ageMonths={viewerArt.kid_age_months}
+                catalog={viewerArt}
+                story={viewerArt.story}
+              />
+            )}
             {viewerArt && (
               <div className="modalInfo">
                 <div className="infoRow">
                   <span className="infoKey">작품제작일</span>
                   <span className="infoVal">{formatKoreanDate(viewerArt.artwork_made_at)}</span>
                 </div>
+                {viewerArt.kid_age_months != null ? (
+                  <div className="infoRow">
+                    <span className="infoKey">그린 나이</span>
+                    <span className="infoVal">{formatKidAge(viewerArt.kid_age_months)}</span>
+                  </div>
+                ) : null}
+                {viewerArt.medium ? (
+                  <div className="infoRow">
+                    <span className="infoKey">재료</span>
+                    <span className="infoVal">{mediumLabel(viewerArt.medium)}</span>
+                  </div>
+                ) : null}
+                {formatArtworkSize(viewerArt) ? (
+                  <div className="infoRow">
+                    <span className="infoKey">크기</span>
+                    <span className="infoVal">{formatArtworkSize(viewerArt)}</span>
+                  </div>
+                ) : null}
+                {viewerArt.tags?.length ? (
+                  <div className="infoRow">
+                    <span className="infoKey">태그</span>
+                    <span className="infoVal">{viewerArt.tags.map((t) => `#${t}`).join(" ")}</span>
+                  </div>
+                ) : null}
                 <div className="infoRow">
                   <span className="infoKey">전시만료</span>
                   <span className="infoVal">{formatKoreanDate(viewerArt.public_until)}</span>
@@ -712,6 +948,16 @@ export default function ManagePage() {
         </div>
       )}
 
+      {editingArt && (
+        <ArtworkEditDialog
+          key={editingArt.id}
+          artwork={editingArt}
+          kids={kids}
+          onClose={() => setEditingArt(null)}
+          onSaved={afterEdit}
+        />
+      )}
+
       <style jsx>{`
         .wrap { padding: 38px; max-width: 1280px; margin: 0 auto; }
         .header { display: flex; align-items: flex-end; justify-content: space-between; gap: 14px; padding-bottom: 14px; border-bottom: 1px solid #eef0f3; }
@@ -750,10 +996,13 @@ export default function ManagePage() {
         .guestContent { margin-top: 6px; line-height: 1.55; }
 
         .toolbar { margin-top: 14px; display: flex; gap: 10px; align-items: flex-end; }
+        .toolbarBtns { display: flex; gap: 8px; flex-wrap: wrap; justify-content: flex-end; }
         .searchWrap { flex: 1; display: grid; gap: 6px; }
         .search { flex: 1; padding: 11px 12px; border-radius: 14px; border: 1px solid #e5e7eb; background: #fff; outline: none; font-size: 13px; }
         .resultMeta { font-size: 12px; color: #6b7280; font-weight: 800; }
+        .offlineBanner { margin-top: 14px; padding: 10px 12px; border-radius: 12px; background: #fef3c7; color: #92400e; font-size: 13px; font-weight: 800; }
         .notice { margin-top: 14px; padding: 10px 12px; border: 1px solid #eee; border-radius: 12px; background: #fff; color: #111827; font-size: 13px; }
+        .timelineLink { display: inline-block; margin-top: 10px; font-size: 13px; font-weight: 800; color: #111827; }
 
         .empty { margin-top: 18px; border: 1px solid #eef0f3; border-radius: 16px; padding: 18px; background: #fafafa; }
         .emptyTitle { font-weight: 900; letter-spacing: -0.4px; }
@@ -768,6 +1017,7 @@ export default function ManagePage() {
         .overlay .kid { color: rgba(255,255,255,0.82); }
         .title { font-weight: 900; letter-spacing: -0.3px; word-break: break-word; line-height: 1.25; }
         .overlayMeta { margin-top: 6px; font-size: 11px; color: rgba(255,255,255,0.78); font-weight: 700; }
+        .pic { display: block; }
         .img { width: 100%; aspect-ratio: 1 / 1; object-fit: cover; display: block; background: #f3f4f6; border: 1px solid #f1f5f9; }
 
         .actions { margin-top: 10px; display: flex; align-items: center; gap: 10px; flex-wrap: wrap; }
@@ -776,6 +1026,7 @@ export default function ManagePage() {
         .linkBtn.off { color: #9ca3af; cursor: not-allowed; text-decoration: none; }
         .linkBtn.on { color: #111827; cursor: pointer; text-decoration: underline; }
         .spacer { flex: 1; }
+        .editBtn { padding: 10px 12px; border-radius: 12px; border: 1px solid #e5e7eb; background: #fff; cursor: pointer; font-size: 12px; font-weight: 900; letter-spacing: -0.2px; }
         .delBtn { padding: 10px 12px; border-radius: 12px; border: 1px solid #e5e7eb; background: #fff; cursor: pointer; font-size: 12px; font-weight: 900; letter-spacing: -0.2px; }
         .busy { margin-top: 10px; font-size: 12px; color: #6b7280; }
         .pager { margin-top: 16px; display: flex; align-items: center; justify-content: center; gap: 10px; }
@@ -783,13 +1034,13 @@ export default function ManagePage() {
 
         /* ✅ 모달 */
         .modal { position: fixed; inset: 0; background: rgba(17, 24, 39, 0.6); display: flex; align-items: center; justify-content: center; padding: 18px; z-index: 1000; }
-        .modalCard { width: min(980px, 100%); max-height: 92vh; background: #fff; border-radius: 16px; border: 1px solid rgba(0,0,0,0.08); overflow: hidden; box-shadow: 0 10px 30px rgba(0,0,0,0.18); }
+        .modalCard { width: min(980px, 100%); max-height: 92vh; background: #fff; border-radius: 16px; border: 1px solid rgba(0,0,0,0.08); overflow: hidden auto; box-shadow: 0 10px 30px rgba(0,0,0,0.18); }
         .modalTop { display: flex; justify-content: space-between; gap: 12px; align-items: center; padding: 12px 14px; border-bottom: 1px solid #eef0f3; }
         .modalTitleWrap { min-width: 0; }
         .modalEyebrow { font-size: 11px; color: #6b7280; font-weight: 900; letter-spacing: 0.08em; text-transform: uppercase; }
         .modalTitle { font-weight: 900; letter-spacing: -0.3px; overflow: hidden; text-overflow: ellipsis; white-space: nowrap; }
         .modalActions { display: flex; align-items: center; gap: 8px; }
-        .navBtn { padding: 8px 10px; border-radius: 12px; border: 1px solid #e5e7eb; background: #fff; color: #111827; font-size: 12px; font-weight: 900; cursor: pointer; }
+        .navBtn { padding: 8px 10px; border-radius: 12px; border: 1px solid #e5e7eb; background: #fff; color: #111827; font-size: 12px; font-weight: 900; cursor: pointer; text-decoration: none; }
         .navBtn:disabled { opacity: 0.45; cursor: not-allowed; }
         .modalClose { padding: 8px 10px; border-radius: 12px; border: 1px solid #e5e7eb; background: #fff; color: #111827; font-size: 12px; font-weight: 900; cursor: pointer; }
         .modalImg { width: 100%; height: auto; max-height: calc(92vh - 190px); object-fit: contain; background: #111827; }
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+
+// Web Share Target endpoint (see "share_target" in public/manifest.json).
+// The service worker (public/sw.js) normally answers this POST itself: it keeps
+// the shared files in Cache Storage and redirects to /upload?share=1.
+// This route only runs when no service worker controls the page yet (first
+// visit, dev server), so the files cannot be handed over — send the user to the
+// upload page with a hint to pick the photos there instead.
+
+export const dynamic = "force-dynamic";
+
+export async function POST(request: Request) {
+  return NextResponse.redirect(new URL("/upload?share=unavailable", request.url), 303);
+}
+
+export async function GET(request: Request) {
+  return NextResponse.redirect(new URL("/upload", request.url), 303);
+}
@@ -1,14 +1,90 @@
 "use client";
 
-import { useEffect, useMemo, useState } from "react";
+import { useEffect, useEffectEvent, useMemo, useRef, useState } from "react";
 import Link from "next/link";
 import { useRouter } from "next/navigation";
 import { supabase } from "../../lib/supabaseClient";
+import CropRotateEditor from "../components/CropRotateEditor";
+import PerspectiveEditor from "../components/PerspectiveEditor";
+import {
+  createArtworkRecord,
+  isRetryableStorageError,
+  requestArtworkRenditions,
+  StorageHttpError,
+  type StoredObject,
+} from "../../lib/storage";
+import { listPendingResumableUploads, uploadArtworkObjectResumable, type ResumableRecord } from "../../lib/resumableUpload";
+import { enqueueUploads, listQueuedUploads, subscribeUploadQueue } from "../../lib/offlineQueue";
+import { fetchLastKidName, takeSharedFiles } from "../../lib/shareTarget";
+import { findKidByName, formatKidAge, kidAgeMonths, kidAvatarUrl, kidColor, kidLabel, listKids, type Kid } from "../../lib/kids";
+import { onBeforeAppUpdate } from "../../lib/appUpdate";
+import { saveUploadDraft, takeUploadDraft } from "../../lib/uploadDraft";
+import { runWithConcurrency, withRetry } from "../../lib/uploadQueue";
+import { exifDateToInputValue, readJpegExif } from "../../lib/exif";
+import { formatDateForInput, parseArtworkMadeAt } from "../../lib/artworkDate";
+import {
+  ARTWORK_MEDIUMS,
+  EMPTY_CATALOG_INPUT,
+  MAX_STORY_LENGTH,
+  mediumLabel,
+  normalizeStory,
+  parseCatalogInput,
+  type CatalogInput,
+} from "../../lib/artworkCatalog";
+import { convertHeicToJpeg, isHeicFile } from "../../lib/heic";
+import { findArtworksByHash, sha256Hex, type ExistingArtwork } from "../../lib/contentHash";
+import type { Quad } from "../../lib/perspective";
+import {
+  DEFAULT_COMPRESS_SETTINGS,
+  detectPaperCorners,
+  formatBytes,
+  isIdentityEdit,
+  MAX_EDGE_OPTIONS,
+  prepareImageForUpload,
+  previewDataUrl,
+  type CompressSettings,
+  type ImageEdit,
+  type PreparedImage,
+} from "../../lib/imageProcessing";
 
 type MadeAtMode = "now" | "photo" | "manual";
 
+type UploadStatus = "idle" | "queued" | "uploading" | "saving" | "done" | "failed";
+
+type UploadState = {
+  status: UploadStatus;
+  /** 0~100 */
+  progress: number;
+  attempt: number;
+  error: string | null;
+  /** 이미 올라간 파일 / 저장된 작품. 다시 시도할 때 같은 단계를 반복하지 않는다. */
+  stored: StoredObject | null;
+  artworkId: string | null;
+};
+
+const IDLE_UPLOAD: UploadState = { status: "idle", progress: 0, attempt: 0, error: null, stored: null, artworkId: null };
+
+/** 동시에 올리는 사진 수 */
+const UPLOAD_CONCURRENCY = 3;
+/** 사진 한 장당 자동 재시도 횟수 (1초 → 2초 → 4초) */
+const UPLOAD_RETRIES = 3;
+const UPLOAD_RETRY_BASE_MS = 1000;
+
 type SelectedUploadFile = {
+  id: string;
   file: File;
+  /** 줄이기 + 메타데이터 정리 결과. 처리 중이면 null */
+  processed: PreparedImage | null;
+  processing: boolean;
+  processError: string | null;
+  /** 처리 요청마다 1씩 올라간다. 늦게 끝난 옛 결과를 버리는 데 쓴다. */
+  processVersion: number;
+  /** 스캔 보정·회전·자르기. 없으면 null (corners가 undefined면 스캔 모드에서 자동으로 찾는다) */
+  edit: ImageEdit | null;
+  /** 스캔 모드에서 종이 모서리를 자동으로 찾지 못했다 */
+  scanMissed: boolean;
+  /** 편집 결과 미리보기 (data URL) */
+  editedPreview: string | null;
   previewUrl: string;
   detectedMadeAt: string | null;
   titleSuggestion: string;
@@ -16,16 +92,54 @@ type SelectedUploadFile = {
   titleEdited: boolean;
   kidName: string;
   kidNameEdited: boolean;
+  /** 재료·태그·크기 입력칸 */
+  catalog: CatalogInput;
+  /** 작품 설명 / 아이의 한마디 (여러 줄) */
+  story: string;
+  upload: UploadState;
+  /** 고른 원본 파일의 SHA-256 (HEIC 변환 전) */
+  contentHash: string | null;
+  /** 이미 올린 같은 사진 */
+  duplicateOf: ExistingArtwork | null;
+  /** 이번에 고른 사진 중 앞 카드와 같은 사진 */
+  duplicateInBatch: boolean;
+  /** 중복이면 기본으로 건너뛴다. false = 그래도 올리기 */
+  skipDuplicate: boolean;
 };
 
-function pad2(v: number) {
-  return String(v).padStart(2, "0");
-}
+/** 새 버전으로 새로고침할 때 저장해 두는 카드 (처리 결과·미리보기는 다시 만든다) */
+type DraftCard = Pick<
+  SelectedUploadFile,
+  | "file"
+  | "edit"
+  | "scanMissed"
+  | "detectedMadeAt"
+  | "titleSuggestion"
+  | "title"
+  | "titleEdited"
+  | "kidName"
+  | "kidNameEdited"
+  | "catalog"
+  | "story"
+  | "upload"
+  | "contentHash"
+  | "duplicateOf"
+  | "duplicateInBatch"
+  | "skipDuplicate"
+>;
+
+type UploadDraft = {
+  kidName: string;
+  title: string;
+  compress: CompressSettings;
+  scanMode: boolean;
+  madeAtMode: MadeAtMode;
+  madeAtInput: string;
+  cards: DraftCard[];
+};
 
-function formatDateForInput(date: Date) {
-  return `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())} ${pad2(date.getHours())}:${pad2(
-    date.getMinutes()
-  )}`;
+function isSkippedDuplicate(item: SelectedUploadFile) {
+  return (!!item.duplicateOf || item.duplicateInBatch) && item.skipDuplicate;
 }
 
 function sanitizeTitleFromFilename(name: string) {
@@ -39,134 +153,40 @@ function defaultTitleFor(suggestion: string, index: number, count: number, templ
   return suggestion;
 }
 
-function exifToInputValue(raw: string) {
-  const m = /^(\d{4}):(\d{2}):(\d{2})\s+(\d{2}):(\d{2})(?::\d{2})?$/.exec(raw.trim());
-  if (!m) return null;
-  return `${m[1]}-${m[2]}-${m[3]} ${m[4]}:${m[5]}`;
-}
-
-function parseArtworkMadeAt(input: string): { iso: string | null; error: string | null } {
-  const t = input.trim();
-  const m = /^(\d{4})-(\d{2})-(\d{2})\s+(\d{2}):(\d{2})$/.exec(t);
-  if (!m) return { iso: null, error: "형식은 YYYY-MM-DD HH:mm 입니다." };
-
-  const yyyy = Number(m[1]);
-  const mm = Number(m[2]);
-  const dd = Number(m[3]);
-  let hh = Number(m[4]);
-  const mi = Number(m[5]);
-
-  if (mm < 1 || mm > 12) return { iso: null, error: "월(month)이 올바르지 않습니다." };
-  if (dd < 1 || dd > 31) return { iso: null, error: "일(day)이 올바르지 않습니다." };
-  if (mi < 0 || mi > 59) return { iso: null, error: "분(minute)은 00~59만 가능합니다." };
-  if (!(hh === 24 || (hh >= 0 && hh <= 23))) return { iso: null, error: "시간(hour)은 00~24만 가능합니다." };
-  if (hh === 24 && mi !== 0) return { iso: null, error: "24시는 24:00으로만 입력할 수 있습니다." };
-
-  const base = new Date(yyyy, mm - 1, dd, 0, 0, 0, 0);
-  if (Number.isNaN(base.getTime())) return { iso: null, error: "날짜가 올바르지 않습니다." };
-
-  if (hh === 24) {
-    base.setDate(base.getDate() + 1);
-    hh = 0;
-  }
-  base.setHours(hh, mi, 0, 0);
-
-  return { iso: base.toISOString(), error: null };
-}
-
-function readAscii(view: DataView, offset: number, length: number) {
-  let out = "";
-  for (let i = 0; i < length; i++) out += String.fromCharCode(view.getUint8(offset + i));
-  return out;
-}
-
-function getExifAsciiValue(view: DataView, tiffStart: number, valueOffset: number, count: number) {
-  if (count <= 1) return null;
-  try {
-    return readAscii(view, tiffStart + valueOffset, count - 1);
-  } catch {
-    return null;
-  }
-}
-
-function findExifDateInIfd(view: DataView, tiffStart: number, ifdOffset: number, littleEndian: boolean) {
-  const dateTags = new Set([0x9003, 0x9004, 0x0132]);
-  const exifOffsetTag = 0x8769;
-
-  try {
-    const dirOffset = tiffStart + ifdOffset;
-    const entryCount = view.getUint16(dirOffset, littleEndian);
-    let nestedExifOffset: number | null = null;
-
-    for (let i = 0; i < entryCount; i++) {
-      const entryOffset = dirOffset + 2 + i * 12;
-      const tag = view.getUint16(entryOffset, littleEndian);
-      const count = view.getUint32(entryOffset + 4, littleEndian);
-      const valueOffset = view.getUint32(entryOffset + 8, littleEndian);
-
-      if (dateTags.has(tag)) {
-        const raw = getExifAsciiValue(view, tiffStart, valueOffset, count);
-        const normalized = raw ? exifToInputValue(raw) : null;
-        if (normalized) return normalized;
-      }
-
-      if (tag === exifOffsetTag) nestedExifOffset = valueOffset;
-    }
-
-    if (nestedExifOffset != null) return findExifDateInIfd(view, tiffStart, nestedExifOffset, littleEndian);
-  } catch {
-    return null;
-  }
-
-  return null;
-}
-
 async function detectPhotoMadeAt(file: File) {
   const fallback = formatDateForInput(new Date(file.lastModified));
   if (file.type !== "image/jpeg" && file.type !== "image/jpg") return fallback;
 
   try {
-    const buffer = await file.arrayBuffer();
-    const view = new DataView(buffer);
-    if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return fallback;
-
-    let offset = 2;
-    while (offset + 4 <= view.byteLength) {
-      const marker = view.getUint16(offset);
-      offset += 2;
-
-      if (marker === 0xffda || marker === 0xffd9) break;
-
-      const size = view.getUint16(offset);
-      if (size < 2 || offset + size > view.byteLength) break;
-
-      if (marker === 0xffe1 && readAscii(view, offset + 2, 6) === "Exif\u0000\u0000") {
-        const tiffStart = offset + 8;
-        const endian = readAscii(view, tiffStart, 2);
-        const littleEndian = endian === "II";
-        if (endian !== "II" && endian !== "MM") return fallback;
-
-        const ifd0Offset = view.getUint32(tiffStart + 4, littleEndian);
-        const exifDate = findExifDateInIfd(view, tiffStart, ifd0Offset, littleEndian);
-        return exifDate ?? fallback;
-      }
-
-      offset += size;
-    }
+    const raw = readJpegExif(await file.arrayBuffer())?.dateTimeOriginal;
+    return (raw ? exifDateToInputValue(raw) : null) ?? fallback;
   } catch {
     return fallback;
   }
+}
 
-  return fallback;
+/** 편집에 스캔 모서리를 바꿔 넣는다. undefined면 다음 스캔 때 다시 찾는다. */
+function withCorners(edit: ImageEdit | null, corners: Quad | null | undefined): ImageEdit | null {
+  const next: ImageEdit = { rotation: edit?.rotation ?? 0, crop: edit?.crop ?? null };
+  if (corners !== undefined) next.corners = corners;
+  // corners: null(보정 안 함)은 기억해야 하므로 편집 없음(null)으로 접지 않는다.
+  return corners === undefined && isIdentityEdit(next) ? null : next;
 }
 
 export default function UploadPage() {
   const router = useRouter();
 
   const [kidName, setKidName] = useState("");
+  const [kids, setKids] = useState<Kid[]>([]);
   const [title, setTitle] = useState("");
   const [selectedFiles, setSelectedFiles] = useState<SelectedUploadFile[]>([]);
 
+  const [compress, setCompress] = useState<CompressSettings>(DEFAULT_COMPRESS_SETTINGS);
+  const processRunRef = useRef(0);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [scanMode, setScanMode] = useState(false);
+  const [cornerEditingId, setCornerEditingId] = useState<string | null>(null);
+
   const [madeAtMode, setMadeAtMode] = useState<MadeAtMode>("now");
   const [madeAtInput, setMadeAtInput] = useState(formatDateForInput(new Date()));
   const [madeAtError, setMadeAtError] = useState<string | null>(null);
@@ -175,6 +195,139 @@ export default function UploadPage() {
   const [msg, setMsg] = useState("");
   const [msgTone, setMsgTone] = useState<"ok" | "err" | "info">("info");
   const [redirectIn, setRedirectIn] = useState<number | null>(null);
+  const [pendingResumes, setPendingResumes] = useState<ResumableRecord[]>([]);
+
+  const [queuedCount, setQueuedCount] = useState(0);
+  const [sharedFiles, setSharedFiles] = useState<File[] | null>(null);
+
+  // 등록된 아이들 (작가 고르기). 오프라인이면 빈 목록 — 이름을 직접 적으면 된다.
+  useEffect(() => {
+    listKids().then(({ kids }) => setKids(kids));
+  }, []);
+
+  // 지난번에 끊긴 큰 파일 업로드가 남아 있으면 알려 준다 (같은 사진을 다시 고르면 이어서 올라간다).
+  useEffect(() => {
+    listPendingResumableUploads().then(setPendingResumes);
+  }, []);
+
+  // 오프라인 대기열에 남은 작품 수 (헤더의 "대기열" 링크)
+  useEffect(() => {
+    const refresh = () => {
+      listQueuedUploads()
+        .then((items) => setQueuedCount(items.length))
+        .catch(() => setQueuedCount(0));
+    };
+    refresh();
+    return subscribeUploadQueue(refresh);
+  }, []);
+
+  // 새 버전 안내에서 새로고침하기 전에 작성 중인 카드를 저장해 두고, 다시 열리면 그대로 되살린다.
+  const saveDraftForUpdate = useEffectEvent(async () => {
+    if (busy) return "업로드 중이에요. 끝난 뒤에 새로고침해 주세요.";
+    const cards = selectedFiles.filter((item) => item.upload.status !== "done");
+    if (cards.length === 0 && !kidName.trim() && !title.trim()) return null;
+
+    try {
+      await saveUploadDraft<UploadDraft>({
+        kidName,
+        title,
+        compress,
+        scanMode,
+        madeAtMode,
+        madeAtInput,
+        cards: cards.map((item) => ({
+          file: item.file,
+          edit: item.edit,
+          scanMissed: item.scanMissed,
+          detectedMadeAt: item.detectedMadeAt,
+          titleSuggestion: item.titleSuggestion,
+          title: item.title,
+          titleEdited: item.titleEdited,
+          kidName: item.kidName,
+          kidNameEdited: item.kidNameEdited,
+          catalog: item.catalog,
+          story: item.story,
+          upload: item.upload,
+          contentHash: item.contentHash,
+          duplicateOf: item.duplicateOf,
+          duplicateInBatch: item.duplicateInBatch,
+          skipDuplicate: item.skipDuplicate,
+        })),
+      });
+      return null;
+    } catch {
+      return "작성 중인 업로드를 저장하지 못했어요. 업로드를 마친 뒤 새로고침해 주세요.";
+    }
+  });
+
+  const restoreDraft = useEffectEvent((draft: UploadDraft) => {
+    const next: SelectedUploadFile[] = draft.cards.map((card) => ({
+      ...card,
+      // 이 필드가 생기기 전 버전에서 저장한 초안에는 없다.
+      catalog: card.catalog ?? EMPTY_CATALOG_INPUT,
+      story: card.story ?? "",
+      id: crypto.randomUUID(),
+      processed: null,
+      processing: true,
+      processError: null,
+      processVersion: 0,
+      editedPreview: null,
+      previewUrl: URL.createObjectURL(card.file),
+    }));
+
+    setKidName(draft.kidName);
+    setTitle(draft.title);
+    setCompress(draft.compress);
+    setScanMode(draft.scanMode);
+    setMadeAtMode(draft.madeAtMode);
+    setMadeAtInput(draft.madeAtInput);
+    setSelectedFiles(next);
+    setMsgTone("info");
+    setMsg("새 버전으로 바뀌기 전에 작성하던 업로드를 되살렸어요.");
+    if (next.length > 0) void processFiles(next, draft.compress, draft.scanMode);
+  });
+
+  useEffect(() => {
+    takeUploadDraft<UploadDraft>().then((draft) => {
+      if (draft) restoreDraft(draft);
+    });
+    return onBeforeAppUpdate(() => saveDraftForUpdate());
+  }, []);
+
+  // 다른 앱에서 "공유"로 보낸 사진 (public/sw.js → /upload?share=1). 작가는 지난번에 올린 아이로 채운다.
+  useEffect(() => {
+    const share = new URLSearchParams(window.location.search).get("share");
+    if (!share) return;
+    router.replace("/upload");
+
+    if (share === "unavailable") {
+      queueMicrotask(() => {
+        setMsgTone("err");
+        setMsg("공유한 사진을 받지 못했어요. 앱을 한 번 연 뒤 다시 공유하거나, 아래에서 사진을 골라 주세요.");
+      });
+      return;
+    }
+
+    Promise.all([takeSharedFiles(), fetchLastKidName()])
+      .then(([files, lastKidName]) => {
+        if (files.length === 0) return;
+        if (lastKidName) setKidName((prev) => prev || lastKidName);
+        setSharedFiles(files);
+      })
+      .catch((e) => {
+        setMsgTone("err");
+        setMsg("공유한 사진을 읽지 못했어요: " + (e instanceof Error ? e.message : "unknown"));
+      });
+  }, [router]);
+
+  // 작가 이름이 반영된 다음 렌더에서 카드를 만든다.
+  const receiveSharedFiles = useEffectEvent((files: File[]) => {
+    void handleFilesChange(files);
+  });
+
+  useEffect(() => {
+    if (sharedFiles) receiveSharedFiles(sharedFiles);
+  }, [sharedFiles]);
 
   useEffect(() => {
     if (madeAtMode !== "manual") {
@@ -226,18 +379,113 @@ export default function UploadPage() {
   }, [kidName]);
 
   const canSubmit = useMemo(() => {
-    if (selectedFiles.length === 0) return false;
-    if (selectedFiles.some((item) => !item.title.trim() || !item.kidName.trim())) return false;
+    const toUpload = selectedFiles.filter((item) => !isSkippedDuplicate(item));
+    if (toUpload.length === 0) return false;
+    if (toUpload.some((item) => !item.title.trim() || !item.kidName.trim())) return false;
+    if (toUpload.some((item) => !!parseCatalogInput(item.catalog).error)) return false;
+    if (toUpload.some((item) => (normalizeStory(item.story)?.length ?? 0) > MAX_STORY_LENGTH)) return false;
+    if (toUpload.some((item) => item.processing || !item.processed)) return false;
     if (madeAtMode === "manual" && !!madeAtError) return false;
     return true;
   }, [selectedFiles, madeAtMode, madeAtError]);
 
-  const handleFilesChange = async (list: FileList | null) => {
-    const files = Array.from(list ?? []);
+  // 카드마다 순서대로 줄이기/재인코딩. 전체 다시 처리(run)가 새로 시작되면 이전 run은 멈추고,
+  // 카드 하나만 다시 처리할 때는 processVersion으로 옛 결과를 걸러낸다.
+  // 스캔 모드면 아직 모서리를 정하지 않은 카드는 먼저 종이를 자동으로 찾는다.
+  const processFiles = async (targets: SelectedUploadFile[], settings: CompressSettings, scan: boolean, wholeRun = true) => {
+    const run = wholeRun ? ++processRunRef.current : processRunRef.current;
+
+    for (const target of targets) {
+      let processed: PreparedImage | null = null;
+      let processError: string | null = null;
+      let editedPreview: string | null = null;
+      let edit = target.edit;
+      let scanMissed = false;
+      try {
+        if (scan && edit?.corners === undefined) {
+          const found = await detectPaperCorners(target.file);
+          scanMissed = !found;
+          edit = found ? withCorners(edit, found) : edit;
+        }
+        processed = await prepareImageForUpload(target.file, settings, edit);
+        if (!isIdentityEdit(edit)) editedPreview = await previewDataUrl(processed.file);
+      } catch (e) {
+        processError = e instanceof Error ? e.message : "이미지 처리 실패";
+      }
+
+      if (wholeRun && processRunRef.current !== run) return;
+      setSelectedFiles((prev) =>
+        prev.map((item) =>
+          item.id === target.id && item.processVersion === target.processVersion
+            ? { ...item, edit, scanMissed, processed, processing: false, processError, editedPreview }
+            : item
+        )
+      );
+    }
+  };
+
+  const markPending = (item: SelectedUploadFile): SelectedUploadFile => ({
+    ...item,
+    processed: null,
+    processing: true,
+    processError: null,
+    processVersion: item.processVersion + 1,
+  });
+
+  const applyEdit = (id: string, edit: ImageEdit | null) => {
+    setEditingId(null);
+    const target = selectedFiles.find((item) => item.id === id);
+    if (!target) return;
+
+    const pending = { ...markPending(target), edit, editedPreview: null };
+    setSelectedFiles((prev) => prev.map((item) => (item.id === id ? pending : item)));
+    void processFiles([pending], compress, scanMode, false);
+  };
+
+  const applyCrop = (id: string, edit: ImageEdit | null) => {
+    const target = selectedFiles.find((item) => item.id === id);
+    // 회전·자르기를 되돌려도 스캔 보정 선택(corners)은 남긴다.
+    applyEdit(id, edit ?? withCorners(null, target?.edit?.corners));
+  };
+
+  const applyScanCorners = (id: string, corners: Quad | null) => {
+    setCornerEditingId(null);
+    const target = selectedFiles.find((item) => item.id === id);
+    if (!target) return;
+    applyEdit(id, withCorners(target.edit, corners));
+  };
+
+  const updateCompress = (patch: Partial<CompressSettings>) => {
+    const next = { ...compress, ...patch };
+    setCompress(next);
+    if (selectedFiles.length === 0) return;
+
+    const pending = selectedFiles.map(markPending);
+    setSelectedFiles(pending);
+    void processFiles(pending, next, scanMode);
+  };
+
+  // 스캔 모드를 끄면 모든 카드의 보정을 빼고 원래 사진으로 되돌린다.
+  const updateScanMode = (enabled: boolean) => {
+    setScanMode(enabled);
+    if (selectedFiles.length === 0) return;
+
+    const pending = selectedFiles.map((item) => ({
+      ...markPending(item),
+      edit: withCorners(item.edit, undefined),
+      scanMissed: false,
+      editedPreview: null,
+    }));
+    setSelectedFiles(pending);
+    void processFiles(pending, compress, enabled);
+  };
+
+  const handleFilesChange = async (list: FileList | File[] | null) => {
+    const picked = Array.from(list ?? []);
 
     selectedFiles.forEach((item) => URL.revokeObjectURL(item.previewUrl));
 
-    if (files.length === 0) {
+    if (picked.length === 0) {
       setSelectedFiles([]);
       return;
     }
@@ -245,14 +493,59 @@ export default function UploadPage() {
     setMsgTone("info");
     setMsg("사진 정보를 읽는 중...");
 
+    // 중복 확인용 해시는 고른 원본 그대로 계산한다 (변환·압축 결과는 매번 달라질 수 있다).
+    // 아이폰 HEIC는 여기서 JPEG로 바꿔 둔다 (촬영일 포함). 디코딩이 무거워서 한 장씩.
+    const files: { file: File; contentHash: string | null }[] = [];
+    const failed: string[] = [];
+    for (const file of picked) {
+      const contentHash = await sha256Hex(file).catch(() => null);
+      if (!isHeicFile(file)) {
+        files.push({ file, contentHash });
+        continue;
+      }
+      setMsg(`HEIC 사진을 변환하는 중... (${file.name})`);
+      try {
+        files.push({ file: await convertHeicToJpeg(file), contentHash });
+      } catch (e) {
+        console.warn("HEIC 변환 실패:", file.name, e);
+        failed.push(file.name);
+      }
+    }
+
+    if (files.length === 0) {
+      setSelectedFiles([]);
+      setMsgTone("err");
+      setMsg(`HEIC 사진을 변환하지 못했습니다: ${failed.join(", ")}`);
+      return;
+    }
+
+    setMsg("이미 올린 사진인지 확인하는 중...");
+    const existing = await findArtworksByHash(files.map((f) => f.contentHash ?? ""));
+    const seen = new Set<string>();
+
     const built = await Promise.all(
-      files.map(async (file) => {
+      files.map(async ({ file, contentHash }) => {
         const titleSuggestion = sanitizeTitleFromFilename(file.name);
+        const duplicateOf = contentHash ? existing.get(contentHash) ?? null : null;
+        const duplicateInBatch = !!contentHash && !duplicateOf && seen.has(contentHash);
+        if (contentHash) seen.add(contentHash);
         return {
+          id: crypto.randomUUID(),
           file,
+          processed: null,
+          processing: true,
+          processError: null,
+          processVersion: 0,
+          edit: null,
+          scanMissed: false,
+          editedPreview: null,
           previewUrl: URL.createObjectURL(file),
           detectedMadeAt: await detectPhotoMadeAt(file),
           titleSuggestion,
+          contentHash,
+          duplicateOf,
+          duplicateInBatch,
+          skipDuplicate: true,
         };
       })
     );
@@ -263,10 +556,23 @@ export default function UploadPage() {
       titleEdited: false,
       kidName: kidName.trim(),
       kidNameEdited: false,
+      catalog: EMPTY_CATALOG_INPUT,
+      story: "",
+      upload: IDLE_UPLOAD,
     }));
 
     setSelectedFiles(next);
-    setMsg("");
+    const duplicates = next.filter(isSkippedDuplicate).length;
+    if (failed.length > 0) {
+      setMsgTone("err");
+      setMsg(`HEIC 사진을 변환하지 못해 뺐습니다: ${failed.join(", ")}`);
+    } else if (duplicates > 0) {
+      setMsgTone("info");
+      setMsg(`이미 올린 사진 ${duplicates}개는 건너뜁니다. 카드에서 "그래도 올리기"를 고를 수 있습니다.`);
+    } else {
+      setMsg("");
+    }
+    void processFiles(next, compress, scanMode);
   };
 
   const resolveArtworkMadeAt = (item: SelectedUploadFile) => {
@@ -282,6 +588,17 @@ export default function UploadPage() {
     return parsed.iso;
   };
 
+  /** 카드의 작가 생일을 알면 작품제작일 기준 나이 ("만 4세 3개월"). 모르면 빈 문자열. */
+  const cardKidAge = (item: SelectedUploadFile) => {
+    const kid = findKidByName(kids, item.kidName);
+    if (!kid?.birthdate) return "";
+    try {
+      return formatKidAge(kidAgeMonths(kid.birthdate, resolveArtworkMadeAt(item)));
+    } catch {
+      return "";
+    }
+  };
+
   const updateCardTitle = (index: number, value: string) => {
     setSelectedFiles((prev) => prev.map((item, i) => (i === index ? { ...item, title: value, titleEdited: true } : item)));
   };
@@ -290,6 +607,32 @@ export default function UploadPage() {
     setSelectedFiles((prev) => prev.map((item, i) => (i === index ? { ...item, kidName: value, kidNameEdited: true } : item)));
   };
 
+  const updateCardStory = (index: number, value: string) => {
+    setSelectedFiles((prev) => prev.map((item, i) => (i === index ? { ...item, story: value } : item)));
+  };
+
+  const updateCardCatalog = (index: number, patch: Partial<CatalogInput>) => {
+    setSelectedFiles((prev) => prev.map((item, i) => (i === index ? { ...item, catalog: { ...item.catalog, ...patch } } : item)));
+  };
+
+  /** 한 카드의 재료·태그를 아직 올리지 않은 다른 카드에도 넣는다 (크기는 작품마다 달라서 그대로 둔다). */
+  const applyCatalogToAll = (index: number) => {
+    setSelectedFiles((prev) => {
+      const { medium, tags } = prev[index].catalog;
+      return prev.map((item) => (item.upload.status === "done" ? item : { ...item, catalog: { ...item.catalog, medium, tags } }));
+    });
+  };
+
+  const cardCatalog = (item: SelectedUploadFile) => {
+    const parsed = parseCatalogInput(item.catalog);
+    if (parsed.error) throw new Error(parsed.error);
+    return parsed.catalog;
+  };
+
+  const toggleSkipDuplicate = (id: string, skip: boolean) => {
+    setSelectedFiles((prev) => prev.map((item) => (item.id === id ? { ...item, skipDuplicate: skip } : item)));
+  };
+
   const resetForm = () => {
     selectedFiles.forEach((item) => URL.revokeObjectURL(item.previewUrl));
     setKidName("");
@@ -299,16 +642,131 @@ export default function UploadPage() {
     setMadeAtInput(formatDateForInput(new Date()));
   };
 
-  const upload = async () => {
-    if (!canSubmit) {
-      alert("사진을 선택하고, 각 작품 카드의 제목과 작가(아이 이름)를 모두 입력해 주세요.");
+  const patchUpload = (id: string, patch: Partial<UploadState>) => {
+    setSelectedFiles((prev) => prev.map((item) => (item.id === id ? { ...item, upload: { ...item.upload, ...patch } } : item)));
+  };
+
+  // 사진 한 장: 파일 올리기 → DB 저장 → 썸네일 요청. 네트워크 오류는 간격을 늘려 가며 다시 시도하고,
+  // 이미 끝난 단계(stored, artworkId)는 건너뛴다.
+  const uploadOne = async (item: SelectedUploadFile, index: number) => {
+    let stored = item.upload.stored;
+    let artworkId = item.upload.artworkId;
+    let savedId: string;
+
+    try {
+      if (!item.processed) throw new Error(`사진 처리 실패 / ${item.processError ?? "unknown"}`);
+      const uploadFile = item.processed.file;
+      const artworkMadeAt = resolveArtworkMadeAt(item);
+      const catalog = cardCatalog(item);
+
+      savedId = await withRetry(
+        async (attempt) => {
+          if (!stored) {
+            patchUpload(item.id, { status: "uploading", attempt, progress: 0, error: null });
+            const fileExt = uploadFile.name.split(".").pop() || "jpg";
+            const filePath = `${Date.now()}-${index}-${Math.random().toString(16).slice(2)}.${fileExt}`;
+            stored = await uploadArtworkObjectResumable(uploadFile, filePath, (loaded, total) =>
+              patchUpload(item.id, { progress: Math.round((loaded / total) * 100) })
+            );
+            patchUpload(item.id, { stored, progress: 100 });
+          }
+
+          if (!artworkId) {
+            patchUpload(item.id, { status: "saving", attempt, error: null });
+            // 서버가 파일과 작품 행을 함께 만든다. 저장에 실패하면 서버가 파일도 지우므로 다음 시도는 파일부터 다시 올린다.
+            const created = await createArtworkRecord({
+              stored,
+              kidName: item.kidName.trim(),
+              title: item.title.trim(),
+              artworkMadeAt,
+              contentHash: item.contentHash,
+              catalog,
+              story: normalizeStory(item.story),
+            });
+
+            if (!created.id) {
+              if (created.objectRemoved) {
+                stored = null;
+                patchUpload(item.id, { stored: null });
+              }
+              const message = `DB 저장 실패 / ${created.error ?? "no row"}`;
+              throw created.status ? new StorageHttpError(created.status, message) : new Error(message);
+            }
+            artworkId = created.id;
+            patchUpload(item.id, { artworkId });
+          }
+          return artworkId;
+        },
+        {
+          retries: UPLOAD_RETRIES,
+          baseDelayMs: UPLOAD_RETRY_BASE_MS,
+          shouldRetry: isRetryableStorageError,
+          onRetry: (attempt, error, delayMs) =>
+            patchUpload(item.id, {
+              status: "queued",
+              attempt,
+              error: `${error instanceof Error ? error.message : "오류"} · ${Math.round(delayMs / 1000)}초 뒤 다시 시도`,
+            }),
+        }
+      );
+    } catch (e) {
+      patchUpload(item.id, { status: "failed", error: e instanceof Error ? e.message : "업로드 실패" });
+      return false;
+    }
+
+    // 썸네일 생성이 실패해도 작품은 원본으로 보이므로 성공으로 친다.
+    const { error: renditionError } = await requestArtworkRenditions(savedId);
+    if (renditionError) console.warn(`[renditions] ${item.file.name}: ${renditionError}`);
+    patchUpload(item.id, { status: "done", progress: 100, error: null });
+    return true;
+  };
+
+  /** 연결이 없을 때: 처리된 사진과 카드 내용을 그대로 오프라인 대기열에 넣는다. 연결되면 알아서 올라간다. */
+  const queueOffline = async (targets: SelectedUploadFile[]) => {
+    setBusy(true);
+    try {
+      await enqueueUploads(
+        targets.map((item) => {
+          if (!item.processed) throw new Error(`${item.file.name}: 사진 처리 실패 / ${item.processError ?? "unknown"}`);
+          return {
+            file: item.processed.file,
+            fileName: item.processed.file.name,
+            kidName: item.kidName.trim(),
+            title: item.title.trim(),
+            artworkMadeAt: resolveArtworkMadeAt(item),
+            contentHash: item.contentHash,
+            catalog: cardCatalog(item),
+            story: normalizeStory(item.story),
+          };
+        })
+      );
+    } catch (e) {
+      setMsgTone("err");
+      setMsg("대기열에 넣지 못했습니다: " + (e instanceof Error ? e.message : "unknown"));
+      setBusy(false);
+      return;
+    }
+
+    setBusy(false);
+    resetForm();
+    setMsgTone("ok");
+    setMsg(`${targets.length}개 작품을 업로드 대기열에 넣었습니다. 인터넷이 연결되면 자동으로 올라가요. (‘대기열’에서 고치거나 취소할 수 있어요)`);
+  };
+
+  /** targets만 올린다. 처음엔 전체, "실패한 사진만 다시 올리기"에선 실패한 카드만. */
+  const runUpload = async (targets: SelectedUploadFile[]) => {
+    if (targets.length === 0) return;
+
+    if (!navigator.onLine) {
+      await queueOffline(targets);
       return;
     }
 
     setBusy(true);
     setMsgTone("info");
-    setMsg("업로드 중...");
+    setMsg(`업로드 중... (${targets.length}개)`);
 
+    // 작품 행은 서버가 가족 정보로 만들지만, 로그인/가족 연결 문제는 여기서 먼저 알려 준다.
     const { data: prof, error: profErr } = await supabase.from("profiles").select("family_id").single();
 
     if (profErr || !prof?.family_id) {
@@ -318,45 +776,58 @@ export default function UploadPage() {
       return;
     }
 
-    try {
-      for (let i = 0; i < selectedFiles.length; i++) {
-        const item = selectedFiles[i];
-        const fileExt = item.file.name.split(".").pop() || "jpg";
-        const filePath = `${Date.now()}-${i}-${Math.random().toString(16).slice(2)}.${fileExt}`;
-        const artworkMadeAt = resolveArtworkMadeAt(item);
-
-        const { error: uploadError } = await supabase.storage.from("artworks").upload(filePath, item.file, { upsert: false });
-        if (uploadError) throw new Error(`파일 업로드 실패: ${item.file.name} / ${uploadError.message}`);
-
-        const { data: publicUrlData } = supabase.storage.from("artworks").getPublicUrl(filePath);
-        const publicUrl = publicUrlData.publicUrl;
-
-        const { error: dbError } = await supabase.from("artworks").insert({
-          family_id: prof.family_id,
-          kid_name: item.kidName.trim(),
-          title: item.title.trim(),
-          private_image_path: publicUrl,
-          public_image_path: publicUrl,
-          is_public: false,
-          artwork_made_at: artworkMadeAt,
-        });
-
-        if (dbError) throw new Error(`DB 저장 실패: ${item.file.name} / ${dbError.message}`);
-      }
+    const targetIds = new Set(targets.map((item) => item.id));
+    setSelectedFiles((prev) =>
+      prev.map((item) =>
+        targetIds.has(item.id) ? { ...item, upload: { ...item.upload, status: "queued", attempt: 0, error: null } } : item
+      )
+    );
 
-      setMsgTone("ok");
-      setMsg(`업로드 완료: ${selectedFiles.length}개 작품을 저장했습니다. 잠시 후 가족 전시관으로 이동합니다.`);
-      setRedirectIn(2);
-      resetForm();
-    } catch (error) {
+    let failed = 0;
+    await runWithConcurrency(targets, UPLOAD_CONCURRENCY, async (item) => {
+      const index = selectedFiles.findIndex((it) => it.id === item.id);
+      const ok = await uploadOne(item, index);
+      if (!ok) failed++;
+    });
+
+    const skipped = selectedFiles.filter(isSkippedDuplicate).length;
+    const total = selectedFiles.length - skipped;
+    const done = selectedFiles.filter((item) => item.upload.status === "done").length + targets.length - failed;
+    setBusy(false);
+
+    if (failed > 0) {
       setMsgTone("err");
-      setMsg(error instanceof Error ? error.message : "업로드 중 오류가 발생했습니다.");
-    } finally {
-      setBusy(false);
+      setMsg(`${total}개 중 ${done}개 저장, ${failed}개 실패했습니다. "실패한 사진만 다시 올리기"를 눌러 주세요.`);
+      return;
     }
+
+    setMsgTone("ok");
+    setMsg(
+      `업로드 완료: ${total}개 작품을 저장했습니다.${skipped > 0 ? ` (이미 올린 사진 ${skipped}개는 건너뜀)` : ""} 잠시 후 가족 전시관으로 이동합니다.`
+    );
+    setRedirectIn(2);
+    resetForm();
   };
 
-  const isManualDisabled = busy || madeAtMode !== "manual";
+  const upload = () => {
+    if (!canSubmit) {
+      alert("사진을 선택하고, 각 작품 카드의 제목과 작가(아이 이름)를 모두 입력해 주세요.");
+      return;
+    }
+    void runUpload(selectedFiles.filter((item) => item.upload.status !== "done" && !isSkippedDuplicate(item)));
+  };
+
+  const retryFailed = () => {
+    void runUpload(selectedFiles.filter((item) => item.upload.status === "failed"));
+  };
+
+  // 일부라도 올리기 시작했으면 공통 설정은 잠근다 (이미 저장된 작품과 어긋나지 않게).
+  const uploadStarted = selectedFiles.some((item) => item.upload.status !== "idle");
+  const settingsLocked = busy || uploadStarted;
+  const failedCount = selectedFiles.filter((item) => item.upload.status === "failed").length;
+  const isManualDisabled = settingsLocked || madeAtMode !== "manual";
+  const editingItem = editingId ? selectedFiles.find((item) => item.id === editingId) ?? null : null;
+  const cornerEditingItem = cornerEditingId ? selectedFiles.find((item) => item.id === cornerEditingId) ?? null : null;
 
   return (
     <main className="wrap">
@@ -367,6 +838,11 @@ export default function UploadPage() {
           <p className="desc">아이 이름과 사진을 올리면 작품제작일을 현재시간, 사진 생성날짜, 직접입력 중에서 고를 수 있습니다.</p>
         </div>
         <div className="right">
+          {queuedCount > 0 ? (
+            <Link className="ghost" href="/upload/queue">
+              대기열 {queuedCount}
+            </Link>
+          ) : null}
           <Link className="ghost" href="/manage">
             가족 전시관
           </Link>
@@ -376,12 +852,61 @@ export default function UploadPage() {
         </div>
       </header>
 
+      {pendingResumes.length > 0 && !uploadStarted ? (
+        <div className="resumeBox">
+          끊긴 업로드가 {pendingResumes.length}개 있어요 ({pendingResumes.slice(0, 3).map((r) => r.fileName).join(", ")}
+          {pendingResumes.length > 3 ? " 외" : ""}). 같은 사진을 같은 설정으로 다시 고르면 끊긴 곳부터 이어서 올라가요.
+        </div>
+      ) : null}
+
       <section className="card">
         <div className="grid">
           <div className="field">
             <label className="label">아이 이름(작가) · 공통 기본값</label>
-            <input className="input" placeholder="예: 민서" value={kidName} onChange={(e) => setKidName(e.target.value)} disabled={busy} />
-            <div className="hint">아래 사진 카드에 자동으로 채워집니다. 작품마다 작가가 다르면 카드에서 직접 고치세요.</div>
+            {kids.length > 0 ? (
+              <div className="kidPicker">
+                {kids.map((kid) => {
+                  const avatar = kidAvatarUrl(kid);
+                  const active = findKidByName([kid], kidName) !== null;
+                  return (
+                    <button
+                      key={kid.id}
+                      type="button"
+                      className={active ? "kidChip active" : "kidChip"}
+                      style={{ borderColor: kidColor(kid) }}
+                      onClick={() => setKidName(kid.name)}
+                      disabled={settingsLocked}
+                    >
+                      <span className="kidAvatar" style={{ background: kidColor(kid) }}>
+                        {/* eslint-disable-next-line @next/next/no-img-element */}
+                        {avatar ? <img src={avatar} alt="" /> : kid.name.slice(0, 1)}
+                      </span>
+                      {kidLabel(kid)}
+                    </button>
+                  );
+                })}
+              </div>
+            ) : null}
+            <input
+              className="input"
+              placeholder="예: 민서"
+              value={kidName}
+              onChange={(e) => setKidName(e.target.value)}
+              disabled={settingsLocked}
+              list="kid-names"
+            />
+            <div className="hint">
+              {kidName.trim() && kids.length > 0 && !findKidByName(kids, kidName)
+                ? `"${kidName.trim()}"은(는) 새 아이로 등록돼요. 아이 정보는 가족 전시관 › 아이 관리에서 고칠 수 있어요.`
+                : "아래 사진 카드에 자동으로 채워집니다. 작품마다 작가가 다르면 카드에서 직접 고치세요."}
+            </div>
+            <datalist id="kid-names">
+              {kids.map((kid) => (
+                <option key={kid.id} value={kid.name}>
+                  {kid.nickname ?? undefined}
+                </option>
+              ))}
+            </datalist>
           </div>
 
           <div className="field">
@@ -391,7 +916,7 @@ export default function UploadPage() {
               placeholder={selectedFiles.length > 1 ? "비워두면 파일명으로 자동 채움" : "예: 봄 꽃밭"}
               value={title}
               onChange={(e) => setTitle(e.target.value)}
-              disabled={busy}
+              disabled={settingsLocked}
             />
             <div className="hint">
               {selectedFiles.length > 1
@@ -404,7 +929,7 @@ export default function UploadPage() {
             <label className="label">작품제작일</label>
             <div className="modeRow">
               <label className="check">
-                <input type="checkbox" checked={madeAtMode === "now"} onChange={() => setMadeAtMode("now")} disabled={busy} />
+                <input type="checkbox" checked={madeAtMode === "now"} onChange={() => setMadeAtMode("now")} disabled={settingsLocked} />
                 <span>현재시간</span>
               </label>
               <label className="check">
@@ -412,12 +937,12 @@ export default function UploadPage() {
                   type="checkbox"
                   checked={madeAtMode === "photo"}
                   onChange={() => setMadeAtMode("photo")}
-                  disabled={busy || selectedFiles.length === 0}
+                  disabled={settingsLocked || selectedFiles.length === 0}
                 />
                 <span>사진 생성날짜</span>
               </label>
               <label className="check">
-                <input type="checkbox" checked={madeAtMode === "manual"} onChange={() => setMadeAtMode("manual")} disabled={busy} />
+                <input type="checkbox" checked={madeAtMode === "manual"} onChange={() => setMadeAtMode("manual")} disabled={settingsLocked} />
                 <span>직접입력</span>
               </label>
             </div>
@@ -446,7 +971,7 @@ export default function UploadPage() {
                 <input
                   className="fileHidden"
                   type="file"
-                  accept="image/*"
+                  accept="image/*,.heic,.heif"
                   multiple
                   onChange={(e) => void handleFilesChange(e.target.files)}
                   disabled={busy}
@@ -459,7 +984,67 @@ export default function UploadPage() {
               </div>
             </div>
 
-            <div className="hint">여러 장을 한 번에 올릴 수 있습니다. 각 작품은 개별 항목으로 저장됩니다. 사진을 꾹 누르시면 복수개가 선택됩니다.</div>
+            <div className="hint">여러 장을 한 번에 올릴 수 있습니다. 각 작품은 개별 항목으로 저장됩니다. 사진을 꾹 누르시면 복수개가 선택됩니다. 아이폰 HEIC 사진은 JPEG로 바꿔서 올립니다.</div>
+          </div>
+
+          <div className="field">
+            <label className="label">사진 용량 줄이기</label>
+            <div className="modeRow">
+              <label className="check">
+                <input
+                  type="checkbox"
+                  checked={!compress.enabled}
+                  onChange={(e) => updateCompress({ enabled: !e.target.checked })}
+                  disabled={settingsLocked}
+                />
+                <span>원본 그대로 올리기</span>
+              </label>
+              <label className="check">
+                <span>긴 변</span>
+                <select
+                  className="select"
+                  value={compress.maxEdge}
+                  onChange={(e) => updateCompress({ maxEdge: Number(e.target.value) })}
+                  disabled={settingsLocked || !compress.enabled}
+                >
+                  {MAX_EDGE_OPTIONS.map((px) => (
+                    <option key={px} value={px}>
+                      {px}px
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="check">
+                <span>화질 {Math.round(compress.quality * 100)}</span>
+                <input
+                  type="range"
+                  min={50}
+                  max={95}
+                  step={5}
+                  value={Math.round(compress.quality * 100)}
+                  onChange={(e) => updateCompress({ quality: Number(e.target.value) / 100 })}
+                  disabled={settingsLocked || !compress.enabled}
+                />
+              </label>
+            </div>
+            <div className="hint">
+              업로드 전에 휴대폰에서 사진 크기를 줄여 저장 공간을 아낍니다. 카드마다 줄어든 용량이 표시됩니다. 원본으로 올려도 위치(GPS)·기기
+              정보는 지우고 촬영일만 남기며, 옆으로 누운 사진은 바로 세워서 올립니다.
+            </div>
+          </div>
+
+          <div className="field">
+            <label className="label">스캔 모드</label>
+            <div className="modeRow">
+              <label className="check">
+                <input type="checkbox" checked={scanMode} onChange={(e) => updateScanMode(e.target.checked)} disabled={settingsLocked} />
+                <span>비스듬히 찍은 종이 그림 반듯하게 펴기</span>
+              </label>
+            </div>
+            <div className="hint">
+              종이의 네 모서리를 자동으로 찾아 스캐너로 읽은 것처럼 펴서 올립니다. 카드의 &quot;모서리 맞추기&quot;에서 직접 고치거나 &quot;보정 안
+              함&quot;으로 원래 사진을 그대로 올릴 수 있습니다.
+            </div>
           </div>
         </div>
 
@@ -472,34 +1057,210 @@ export default function UploadPage() {
 
             <div className="previewGrid">
               {selectedFiles.map((item, index) => (
-                <div className="previewCard" key={`${item.file.name}-${index}`}>
+                <div className={`previewCard ${isSkippedDuplicate(item) ? "skipped" : ""}`} key={item.id}>
                   {/* eslint-disable-next-line @next/next/no-img-element */}
-                  <img className="preview" src={item.previewUrl} alt={item.file.name} />
+                  <img className="preview" src={item.editedPreview ?? item.previewUrl} alt={item.file.name} />
+                  {item.duplicateOf || item.duplicateInBatch ? (
+                    <div className="dupBox">
+                      {item.duplicateOf ? (
+                        <>
+                          이미 올린 작품입니다:{" "}
+                          <Link className="dupLink" href={`/manage?artwork=${item.duplicateOf.artworkId}`} target="_blank">
+                            {item.duplicateOf.title || "작품 보기"}
+                            {item.duplicateOf.kidName ? ` (${item.duplicateOf.kidName})` : ""}
+                          </Link>
+                        </>
+                      ) : (
+                        "앞 카드와 같은 사진입니다."
+                      )}
+                      <label className="dupCheck">
+                        <input
+                          type="checkbox"
+                          checked={!item.skipDuplicate}
+                          onChange={(e) => toggleSkipDuplicate(item.id, !e.target.checked)}
+                          disabled={busy || item.upload.status === "done"}
+                        />
+                        <span>그래도 올리기</span>
+                      </label>
+                    </div>
+                  ) : null}
+                  {scanMode ? (
+                    <button className="editBtn" onClick={() => setCornerEditingId(item.id)} disabled={busy || item.processing || item.upload.status === "done"}>
+                      {item.edit?.corners ? "모서리 맞추기 (보정됨)" : item.edit?.corners === null ? "모서리 맞추기 (보정 안 함)" : "모서리 맞추기"}
+                    </button>
+                  ) : null}
+                  <button className="editBtn" onClick={() => setEditingId(item.id)} disabled={busy || item.upload.status === "done"}>
+                    {item.edit?.rotation || item.edit?.crop ? "회전·자르기 (편집됨)" : "회전·자르기"}
+                  </button>
+                  {item.scanMissed ? <div className="previewWarn">종이 모서리를 찾지 못했습니다. 직접 맞춰 주세요.</div> : null}
                   <input
                     className="cardInput"
                     placeholder="제목"
                     value={item.title}
                     onChange={(e) => updateCardTitle(index, e.target.value)}
-                    disabled={busy}
+                    disabled={busy || item.upload.status === "done"}
                   />
                   <input
                     className="cardInput"
                     placeholder="작가(아이 이름)"
+                    list="kid-names"
                     value={item.kidName}
                     onChange={(e) => updateCardKidName(index, e.target.value)}
-                    disabled={busy}
+                    disabled={busy || item.upload.status === "done"}
+                  />
+                  <textarea
+                    className="cardInput cardStory"
+                    placeholder={"작품 설명 / 아이의 한마디\n예) 공룡이 엄마를 찾으러 가는 길이야!"}
+                    rows={3}
+                    value={item.story}
+                    onChange={(e) => updateCardStory(index, e.target.value)}
+                    disabled={busy || item.upload.status === "done"}
                   />
+                  {(normalizeStory(item.story)?.length ?? 0) > MAX_STORY_LENGTH ? (
+                    <div className="previewHint err">
+                      {MAX_STORY_LENGTH}자까지 적을 수 있어요. (지금 {normalizeStory(item.story)?.length}자)
+                    </div>
+                  ) : null}
+                  <details className="catalog">
+                    <summary>
+                      재료·태그·크기
+                      {item.catalog.medium ? <span className="catalogSummary"> · {mediumLabel(item.catalog.medium)}</span> : null}
+                    </summary>
+                    <select
+                      className="cardInput"
+                      value={item.catalog.medium}
+                      onChange={(e) => updateCardCatalog(index, { medium: e.target.value })}
+                      disabled={busy || item.upload.status === "done"}
+                    >
+                      <option value="">재료 (선택)</option>
+                      {ARTWORK_MEDIUMS.map((m) => (
+                        <option key={m.value} value={m.value}>
+                          {m.label}
+                        </option>
+                      ))}
+                    </select>
+                    <input
+                      className="cardInput"
+                      placeholder="태그 (쉼표로 구분: 공룡, 가족 여행)"
+                      value={item.catalog.tags}
+                      onChange={(e) => updateCardCatalog(index, { tags: e.target.value })}
+                      disabled={busy || item.upload.status === "done"}
+                    />
+                    <div className="sizeRow">
+                      {(
+                        [
+                          ["width", "가로"],
+                          ["height", "세로"],
+                          ["depth", "높이"],
+                        ] as const
+                      ).map(([field, label]) => (
+                        <input
+                          key={field}
+                          className="cardInput"
+                          inputMode="decimal"
+                          placeholder={`${label} cm`}
+                          aria-label={`${label} (cm)`}
+                          value={item.catalog[field]}
+                          onChange={(e) => updateCardCatalog(index, { [field]: e.target.value })}
+                          disabled={busy || item.upload.status === "done"}
+                        />
+                      ))}
+                    </div>
+                    <div className="previewHint">높이는 점토처럼 입체 작품일 때만 적어요.</div>
+                    {selectedFiles.length > 1 && (item.catalog.medium || item.catalog.tags.trim()) ? (
+                      <button className="linkBtn" onClick={() => applyCatalogToAll(index)} disabled={busy}>
+                        이 재료·태그를 모든 카드에 적용
+                      </button>
+                    ) : null}
+                  </details>
+                  {parseCatalogInput(item.catalog).error ? <div className="previewHint err">{parseCatalogInput(item.catalog).error}</div> : null}
                   <div className="previewHint">{item.detectedMadeAt ?? "-"}</div>
+                  {cardKidAge(item) ? <div className="previewHint">그린 나이 {cardKidAge(item)}</div> : null}
+                  <div className="previewHint">
+                    {item.processing ? (
+                      "용량 줄이는 중..."
+                    ) : item.processed?.reencoded ? (
+                      <>
+                        {formatBytes(item.file.size)} → <b>{formatBytes(item.processed.file.size)}</b>
+                        {item.processed.file.size < item.file.size
+                          ? ` (-${Math.round((1 - item.processed.file.size / item.file.size) * 100)}%)`
+                          : ""}
+                      </>
+                    ) : (
+                      `${formatBytes(item.processed?.file.size ?? item.file.size)} · 원본`
+                    )}
+                  </div>
+                  {item.processed?.locationRemoved ? <div className="previewWarn">위치(GPS) 정보가 있어 지웠습니다.</div> : null}
+                  {item.processed && item.processed.removedTags.length > 0 ? (
+                    <div className="previewHint">함께 지운 정보: {item.processed.removedTags.join(", ")}</div>
+                  ) : null}
+                  {item.processError ? <div className="previewHint err">{item.processError} · 이 사진은 올릴 수 없습니다.</div> : null}
+                  {item.upload.status !== "idle" ? (
+                    <div className={`uploadState ${item.upload.status}`}>
+                      <div className="uploadLabel">
+                        {item.upload.status === "queued"
+                          ? "대기 중"
+                          : item.upload.status === "uploading"
+                            ? `올리는 중 ${item.upload.progress}%`
+                            : item.upload.status === "saving"
+                              ? "저장 중..."
+                              : item.upload.status === "done"
+                                ? "완료"
+                                : "실패"}
+                        {item.upload.attempt > 1 && item.upload.status !== "done" ? ` · ${item.upload.attempt}번째 시도` : ""}
+                      </div>
+                      {item.upload.status === "uploading" ? (
+                        <div className="progressBar">
+                          <div className="progressFill" style={{ width: `${item.upload.progress}%` }} />
+                        </div>
+                      ) : null}
+                      {item.upload.error ? <div className="uploadError">{item.upload.error}</div> : null}
+                    </div>
+                  ) : null}
                 </div>
               ))}
             </div>
           </div>
         )}
 
+        {editingItem && (
+          <CropRotateEditor
+            key={editingItem.id}
+            file={editingItem.file}
+            initial={editingItem.edit}
+            onCancel={() => setEditingId(null)}
+            onApply={(edit) => applyCrop(editingItem.id, edit)}
+          />
+        )}
+
+        {cornerEditingItem && (
+          <PerspectiveEditor
+            key={cornerEditingItem.id}
+            file={cornerEditingItem.file}
+            initial={cornerEditingItem.edit?.corners ?? null}
+            onCancel={() => setCornerEditingId(null)}
+            onApply={(corners) => applyScanCorners(cornerEditingItem.id, corners)}
+          />
+        )}
+
         <div className="actions">
           <button className="primary" onClick={upload} disabled={busy || !canSubmit}>
-            {busy ? "업로드 중..." : selectedFiles.length > 1 ? "여러 작품 업로드" : "업로드"}
+            {busy ? "업로드 중..." : uploadStarted ? "남은 작품 업로드" : selectedFiles.length > 1 ? "여러 작품 업로드" : "업로드"}
           </button>
+          {failedCount > 0 && !busy ? (
+            <button className="ghostBtn" onClick={retryFailed}>
+              실패한 사진만 다시 올리기 ({failedCount})
+            </button>
+          ) : null}
+          {failedCount > 0 && !busy ? (
+            <button
+              className="ghostBtn"
+              onClick={() => void queueOffline(selectedFiles.filter((item) => item.upload.status === "failed"))}
+              title="연결이 좋아지면 자동으로 올라가요"
+            >
+              실패한 사진은 대기열에 넣기
+            </button>
+          ) : null}
           <Link className="ghostBtn" href="/manage">
             취소
           </Link>
@@ -527,7 +1288,14 @@ export default function UploadPage() {
         .label { font-size: 12px; color: #6b7280; font-weight: 800; }
         .input { padding: 11px 12px; border-radius: 14px; border: 1px solid #e5e7eb; background: #fff; outline: none; font-size: 13px; }
         .hint { font-size: 12px; color: #6b7280; line-height: 1.45; }
+        .kidPicker { display: flex; flex-wrap: wrap; gap: 6px; }
+        .kidChip { display: inline-flex; align-items: center; gap: 6px; padding: 4px 10px 4px 4px; border-radius: 999px; border: 2px solid #e5e7eb; background: #fff; cursor: pointer; font-size: 12px; font-weight: 800; color: #111827; }
+        .kidChip.active { background: #111827; color: #fff; }
+        .kidChip:disabled { opacity: 0.5; cursor: not-allowed; }
+        .kidAvatar { width: 24px; height: 24px; border-radius: 999px; overflow: hidden; display: inline-flex; align-items: center; justify-content: center; color: #fff; font-size: 11px; font-weight: 900; }
+        .kidAvatar img { width: 100%; height: 100%; object-fit: cover; }
         .err { color: #b45309; font-weight: 800; }
+        .select { padding: 6px 8px; border-radius: 10px; border: 1px solid #e5e7eb; background: #fff; font-size: 12px; font-weight: 800; }
         .modeRow { display: flex; gap: 14px; align-items: center; flex-wrap: wrap; }
         .check { display: inline-flex; align-items: center; gap: 8px; font-size: 12px; color: #111827; font-weight: 800; user-select: none; }
         .fileRow { display: flex; gap: 10px; align-items: center; flex-wrap: wrap; }
@@ -542,14 +1310,34 @@ export default function UploadPage() {
         .previewMeta { font-size: 12px; color: #6b7280; font-weight: 800; }
         .previewGrid { display: grid; grid-template-columns: repeat(auto-fill, minmax(160px, 1fr)); gap: 10px; }
         .previewCard { border: 1px solid #e8ebf0; border-radius: 14px; background: #fff; padding: 8px; }
+        .previewCard.skipped .preview { opacity: 0.45; }
+        .resumeBox { margin-top: 16px; padding: 10px 12px; border-radius: 12px; border: 1px solid #fde68a; background: #fffbeb; color: #92400e; font-size: 12px; font-weight: 800; line-height: 1.5; }
+        .dupBox { margin-top: 8px; padding: 6px 8px; border-radius: 8px; background: #e0e7ff; color: #3730a3; font-size: 11px; font-weight: 800; line-height: 1.45; }
+        .dupLink { color: inherit; text-decoration: underline; }
+        .dupCheck { margin-top: 4px; display: flex; align-items: center; gap: 6px; color: #111827; }
         .preview { width: 100%; height: 140px; object-fit: cover; border-radius: 10px; background: #f3f4f6; border: 1px solid #f1f5f9; }
         .previewName { margin-top: 8px; font-size: 12px; font-weight: 800; color: #111827; word-break: break-word; }
+        .editBtn { margin-top: 8px; width: 100%; padding: 7px 10px; border-radius: 10px; border: 1px solid #e5e7eb; background: #fff; color: #111827; font-size: 11px; font-weight: 900; cursor: pointer; }
+        .editBtn:disabled { opacity: 0.5; cursor: not-allowed; }
         .cardInput { margin-top: 8px; width: 100%; box-sizing: border-box; padding: 8px 10px; border-radius: 10px; border: 1px solid #e5e7eb; background: #fff; outline: none; font-size: 12px; font-weight: 700; color: #111827; }
         .cardInput:focus { border-color: #c7cdd6; }
+        .cardStory { resize: vertical; min-height: 56px; font-family: inherit; line-height: 1.45; }
+        .catalog { margin-top: 8px; }
+        .catalog summary { cursor: pointer; font-size: 12px; font-weight: 800; color: #374151; }
+        .catalogSummary { font-weight: 700; color: #6b7280; }
+        .linkBtn { margin-top: 6px; padding: 0; border: 0; background: none; color: #6b7280; font-size: 11px; text-decoration: underline; cursor: pointer; }
+        .sizeRow { display: grid; grid-template-columns: repeat(3, 1fr); gap: 6px; }
         .previewHint { margin-top: 6px; font-size: 11px; color: #6b7280; }
+        .previewWarn { margin-top: 6px; padding: 4px 8px; border-radius: 8px; background: #fef3c7; color: #92400e; font-size: 11px; font-weight: 800; }
+        .uploadState { margin-top: 8px; padding: 6px 8px; border-radius: 8px; background: #f3f4f6; font-size: 11px; font-weight: 800; color: #374151; }
+        .uploadState.done { background: #dcfce7; color: #166534; }
+        .uploadState.failed { background: #fee2e2; color: #991b1b; }
+        .uploadError { margin-top: 4px; font-weight: 700; word-break: break-word; }
+        .progressBar { margin-top: 6px; height: 6px; border-radius: 999px; background: #e5e7eb; overflow: hidden; }
+        .progressFill { height: 100%; background: #111827; transition: width 0.2s ease; }
         .actions { margin-top: 14px; display: flex; gap: 10px; align-items: center; flex-wrap: wrap; }
         .primary { padding: 11px 14px; border-radius: 14px; border: 1px solid rgba(0,0,0,0.08); background: #111827; color: #fff; font-size: 13px; font-weight: 900; cursor: pointer; }
-        .ghostBtn { padding: 11px 14px; border-radius: 14px; border: 1px solid #e5e7eb; background: #fff; color: #111827; text-decoration: none; font-size: 13px; font-weight: 900; }
+        .ghostBtn { padding: 11px 14px; border-radius: 14px; border: 1px solid #e5e7eb; background: #fff; color: #111827; text-decoration: none; font-size: 13px; font-weight: 900; cursor: pointer; }
         .message { margin-top: 14px; padding: 10px 12px; border-radius: 12px; border: 1px solid #eee; background: #fff; font-size: 13px; }
         .message.ok { border-color: rgba(34,197,94,0.35); }
         .message.err { border-color: rgba(239,68,68,0.35); }
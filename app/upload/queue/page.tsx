@@ -0,0 +1,358 @@
+"use client";
+
+import { useEffect, useMemo, useState } from "react";
+import Link from "next/link";
+import { formatDateForInput, parseArtworkMadeAt } from "../../../lib/artworkDate";
+import {
+  ARTWORK_MEDIUMS,
+  catalogToInput,
+  MAX_STORY_LENGTH,
+  normalizeStory,
+  parseCatalogInput,
+  type CatalogInput,
+} from "../../../lib/artworkCatalog";
+import { formatBytes } from "../../../lib/imageProcessing";
+import {
+  cancelQueuedUpload,
+  listQueuedUploads,
+  retryQueuedUploads,
+  subscribeUploadQueue,
+  syncUploadQueue,
+  updateQueuedUpload,
+  type QueuedUpload,
+} from "../../../lib/offlineQueue";
+
+type Draft = { kidName: string; title: string; madeAt: string; story: string; catalog: CatalogInput };
+
+const STATUS_LABELS: Record<QueuedUpload["status"], string> = {
+  pending: "연결되면 올라가요",
+  uploading: "올리는 중...",
+  failed: "실패",
+};
+
+function draftOf(item: QueuedUpload): Draft {
+  return {
+    kidName: item.kidName,
+    title: item.title,
+    madeAt: formatDateForInput(new Date(item.artworkMadeAt)),
+    story: item.story ?? "",
+    catalog: catalogToInput(item.catalog),
+  };
+}
+
+export default function UploadQueuePage() {
+  const [items, setItems] = useState<QueuedUpload[]>([]);
+  const [drafts, setDrafts] = useState<Record<string, Draft>>({});
+  const [online, setOnline] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [msg, setMsg] = useState("");
+
+  useEffect(() => {
+    const refresh = () => {
+      listQueuedUploads()
+        .then(setItems)
+        .catch((e) => setMsg("⚠️ 대기열을 읽지 못했어요: " + (e instanceof Error ? e.message : "unknown")));
+    };
+    const onOnline = () => setOnline(true);
+    const onOffline = () => setOnline(false);
+
+    refresh();
+    const unsubscribe = subscribeUploadQueue(refresh);
+    window.addEventListener("online", onOnline);
+    window.addEventListener("offline", onOffline);
+    queueMicrotask(() => setOnline(navigator.onLine));
+
+    return () => {
+      unsubscribe();
+      window.removeEventListener("online", onOnline);
+      window.removeEventListener("offline", onOffline);
+    };
+  }, []);
+
+  const previews = useMemo(() => new Map(items.map((item) => [item.id, URL.createObjectURL(item.file)])), [items]);
+
+  useEffect(() => {
+    return () => previews.forEach((url) => URL.revokeObjectURL(url));
+  }, [previews]);
+
+  const failedCount = items.filter((item) => item.status === "failed").length;
+
+  const setDraft = (item: QueuedUpload, patch: Partial<Draft>) => {
+    setDrafts((prev) => ({ ...prev, [item.id]: { ...(prev[item.id] ?? draftOf(item)), ...patch } }));
+  };
+
+  const setCatalogDraft = (item: QueuedUpload, patch: Partial<CatalogInput>) => {
+    setDrafts((prev) => {
+      const draft = prev[item.id] ?? draftOf(item);
+      return { ...prev, [item.id]: { ...draft, catalog: { ...draft.catalog, ...patch } } };
+    });
+  };
+
+  const saveDraft = async (item: QueuedUpload) => {
+    const draft = drafts[item.id];
+    if (!draft) return;
+
+    const parsed = parseArtworkMadeAt(draft.madeAt);
+    if (!parsed.iso) {
+      setMsg("❌ " + (parsed.error ?? "작품제작일 형식이 올바르지 않습니다."));
+      return;
+    }
+    if (!draft.kidName.trim() || !draft.title.trim()) {
+      setMsg("❌ 제목과 작가(아이 이름)를 모두 입력해 주세요.");
+      return;
+    }
+    const story = normalizeStory(draft.story);
+    if ((story?.length ?? 0) > MAX_STORY_LENGTH) {
+      setMsg(`❌ 작품 설명은 ${MAX_STORY_LENGTH}자까지 적을 수 있어요.`);
+      return;
+    }
+    const catalog = parseCatalogInput(draft.catalog);
+    if (catalog.error || !catalog.catalog) {
+      setMsg("❌ " + (catalog.error ?? "재료·태그·크기를 확인해 주세요."));
+      return;
+    }
+
+    const { error } = await updateQueuedUpload(item.id, {
+      kidName: draft.kidName.trim(),
+      title: draft.title.trim(),
+      artworkMadeAt: parsed.iso,
+      story,
+      catalog: catalog.catalog,
+    });
+    if (error) {
+      setMsg("❌ " + error);
+      return;
+    }
+
+    setDrafts((prev) => {
+      const next = { ...prev };
+      delete next[item.id];
+      return next;
+    });
+    setMsg("✅ 고쳤어요.");
+  };
+
+  const cancel = async (item: QueuedUpload) => {
+    const ok = confirm(`‘${item.title}’을(를) 대기열에서 뺄까요? (올리지 않고 지워져요)`);
+    if (!ok) return;
+    const { error } = await cancelQueuedUpload(item.id);
+    setMsg(error ? "❌ " + error : "대기열에서 뺐어요.");
+  };
+
+  const syncNow = async (retry: boolean) => {
+    setSyncing(true);
+    setMsg("올리는 중...");
+    const { uploaded, failed } = retry ? await retryQueuedUploads() : await syncUploadQueue();
+    setSyncing(false);
+    setMsg(failed > 0 ? `⚠️ ${uploaded}개 올림, ${failed}개 실패` : uploaded > 0 ? `✅ ${uploaded}개 올렸어요.` : "");
+  };
+
+  return (
+    <main className="wrap">
+      <header className="header">
+        <div>
+          <div className="eyebrow">UPLOAD QUEUE</div>
+          <h1 className="h1">업로드 대기열</h1>
+          <p className="desc">인터넷이 없을 때 올린 작품이에요. 연결되면 자동으로 올라가고, 그 전에 제목·작가·제작일·작품 설명·재료·태그·크기를 고치거나 취소할 수 있어요.</p>
+        </div>
+        <div className="right">
+          <Link className="ghost" href="/upload">
+            업로드
+          </Link>
+          <Link className="ghost" href="/manage">
+            가족 전시관
+          </Link>
+        </div>
+      </header>
+
+      <div className="toolbar">
+        <div className={`net ${online ? "on" : "off"}`}>{online ? "온라인" : "오프라인 — 연결되면 올라가요"}</div>
+        <div className="toolbarBtns">
+          {failedCount > 0 ? (
+            <button className="ghostBtn" onClick={() => void syncNow(true)} disabled={!online || syncing}>
+              실패한 작품 다시 올리기 ({failedCount})
+            </button>
+          ) : null}
+          <button className="darkBtn" onClick={() => void syncNow(false)} disabled={!online || syncing || items.length === 0}>
+            {syncing ? "올리는 중..." : "지금 올리기"}
+          </button>
+        </div>
+      </div>
+
+      {msg && <div className="notice">{msg}</div>}
+
+      {items.length === 0 ? (
+        <div className="empty">
+          <div className="emptyTitle">대기 중인 작품이 없어요</div>
+          <div className="emptyDesc">오프라인일 때 업로드하면 여기에 모였다가 연결되면 올라가요.</div>
+        </div>
+      ) : (
+        <div className="list">
+          {items.map((item) => {
+            const draft = drafts[item.id] ?? draftOf(item);
+            const dirty = !!drafts[item.id];
+            const locked = item.status === "uploading";
+            const madeAtError = dirty ? parseArtworkMadeAt(draft.madeAt).error : null;
+            const storyLength = normalizeStory(draft.story)?.length ?? 0;
+            const catalogError = dirty ? parseCatalogInput(draft.catalog).error : null;
+
+            return (
+              <article className="row" key={item.id}>
+                {/* eslint-disable-next-line @next/next/no-img-element */}
+                <img className="thumb" src={previews.get(item.id)} alt={item.title} />
+
+                <div className="fields">
+                  <div className={`status ${item.status}`}>
+                    {STATUS_LABELS[item.status]}
+                    {item.attempts > 0 && item.status !== "uploading" ? ` · ${item.attempts}번 시도` : ""}
+                    <span className="fileMeta">
+                      {item.fileName} · {formatBytes(item.file.size)}
+                    </span>
+                  </div>
+                  {item.error ? <div className="error">{item.error}</div> : null}
+
+                  <label className="field">
+                    <span className="label">제목</span>
+                    <input className="input" value={draft.title} onChange={(e) => setDraft(item, { title: e.target.value })} disabled={locked} />
+                  </label>
+                  <label className="field">
+                    <span className="label">작가(아이 이름)</span>
+                    <input className="input" value={draft.kidName} onChange={(e) => setDraft(item, { kidName: e.target.value })} disabled={locked} />
+                  </label>
+                  <label className="field">
+                    <span className="label">작품제작일 (YYYY-MM-DD HH:mm)</span>
+                    <input className="input" value={draft.madeAt} onChange={(e) => setDraft(item, { madeAt: e.target.value })} disabled={locked} />
+                    {madeAtError ? <span className="error">{madeAtError}</span> : null}
+                  </label>
+                  <label className="field">
+                    <span className="label">작품 설명 / 아이의 한마디</span>
+                    <textarea
+                      className="input story"
+                      rows={3}
+                      value={draft.story}
+                      onChange={(e) => setDraft(item, { story: e.target.value })}
+                      disabled={locked}
+                    />
+                    {storyLength > MAX_STORY_LENGTH ? (
+                      <span className="error">
+                        {MAX_STORY_LENGTH}자까지 적을 수 있어요. (지금 {storyLength}자)
+                      </span>
+                    ) : null}
+                  </label>
+                  <div className="catalogRow">
+                    <label className="field">
+                      <span className="label">재료</span>
+                      <select className="input" value={draft.catalog.medium} onChange={(e) => setCatalogDraft(item, { medium: e.target.value })} disabled={locked}>
+                        <option value="">모름 / 적지 않기</option>
+                        {ARTWORK_MEDIUMS.map((m) => (
+                          <option key={m.value} value={m.value}>
+                            {m.label}
+                          </option>
+                        ))}
+                      </select>
+                    </label>
+                    <label className="field">
+                      <span className="label">태그</span>
+                      <input
+                        className="input"
+                        placeholder="쉼표로 구분: 공룡, 가족 여행"
+                        value={draft.catalog.tags}
+                        onChange={(e) => setCatalogDraft(item, { tags: e.target.value })}
+                        disabled={locked}
+                      />
+                    </label>
+                  </div>
+                  <div className="field">
+                    <span className="label">실물 크기 (cm)</span>
+                    <div className="sizeRow">
+                      {(
+                        [
+                          ["width", "가로"],
+                          ["height", "세로"],
+                          ["depth", "높이 (입체만)"],
+                        ] as const
+                      ).map(([field, label]) => (
+                        <input
+                          key={field}
+                          className="input"
+                          inputMode="decimal"
+                          placeholder={label}
+                          aria-label={`${label} cm`}
+                          value={draft.catalog[field]}
+                          onChange={(e) => setCatalogDraft(item, { [field]: e.target.value })}
+                          disabled={locked}
+                        />
+                      ))}
+                    </div>
+                    {catalogError ? <span className="error">{catalogError}</span> : null}
+                  </div>
+
+                  <div className="rowBtns">
+                    <button className="darkBtn" onClick={() => void saveDraft(item)} disabled={locked || !dirty || !!madeAtError || !!catalogError || storyLength > MAX_STORY_LENGTH}>
+                      고친 내용 저장
+                    </button>
+                    <button className="delBtn" onClick={() => void cancel(item)} disabled={locked}>
+                      취소
+                    </button>
+                  </div>
+                </div>
+              </article>
+            );
+          })}
+        </div>
+      )}
+
+      <style jsx>{`
+        .wrap { padding: 38px; max-width: 980px; margin: 0 auto; }
+        .header { display: flex; align-items: flex-end; justify-content: space-between; gap: 14px; padding-bottom: 14px; border-bottom: 1px solid #eef0f3; }
+        .eyebrow { font-size: 11px; letter-spacing: 0.18em; color: #6b7280; }
+        .h1 { margin: 6px 0 6px; letter-spacing: -0.6px; font-size: 28px; }
+        .desc { margin: 0; color: #6b7280; font-size: 14px; line-height: 1.45; }
+        .right { display: flex; gap: 10px; align-items: center; flex-wrap: wrap; justify-content: flex-end; }
+        .ghost { font-size: 12px; padding: 10px 12px; border-radius: 12px; border: 1px solid #e5e7eb; background: #fff; color: #111827; text-decoration: none; font-weight: 800; }
+
+        .toolbar { margin-top: 14px; display: flex; gap: 10px; align-items: center; justify-content: space-between; flex-wrap: wrap; }
+        .toolbarBtns { display: flex; gap: 8px; flex-wrap: wrap; }
+        .net { font-size: 12px; font-weight: 900; padding: 6px 10px; border-radius: 999px; }
+        .net.on { background: #dcfce7; color: #166534; }
+        .net.off { background: #fef3c7; color: #92400e; }
+        .ghostBtn { padding: 10px 12px; border-radius: 12px; border: 1px solid #e5e7eb; background: #fff; cursor: pointer; font-size: 12px; font-weight: 900; }
+        .darkBtn { padding: 10px 12px; border-radius: 12px; border: 1px solid rgba(0,0,0,0.08); background: #111827; color: #fff; cursor: pointer; font-size: 12px; font-weight: 900; }
+        .delBtn { padding: 10px 12px; border-radius: 12px; border: 1px solid #e5e7eb; background: #fff; cursor: pointer; font-size: 12px; font-weight: 900; }
+        .ghostBtn:disabled, .darkBtn:disabled, .delBtn:disabled { opacity: 0.45; cursor: not-allowed; }
+        .notice { margin-top: 14px; padding: 10px 12px; border: 1px solid #eee; border-radius: 12px; background: #fff; color: #111827; font-size: 13px; }
+
+        .empty { margin-top: 18px; border: 1px solid #eef0f3; border-radius: 16px; padding: 18px; background: #fafafa; }
+        .emptyTitle { font-weight: 900; letter-spacing: -0.4px; }
+        .emptyDesc { margin-top: 6px; font-size: 13px; color: #6b7280; line-height: 1.45; }
+
+        .list { margin-top: 16px; display: grid; gap: 12px; }
+        .row { display: grid; grid-template-columns: 140px 1fr; gap: 14px; border: 1px solid #e8ebf0; border-radius: 16px; background: #fff; padding: 12px; }
+        .thumb { width: 140px; height: 140px; object-fit: cover; border-radius: 12px; background: #f3f4f6; }
+        .fields { display: grid; gap: 8px; align-content: start; }
+        .status { font-size: 12px; font-weight: 900; display: flex; gap: 8px; flex-wrap: wrap; align-items: baseline; }
+        .status.pending { color: #92400e; }
+        .status.uploading { color: #1d4ed8; }
+        .status.failed { color: #b91c1c; }
+        .fileMeta { color: #9ca3af; font-weight: 700; }
+        .error { font-size: 12px; color: #b91c1c; font-weight: 700; }
+        .field { display: grid; gap: 4px; }
+        .label { font-size: 12px; color: #6b7280; font-weight: 800; }
+        .input { padding: 9px 11px; border-radius: 10px; border: 1px solid #e5e7eb; font-size: 13px; }
+        .story { resize: vertical; font-family: inherit; line-height: 1.5; }
+        .catalogRow { display: grid; grid-template-columns: 1fr 2fr; gap: 8px; }
+        .sizeRow { display: grid; grid-template-columns: repeat(3, 1fr); gap: 6px; }
+        .sizeRow .input { min-width: 0; }
+        .rowBtns { display: flex; gap: 8px; justify-content: flex-end; }
+
+        @media (max-width: 720px) {
+          .wrap { padding: 18px; }
+          .header { align-items: flex-start; flex-direction: column; }
+          .row { grid-template-columns: 1fr; }
+          .catalogRow { grid-template-columns: 1fr; }
+          .thumb { width: 100%; height: auto; aspect-ratio: 1 / 1; }
+        }
+      `}</style>
+    </main>
+  );
+}
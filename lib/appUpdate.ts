@@ -0,0 +1,73 @@
+import type { ReleaseNote } from "./releaseNotes";
+
+// 새 배포 알아채기 + 새로고침 전 준비.
+//   - /api/version 과 지금 돌고 있는 번들의 버전/빌드를 비교한다.
+//   - 새 서비스 워커(public/sw.js)가 대기 중이면 새로고침할 때 그걸 켠다.
+//   - 새로고침하기 전에 각 화면이 등록한 핸들러를 부른다 (업로드 화면은 작성 중인 카드를 저장한다).
+
+export const APP_VERSION = process.env.NEXT_PUBLIC_APP_VERSION ?? "";
+export const APP_BUILD = process.env.NEXT_PUBLIC_BUILD_ID ?? "";
+
+export type DeployedRelease = {
+  version: string;
+  build: string;
+  notes: ReleaseNote[];
+};
+
+/** 배포된 버전이 지금 번들과 다르면 그 정보를, 같거나 모르면 null. */
+export async function fetchNewerRelease(): Promise<DeployedRelease | null> {
+  try {
+    const res = await fetch(`/api/version?since=${encodeURIComponent(APP_VERSION)}`, { cache: "no-store" });
+    const json = await res.json().catch(() => null);
+    if (!res.ok || !json?.ok) return null;
+
+    const deployed: DeployedRelease = { version: json.version ?? "", build: json.build ?? "", notes: json.notes ?? [] };
+    // 빌드 ID가 양쪽에 있으면 그걸로, 없으면 버전으로 비교한다.
+    const changed =
+      deployed.build && APP_BUILD ? deployed.build !== APP_BUILD : !!deployed.version && !!APP_VERSION && deployed.version !== APP_VERSION;
+    return changed ? deployed : null;
+  } catch {
+    return null;
+  }
+}
+
+/** 새로고침 직전에 불린다. 문자열을 돌려주면 새로고침을 막고 그 이유를 보여 준다. */
+export type BeforeAppUpdateHandler = () => Promise<string | null> | string | null;
+
+const handlers = new Set<BeforeAppUpdateHandler>();
+
+/** 해제 함수를 돌려준다. */
+export function onBeforeAppUpdate(handler: BeforeAppUpdateHandler) {
+  handlers.add(handler);
+  return () => {
+    handlers.delete(handler);
+  };
+}
+
+/** 등록된 핸들러를 모두 부른다. 하나라도 막으면 그 이유를 돌려준다. */
+export async function prepareForAppUpdate() {
+  for (const handler of handlers) {
+    const blocked = await handler();
+    if (blocked) return blocked;
+  }
+  return null;
+}
+
+/**
+ * 새 버전으로 다시 연다. 대기 중인 서비스 워커가 있으면 먼저 켜고(controllerchange) 새로고침한다.
+ * 핸들러가 막으면 새로고침하지 않고 이유를 돌려준다.
+ */
+export async function applyAppUpdate(): Promise<string | null> {
+  const blocked = await prepareForAppUpdate();
+  if (blocked) return blocked;
+
+  const waiting = "serviceWorker" in navigator ? (await navigator.serviceWorker.getRegistration())?.waiting : null;
+  if (!waiting) {
+    window.location.reload();
+    return null;
+  }
+
+  navigator.serviceWorker.addEventListener("controllerchange", () => window.location.reload(), { once: true });
+  waiting.postMessage({ type: "skip-waiting" });
+  return null;
+}
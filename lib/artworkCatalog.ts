@@ -0,0 +1,146 @@
+// 작품 카탈로그: 재료(medium)·태그·실물 크기(cm) (migration 010)와 작품 이야기(story, migration 011).
+// 업로드 카드, 작품 정보 수정, POST /api/artworks 가 같은 규칙으로 검사한다.
+// 브라우저·서버 양쪽에서 쓰므로 supabase 클라이언트를 가져오지 않는다.
+
+export const ARTWORK_MEDIUMS = [
+  { value: "crayon", label: "크레파스·크레용" },
+  { value: "colored_pencil", label: "색연필" },
+  { value: "pencil", label: "연필" },
+  { value: "marker", label: "사인펜·마커" },
+  { value: "watercolor", label: "수채화" },
+  { value: "paint", label: "물감·포스터컬러" },
+  { value: "clay", label: "점토" },
+  { value: "collage", label: "콜라주" },
+  { value: "paper_craft", label: "종이접기·만들기" },
+  { value: "digital", label: "디지털" },
+  { value: "mixed", label: "혼합 재료" },
+  { value: "other", label: "기타" },
+] as const;
+
+export type ArtworkMedium = (typeof ARTWORK_MEDIUMS)[number]["value"];
+
+export type ArtworkCatalog = {
+  medium: ArtworkMedium | null;
+  tags: string[];
+  width_cm: number | null;
+  height_cm: number | null;
+  /** 입체 작품(점토 등)만 */
+  depth_cm: number | null;
+};
+
+/** 화면 입력칸 그대로의 값 (태그는 쉼표로 구분, 크기는 문자열) */
+export type CatalogInput = {
+  medium: string;
+  tags: string;
+  width: string;
+  height: string;
+  depth: string;
+};
+
+export const EMPTY_CATALOG_INPUT: CatalogInput = { medium: "", tags: "", width: "", height: "", depth: "" };
+
+export const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 30;
+/** artworks.story 최대 글자 수 (migration 011의 check와 같다) */
+export const MAX_STORY_LENGTH = 2000;
+/** 10m 넘는 작품은 오타로 본다. */
+const MAX_CM = 1000;
+
+export function isArtworkMedium(value: unknown): value is ArtworkMedium {
+  return ARTWORK_MEDIUMS.some((m) => m.value === value);
+}
+
+export function mediumLabel(medium: string | null | undefined) {
+  return ARTWORK_MEDIUMS.find((m) => m.value === medium)?.label ?? "";
+}
+
+/** 앞뒤 공백·'#' 을 떼고, 대소문자만 다른 태그는 하나로, 최대 MAX_TAGS 개 */
+export function normalizeTags(tags: readonly string[]) {
+  const out: string[] = [];
+  const seen = new Set<string>();
+  for (const raw of tags) {
+    const tag = raw.replace(/^#+/, "").trim().replace(/\s+/g, " ").slice(0, MAX_TAG_LENGTH);
+    const key = tag.toLowerCase();
+    if (!tag || seen.has(key)) continue;
+    seen.add(key);
+    out.push(tag);
+    if (out.length >= MAX_TAGS) break;
+  }
+  return out;
+}
+
+/** "공룡, 가족 여행 #바다" → ["공룡", "가족 여행", "바다"] */
+export function parseTagsInput(input: string) {
+  return normalizeTags(input.split(/[,，\n#]/));
+}
+
+export function formatTagsInput(tags: readonly string[] | null | undefined) {
+  return (tags ?? []).join(", ");
+}
+
+export function isValidCm(value: unknown): value is number {
+  return typeof value === "number" && Number.isFinite(value) && value > 0 && value <= MAX_CM;
+}
+
+/** "29.7" → 29.7 (소수 첫째 자리까지). 빈칸이면 null. */
+export function parseCmInput(input: string): { value: number | null; error: string | null } {
+  const t = input.trim().replace(/cm$/i, "").trim();
+  if (!t) return { value: null, error: null };
+  const n = Number(t.replace(",", "."));
+  if (!isValidCm(n)) return { value: null, error: `크기는 0보다 크고 ${MAX_CM}cm 이하인 숫자로 입력해 주세요.` };
+  return { value: Math.round(n * 10) / 10, error: null };
+}
+
+export function catalogToInput(c: Partial<ArtworkCatalog> | null | undefined): CatalogInput {
+  const cm = (v: number | null | undefined) => (v == null ? "" : String(v));
+  return {
+    medium: c?.medium ?? "",
+    tags: formatTagsInput(c?.tags),
+    width: cm(c?.width_cm),
+    height: cm(c?.height_cm),
+    depth: cm(c?.depth_cm),
+  };
+}
+
+export function parseCatalogInput(input: CatalogInput): { catalog: ArtworkCatalog | null; error: string | null } {
+  if (input.medium && !isArtworkMedium(input.medium)) return { catalog: null, error: "재료를 목록에서 골라 주세요." };
+  const width = parseCmInput(input.width);
+  const height = parseCmInput(input.height);
+  const depth = parseCmInput(input.depth);
+  const error = width.error ?? height.error ?? depth.error;
+  if (error) return { catalog: null, error };
+
+  return {
+    catalog: {
+      medium: input.medium ? (input.medium as ArtworkMedium) : null,
+      tags: parseTagsInput(input.tags),
+      width_cm: width.value,
+      height_cm: height.value,
+      depth_cm: depth.value,
+    },
+    error: null,
+  };
+}
+
+/** 21 × 29.7 cm, 입체면 10 × 8 × 5 cm. 하나도 없으면 빈 문자열 */
+export function formatArtworkSize(c: Partial<Pick<ArtworkCatalog, "width_cm" | "height_cm" | "depth_cm">> | null | undefined) {
+  const parts = [c?.width_cm, c?.height_cm, c?.depth_cm].filter((v): v is number => v != null);
+  return parts.length > 0 ? `${parts.join(" × ")} cm` : "";
+}
+
+/** 행에서 카탈로그만 꺼낸다. 이 필드가 없던 RPC·오프라인 목록이면 빈 값. */
+export function pickCatalog(row: Partial<ArtworkCatalog> | null | undefined): ArtworkCatalog {
+  return {
+    medium: isArtworkMedium(row?.medium) ? row.medium : null,
+    tags: row?.tags ?? [],
+    width_cm: row?.width_cm ?? null,
+    height_cm: row?.height_cm ?? null,
+    depth_cm: row?.depth_cm ?? null,
+  };
+}
+
+/** "작품 설명 / 아이의 한마디": 앞뒤 공백을 떼고 연달아 있는 빈 줄은 하나만 남긴다. 비었으면 null. */
+export function normalizeStory(input: string | null | undefined) {
+  const t = (input ?? "").replace(/\r\n?/g, "\n").replace(/[ \t]+\n/g, "\n").replace(/\n{3,}/g, "\n\n").trim();
+  return t ? t : null;
+}
@@ -0,0 +1,41 @@
+// 작품제작일 입력칸("YYYY-MM-DD HH:mm", 로컬 시간) 형식과 검사.
+// 업로드 화면과 오프라인 대기열 화면이 같은 규칙을 쓴다.
+
+function pad2(v: number) {
+  return String(v).padStart(2, "0");
+}
+
+export function formatDateForInput(date: Date) {
+  return `${date.getFullYear()}-${pad2(date.getMonth() + 1)}-${pad2(date.getDate())} ${pad2(date.getHours())}:${pad2(
+    date.getMinutes()
+  )}`;
+}
+
+export function parseArtworkMadeAt(input: string): { iso: string | null; error: string | null } {
+  const t = input.trim();
+  const m = /^(\d{4})-(\d{2})-(\d{2})\s+(\d{2}):(\d{2})$/.exec(t);
+  if (!m) return { iso: null, error: "형식은 YYYY-MM-DD HH:mm 입니다." };
+
+  const yyyy = Number(m[1]);
+  const mm = Number(m[2]);
+  const dd = Number(m[3]);
+  let hh = Number(m[4]);
+  const mi = Number(m[5]);
+
+  if (mm < 1 || mm > 12) return { iso: null, error: "월(month)이 올바르지 않습니다." };
+  if (dd < 1 || dd > 31) return { iso: null, error: "일(day)이 올바르지 않습니다." };
+  if (mi < 0 || mi > 59) return { iso: null, error: "분(minute)은 00~59만 가능합니다." };
+  if (!(hh === 24 || (hh >= 0 && hh <= 23))) return { iso: null, error: "시간(hour)은 00~24만 가능합니다." };
+  if (hh === 24 && mi !== 0) return { iso: null, error: "24시는 24:00으로만 입력할 수 있습니다." };
+
+  const base = new Date(yyyy, mm - 1, dd, 0, 0, 0, 0);
+  if (Number.isNaN(base.getTime())) return { iso: null, error: "날짜가 올바르지 않습니다." };
+
+  if (hh === 24) {
+    base.setDate(base.getDate() + 1);
+    hh = 0;
+  }
+  base.setHours(hh, mi, 0, 0);
+
+  return { iso: base.toISOString(), error: null };
+}
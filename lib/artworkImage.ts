@@ -0,0 +1,110 @@
+import { ARTWORK_BUCKET, storageObjectUrl, type StorageProvider } from "./storage";
+import { supabase } from "./supabaseClient";
+import { renditionKeys, type ArtworkRenditions, type RenditionSet } from "./renditions";
+
+// The one place that turns an artwork row into image URLs.
+// `storage_provider` + `storage_key` are the source of truth; the legacy
+// `private_image_path` (a full public URL, or occasionally a bare path) is
+// only used for rows the migration 001 backfill could not map.
+
+export type ArtworkImageRow = {
+  storage_provider?: StorageProvider | null;
+  storage_key?: string | null;
+  private_image_path?: string | null;
+  renditions?: ArtworkRenditions | null;
+};
+
+/** <picture>의 <source> 후보. 없으면 img src(JPEG/원본)만 쓴다. */
+export type PictureSources = {
+  avif?: string;
+  webp?: string;
+};
+
+export type ArtworkImageUrls = {
+  display: string;
+  thumbnail: string;
+  download: string;
+  displaySources: PictureSources;
+  thumbnailSources: PictureSources;
+};
+
+function isAbsoluteUrl(v: string) {
+  return v.startsWith("http://") || v.startsWith("https://");
+}
+
+/**
+ * private_image_path가 URL이어도 bucket 내부 경로를 최대한 뽑아준다.
+ * (migration 001 backfill의 regexp_replace와 같은 규칙)
+ */
+export function storageKeyFromLegacyPath(privateImagePath: string | null | undefined) {
+  const raw = (privateImagePath ?? "").trim();
+  if (!raw) return "";
+
+  if (!isAbsoluteUrl(raw)) return raw;
+
+  try {
+    const u = new URL(raw);
+    const p = u.pathname;
+    const marker = `/${ARTWORK_BUCKET}/`;
+    const idx = p.indexOf(marker);
+    if (idx >= 0) return decodeURIComponent(p.slice(idx + marker.length));
+    return decodeURIComponent(p.split("/").pop() || "");
+  } catch {
+    return raw.split("/").pop() || "";
+  }
+}
+
+/** 작품 파일의 provider와 key. 찾을 수 없으면 null */
+export function resolveArtworkObject(row: ArtworkImageRow): { provider: StorageProvider; key: string } | null {
+  const provider: StorageProvider = row.storage_provider === "r2" ? "r2" : "supabase";
+  const key = (row.storage_key ?? "").trim();
+  if (key) return { provider, key };
+
+  // storage_key가 비어 있는 건 백필 이전 Supabase 행뿐이다.
+  if (provider !== "supabase") return null;
+  const legacyKey = storageKeyFromLegacyPath(row.private_image_path);
+  return legacyKey ? { provider, key: legacyKey } : null;
+}
+
+function renditionUrls(provider: StorageProvider, set: RenditionSet | undefined, fallback: string) {
+  if (!set) return { src: fallback, sources: {} };
+  return {
+    src: storageObjectUrl(provider, set.jpeg) || fallback,
+    sources: { avif: storageObjectUrl(provider, set.avif), webp: storageObjectUrl(provider, set.webp) },
+  };
+}
+
+export function resolveArtworkImage(row: ArtworkImageRow): ArtworkImageUrls {
+  const legacy = (row.private_image_path ?? "").trim();
+  const legacyUrls = { display: legacy, thumbnail: legacy, download: legacy, displaySources: {}, thumbnailSources: {} };
+
+  // 백필 안 된 행의 URL은 추측한 key보다 저장된 URL 그대로가 더 정확하다.
+  if (!(row.storage_key ?? "").trim() && isAbsoluteUrl(legacy)) return legacyUrls;
+
+  const obj = resolveArtworkObject(row);
+  const original = obj ? storageObjectUrl(obj.provider, obj.key) : "";
+  if (!obj || !original) return legacyUrls;
+
+  let download = original;
+  if (obj.provider === "supabase") {
+    download = supabase.storage.from(ARTWORK_BUCKET).getPublicUrl(obj.key, { download: true }).data.publicUrl;
+  }
+
+  const display = renditionUrls(obj.provider, row.renditions?.display, original);
+  const thumbnail = renditionUrls(obj.provider, row.renditions?.thumb, display.src);
+
+  return {
+    display: display.src,
+    thumbnail: thumbnail.src,
+    download,
+    displaySources: display.sources,
+    thumbnailSources: row.renditions?.thumb ? thumbnail.sources : display.sources,
+  };
+}
+
+/** 작품 삭제 시 지워야 할 모든 파일(원본 + rendition) */
+export function resolveArtworkObjectKeys(row: ArtworkImageRow): { provider: StorageProvider; keys: string[] } | null {
+  const obj = resolveArtworkObject(row);
+  if (!obj) return null;
+  return { provider: obj.provider, keys: [obj.key, ...renditionKeys(row.renditions)] };
+}
@@ -0,0 +1,39 @@
+import { supabase } from "./supabaseClient";
+
+// Exact-duplicate check for the upload page: SHA-256 of the picked original,
+// looked up in the per-family artwork_hashes index (migration 005).
+
+export async function sha256Hex(file: Blob) {
+  const digest = await crypto.subtle.digest("SHA-256", await file.arrayBuffer());
+  return Array.from(new Uint8Array(digest), (b) => b.toString(16).padStart(2, "0")).join("");
+}
+
+export type ExistingArtwork = {
+  artworkId: string;
+  title: string | null;
+  kidName: string | null;
+};
+
+/** hash → 이미 올린 작품. RLS 덕분에 우리 가족 작품만 나온다. 조회 실패 시 빈 Map (중복 확인만 건너뛴다) */
+export async function findArtworksByHash(hashes: string[]) {
+  const found = new Map<string, ExistingArtwork>();
+  const list = Array.from(new Set(hashes.filter(Boolean)));
+  if (list.length === 0) return found;
+
+  const { data, error } = await supabase
+    .from("artwork_hashes")
+    .select("sha256, artwork_id, artworks(title, kid_name)")
+    .in("sha256", list);
+
+  if (error) {
+    console.warn("[artwork_hashes] lookup failed:", error.message);
+    return found;
+  }
+
+  for (const row of data ?? []) {
+    const art = (Array.isArray(row.artworks) ? row.artworks[0] : row.artworks) as { title?: string; kid_name?: string } | null;
+    if (found.has(row.sha256)) continue;
+    found.set(row.sha256, { artworkId: row.artwork_id, title: art?.title ?? null, kidName: art?.kid_name ?? null });
+  }
+  return found;
+}
@@ -0,0 +1,268 @@
+// Minimal EXIF reader/writer for JPEG uploads.
+// We only read what the upload page needs (capture date, orientation, whether
+// location or device-identifying data is present) and, when writing, rebuild
+// the EXIF block from a whitelist so nothing else survives.
+
+const TAG_ORIENTATION = 0x0112;
+const TAG_DATETIME = 0x0132;
+const TAG_EXIF_IFD = 0x8769;
+const TAG_GPS_IFD = 0x8825;
+const TAG_DATETIME_ORIGINAL = 0x9003;
+const TAG_DATETIME_DIGITIZED = 0x9004;
+const TAG_OFFSET_TIME_ORIGINAL = 0x9011;
+
+const TYPE_ASCII = 2;
+const TYPE_SHORT = 3;
+const TYPE_LONG = 4;
+
+/** 지워지면 카드에 알려줄 개인정보성 태그 */
+const SENSITIVE_TAGS: Record<number, string> = {
+  0x013b: "작성자",
+  0x927c: "제조사 노트",
+  0xa420: "고유 ID",
+  0xa430: "소유자 이름",
+  0xa431: "기기 일련번호",
+  0xa435: "렌즈 일련번호",
+};
+
+export type ExifInfo = {
+  /** "YYYY:MM:DD HH:MM:SS" */
+  dateTimeOriginal: string | null;
+  offsetTimeOriginal: string | null;
+  orientation: number | null;
+  hasGps: boolean;
+  /** 발견된 개인정보성 항목 이름 (GPS 제외) */
+  sensitive: string[];
+};
+
+export type ExifKeep = {
+  dateTimeOriginal: string | null;
+  offsetTimeOriginal?: string | null;
+  orientation: number | null;
+};
+
+function readAscii(view: DataView, offset: number, length: number) {
+  let out = "";
+  for (let i = 0; i < length; i++) out += String.fromCharCode(view.getUint8(offset + i));
+  return out;
+}
+
+function getExifAsciiValue(view: DataView, tiffStart: number, entryOffset: number, count: number, littleEndian: boolean) {
+  if (count <= 1) return null;
+  try {
+    // 4바이트 이하 값은 오프셋 자리에 바로 들어 있다.
+    const valueOffset = count <= 4 ? entryOffset + 8 : tiffStart + view.getUint32(entryOffset + 8, littleEndian);
+    return readAscii(view, valueOffset, count - 1).replace(/\0+$/, "");
+  } catch {
+    return null;
+  }
+}
+
+export function exifDateToInputValue(raw: string) {
+  const m = /^(\d{4}):(\d{2}):(\d{2})\s+(\d{2}):(\d{2})(?::\d{2})?$/.exec(raw.trim());
+  if (!m) return null;
+  return `${m[1]}-${m[2]}-${m[3]} ${m[4]}:${m[5]}`;
+}
+
+/** TIFF 헤더(II/MM)부터 시작하는 EXIF 블록을 읽는다. JPEG APP1, HEIC Exif item 모두 이 형식이다. */
+export function readTiffExif(view: DataView, tiffStart: number): ExifInfo | null {
+  const info: ExifInfo = { dateTimeOriginal: null, offsetTimeOriginal: null, orientation: null, hasGps: false, sensitive: [] };
+  const dates: Record<number, string> = {};
+
+  try {
+    const endian = readAscii(view, tiffStart, 2);
+    if (endian !== "II" && endian !== "MM") return null;
+    const littleEndian = endian === "II";
+
+    const walk = (ifdOffset: number, depth: number) => {
+      if (depth > 2) return;
+      const dirOffset = tiffStart + ifdOffset;
+      const entryCount = view.getUint16(dirOffset, littleEndian);
+
+      for (let i = 0; i < entryCount; i++) {
+        const entryOffset = dirOffset + 2 + i * 12;
+        const tag = view.getUint16(entryOffset, littleEndian);
+        const count = view.getUint32(entryOffset + 4, littleEndian);
+
+        if (tag === TAG_DATETIME_ORIGINAL || tag === TAG_DATETIME_DIGITIZED || tag === TAG_DATETIME) {
+          const raw = getExifAsciiValue(view, tiffStart, entryOffset, count, littleEndian);
+          if (raw && exifDateToInputValue(raw)) dates[tag] = raw;
+        } else if (tag === TAG_OFFSET_TIME_ORIGINAL) {
+          info.offsetTimeOriginal = getExifAsciiValue(view, tiffStart, entryOffset, count, littleEndian);
+        } else if (tag === TAG_ORIENTATION) {
+          info.orientation = view.getUint16(entryOffset + 8, littleEndian);
+        } else if (tag === TAG_GPS_IFD) {
+          const gpsOffset = view.getUint32(entryOffset + 8, littleEndian);
+          info.hasGps = info.hasGps || view.getUint16(tiffStart + gpsOffset, littleEndian) > 0;
+        } else if (tag === TAG_EXIF_IFD) {
+          walk(view.getUint32(entryOffset + 8, littleEndian), depth + 1);
+        } else if (SENSITIVE_TAGS[tag] && !info.sensitive.includes(SENSITIVE_TAGS[tag])) {
+          info.sensitive.push(SENSITIVE_TAGS[tag]);
+        }
+      }
+    };
+
+    walk(view.getUint32(tiffStart + 4, littleEndian), 0);
+  } catch {
+    // 깨진 EXIF: 여기까지 읽은 것만 쓴다.
+  }
+
+  info.dateTimeOriginal = dates[TAG_DATETIME_ORIGINAL] ?? dates[TAG_DATETIME_DIGITIZED] ?? dates[TAG_DATETIME] ?? null;
+  return info;
+}
+
+type JpegSegment = { marker: number; start: number; end: number };
+
+/** SOS 직전까지의 JPEG 세그먼트 목록. JPEG가 아니면 null */
+function listJpegSegments(view: DataView): { segments: JpegSegment[]; scanStart: number } | null {
+  if (view.byteLength < 4 || view.getUint16(0) !== 0xffd8) return null;
+
+  const segments: JpegSegment[] = [];
+  let offset = 2;
+  while (offset + 4 <= view.byteLength) {
+    const marker = view.getUint16(offset);
+    if ((marker & 0xff00) !== 0xff00) return null;
+    if (marker === 0xffda || marker === 0xffd9) return { segments, scanStart: offset };
+
+    const size = view.getUint16(offset + 2);
+    if (size < 2 || offset + 2 + size > view.byteLength) return null;
+    segments.push({ marker, start: offset, end: offset + 2 + size });
+    offset += 2 + size;
+  }
+  return null;
+}
+
+function isExifSegment(view: DataView, seg: JpegSegment) {
+  return seg.marker === 0xffe1 && seg.end - seg.start > 10 && readAscii(view, seg.start + 4, 6) === "Exif\u0000\u0000";
+}
+
+function segmentMentions(view: DataView, seg: JpegSegment, needle: string) {
+  return readAscii(view, seg.start, seg.end - seg.start).includes(needle);
+}
+
+export function readJpegExif(buffer: ArrayBuffer): ExifInfo | null {
+  const view = new DataView(buffer);
+  const parsed = listJpegSegments(view);
+  if (!parsed) return null;
+
+  let info: ExifInfo | null = null;
+  let xmpGps = false;
+  for (const seg of parsed.segments) {
+    if (!info && isExifSegment(view, seg)) info = readTiffExif(view, seg.start + 10);
+    else if (seg.marker === 0xffe1 && segmentMentions(view, seg, "GPSLatitude")) xmpGps = true;
+  }
+
+  if (!info && !xmpGps) return null;
+  const out = info ?? { dateTimeOriginal: null, offsetTimeOriginal: null, orientation: null, hasGps: false, sensitive: [] };
+  return { ...out, hasGps: out.hasGps || xmpGps };
+}
+
+type IfdEntry = { tag: number; type: number; count: number; data: Uint8Array };
+
+function asciiEntry(tag: number, value: string): IfdEntry {
+  const data = new Uint8Array(value.length + 1);
+  for (let i = 0; i < value.length; i++) data[i] = value.charCodeAt(i) & 0x7f;
+  return { tag, type: TYPE_ASCII, count: data.length, data };
+}
+
+function shortEntry(tag: number, value: number): IfdEntry {
+  return { tag, type: TYPE_SHORT, count: 1, data: new Uint8Array([value >> 8, value & 0xff]) };
+}
+
+/** big-endian IFD 하나를 out[offset..]에 쓰고, 끝난 위치를 돌려준다. */
+function writeIfd(out: DataView, offset: number, entries: IfdEntry[]) {
+  const sorted = [...entries].sort((a, b) => a.tag - b.tag);
+  let dataOffset = offset + 2 + sorted.length * 12 + 4;
+
+  out.setUint16(offset, sorted.length);
+  sorted.forEach((entry, i) => {
+    const at = offset + 2 + i * 12;
+    out.setUint16(at, entry.tag);
+    out.setUint16(at + 2, entry.type);
+    out.setUint32(at + 4, entry.count);
+    if (entry.data.length <= 4) {
+      entry.data.forEach((b, j) => out.setUint8(at + 8 + j, b));
+    } else {
+      out.setUint32(at + 8, dataOffset);
+      entry.data.forEach((b, j) => out.setUint8(dataOffset + j, b));
+      dataOffset += entry.data.length + (entry.data.length % 2);
+    }
+  });
+  out.setUint32(offset + 2 + sorted.length * 12, 0);
+  return dataOffset;
+}
+
+function ifdSize(entries: IfdEntry[]) {
+  const data = entries.reduce((sum, e) => sum + (e.data.length > 4 ? e.data.length + (e.data.length % 2) : 0), 0);
+  return 2 + entries.length * 12 + 4 + data;
+}
+
+/** 촬영일·방향만 담은 APP1(Exif) 세그먼트. 남길 게 없으면 null */
+export function buildExifSegment(keep: ExifKeep): Uint8Array | null {
+  const ifd0: IfdEntry[] = [];
+  const exif: IfdEntry[] = [];
+
+  if (keep.orientation && keep.orientation >= 1 && keep.orientation <= 8) ifd0.push(shortEntry(TAG_ORIENTATION, keep.orientation));
+  if (keep.dateTimeOriginal) {
+    ifd0.push(asciiEntry(TAG_DATETIME, keep.dateTimeOriginal));
+    exif.push(asciiEntry(TAG_DATETIME_ORIGINAL, keep.dateTimeOriginal));
+    if (keep.offsetTimeOriginal) exif.push(asciiEntry(TAG_OFFSET_TIME_ORIGINAL, keep.offsetTimeOriginal));
+  }
+  if (ifd0.length === 0) return null;
+
+  const exifPointer: IfdEntry = { tag: TAG_EXIF_IFD, type: TYPE_LONG, count: 1, data: new Uint8Array(4) };
+  if (exif.length > 0) ifd0.push(exifPointer);
+
+  const ifd0Offset = 8;
+  const exifOffset = ifd0Offset + ifdSize(ifd0);
+  const tiffLength = exifOffset + (exif.length > 0 ? ifdSize(exif) : 0);
+  exifPointer.data = new Uint8Array([exifOffset >>> 24, (exifOffset >>> 16) & 0xff, (exifOffset >>> 8) & 0xff, exifOffset & 0xff]);
+
+  const segment = new Uint8Array(4 + 6 + tiffLength);
+  const view = new DataView(segment.buffer);
+  view.setUint16(0, 0xffe1);
+  view.setUint16(2, segment.length - 2);
+  "Exif\u0000\u0000".split("").forEach((c, i) => view.setUint8(4 + i, c.charCodeAt(0)));
+
+  const tiff = new DataView(segment.buffer, 10);
+  tiff.setUint16(0, 0x4d4d); // "MM"
+  tiff.setUint16(2, 42);
+  tiff.setUint32(4, ifd0Offset);
+  writeIfd(tiff, ifd0Offset, ifd0);
+  if (exif.length > 0) writeIfd(tiff, exifOffset, exif);
+
+  return segment;
+}
+
+/**
+ * JPEG에서 EXIF/XMP(APP1), IPTC(APP13)를 모두 빼고 keep에 있는 촬영일·방향만 새로 넣는다.
+ * 픽셀 데이터는 건드리지 않는다. JPEG가 아니면 null
+ */
+export function rewriteJpegMetadata(buffer: ArrayBuffer, keep: ExifKeep): Uint8Array<ArrayBuffer> | null {
+  const view = new DataView(buffer);
+  const parsed = listJpegSegments(view);
+  if (!parsed) return null;
+
+  const bytes = new Uint8Array(buffer);
+  const kept = parsed.segments.filter((seg) => seg.marker !== 0xffe1 && seg.marker !== 0xffed);
+  const exif = buildExifSegment(keep);
+
+  const total =
+    2 + (exif?.length ?? 0) + kept.reduce((sum, seg) => sum + seg.end - seg.start, 0) + (bytes.length - parsed.scanStart);
+  const out = new Uint8Array(total);
+  out.set([0xff, 0xd8], 0);
+  let at = 2;
+  const put = (chunk: Uint8Array) => {
+    out.set(chunk, at);
+    at += chunk.length;
+  };
+
+  // JFIF(APP0)는 SOI 바로 뒤에 있어야 하므로 새 EXIF는 앞쪽 APP0들 다음에 넣는다.
+  let leadingApp0 = 0;
+  while (leadingApp0 < kept.length && kept[leadingApp0].marker === 0xffe0) leadingApp0++;
+  kept.slice(0, leadingApp0).forEach((seg) => put(bytes.subarray(seg.start, seg.end)));
+  if (exif) put(exif);
+  kept.slice(leadingApp0).forEach((seg) => put(bytes.subarray(seg.start, seg.end)));
+  out.set(bytes.subarray(parsed.scanStart), at);
+  return out;
+}
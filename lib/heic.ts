@@ -0,0 +1,214 @@
+import { readTiffExif, rewriteJpegMetadata, type ExifInfo } from "./exif";
+
+// HEIC/HEIF (iPhone) support for the upload page: read the Exif item from the
+// ISOBMFF container and decode to JPEG in the browser so the rest of the
+// pipeline (preview, compress, metadata scrub) only ever sees JPEGs.
+
+const HEIC_BRANDS = ["heic", "heix", "heim", "heis", "hevc", "hevx", "mif1", "msf1"];
+
+type Box = { type: string; start: number; end: number };
+
+function readType(view: DataView, offset: number) {
+  let s = "";
+  for (let i = 0; i < 4; i++) s += String.fromCharCode(view.getUint8(offset + i));
+  return s;
+}
+
+/** [start, end) 안의 박스 목록. 헤더가 깨졌으면 거기서 멈춘다. */
+function listBoxes(view: DataView, start: number, end: number) {
+  const boxes: Box[] = [];
+  let offset = start;
+  while (offset + 8 <= end) {
+    let size = view.getUint32(offset);
+    const type = readType(view, offset + 4);
+    let header = 8;
+    if (size === 1) {
+      if (offset + 16 > end) break;
+      size = Number(view.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) break;
+    boxes.push({ type, start: offset + header, end: offset + size });
+    offset += size;
+  }
+  return boxes;
+}
+
+function readUint(view: DataView, offset: number, size: number) {
+  if (size === 0) return 0;
+  if (size === 2) return view.getUint16(offset);
+  if (size === 4) return view.getUint32(offset);
+  if (size === 8) return Number(view.getBigUint64(offset));
+  throw new Error(`지원하지 않는 필드 크기: ${size}`);
+}
+
+function isHeicBuffer(view: DataView) {
+  if (view.byteLength < 12 || readType(view, 4) !== "ftyp") return false;
+  const ftyp = listBoxes(view, 0, view.byteLength)[0];
+  if (!ftyp) return false;
+  for (let offset = ftyp.start; offset + 4 <= ftyp.end; offset += 4) {
+    // major_brand, minor_version, compatible_brands...
+    if (offset === ftyp.start + 4) continue;
+    if (HEIC_BRANDS.includes(readType(view, offset))) return true;
+  }
+  return false;
+}
+
+export function isHeicFile(file: File) {
+  if (/^image\/hei[cf](-sequence)?$/i.test(file.type)) return true;
+  return /\.(heic|heif)$/i.test(file.name);
+}
+
+/** meta 박스의 iinf에서 Exif 항목 ID를 찾는다. */
+function findExifItemId(view: DataView, iinf: Box) {
+  const version = view.getUint8(iinf.start);
+  const entriesStart = iinf.start + 4 + (version === 0 ? 2 : 4);
+  for (const infe of listBoxes(view, entriesStart, iinf.end)) {
+    if (infe.type !== "infe") continue;
+    const infeVersion = view.getUint8(infe.start);
+    if (infeVersion < 2) continue;
+    const idSize = infeVersion === 2 ? 2 : 4;
+    const itemId = readUint(view, infe.start + 4, idSize);
+    const itemType = readType(view, infe.start + 4 + idSize + 2);
+    if (itemType === "Exif") return itemId;
+  }
+  return null;
+}
+
+/** iloc에서 항목의 첫 extent 위치 (파일 기준 offset, length) */
+function findItemLocation(view: DataView, iloc: Box, itemId: number) {
+  const version = view.getUint8(iloc.start);
+  let p = iloc.start + 4;
+  const sizes1 = view.getUint8(p);
+  const sizes2 = view.getUint8(p + 1);
+  p += 2;
+  const offsetSize = sizes1 >> 4;
+  const lengthSize = sizes1 & 0x0f;
+  const baseOffsetSize = sizes2 >> 4;
+  const indexSize = version === 1 || version === 2 ? sizes2 & 0x0f : 0;
+
+  const itemCount = version < 2 ? view.getUint16(p) : view.getUint32(p);
+  p += version < 2 ? 2 : 4;
+
+  for (let i = 0; i < itemCount; i++) {
+    const id = version < 2 ? view.getUint16(p) : view.getUint32(p);
+    p += version < 2 ? 2 : 4;
+    let constructionMethod = 0;
+    if (version === 1 || version === 2) {
+      constructionMethod = view.getUint16(p) & 0x0f;
+      p += 2;
+    }
+    p += 2; // data_reference_index
+    const baseOffset = readUint(view, p, baseOffsetSize);
+    p += baseOffsetSize;
+    const extentCount = view.getUint16(p);
+    p += 2;
+
+    let first: { offset: number; length: number } | null = null;
+    for (let e = 0; e < extentCount; e++) {
+      p += indexSize;
+      const extentOffset = readUint(view, p, offsetSize);
+      p += offsetSize;
+      const extentLength = readUint(view, p, lengthSize);
+      p += lengthSize;
+      if (!first) first = { offset: baseOffset + extentOffset, length: extentLength };
+    }
+
+    // construction_method 1(idat)·2(item)는 아이폰 사진에서 Exif에 쓰이지 않는다.
+    if (id === itemId) return constructionMethod === 0 ? first : null;
+  }
+  return null;
+}
+
+/** HEIC 안의 Exif 항목을 읽는다. Exif 항목이 없거나 구조가 낯설면 null */
+export function readHeicExif(buffer: ArrayBuffer): ExifInfo | null {
+  const view = new DataView(buffer);
+  try {
+    if (!isHeicBuffer(view)) return null;
+
+    const meta = listBoxes(view, 0, view.byteLength).find((b) => b.type === "meta");
+    if (!meta) return null;
+    const children = listBoxes(view, meta.start + 4, meta.end);
+    const iinf = children.find((b) => b.type === "iinf");
+    const iloc = children.find((b) => b.type === "iloc");
+    if (!iinf || !iloc) return null;
+
+    const itemId = findExifItemId(view, iinf);
+    if (itemId == null) return null;
+    const loc = findItemLocation(view, iloc, itemId);
+    if (!loc || loc.offset + loc.length > view.byteLength || loc.length < 8) return null;
+
+    // Exif 항목 = 4바이트 exif_tiff_header_offset + ("Exif\0\0") + TIFF
+    const tiffStart = loc.offset + 4 + view.getUint32(loc.offset);
+    if (tiffStart >= loc.offset + loc.length) return null;
+    return readTiffExif(view, tiffStart);
+  } catch {
+    return null;
+  }
+}
+
+async function decodeNatively(file: File, quality: number) {
+  // Safari는 HEIC를 바로 열 수 있다.
+  const bitmap = await createImageBitmap(file, { imageOrientation: "from-image" });
+  try {
+    const canvas = document.createElement("canvas");
+    canvas.width = bitmap.width;
+    canvas.height = bitmap.height;
+    const ctx = canvas.getContext("2d");
+    if (!ctx) throw new Error("canvas 2d context 없음");
+    ctx.drawImage(bitmap, 0, 0);
+    return await new Promise<Blob>((resolve, reject) => {
+      canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("이미지 인코딩 실패"))), "image/jpeg", quality);
+    });
+  } finally {
+    bitmap.close();
+  }
+}
+
+async function decodeWithLibheif(file: File, quality: number) {
+  // 디코더가 크기 때문에 HEIC를 고른 경우에만 불러온다.
+  const { default: heic2any } = await import("heic2any");
+  const out = await heic2any({ blob: file, toType: "image/jpeg", quality });
+  return Array.isArray(out) ? out[0] : out;
+}
+
+/** 변환한 JPEG → 원본 HEIC에 있던 GPS·개인정보성 항목. JPEG에는 옮겨 적지 않는다. */
+const removedFromHeic = new WeakMap<File, Pick<ExifInfo, "hasGps" | "sensitive">>();
+
+/**
+ * convertHeicToJpeg 결과라면 원본 HEIC에서 지운 위치·기기 정보를 알려 준다.
+ * prepareImageForUpload가 JPEG와 똑같이 "지웠습니다" 안내를 띄우는 데 쓴다.
+ */
+export function heicRemovedMetadata(file: File) {
+  return removedFromHeic.get(file) ?? null;
+}
+
+/**
+ * HEIC/HEIF를 JPEG File로 바꾼다. 촬영일은 JPEG EXIF로 옮겨 적어서
+ * "사진 생성날짜" 모드와 메타데이터 정리가 JPEG와 똑같이 동작하게 한다.
+ * 디코더가 이미 방향을 적용해 주므로 방향은 1로 기록한다.
+ */
+export async function convertHeicToJpeg(file: File, quality = 0.92): Promise<File> {
+  const buffer = await file.arrayBuffer();
+  const info = readHeicExif(buffer);
+
+  let blob: Blob;
+  try {
+    blob = await decodeNatively(file, quality);
+  } catch {
+    blob = await decodeWithLibheif(file, quality);
+  }
+
+  const keep = {
+    dateTimeOriginal: info?.dateTimeOriginal ?? null,
+    offsetTimeOriginal: info?.offsetTimeOriginal ?? null,
+    orientation: 1,
+  };
+  const rewritten = rewriteJpegMetadata(await blob.arrayBuffer(), keep);
+  const name = `${file.name.replace(/\.[^.]+$/, "") || "artwork"}.jpg`;
+  const out = new File([rewritten ?? blob], name, { type: "image/jpeg", lastModified: file.lastModified });
+  if (info) removedFromHeic.set(out, { hasGps: info.hasGps, sensitive: info.sensitive });
+  return out;
+}
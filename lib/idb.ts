@@ -0,0 +1,97 @@
+// 브라우저 IndexedDB 얇은 래퍼. 페이지를 새로 고쳐도 남아야 하는 업로드 상태를 여기에 둔다.
+// store를 추가할 때는 DB_VERSION을 올리고 upgrade()에 만들기를 더한다.
+// 서비스 워커(public/sw.js)도 같은 DB를 버전 없이 열어 읽고 쓴다 — 이름을 바꾸면 거기도 바꿔야 한다.
+
+const DB_NAME = "family-gallery";
+const DB_VERSION = 4;
+
+/** 이어 올리기 상태 (lib/resumableUpload.ts). keyPath = fingerprint */
+export const RESUMABLE_UPLOADS_STORE = "resumableUploads";
+/** 오프라인 업로드 대기열 (lib/offlineQueue.ts). keyPath = id */
+export const UPLOAD_QUEUE_STORE = "uploadQueue";
+/** 서비스 워커가 혼자 대기열을 올릴 때 쓰는 로그인 토큰·설정. keyPath = id */
+export const SW_SESSION_STORE = "swSession";
+/** 오프라인에서 보여 줄 마지막 작품 목록 (lib/offlineGallery.ts). keyPath = key */
+export const GALLERY_SNAPSHOT_STORE = "gallerySnapshots";
+/** 새 버전으로 새로고침하기 전에 저장한 업로드 화면 (lib/uploadDraft.ts). keyPath = id */
+export const UPLOAD_DRAFT_STORE = "uploadDraft";
+
+type StoreName =
+  | typeof RESUMABLE_UPLOADS_STORE
+  | typeof UPLOAD_QUEUE_STORE
+  | typeof SW_SESSION_STORE
+  | typeof GALLERY_SNAPSHOT_STORE
+  | typeof UPLOAD_DRAFT_STORE;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function upgrade(db: IDBDatabase) {
+  if (!db.objectStoreNames.contains(RESUMABLE_UPLOADS_STORE)) {
+    db.createObjectStore(RESUMABLE_UPLOADS_STORE, { keyPath: "fingerprint" });
+  }
+  if (!db.objectStoreNames.contains(UPLOAD_QUEUE_STORE)) {
+    db.createObjectStore(UPLOAD_QUEUE_STORE, { keyPath: "id" });
+  }
+  if (!db.objectStoreNames.contains(SW_SESSION_STORE)) {
+    db.createObjectStore(SW_SESSION_STORE, { keyPath: "id" });
+  }
+  if (!db.objectStoreNames.contains(GALLERY_SNAPSHOT_STORE)) {
+    db.createObjectStore(GALLERY_SNAPSHOT_STORE, { keyPath: "key" });
+  }
+  if (!db.objectStoreNames.contains(UPLOAD_DRAFT_STORE)) {
+    db.createObjectStore(UPLOAD_DRAFT_STORE, { keyPath: "id" });
+  }
+}
+
+function openDb() {
+  if (typeof indexedDB === "undefined") return Promise.reject(new Error("IndexedDB를 쓸 수 없는 브라우저예요."));
+  dbPromise ??= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => upgrade(req.result);
+    req.onsuccess = () => {
+      const db = req.result;
+      // 다른 탭이 더 새 버전으로 열려고 하면 비켜 준다.
+      db.onversionchange = () => {
+        db.close();
+        dbPromise = null;
+      };
+      resolve(db);
+    };
+    req.onerror = () => {
+      dbPromise = null;
+      reject(req.error ?? new Error("IndexedDB open failed"));
+    };
+  });
+  return dbPromise;
+}
+
+async function run<T>(store: StoreName, mode: IDBTransactionMode, op: (s: IDBObjectStore) => IDBRequest<T>) {
+  const db = await openDb();
+  return new Promise<T>((resolve, reject) => {
+    const tx = db.transaction(store, mode);
+    const req = op(tx.objectStore(store));
+    tx.oncomplete = () => resolve(req.result);
+    tx.onerror = () => reject(tx.error ?? req.error ?? new Error("IndexedDB transaction failed"));
+    tx.onabort = () => reject(tx.error ?? new Error("IndexedDB transaction aborted"));
+  });
+}
+
+export function idbGet<T>(store: StoreName, key: IDBValidKey) {
+  return run<T | undefined>(store, "readonly", (s) => s.get(key));
+}
+
+export function idbGetAll<T>(store: StoreName) {
+  return run<T[]>(store, "readonly", (s) => s.getAll());
+}
+
+export async function idbPut<T>(store: StoreName, value: T) {
+  await run(store, "readwrite", (s) => s.put(value));
+}
+
+export async function idbDelete(store: StoreName, key: IDBValidKey) {
+  await run(store, "readwrite", (s) => s.delete(key));
+}
+
+export async function idbClear(store: StoreName) {
+  await run(store, "readwrite", (s) => s.clear());
+}
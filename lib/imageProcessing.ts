@@ -0,0 +1,212 @@
+import { readJpegExif, rewriteJpegMetadata } from "./exif";
+import { heicRemovedMetadata } from "./heic";
+import { detectPaperQuad, isFullQuad, warpPerspective, type Quad } from "./perspective";
+
+// Browser-only image helpers for the upload page: downscale + re-encode with
+// canvas and scrub metadata before anything leaves the device.
+
+export type CompressSettings = {
+  /** false = 원본 그대로 업로드 */
+  enabled: boolean;
+  /** 긴 변 최대 픽셀 */
+  maxEdge: number;
+  /** JPEG 품질 0~1 */
+  quality: number;
+};
+
+export const DEFAULT_COMPRESS_SETTINGS: CompressSettings = {
+  enabled: true,
+  maxEdge: 2560,
+  quality: 0.85,
+};
+
+export const MAX_EDGE_OPTIONS = [1600, 2048, 2560, 3200, 4096];
+
+function replaceExt(name: string, ext: string) {
+  const base = name.replace(/\.[^.]+$/, "") || "artwork";
+  return `${base}.${ext}`;
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number) {
+  return new Promise<Blob>((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("이미지 인코딩 실패"))), type, quality);
+  });
+}
+
+export function fitWithin(width: number, height: number, maxEdge: number) {
+  const scale = Math.min(1, maxEdge / Math.max(width, height));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+export type Rotation = 0 | 90 | 180 | 270;
+
+/** 0~1 비율, 회전을 적용한 뒤의 이미지 기준 */
+export type CropRect = { x: number; y: number; w: number; h: number };
+
+/** 업로드 카드에서 고른 편집 (스캔 보정 → 회전 → 자르기 순서로 적용) */
+export type ImageEdit = {
+  rotation: Rotation;
+  crop: CropRect | null;
+  /** 스캔 모드: 종이 네 모서리 (바로 세운 원본 기준 0~1) */
+  corners?: Quad | null;
+};
+
+export function isIdentityEdit(edit: ImageEdit | null | undefined) {
+  if (!edit) return true;
+  const c = edit.crop;
+  const fullCrop = !c || (c.x <= 0 && c.y <= 0 && c.w >= 1 && c.h >= 1);
+  return edit.rotation === 0 && fullCrop && isFullQuad(edit.corners);
+}
+
+/** EXIF 방향대로 바로 세운 비트맵 */
+export function loadOrientedBitmap(file: Blob) {
+  return createImageBitmap(file, { imageOrientation: "from-image" });
+}
+
+export type EditSource = ImageBitmap | HTMLCanvasElement;
+
+/** 스캔 모서리가 있으면 먼저 반듯하게 편 canvas를, 없으면 비트맵을 그대로 돌려준다. */
+export function applyCorners(bitmap: ImageBitmap, corners: Quad | null | undefined, maxEdge: number): EditSource {
+  if (!corners || isFullQuad(corners)) return bitmap;
+  return warpPerspective(bitmap, corners, maxEdge);
+}
+
+/** 스캔 모드: 사진에서 종이 네 모서리를 찾는다. 못 찾으면 null */
+export async function detectPaperCorners(file: Blob) {
+  const bitmap = await loadOrientedBitmap(file);
+  try {
+    return detectPaperQuad(bitmap);
+  } finally {
+    bitmap.close();
+  }
+}
+
+/** 회전·자르기를 적용하고 긴 변을 maxEdge 이하로 맞춰 canvas에 그린다. */
+export function drawEdited(bitmap: EditSource, edit: ImageEdit | null, maxEdge: number) {
+  const rotation = edit?.rotation ?? 0;
+  const quarter = rotation === 90 || rotation === 270;
+  const rw = quarter ? bitmap.height : bitmap.width;
+  const rh = quarter ? bitmap.width : bitmap.height;
+
+  const crop = edit?.crop ?? { x: 0, y: 0, w: 1, h: 1 };
+  const cx = Math.round(crop.x * rw);
+  const cy = Math.round(crop.y * rh);
+  const cw = Math.max(1, Math.round(crop.w * rw));
+  const ch = Math.max(1, Math.round(crop.h * rh));
+
+  const size = fitWithin(cw, ch, maxEdge);
+  const canvas = document.createElement("canvas");
+  canvas.width = size.width;
+  canvas.height = size.height;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("canvas 2d context 없음");
+
+  // 투명 PNG가 JPEG로 바뀔 때 검게 나오지 않도록 흰 바탕을 깐다.
+  ctx.fillStyle = "#fff";
+  ctx.fillRect(0, 0, size.width, size.height);
+  ctx.imageSmoothingQuality = "high";
+
+  ctx.scale(size.width / cw, size.height / ch);
+  ctx.translate(-cx + rw / 2, -cy + rh / 2);
+  ctx.rotate((rotation * Math.PI) / 180);
+  ctx.drawImage(bitmap, -bitmap.width / 2, -bitmap.height / 2);
+
+  return { canvas, resized: size.width !== bitmap.width || size.height !== bitmap.height };
+}
+
+async function reencodeJpeg(file: File, maxEdge: number, quality: number, edit: ImageEdit | null = null) {
+  const bitmap = await loadOrientedBitmap(file);
+  try {
+    const source = applyCorners(bitmap, edit?.corners, maxEdge);
+    const { canvas, resized } = drawEdited(source, edit, maxEdge);
+    return { blob: await canvasToBlob(canvas, "image/jpeg", quality), resized: resized || source !== bitmap };
+  } finally {
+    bitmap.close();
+  }
+}
+
+/**
+ * 긴 변을 maxEdge 이하로 줄이고 JPEG로 다시 인코딩한다.
+ * 줄일 필요가 없고 다시 인코딩해도 작아지지 않으면 원본을 그대로 돌려준다.
+ */
+export async function compressImage(file: File, settings: CompressSettings): Promise<File> {
+  if (!settings.enabled) return file;
+
+  const { blob, resized } = await reencodeJpeg(file, settings.maxEdge, settings.quality);
+  if (!resized && blob.size >= file.size) return file;
+
+  return new File([blob], replaceExt(file.name, "jpg"), { type: "image/jpeg", lastModified: file.lastModified });
+}
+
+export type PreparedImage = {
+  file: File;
+  /** 픽셀을 다시 인코딩했다 (false면 원본 픽셀 + 메타데이터만 정리) */
+  reencoded: boolean;
+  /** GPS(위치) 정보가 있었고 지웠다 */
+  locationRemoved: boolean;
+  /** 함께 지운 개인정보성 항목 (기기 일련번호 등) */
+  removedTags: string[];
+};
+
+function isJpeg(file: File) {
+  return file.type === "image/jpeg" || file.type === "image/jpg";
+}
+
+/**
+ * 업로드할 파일을 만든다: 용량 줄이기 + 메타데이터 정리.
+ * 촬영일과 방향만 남기고 GPS·기기 일련번호 등 나머지 EXIF/XMP/IPTC는 모두 지운다.
+ */
+export async function prepareImageForUpload(
+  file: File,
+  settings: CompressSettings,
+  edit: ImageEdit | null = null
+): Promise<PreparedImage> {
+  const info = isJpeg(file) ? readJpegExif(await file.arrayBuffer()) : null;
+  // HEIC에서 바꾼 JPEG는 EXIF에 위치·기기 정보가 이미 없으므로 원본에서 읽어 둔 것을 쓴다.
+  const fromHeic = heicRemovedMetadata(file);
+  const meta = {
+    locationRemoved: !!info?.hasGps || !!fromHeic?.hasGps,
+    removedTags: [...new Set([...(info?.sensitive ?? []), ...(fromHeic?.sensitive ?? [])])],
+  };
+  const keep = { dateTimeOriginal: info?.dateTimeOriginal ?? null, offsetTimeOriginal: info?.offsetTimeOriginal ?? null };
+
+  let out = isIdentityEdit(edit) ? await compressImage(file, settings) : file;
+
+  // 편집했거나, 옆으로 누운 사진(EXIF 방향 ≠ 1)이거나, JPEG가 아닌 원본은 픽셀을 다시 그린다.
+  // JPEG가 아니면 메타데이터를 안전하게 골라낼 수 없기 때문이기도 하다.
+  const needsRedraw = !isIdentityEdit(edit) || (info?.orientation ?? 1) !== 1 || !isJpeg(file);
+  if (out === file && needsRedraw) {
+    const maxEdge = settings.enabled ? settings.maxEdge : Number.POSITIVE_INFINITY;
+    const quality = settings.enabled ? settings.quality : 0.95;
+    const { blob } = await reencodeJpeg(file, maxEdge, quality, edit);
+    out = new File([blob], replaceExt(file.name, "jpg"), { type: "image/jpeg", lastModified: file.lastModified });
+  }
+
+  // 다시 그린 픽셀은 이미 바로 서 있으므로 방향은 1로 기록한다.
+  const reencoded = out !== file;
+  const orientation = reencoded ? 1 : info?.orientation ?? null;
+  const rewritten = rewriteJpegMetadata(await out.arrayBuffer(), { ...keep, orientation });
+  if (!rewritten) return { file: out, reencoded, ...meta };
+
+  return {
+    file: new File([rewritten], out.name, { type: "image/jpeg", lastModified: file.lastModified }),
+    reencoded,
+    ...meta,
+  };
+}
+
+/** 카드 미리보기용 작은 JPEG data URL (revoke할 필요가 없다) */
+export async function previewDataUrl(file: Blob, maxEdge = 480) {
+  const bitmap = await loadOrientedBitmap(file);
+  try {
+    return drawEdited(bitmap, null, maxEdge).canvas.toDataURL("image/jpeg", 0.8);
+  } finally {
+    bitmap.close();
+  }
+}
+
+export function formatBytes(bytes: number) {
+  if (bytes < 1024) return `${bytes}B`;
+  if (bytes < 1024 * 1024) return `${Math.round(bytes / 1024)}KB`;
+  return `${(bytes / (1024 * 1024)).toFixed(1)}MB`;
+}
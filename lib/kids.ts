@@ -0,0 +1,170 @@
+import { supabase } from "./supabaseClient";
+import { removeArtworkObjects, storageObjectUrl, uploadArtworkObject, type StorageProvider } from "./storage";
+import { prepareImageForUpload } from "./imageProcessing";
+
+// 아이 정보 (kids, migration 008). 작품의 artworks.kid_name 은 kids.name 의 복사본이라
+// 이름만 보내도 DB 트리거가 알맞은 아이에 연결한다 (없으면 새로 만든다).
+// 아바타 파일은 작품과 같은 저장소에 두고, /api/storage/gc 가 참조 중인 파일로 센다.
+
+export type Kid = {
+  id: string;
+  family_id: string;
+  name: string;
+  nickname: string | null;
+  birthdate: string | null;
+  avatar_provider: StorageProvider | null;
+  avatar_key: string | null;
+  color: string | null;
+  aliases: string[];
+  created_at: string;
+};
+
+export type KidPatch = Partial<Pick<Kid, "name" | "nickname" | "birthdate" | "color">>;
+
+const KID_COLUMNS = "id, family_id, name, nickname, birthdate, avatar_provider, avatar_key, color, aliases, created_at";
+
+/** 색을 고르지 않은 아이에게 이름으로 정해 주는 색 (항상 같은 색이 나온다) */
+export const KID_COLORS = ["#f97316", "#eab308", "#22c55e", "#14b8a6", "#3b82f6", "#8b5cf6", "#ec4899", "#ef4444"];
+
+/** 아바타 긴 변 (px) */
+const AVATAR_EDGE = 256;
+
+export function normalizeKidName(name: string) {
+  return name.trim().replace(/\s+/g, " ").toLowerCase();
+}
+
+export function kidColor(kid: Pick<Kid, "name" | "color"> | null | undefined) {
+  if (kid?.color) return kid.color;
+  const name = normalizeKidName(kid?.name ?? "");
+  let hash = 0;
+  for (const ch of name) hash = (hash * 31 + ch.charCodeAt(0)) >>> 0;
+  return KID_COLORS[hash % KID_COLORS.length];
+}
+
+export function kidAvatarUrl(kid: Pick<Kid, "avatar_provider" | "avatar_key"> | null | undefined) {
+  if (!kid?.avatar_provider || !kid.avatar_key) return "";
+  return storageObjectUrl(kid.avatar_provider, kid.avatar_key);
+}
+
+/** 화면에 보일 이름: 애칭이 있으면 "이름 (애칭)" */
+export function kidLabel(kid: Pick<Kid, "name" | "nickname">) {
+  return kid.nickname?.trim() ? `${kid.name} (${kid.nickname.trim()})` : kid.name;
+}
+
+/**
+ * 작품을 만든 날의 나이 (만 나이, 개월 단위). 생일이 없거나 생일 전이면 null.
+ * 저장된 작품은 DB가 같은 규칙으로 artworks.kid_age_months 에 넣어 둔다 (migration 009).
+ */
+export function kidAgeMonths(birthdate: string | null | undefined, madeAt: string | Date | null | undefined) {
+  if (!birthdate || !madeAt) return null;
+  const m = /^(\d{4})-(\d{2})-(\d{2})/.exec(birthdate);
+  const made = madeAt instanceof Date ? madeAt : new Date(madeAt);
+  if (!m || Number.isNaN(made.getTime())) return null;
+
+  let months = (made.getFullYear() - Number(m[1])) * 12 + (made.getMonth() + 1 - Number(m[2]));
+  if (made.getDate() < Number(m[3])) months -= 1;
+  return months >= 0 ? months : null;
+}
+
+/** 36 → "만 3세", 51 → "만 4세 3개월", 7 → "생후 7개월" */
+export function formatKidAge(months: number | null | undefined) {
+  if (months == null || months < 0) return "";
+  const years = Math.floor(months / 12);
+  const rest = months % 12;
+  if (years === 0) return `생후 ${rest}개월`;
+  return rest === 0 ? `만 ${years}세` : `만 ${years}세 ${rest}개월`;
+}
+
+/** 이름이나 예전 이름(aliases)으로 아이를 찾는다. */
+export function findKidByName(kids: Kid[], name: string) {
+  const norm = normalizeKidName(name);
+  if (!norm) return null;
+  return (
+    kids.find((k) => normalizeKidName(k.name) === norm) ??
+    kids.find((k) => k.aliases.some((a) => normalizeKidName(a) === norm)) ??
+    null
+  );
+}
+
+/** 우리 가족 아이들 (RLS). 먼저 등록한 순서. */
+export async function listKids(): Promise<{ kids: Kid[]; error: string | null }> {
+  const { data, error } = await supabase.from("kids").select(KID_COLUMNS).order("created_at", { ascending: true });
+  if (error) return { kids: [], error: error.message };
+  return { kids: (data ?? []) as Kid[], error: null };
+}
+
+export async function createKid(familyId: string, name: string, patch: KidPatch = {}): Promise<{ kid: Kid | null; error: string | null }> {
+  const { data, error } = await supabase
+    .from("kids")
+    .insert({ ...patch, family_id: familyId, name: name.trim().replace(/\s+/g, " ") })
+    .select(KID_COLUMNS)
+    .single();
+  if (error) return { kid: null, error: error.code === "23505" ? "같은 이름의 아이가 이미 있어요." : error.message };
+  return { kid: data as Kid, error: null };
+}
+
+/** 이름을 바꾸면 그 아이 작품의 kid_name 도 DB에서 함께 바뀌고, 예전 이름은 aliases 에 남는다. */
+export async function updateKid(id: string, patch: KidPatch): Promise<{ kid: Kid | null; error: string | null }> {
+  const next = { ...patch, updated_at: new Date().toISOString() };
+  if (next.name !== undefined) next.name = next.name.trim().replace(/\s+/g, " ");
+  const { data, error } = await supabase.from("kids").update(next).eq("id", id).select(KID_COLUMNS).single();
+  if (error) return { kid: null, error: error.code === "23505" ? "같은 이름의 아이가 이미 있어요." : error.message };
+  return { kid: data as Kid, error: null };
+}
+
+/** source 의 작품을 모두 target 으로 옮기고 source 는 지운다. 옮긴 작품 수를 돌려준다. */
+export async function mergeKids(source: Kid, targetId: string): Promise<{ moved: number; error: string | null }> {
+  const { data, error } = await supabase.rpc("merge_kids", { p_source: source.id, p_target: targetId });
+  if (error) return { moved: 0, error: error.message };
+
+  // 합친 뒤에는 source 의 아바타를 쓰지 않는다.
+  if (source.avatar_provider && source.avatar_key) await removeArtworkObjects(source.avatar_provider, [source.avatar_key]);
+  return { moved: Number(data ?? 0), error: null };
+}
+
+/** 작품이 남아 있으면 DB가 거절한다 (on delete restrict) → 다른 아이로 합쳐야 한다. */
+export async function deleteKid(kid: Kid): Promise<{ error: string | null }> {
+  const { error } = await supabase.from("kids").delete().eq("id", kid.id);
+  if (error) return { error: error.code === "23503" ? "작품이 있는 아이는 지울 수 없어요. 다른 아이로 합쳐 주세요." : error.message };
+
+  if (kid.avatar_provider && kid.avatar_key) await removeArtworkObjects(kid.avatar_provider, [kid.avatar_key]);
+  return { error: null };
+}
+
+/** 아바타를 작게 줄여 올리고 예전 아바타 파일은 지운다. */
+export async function setKidAvatar(kid: Kid, file: File): Promise<{ kid: Kid | null; error: string | null }> {
+  try {
+    const prepared = await prepareImageForUpload(file, { enabled: true, maxEdge: AVATAR_EDGE, quality: 0.85 });
+    const ext = (prepared.file.name.split(".").pop() ?? "jpg").toLowerCase();
+    const stored = await uploadArtworkObject(prepared.file, `kids/${kid.id}-${Date.now()}.${ext}`);
+
+    const { data, error } = await supabase
+      .from("kids")
+      .update({ avatar_provider: stored.provider, avatar_key: stored.key, updated_at: new Date().toISOString() })
+      .eq("id", kid.id)
+      .select(KID_COLUMNS)
+      .single();
+    if (error) {
+      await removeArtworkObjects(stored.provider, [stored.key]);
+      return { kid: null, error: error.message };
+    }
+
+    if (kid.avatar_provider && kid.avatar_key) await removeArtworkObjects(kid.avatar_provider, [kid.avatar_key]);
+    return { kid: data as Kid, error: null };
+  } catch (e) {
+    return { kid: null, error: e instanceof Error ? e.message : "아바타 업로드 실패" };
+  }
+}
+
+export async function clearKidAvatar(kid: Kid): Promise<{ kid: Kid | null; error: string | null }> {
+  const { data, error } = await supabase
+    .from("kids")
+    .update({ avatar_provider: null, avatar_key: null, updated_at: new Date().toISOString() })
+    .eq("id", kid.id)
+    .select(KID_COLUMNS)
+    .single();
+  if (error) return { kid: null, error: error.message };
+
+  if (kid.avatar_provider && kid.avatar_key) await removeArtworkObjects(kid.avatar_provider, [kid.avatar_key]);
+  return { kid: data as Kid, error: null };
+}
@@ -0,0 +1,57 @@
+import { GALLERY_SNAPSHOT_STORE, idbClear, idbDelete, idbGet, idbGetAll, idbPut } from "./idb";
+
+// 설치한 앱(PWA)을 인터넷 없이 열어도 마지막으로 본 작품이 보이도록
+// 목록 조회 결과를 IndexedDB에 남겨 둔다. 썸네일 파일은 서비스 워커(public/sw.js)가 캐시한다.
+//   - ManagePage: key "manage" (이 기기에서 마지막으로 로그인한 가족 하나)
+//   - InvitePage: key "invite:<token>:artworks", "invite:<token>:guestbook"
+// 로그아웃하면 모두 지운다 (app/components/ServiceWorkerBridge.tsx).
+
+/** 남겨 둘 목록 수. 넘으면 오래된 것부터 지운다 (초대 링크를 여러 개 열어 본 경우). */
+const MAX_SNAPSHOTS = 12;
+
+export type GallerySnapshot<T> = {
+  key: string;
+  /** ms */
+  savedAt: number;
+  data: T;
+};
+
+/** 조회 성공 결과를 남긴다. 실패해도 화면에는 영향이 없다. */
+export async function saveGallerySnapshot<T>(key: string, data: T) {
+  try {
+    await idbPut<GallerySnapshot<T>>(GALLERY_SNAPSHOT_STORE, { key, savedAt: Date.now(), data });
+
+    const all = await idbGetAll<GallerySnapshot<unknown>>(GALLERY_SNAPSHOT_STORE);
+    const stale = all.sort((a, b) => b.savedAt - a.savedAt).slice(MAX_SNAPSHOTS);
+    for (const snap of stale) await idbDelete(GALLERY_SNAPSHOT_STORE, snap.key);
+  } catch (e) {
+    console.warn("[offline-gallery] save failed:", e instanceof Error ? e.message : e);
+  }
+}
+
+export async function loadGallerySnapshot<T>(key: string) {
+  try {
+    return (await idbGet<GallerySnapshot<T>>(GALLERY_SNAPSHOT_STORE, key)) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+export async function clearGallerySnapshots() {
+  try {
+    await idbClear(GALLERY_SNAPSHOT_STORE);
+  } catch {
+    // IndexedDB를 못 쓰면 남은 것도 없다.
+  }
+}
+
+/** 조회 실패가 연결 문제인지 (그럴 때만 저장해 둔 목록을 보여 준다) */
+export function isNetworkFailure(message: string | null | undefined) {
+  if (typeof navigator !== "undefined" && !navigator.onLine) return true;
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(message ?? "");
+}
+
+/** 배너용: "10월 18일 14:05" */
+export function formatSnapshotTime(savedAt: number) {
+  return new Date(savedAt).toLocaleString("ko-KR", { month: "long", day: "numeric", hour: "2-digit", minute: "2-digit" });
+}
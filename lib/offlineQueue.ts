@@ -0,0 +1,258 @@
+import { supabase } from "./supabaseClient";
+import { idbDelete, idbGet, idbGetAll, idbPut, SW_SESSION_STORE, UPLOAD_QUEUE_STORE } from "./idb";
+import { uploadArtworkObjectResumable } from "./resumableUpload";
+import { createArtworkRecord, getUploadProvider, requestArtworkRenditions } from "./storage";
+import type { ArtworkCatalog } from "./artworkCatalog";
+
+// 오프라인 업로드 대기열. 연결이 없을 때 고른 작품을 (처리된 사진 + 메타데이터 그대로)
+// IndexedDB에 넣어 두고, 연결되면 순서대로 올린다.
+//   - 페이지가 열려 있으면 여기 syncUploadQueue()가 올린다 (이어 올리기 포함).
+//   - 페이지가 모두 닫혀 있으면 서비스 워커(public/sw.js)가 Background Sync로 깨어나
+//     저장해 둔 로그인 토큰으로 직접 올린다 (요청 한 번 업로드, 토큰이 만료됐으면 다음에 연 페이지가 올린다).
+// 둘이 동시에 올리지 않도록 Web Locks("upload-queue")를 잡는다.
+
+export const UPLOAD_QUEUE_LOCK = "upload-queue";
+/** Background Sync 태그 (sw.js와 같아야 한다) */
+export const UPLOAD_QUEUE_SYNC_TAG = "upload-queue";
+/** 대기열이 바뀌면 이 채널로 "changed"를 보낸다 (sw.js도 보낸다). */
+export const UPLOAD_QUEUE_CHANNEL = "upload-queue";
+
+export type QueuedUploadStatus = "pending" | "uploading" | "failed";
+
+export type QueuedUpload = {
+  id: string;
+  createdAt: number;
+  status: QueuedUploadStatus;
+  error: string | null;
+  attempts: number;
+  /** 줄이기·편집까지 끝난 올릴 파일 */
+  file: Blob;
+  fileName: string;
+  kidName: string;
+  title: string;
+  /** ISO */
+  artworkMadeAt: string;
+  contentHash: string | null;
+  /** 재료·태그·크기. 이 필드가 생기기 전에 넣은 항목에는 없다. */
+  catalog?: ArtworkCatalog | null;
+  /** 작품 설명 / 아이의 한마디. 이 필드가 생기기 전에 넣은 항목에는 없다. */
+  story?: string | null;
+};
+
+export type NewQueuedUpload = Pick<QueuedUpload, "file" | "fileName" | "kidName" | "title" | "artworkMadeAt" | "contentHash" | "catalog" | "story">;
+
+/** sw.js가 읽는 로그인 토큰·설정 (SW_SESSION_STORE, id = "current") */
+export type ServiceWorkerSession = {
+  id: "current";
+  accessToken: string;
+  /** unix seconds */
+  expiresAt: number;
+  supabaseUrl: string;
+  anonKey: string;
+  provider: "supabase" | "r2";
+  /** Supabase 저장소 키의 가족 폴더. 없으면(예전 기록) 서비스 워커는 올리지 않고 페이지에 맡긴다. */
+  familyId: string | null;
+};
+
+function notifyChanged() {
+  if (typeof BroadcastChannel === "undefined") return;
+  const ch = new BroadcastChannel(UPLOAD_QUEUE_CHANNEL);
+  ch.postMessage("changed");
+  ch.close();
+}
+
+/** 대기열이 바뀔 때마다 부른다 (다른 탭·서비스 워커가 바꾼 것 포함). 해제 함수를 돌려준다. */
+export function subscribeUploadQueue(onChange: () => void) {
+  if (typeof BroadcastChannel === "undefined") return () => {};
+  const ch = new BroadcastChannel(UPLOAD_QUEUE_CHANNEL);
+  ch.onmessage = () => onChange();
+  return () => ch.close();
+}
+
+export async function listQueuedUploads() {
+  const items = await idbGetAll<QueuedUpload>(UPLOAD_QUEUE_STORE);
+  return items.sort((a, b) => a.createdAt - b.createdAt);
+}
+
+/** 연결되면 백그라운드에서 올리도록 예약한다. Background Sync가 없는 브라우저는 online 이벤트에 맡긴다. */
+export async function requestUploadQueueSync() {
+  if (typeof navigator === "undefined" || !("serviceWorker" in navigator)) return;
+  try {
+    const reg = (await navigator.serviceWorker.ready) as ServiceWorkerRegistration & {
+      sync?: { register: (tag: string) => Promise<void> };
+    };
+    await reg.sync?.register(UPLOAD_QUEUE_SYNC_TAG);
+  } catch {
+    // 권한이 없거나 지원하지 않는다 → 페이지가 열릴 때 / online 때 올린다.
+  }
+}
+
+export async function enqueueUploads(items: NewQueuedUpload[]) {
+  const now = Date.now();
+  for (const [i, item] of items.entries()) {
+    await idbPut<QueuedUpload>(UPLOAD_QUEUE_STORE, {
+      ...item,
+      id: crypto.randomUUID(),
+      // 같은 밀리초에 넣어도 고른 순서대로 올라가게
+      createdAt: now + i,
+      status: "pending",
+      error: null,
+      attempts: 0,
+    });
+  }
+  notifyChanged();
+  await requestUploadQueueSync();
+}
+
+/** 올리기 전 메타데이터 고치기. 올리는 중인 항목은 고칠 수 없다. */
+export async function updateQueuedUpload(
+  id: string,
+  patch: Partial<Pick<QueuedUpload, "kidName" | "title" | "artworkMadeAt" | "catalog" | "story">>
+) {
+  const item = await idbGet<QueuedUpload>(UPLOAD_QUEUE_STORE, id);
+  if (!item) return { error: "대기열에 없는 작품이에요." };
+  if (item.status === "uploading") return { error: "이미 올리는 중이에요." };
+  // 실패했던 항목은 고치면 다시 올릴 차례가 된다.
+  await idbPut<QueuedUpload>(UPLOAD_QUEUE_STORE, { ...item, ...patch, status: "pending", error: null });
+  notifyChanged();
+  return { error: null };
+}
+
+export async function cancelQueuedUpload(id: string) {
+  const item = await idbGet<QueuedUpload>(UPLOAD_QUEUE_STORE, id);
+  if (item?.status === "uploading") return { error: "이미 올리는 중이에요." };
+  await idbDelete(UPLOAD_QUEUE_STORE, id);
+  notifyChanged();
+  return { error: null };
+}
+
+/** 서비스 워커가 페이지 없이 올릴 수 있도록 현재 로그인 토큰을 넘겨 둔다. 로그아웃이면 지운다. */
+export async function saveServiceWorkerSession(session: { access_token: string; expires_at?: number } | null) {
+  try {
+    if (!session) {
+      await idbDelete(SW_SESSION_STORE, "current");
+      return;
+    }
+    const { data: prof } = await supabase.from("profiles").select("family_id").maybeSingle();
+    await idbPut<ServiceWorkerSession>(SW_SESSION_STORE, {
+      id: "current",
+      accessToken: session.access_token,
+      expiresAt: session.expires_at ?? 0,
+      supabaseUrl: (process.env.NEXT_PUBLIC_SUPABASE_URL ?? "").replace(/\/+$/, ""),
+      anonKey: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? "",
+      provider: getUploadProvider(),
+      familyId: (prof?.family_id as string | undefined) ?? null,
+    });
+  } catch {
+    // IndexedDB를 못 쓰면 백그라운드 업로드만 안 된다.
+  }
+}
+
+async function uploadQueued(item: QueuedUpload) {
+  const ext = item.fileName.split(".").pop() || "jpg";
+  const file = new File([item.file], item.fileName, { type: item.file.type || "image/jpeg" });
+  const stored = await uploadArtworkObjectResumable(file, `${Date.now()}-q-${Math.random().toString(16).slice(2)}.${ext}`);
+
+  const created = await createArtworkRecord({
+    stored,
+    kidName: item.kidName.trim(),
+    title: item.title.trim(),
+    artworkMadeAt: item.artworkMadeAt,
+    contentHash: item.contentHash,
+    catalog: item.catalog,
+    story: item.story,
+  });
+  if (!created.id) throw new Error(`DB 저장 실패 / ${created.error ?? "no row"}`);
+
+  const { error: renditionError } = await requestArtworkRenditions(created.id);
+  if (renditionError) console.warn(`[renditions] ${item.fileName}: ${renditionError}`);
+}
+
+async function drainQueue() {
+  const { data } = await supabase.auth.getSession();
+  if (!data.session) return { uploaded: 0, failed: 0 };
+
+  let uploaded = 0;
+  let failed = 0;
+  const items = await listQueuedUploads();
+
+  for (const listed of items) {
+    if (typeof navigator !== "undefined" && !navigator.onLine) break;
+
+    // 목록을 읽은 뒤에 취소됐거나 고쳐졌을 수 있다.
+    const item = await idbGet<QueuedUpload>(UPLOAD_QUEUE_STORE, listed.id);
+    if (!item || item.status === "failed") continue;
+
+    await idbPut<QueuedUpload>(UPLOAD_QUEUE_STORE, { ...item, status: "uploading", error: null, attempts: item.attempts + 1 });
+    notifyChanged();
+
+    try {
+      await uploadQueued(item);
+      await idbDelete(UPLOAD_QUEUE_STORE, item.id);
+      uploaded++;
+    } catch (e) {
+      const message = e instanceof Error ? e.message : "업로드 실패";
+      // 연결이 끊겨서 실패한 건 다음 번에 그대로 다시 올린다.
+      const offline = typeof navigator !== "undefined" && !navigator.onLine;
+      await idbPut<QueuedUpload>(UPLOAD_QUEUE_STORE, {
+        ...item,
+        status: offline ? "pending" : "failed",
+        error: message,
+        attempts: item.attempts + 1,
+      });
+      if (!offline) failed++;
+    }
+    notifyChanged();
+  }
+
+  return { uploaded, failed };
+}
+
+let running: Promise<{ uploaded: number; failed: number }> | null = null;
+
+/**
+ * 대기열의 pending 항목을 올린다. 실패한 항목은 사용자가 고치거나 retryQueuedUploads()를 부를 때까지 둔다.
+ * 이미 다른 탭이나 서비스 워커가 올리는 중이면 아무것도 하지 않는다.
+ */
+export function syncUploadQueue() {
+  if (running) return running;
+
+  const run = async () => {
+    if (typeof navigator !== "undefined" && navigator.locks) {
+      const result = await navigator.locks.request(UPLOAD_QUEUE_LOCK, { ifAvailable: true }, async (lock) => {
+        if (!lock) return null;
+        await resetStaleUploads();
+        return drainQueue();
+      });
+      return result ?? { uploaded: 0, failed: 0 };
+    }
+    await resetStaleUploads();
+    return drainQueue();
+  };
+
+  running = run()
+    .catch((e) => {
+      console.warn("[upload-queue] sync failed:", e instanceof Error ? e.message : e);
+      return { uploaded: 0, failed: 0 };
+    })
+    .finally(() => {
+      running = null;
+    });
+  return running;
+}
+
+/** 잠금을 잡은 뒤에도 "uploading"이면 올리던 탭이 닫힌 것이다 → 다시 pending으로. */
+async function resetStaleUploads() {
+  for (const item of await listQueuedUploads()) {
+    if (item.status === "uploading") await idbPut<QueuedUpload>(UPLOAD_QUEUE_STORE, { ...item, status: "pending" });
+  }
+}
+
+/** 실패한 항목을 다시 pending으로 돌리고 올린다. */
+export async function retryQueuedUploads() {
+  for (const item of await listQueuedUploads()) {
+    if (item.status === "failed") await idbPut<QueuedUpload>(UPLOAD_QUEUE_STORE, { ...item, status: "pending", error: null });
+  }
+  notifyChanged();
+  return syncUploadQueue();
+}
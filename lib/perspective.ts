@@ -0,0 +1,263 @@
+// Browser-only perspective correction for photographed paper ("scan mode").
+// Corners are normalized (0~1) on the EXIF-oriented photo, ordered
+// top-left, top-right, bottom-right, bottom-left.
+
+export type Point = { x: number; y: number };
+export type Quad = [Point, Point, Point, Point];
+
+type Drawable = ImageBitmap | HTMLCanvasElement;
+
+export const FULL_QUAD: Quad = [
+  { x: 0, y: 0 },
+  { x: 1, y: 0 },
+  { x: 1, y: 1 },
+  { x: 0, y: 1 },
+];
+
+export function isFullQuad(quad: Quad | null | undefined) {
+  if (!quad) return true;
+  return quad.every((p, i) => Math.abs(p.x - FULL_QUAD[i].x) < 0.002 && Math.abs(p.y - FULL_QUAD[i].y) < 0.002);
+}
+
+/** 네 점이 순서대로 볼록한 사각형을 이루는지 (꼬이거나 뒤집힌 모서리 거르기) */
+export function isConvexQuad(quad: Quad) {
+  let sign = 0;
+  for (let i = 0; i < 4; i++) {
+    const a = quad[i];
+    const b = quad[(i + 1) % 4];
+    const c = quad[(i + 2) % 4];
+    const cross = (b.x - a.x) * (c.y - b.y) - (b.y - a.y) * (c.x - b.x);
+    if (Math.abs(cross) < 1e-9) return false;
+    const s = Math.sign(cross);
+    if (sign === 0) sign = s;
+    else if (s !== sign) return false;
+  }
+  return true;
+}
+
+function dist(a: Point, b: Point) {
+  return Math.hypot(a.x - b.x, a.y - b.y);
+}
+
+/** 8x8 연립방정식 (가우스 소거). 특이행렬이면 null */
+function solve(a: number[][], b: number[]) {
+  const n = b.length;
+  const m = a.map((row, i) => [...row, b[i]]);
+
+  for (let col = 0; col < n; col++) {
+    let pivot = col;
+    for (let r = col + 1; r < n; r++) if (Math.abs(m[r][col]) > Math.abs(m[pivot][col])) pivot = r;
+    if (Math.abs(m[pivot][col]) < 1e-12) return null;
+    [m[col], m[pivot]] = [m[pivot], m[col]];
+
+    for (let r = 0; r < n; r++) {
+      if (r === col) continue;
+      const f = m[r][col] / m[col][col];
+      for (let c = col; c <= n; c++) m[r][c] -= f * m[col][c];
+    }
+  }
+  return m.map((row, i) => row[n] / row[i]);
+}
+
+/** from의 네 점을 to의 네 점으로 보내는 호모그래피 [a b c d e f g h] (h33 = 1) */
+export function homography(from: Point[], to: Point[]) {
+  const a: number[][] = [];
+  const b: number[] = [];
+  for (let i = 0; i < 4; i++) {
+    const { x, y } = from[i];
+    const { x: u, y: v } = to[i];
+    a.push([x, y, 1, 0, 0, 0, -u * x, -u * y]);
+    b.push(u);
+    a.push([0, 0, 0, x, y, 1, -v * x, -v * y]);
+    b.push(v);
+  }
+  return solve(a, b);
+}
+
+/** 펴낸 종이의 가로·세로 (원본 픽셀 기준, 마주보는 변 길이의 평균) */
+export function quadOutputSize(quad: Quad, width: number, height: number) {
+  const px = quad.map((p) => ({ x: p.x * width, y: p.y * height }));
+  return {
+    width: Math.max(1, Math.round((dist(px[0], px[1]) + dist(px[3], px[2])) / 2)),
+    height: Math.max(1, Math.round((dist(px[0], px[3]) + dist(px[1], px[2])) / 2)),
+  };
+}
+
+function toImageData(source: Drawable) {
+  const canvas = document.createElement("canvas");
+  canvas.width = source.width;
+  canvas.height = source.height;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) throw new Error("canvas 2d context 없음");
+  ctx.drawImage(source, 0, 0);
+  return ctx.getImageData(0, 0, source.width, source.height);
+}
+
+/**
+ * quad 안쪽을 반듯한 직사각형으로 펴서 새 canvas로 돌려준다.
+ * 긴 변은 maxEdge를 넘지 않는다. 출력 픽셀마다 역변환 + 쌍선형 보간.
+ */
+export function warpPerspective(source: Drawable, quad: Quad, maxEdge: number) {
+  const natural = quadOutputSize(quad, source.width, source.height);
+  const scale = Math.min(1, maxEdge / Math.max(natural.width, natural.height));
+  const outW = Math.max(1, Math.round(natural.width * scale));
+  const outH = Math.max(1, Math.round(natural.height * scale));
+
+  const srcPts = quad.map((p) => ({ x: p.x * (source.width - 1), y: p.y * (source.height - 1) }));
+  const dstPts = [
+    { x: 0, y: 0 },
+    { x: outW - 1, y: 0 },
+    { x: outW - 1, y: outH - 1 },
+    { x: 0, y: outH - 1 },
+  ];
+  const h = homography(dstPts, srcPts);
+  if (!h) throw new Error("모서리 위치가 올바르지 않습니다.");
+
+  const src = toImageData(source);
+  const sw = src.width;
+  const sh = src.height;
+  const sd = src.data;
+
+  const canvas = document.createElement("canvas");
+  canvas.width = outW;
+  canvas.height = outH;
+  const ctx = canvas.getContext("2d");
+  if (!ctx) throw new Error("canvas 2d context 없음");
+  const out = ctx.createImageData(outW, outH);
+  const od = out.data;
+
+  for (let v = 0; v < outH; v++) {
+    for (let u = 0; u < outW; u++) {
+      const den = h[6] * u + h[7] * v + 1;
+      const x = Math.min(sw - 1, Math.max(0, (h[0] * u + h[1] * v + h[2]) / den));
+      const y = Math.min(sh - 1, Math.max(0, (h[3] * u + h[4] * v + h[5]) / den));
+
+      const x0 = Math.floor(x);
+      const y0 = Math.floor(y);
+      const x1 = Math.min(sw - 1, x0 + 1);
+      const y1 = Math.min(sh - 1, y0 + 1);
+      const fx = x - x0;
+      const fy = y - y0;
+
+      const i00 = (y0 * sw + x0) * 4;
+      const i10 = (y0 * sw + x1) * 4;
+      const i01 = (y1 * sw + x0) * 4;
+      const i11 = (y1 * sw + x1) * 4;
+      const o = (v * outW + u) * 4;
+
+      for (let c = 0; c < 4; c++) {
+        const top = sd[i00 + c] + (sd[i10 + c] - sd[i00 + c]) * fx;
+        const bottom = sd[i01 + c] + (sd[i11 + c] - sd[i01 + c]) * fx;
+        od[o + c] = top + (bottom - top) * fy;
+      }
+    }
+  }
+
+  ctx.putImageData(out, 0, 0);
+  return canvas;
+}
+
+const DETECT_EDGE = 200;
+
+/** Otsu 이진화 임계값 */
+function otsu(gray: Uint8Array) {
+  const hist = new Array<number>(256).fill(0);
+  for (const g of gray) hist[g]++;
+
+  const total = gray.length;
+  let sum = 0;
+  for (let i = 0; i < 256; i++) sum += i * hist[i];
+
+  let sumB = 0;
+  let wB = 0;
+  let best = 0;
+  let threshold = 128;
+  for (let t = 0; t < 256; t++) {
+    wB += hist[t];
+    if (wB === 0) continue;
+    const wF = total - wB;
+    if (wF === 0) break;
+    sumB += t * hist[t];
+    const mB = sumB / wB;
+    const mF = (sum - sumB) / wF;
+    const between = wB * wF * (mB - mF) * (mB - mF);
+    if (between > best) {
+      best = between;
+      threshold = t;
+    }
+  }
+  return threshold;
+}
+
+/**
+ * 테이블 위 종이의 네 모서리를 대충 찾는다: 작게 줄여 밝은 영역을 이진화하고,
+ * 가장 큰 밝은 덩어리의 극점(x+y, x-y 최소·최대)을 모서리로 쓴다.
+ * 확신이 없으면 null — 그때는 사용자가 직접 끌어 맞춘다.
+ */
+export function detectPaperQuad(source: Drawable): Quad | null {
+  const scale = Math.min(1, DETECT_EDGE / Math.max(source.width, source.height));
+  const w = Math.max(1, Math.round(source.width * scale));
+  const h = Math.max(1, Math.round(source.height * scale));
+
+  const canvas = document.createElement("canvas");
+  canvas.width = w;
+  canvas.height = h;
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) return null;
+  ctx.drawImage(source, 0, 0, w, h);
+  const data = ctx.getImageData(0, 0, w, h).data;
+
+  const gray = new Uint8Array(w * h);
+  for (let i = 0; i < gray.length; i++) {
+    gray[i] = Math.round(0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2]);
+  }
+  const t = otsu(gray);
+
+  const label = new Int32Array(w * h).fill(-1);
+  let bestId = -1;
+  let bestSize = 0;
+  const stack: number[] = [];
+
+  for (let start = 0; start < gray.length; start++) {
+    if (gray[start] <= t || label[start] !== -1) continue;
+    let size = 0;
+    label[start] = start;
+    stack.push(start);
+    while (stack.length > 0) {
+      const p = stack.pop()!;
+      size++;
+      const x = p % w;
+      const neighbors = [x > 0 ? p - 1 : -1, x < w - 1 ? p + 1 : -1, p - w, p + w];
+      for (const n of neighbors) {
+        if (n < 0 || n >= gray.length || label[n] !== -1 || gray[n] <= t) continue;
+        label[n] = start;
+        stack.push(n);
+      }
+    }
+    if (size > bestSize) {
+      bestSize = size;
+      bestId = start;
+    }
+  }
+
+  const area = bestSize / (w * h);
+  if (bestId < 0 || area < 0.15 || area > 0.97) return null;
+
+  const ext = { tl: [Infinity, 0], br: [-Infinity, 0], tr: [-Infinity, 0], bl: [Infinity, 0] };
+  for (let p = 0; p < label.length; p++) {
+    if (label[p] !== bestId) continue;
+    const x = p % w;
+    const y = (p - x) / w;
+    if (x + y < ext.tl[0]) ext.tl = [x + y, p];
+    if (x + y > ext.br[0]) ext.br = [x + y, p];
+    if (x - y > ext.tr[0]) ext.tr = [x - y, p];
+    if (x - y < ext.bl[0]) ext.bl = [x - y, p];
+  }
+
+  const toPoint = (p: number): Point => {
+    const x = p % w;
+    const y = (p - x) / w;
+    return { x: (x + 0.5) / w, y: (y + 0.5) / h };
+  };
+  return [toPoint(ext.tl[1]), toPoint(ext.tr[1]), toPoint(ext.br[1]), toPoint(ext.bl[1])];
+}
@@ -0,0 +1,69 @@
+// Perceptual hash helpers shared by the server pipeline and the duplicate
+// review screen. A phash is a 64-bit dHash written as 16 hex chars
+// (artworks.phash, migration 006); lib/phashServer.ts computes it.
+
+/** 이 정도 비트 차이까지는 같은 그림을 다시 찍은 것으로 본다. */
+export const PHASH_THRESHOLDS = { strict: 6, normal: 10, loose: 14 } as const;
+
+export type PhashSensitivity = keyof typeof PHASH_THRESHOLDS;
+
+export function isPhash(v: unknown): v is string {
+  return typeof v === "string" && /^[0-9a-f]{16}$/.test(v);
+}
+
+const NIBBLE_BITS = Array.from({ length: 16 }, (_, n) => (n & 1) + ((n >> 1) & 1) + ((n >> 2) & 1) + ((n >> 3) & 1));
+
+/** 두 phash의 다른 비트 수 (0–64) */
+export function hammingDistance(a: string, b: string) {
+  let d = 0;
+  for (let i = 0; i < 16; i++) d += NIBBLE_BITS[parseInt(a[i], 16) ^ parseInt(b[i], 16)];
+  return d;
+}
+
+/** artwork_duplicate_dismissals의 (artwork_a, artwork_b) 순서 */
+export function dismissalPair(x: string, y: string): [string, string] {
+  return x < y ? [x, y] : [y, x];
+}
+
+/**
+ * threshold 이내로 닮은 작품끼리 묶는다 (닮음이 이어지면 한 묶음).
+ * dismissed는 "둘 다 남기기"로 표시한 쌍 — `${a}|${b}` (dismissalPair 순서).
+ * 두 장 이상인 묶음만, 가장 닮은 묶음부터 돌려준다.
+ */
+export function groupSimilar<T extends { id: string; phash: string | null }>(
+  items: T[],
+  threshold: number,
+  dismissed: Set<string>
+): { items: T[]; distance: number }[] {
+  const hashed = items.filter((item) => isPhash(item.phash));
+  const parent = hashed.map((_, i) => i);
+  const find = (i: number): number => (parent[i] === i ? i : (parent[i] = find(parent[i])));
+  const closest = new Map<number, number>();
+
+  for (let i = 0; i < hashed.length; i++) {
+    for (let j = i + 1; j < hashed.length; j++) {
+      const d = hammingDistance(hashed[i].phash!, hashed[j].phash!);
+      if (d > threshold) continue;
+      if (dismissed.has(dismissalPair(hashed[i].id, hashed[j].id).join("|"))) continue;
+      const ri = find(i);
+      const rj = find(j);
+      if (ri !== rj) parent[ri] = rj;
+      closest.set(i, Math.min(closest.get(i) ?? 64, d));
+      closest.set(j, Math.min(closest.get(j) ?? 64, d));
+    }
+  }
+
+  const groups = new Map<number, number[]>();
+  hashed.forEach((_, i) => {
+    if (!closest.has(i)) return;
+    const root = find(i);
+    groups.set(root, [...(groups.get(root) ?? []), i]);
+  });
+
+  return Array.from(groups.values())
+    .map((members) => ({
+      items: members.map((i) => hashed[i]),
+      distance: Math.min(...members.map((i) => closest.get(i)!)),
+    }))
+    .sort((a, b) => a.distance - b.distance || b.items.length - a.items.length);
+}
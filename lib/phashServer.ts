@@ -0,0 +1,33 @@
+import sharp from "sharp";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { StorageProvider } from "./storage";
+import { readStoredObject } from "./storageServer";
+
+/**
+ * 64비트 dHash: EXIF 방향대로 세운 뒤 흑백 9×8로 줄이고, 가로로 이웃한 두 칸의
+ * 밝기 비교(왼쪽 > 오른쪽 = 1)를 16자리 hex로 적는다.
+ * 크기·압축·밝기가 조금 달라도 거의 같은 값이 나온다.
+ */
+export async function computePhash(image: Buffer) {
+  const { data, info } = await sharp(image)
+    .rotate()
+    .greyscale()
+    .resize(9, 8, { fit: "fill" })
+    .raw()
+    .toBuffer({ resolveWithObject: true });
+
+  const px = (x: number, y: number) => data[(y * info.width + x) * info.channels];
+
+  let hex = "";
+  for (let y = 0; y < 8; y++) {
+    let row = 0;
+    for (let x = 0; x < 8; x++) row = (row << 1) | (px(x, y) > px(x + 1, y) ? 1 : 0);
+    hex += row.toString(16).padStart(2, "0");
+  }
+  return hex;
+}
+
+/** 저장된 파일(원본이든 썸네일이든)을 읽어 phash를 만든다. */
+export async function computeStoredPhash(supabase: SupabaseClient, provider: StorageProvider, key: string) {
+  return computePhash(await readStoredObject(supabase, provider, key));
+}
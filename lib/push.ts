@@ -0,0 +1,132 @@
+import { supabase } from "./supabaseClient";
+
+// 웹 푸시 알림 구독 (기기마다 하나). 구독 정보와 종류별 수신 여부는 push_subscriptions(migration 007)에 둔다.
+// 보내는 쪽은 lib/pushServer.ts, 알림을 띄우는 쪽은 public/sw.js.
+
+export type PushPrefs = {
+  notifyGuestbook: boolean;
+  notifyExpiring: boolean;
+};
+
+export type PushDeviceState = {
+  /** 이 기기가 구독 중인 endpoint (없으면 null) */
+  endpoint: string | null;
+  prefs: PushPrefs;
+};
+
+const DEFAULT_PREFS: PushPrefs = { notifyGuestbook: true, notifyExpiring: true };
+
+export function isPushSupported() {
+  return typeof window !== "undefined" && "serviceWorker" in navigator && "PushManager" in window && "Notification" in window;
+}
+
+function vapidPublicKey() {
+  const key = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY ?? "";
+  const padded = (key + "=".repeat((4 - (key.length % 4)) % 4)).replace(/-/g, "+").replace(/_/g, "/");
+  return Uint8Array.from(atob(padded), (c) => c.charCodeAt(0));
+}
+
+/** 서비스 워커는 배포 빌드에서만 등록된다 (app/components/ServiceWorkerBridge.tsx). */
+async function getRegistration() {
+  const reg = await navigator.serviceWorker.getRegistration();
+  if (!reg) throw new Error("알림은 설치된 앱(배포 버전)에서만 쓸 수 있어요.");
+  return reg;
+}
+
+export async function getPushDeviceState(): Promise<PushDeviceState> {
+  if (!isPushSupported()) return { endpoint: null, prefs: DEFAULT_PREFS };
+
+  const reg = await navigator.serviceWorker.getRegistration();
+  const sub = await reg?.pushManager.getSubscription();
+  if (!sub) return { endpoint: null, prefs: DEFAULT_PREFS };
+
+  const { data } = await supabase
+    .from("push_subscriptions")
+    .select("notify_guestbook, notify_expiring")
+    .eq("endpoint", sub.endpoint)
+    .maybeSingle();
+
+  // 브라우저에는 구독이 있는데 DB에 없다 = 다른 계정이었거나 서버가 지웠다 → 다시 켜야 한다.
+  if (!data) return { endpoint: null, prefs: DEFAULT_PREFS };
+  return {
+    endpoint: sub.endpoint,
+    prefs: { notifyGuestbook: !!data.notify_guestbook, notifyExpiring: !!data.notify_expiring },
+  };
+}
+
+/** 알림 권한을 묻고 이 기기를 구독한다. */
+export async function enablePush(prefs: PushPrefs): Promise<{ endpoint: string | null; error: string | null }> {
+  if (!isPushSupported()) return { endpoint: null, error: "이 브라우저는 알림을 지원하지 않아요." };
+  if (!process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY) return { endpoint: null, error: "알림 키(NEXT_PUBLIC_VAPID_PUBLIC_KEY)가 설정되지 않았어요." };
+
+  try {
+    const permission = await Notification.requestPermission();
+    if (permission !== "granted") return { endpoint: null, error: "알림이 차단되어 있어요. 브라우저 설정에서 허용해 주세요." };
+
+    const { data: prof, error: profErr } = await supabase.from("profiles").select("family_id").single();
+    if (profErr || !prof?.family_id) return { endpoint: null, error: "가족 정보(profiles)를 찾지 못했습니다." };
+
+    const reg = await getRegistration();
+    const sub =
+      (await reg.pushManager.getSubscription()) ??
+      (await reg.pushManager.subscribe({ userVisibleOnly: true, applicationServerKey: vapidPublicKey() }));
+    const json = sub.toJSON();
+
+    const { error } = await supabase.from("push_subscriptions").upsert(
+      {
+        family_id: prof.family_id,
+        endpoint: sub.endpoint,
+        p256dh: json.keys?.p256dh ?? "",
+        auth: json.keys?.auth ?? "",
+        user_agent: navigator.userAgent.slice(0, 300),
+        notify_guestbook: prefs.notifyGuestbook,
+        notify_expiring: prefs.notifyExpiring,
+        failure_count: 0,
+        last_error: null,
+        updated_at: new Date().toISOString(),
+      },
+      { onConflict: "endpoint" }
+    );
+    if (error) return { endpoint: null, error: error.message };
+
+    return { endpoint: sub.endpoint, error: null };
+  } catch (e) {
+    return { endpoint: null, error: e instanceof Error ? e.message : "알림 구독 실패" };
+  }
+}
+
+/** 이 기기의 구독을 끊고 DB에서도 지운다. */
+export async function disablePush(): Promise<{ error: string | null }> {
+  try {
+    const reg = await navigator.serviceWorker.getRegistration();
+    const sub = await reg?.pushManager.getSubscription();
+    if (!sub) return { error: null };
+
+    const { error } = await supabase.from("push_subscriptions").delete().eq("endpoint", sub.endpoint);
+    await sub.unsubscribe();
+    return { error: error?.message ?? null };
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : "알림 해제 실패" };
+  }
+}
+
+export async function updatePushPrefs(endpoint: string, prefs: PushPrefs): Promise<{ error: string | null }> {
+  const { error } = await supabase
+    .from("push_subscriptions")
+    .update({ notify_guestbook: prefs.notifyGuestbook, notify_expiring: prefs.notifyExpiring, updated_at: new Date().toISOString() })
+    .eq("endpoint", endpoint);
+  return { error: error?.message ?? null };
+}
+
+/**
+ * 방명록을 남긴 직후 부른다. 트리거가 쌓아 둔 그 가족의 알림을 바로 보내게 한다 (실패해도 매일 cron이 보낸다).
+ * 서버는 초대 토큰과 방금 남긴 글이 같은 가족인지 확인한다.
+ */
+export function kickPushDispatch(token: string, entryId: string) {
+  void fetch("/api/push/dispatch", {
+    method: "POST",
+    headers: { "Content-Type": "application/json" },
+    body: JSON.stringify({ token, entryId }),
+    keepalive: true,
+  }).catch(() => {});
+}
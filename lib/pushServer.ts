@@ -0,0 +1,178 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import webpush, { WebPushError } from "web-push";
+
+// Sends queued web push notifications (push_outbox, migration 007).
+// Rows are grouped per family and kind so a burst of guestbook messages or
+// several expiring artworks become one notification per device.
+// Needs NEXT_PUBLIC_VAPID_PUBLIC_KEY, VAPID_PRIVATE_KEY and VAPID_SUBJECT
+// (a mailto: or https: contact); generate keys with `npx web-push generate-vapid-keys`.
+
+export type PushKind = "guestbook" | "expiring";
+
+type OutboxRow = {
+  id: string;
+  family_id: string;
+  kind: PushKind;
+  payload: Record<string, unknown>;
+};
+
+type SubscriptionRow = {
+  id: string;
+  endpoint: string;
+  p256dh: string;
+  auth: string;
+  failure_count: number;
+};
+
+/** What public/sw.js shows. */
+export type PushMessage = { title: string; body: string; url: string; tag: string };
+
+export type DispatchSummary = {
+  outbox: number;
+  notifications: number;
+  sent: number;
+  failed: number;
+  removedSubscriptions: number;
+};
+
+const OUTBOX_BATCH = 200;
+// Give up on a device after this many consecutive non-expiry failures.
+const MAX_FAILURES = 10;
+
+const PREF_COLUMN: Record<PushKind, "notify_guestbook" | "notify_expiring"> = {
+  guestbook: "notify_guestbook",
+  expiring: "notify_expiring",
+};
+
+let configured: boolean | null = null;
+
+export function isPushConfigured() {
+  if (configured != null) return configured;
+  const publicKey = process.env.NEXT_PUBLIC_VAPID_PUBLIC_KEY;
+  const privateKey = process.env.VAPID_PRIVATE_KEY;
+  const subject = process.env.VAPID_SUBJECT;
+  configured = !!(publicKey && privateKey && subject);
+  if (configured) webpush.setVapidDetails(subject!, publicKey!, privateKey!);
+  return configured;
+}
+
+function text(v: unknown) {
+  return typeof v === "string" ? v : "";
+}
+
+function buildMessage(kind: PushKind, rows: OutboxRow[]): PushMessage {
+  if (kind === "guestbook") {
+    const first = rows[0].payload;
+    const who = text(first.display_name) || "누군가";
+    return {
+      title: rows.length > 1 ? `새 방명록 ${rows.length}개` : `${who}님이 방명록을 남겼어요`,
+      body: rows.length > 1 ? `${who}님 외 ${rows.length - 1}명이 메시지를 남겼어요.` : text(first.content).slice(0, 120),
+      url: "/manage",
+      tag: "guestbook",
+    };
+  }
+
+  const first = rows[0].payload;
+  const title = text(first.title) || "작품";
+  return {
+    title: "전시가 곧 끝나요",
+    body:
+      rows.length > 1
+        ? `‘${title}’ 외 ${rows.length - 1}개 작품의 공개 기간이 이틀 안에 끝나요.`
+        : `‘${title}’의 공개 기간이 이틀 안에 끝나요.`,
+    url: "/manage",
+    tag: "expiring",
+  };
+}
+
+async function sendToFamily(supabase: SupabaseClient, familyId: string, kind: PushKind, message: PushMessage) {
+  const { data, error } = await supabase
+    .from("push_subscriptions")
+    .select("id, endpoint, p256dh, auth, failure_count")
+    .eq("family_id", familyId)
+    .eq(PREF_COLUMN[kind], true);
+  if (error) throw new Error(error.message);
+
+  let sent = 0;
+  let failed = 0;
+  let removed = 0;
+  const payload = JSON.stringify(message);
+
+  for (const sub of (data ?? []) as SubscriptionRow[]) {
+    try {
+      await webpush.sendNotification({ endpoint: sub.endpoint, keys: { p256dh: sub.p256dh, auth: sub.auth } }, payload, {
+        TTL: 60 * 60 * 24,
+        topic: message.tag,
+      });
+      sent++;
+      if (sub.failure_count > 0) {
+        await supabase.from("push_subscriptions").update({ failure_count: 0, last_error: null }).eq("id", sub.id);
+      }
+    } catch (e) {
+      failed++;
+      const status = e instanceof WebPushError ? e.statusCode : 0;
+      // 404/410: the browser dropped the subscription (permission revoked, app removed).
+      if (status === 404 || status === 410 || sub.failure_count + 1 >= MAX_FAILURES) {
+        await supabase.from("push_subscriptions").delete().eq("id", sub.id);
+        removed++;
+        continue;
+      }
+      await supabase
+        .from("push_subscriptions")
+        .update({ failure_count: sub.failure_count + 1, last_error: e instanceof Error ? e.message.slice(0, 500) : "send failed" })
+        .eq("id", sub.id);
+    }
+  }
+
+  return { sent, failed, removed };
+}
+
+/**
+ * Sends every unsent outbox row and marks it sent. Uses the service-role
+ * client: the outbox and other users' subscriptions are not visible otherwise.
+ * `scope` limits the run to one family (and kind), for the guestbook hook.
+ */
+export async function dispatchPushOutbox(
+  supabase: SupabaseClient,
+  scope?: { familyId: string; kind?: PushKind }
+): Promise<DispatchSummary> {
+  const summary: DispatchSummary = { outbox: 0, notifications: 0, sent: 0, failed: 0, removedSubscriptions: 0 };
+
+  let query = supabase.from("push_outbox").select("id, family_id, kind, payload").is("sent_at", null);
+  if (scope) query = query.eq("family_id", scope.familyId);
+  if (scope?.kind) query = query.eq("kind", scope.kind);
+  const { data, error } = await query.order("created_at", { ascending: true }).limit(OUTBOX_BATCH);
+  if (error) throw new Error(error.message);
+
+  const rows = (data ?? []) as OutboxRow[];
+  summary.outbox = rows.length;
+  if (rows.length === 0) return summary;
+
+  // Claim the batch first so a concurrent dispatch does not send it twice.
+  const { data: claimed, error: claimErr } = await supabase
+    .from("push_outbox")
+    .update({ sent_at: new Date().toISOString() })
+    .in("id", rows.map((r) => r.id))
+    .is("sent_at", null)
+    .select("id");
+  if (claimErr) throw new Error(claimErr.message);
+  const claimedIds = new Set((claimed ?? []).map((r) => r.id as string));
+
+  const groups = new Map<string, OutboxRow[]>();
+  for (const row of rows) {
+    if (!claimedIds.has(row.id)) continue;
+    const key = `${row.family_id}|${row.kind}`;
+    groups.set(key, [...(groups.get(key) ?? []), row]);
+  }
+
+  for (const group of groups.values()) {
+    const { family_id, kind } = group[0];
+    summary.notifications++;
+    const result = await sendToFamily(supabase, family_id, kind, buildMessage(kind, group));
+    summary.sent += result.sent;
+    summary.failed += result.failed;
+    summary.removedSubscriptions += result.removed;
+  }
+
+  return summary;
+}
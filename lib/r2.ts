@@ -0,0 +1,200 @@
+import {
+  AbortMultipartUploadCommand,
+  CompleteMultipartUploadCommand,
+  CreateMultipartUploadCommand,
+  DeleteObjectCommand,
+  DeleteObjectsCommand,
+  GetObjectCommand,
+  HeadObjectCommand,
+  ListObjectsV2Command,
+  ListPartsCommand,
+  PutObjectCommand,
+  S3Client,
+  UploadPartCommand,
+} from "@aws-sdk/client-s3";
+import { getSignedUrl } from "@aws-sdk/s3-request-presigner";
+
+// Server-only Cloudflare R2 access (S3-compatible API).
+// For local testing point R2_ENDPOINT at a MinIO instance, e.g.
+//   R2_ENDPOINT=http://localhost:9000 R2_ACCESS_KEY_ID=minioadmin R2_SECRET_ACCESS_KEY=minioadmin
+// R2_ACCOUNT_ID is only needed when R2_ENDPOINT is not set.
+
+const PRESIGN_EXPIRES_SEC = 10 * 60;
+export const MAX_EXT_LEN = 8;
+
+type R2Config = {
+  endpoint: string;
+  accessKeyId: string;
+  secretAccessKey: string;
+  bucket: string;
+};
+
+function readR2Config(): R2Config | null {
+  const accountId = process.env.R2_ACCOUNT_ID;
+  const endpoint = process.env.R2_ENDPOINT || (accountId ? `https://${accountId}.r2.cloudflarestorage.com` : "");
+  const accessKeyId = process.env.R2_ACCESS_KEY_ID;
+  const secretAccessKey = process.env.R2_SECRET_ACCESS_KEY;
+  const bucket = process.env.R2_BUCKET;
+
+  if (!endpoint || !accessKeyId || !secretAccessKey || !bucket) return null;
+  return { endpoint, accessKeyId, secretAccessKey, bucket };
+}
+
+let cached: { client: S3Client; bucket: string } | null = null;
+
+export function isR2Configured() {
+  return readR2Config() != null;
+}
+
+export function getR2() {
+  if (cached) return cached;
+
+  const cfg = readR2Config();
+  if (!cfg) throw new Error("R2_NOT_CONFIGURED");
+
+  const client = new S3Client({
+    region: "auto",
+    endpoint: cfg.endpoint,
+    // MinIO (and other S3 stand-ins) need path-style addressing; R2 accepts both.
+    forcePathStyle: true,
+    credentials: { accessKeyId: cfg.accessKeyId, secretAccessKey: cfg.secretAccessKey },
+  });
+
+  cached = { client, bucket: cfg.bucket };
+  return cached;
+}
+
+export async function presignR2Put(key: string, contentType: string) {
+  const { client, bucket } = getR2();
+  return getSignedUrl(client, new PutObjectCommand({ Bucket: bucket, Key: key, ContentType: contentType }), {
+    expiresIn: PRESIGN_EXPIRES_SEC,
+  });
+}
+
+export async function deleteR2Object(key: string) {
+  const { client, bucket } = getR2();
+  await client.send(new DeleteObjectCommand({ Bucket: bucket, Key: key }));
+}
+
+export async function getR2Object(key: string) {
+  const { client, bucket } = getR2();
+  const res = await client.send(new GetObjectCommand({ Bucket: bucket, Key: key }));
+  if (!res.Body) throw new Error(`R2 object empty: ${key}`);
+  return Buffer.from(await res.Body.transformToByteArray());
+}
+
+/** Extension for a new object key, taken from the browser's filename. Anything odd becomes "jpg". */
+export function safeExt(filename: unknown) {
+  const name = typeof filename === "string" ? filename : "";
+  const ext = (name.split(".").pop() ?? "").toLowerCase();
+  if (!ext || ext === name.toLowerCase() || ext.length > MAX_EXT_LEN || !/^[a-z0-9]+$/.test(ext)) return "jpg";
+  return ext;
+}
+
+/** HTTP status of a failed S3/R2 call, if the SDK reported one. */
+export function s3Status(e: unknown) {
+  return (e as { $metadata?: { httpStatusCode?: number } }).$metadata?.httpStatusCode;
+}
+
+export async function putR2Object(key: string, body: Buffer, contentType: string) {
+  const { client, bucket } = getR2();
+  await client.send(new PutObjectCommand({ Bucket: bucket, Key: key, Body: body, ContentType: contentType }));
+}
+
+/** true if the object exists; errors other than 404 are rethrown. */
+export async function headR2Object(key: string) {
+  const { client, bucket } = getR2();
+  try {
+    await client.send(new HeadObjectCommand({ Bucket: bucket, Key: key }));
+    return true;
+  } catch (e) {
+    if (s3Status(e) === 404) return false;
+    throw e;
+  }
+}
+
+export type ListedObject = { key: string; size: number; lastModified: Date | null };
+
+/** Every object in the bucket (optionally under a prefix), 1000 per page. */
+export async function listR2Objects(prefix?: string) {
+  const { client, bucket } = getR2();
+  const out: ListedObject[] = [];
+  let token: string | undefined;
+  do {
+    const res = await client.send(new ListObjectsV2Command({ Bucket: bucket, Prefix: prefix, ContinuationToken: token }));
+    for (const obj of res.Contents ?? []) {
+      if (obj.Key) out.push({ key: obj.Key, size: obj.Size ?? 0, lastModified: obj.LastModified ?? null });
+    }
+    token = res.IsTruncated ? res.NextContinuationToken : undefined;
+  } while (token);
+  return out;
+}
+
+/** Batch delete (1000 keys per request). Returns the keys R2 reported as failed. */
+export async function deleteR2Objects(keys: string[]) {
+  const { client, bucket } = getR2();
+  const failed: string[] = [];
+  for (let i = 0; i < keys.length; i += 1000) {
+    const chunk = keys.slice(i, i + 1000);
+    const res = await client.send(
+      new DeleteObjectsCommand({ Bucket: bucket, Delete: { Objects: chunk.map((Key) => ({ Key })), Quiet: true } })
+    );
+    for (const err of res.Errors ?? []) if (err.Key) failed.push(err.Key);
+  }
+  return failed;
+}
+
+// Multipart uploads for large files (resumable from the browser). Parts are
+// PUT straight to R2 with presigned URLs; the part list (with ETags) is read
+// back from R2 on resume and on completion, so the browser never has to read
+// the ETag response header. R2 aborts unfinished uploads after 7 days.
+
+export async function createR2MultipartUpload(key: string, contentType: string) {
+  const { client, bucket } = getR2();
+  const res = await client.send(new CreateMultipartUploadCommand({ Bucket: bucket, Key: key, ContentType: contentType }));
+  if (!res.UploadId) throw new Error("R2 multipart upload has no UploadId");
+  return res.UploadId;
+}
+
+export async function presignR2UploadPart(key: string, uploadId: string, partNumber: number) {
+  const { client, bucket } = getR2();
+  return getSignedUrl(client, new UploadPartCommand({ Bucket: bucket, Key: key, UploadId: uploadId, PartNumber: partNumber }), {
+    expiresIn: PRESIGN_EXPIRES_SEC,
+  });
+}
+
+export type UploadedPart = { partNumber: number; etag: string; size: number };
+
+/** Parts R2 already has for this upload. Throws with httpStatusCode 404 once the upload is gone. */
+export async function listR2Parts(key: string, uploadId: string) {
+  const { client, bucket } = getR2();
+  const out: UploadedPart[] = [];
+  let marker: string | undefined;
+  do {
+    const res = await client.send(new ListPartsCommand({ Bucket: bucket, Key: key, UploadId: uploadId, PartNumberMarker: marker }));
+    for (const p of res.Parts ?? []) {
+      if (p.PartNumber && p.ETag) out.push({ partNumber: p.PartNumber, etag: p.ETag, size: p.Size ?? 0 });
+    }
+    marker = res.IsTruncated ? res.NextPartNumberMarker : undefined;
+  } while (marker);
+  return out;
+}
+
+export async function completeR2MultipartUpload(key: string, uploadId: string, parts: UploadedPart[]) {
+  const { client, bucket } = getR2();
+  await client.send(
+    new CompleteMultipartUploadCommand({
+      Bucket: bucket,
+      Key: key,
+      UploadId: uploadId,
+      MultipartUpload: {
+        Parts: [...parts].sort((a, b) => a.partNumber - b.partNumber).map((p) => ({ PartNumber: p.partNumber, ETag: p.etag })),
+      },
+    })
+  );
+}
+
+export async function abortR2MultipartUpload(key: string, uploadId: string) {
+  const { client, bucket } = getR2();
+  await client.send(new AbortMultipartUploadCommand({ Bucket: bucket, Key: key, UploadId: uploadId }));
+}
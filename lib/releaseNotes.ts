@@ -0,0 +1,46 @@
+// Release notes shown in the "new version" prompt (app/components/UpdatePrompt.tsx).
+// Add an entry at the top for every deployment that bumps NEXT_PUBLIC_APP_VERSION.
+// Notes are user-facing, so they are written in Korean.
+
+export type ReleaseNote = {
+  version: string;
+  /** YYYY-MM-DD */
+  date: string;
+  notes: string[];
+};
+
+export const RELEASE_NOTES: ReleaseNote[] = [
+  {
+    version: "0.2.0",
+    date: "2026-10-18",
+    notes: [
+      "인터넷이 없어도 업로드를 대기열에 넣어 두면 연결될 때 올라가요.",
+      "사진 앱에서 “공유”로 바로 작품을 올릴 수 있어요.",
+      "오프라인에서도 마지막으로 본 전시관이 보여요.",
+      "새 방명록과 전시 종료 임박을 알림으로 받을 수 있어요.",
+    ],
+  },
+];
+
+/** "1.10.0" > "1.9.2". Non-numeric parts compare as strings. */
+export function compareVersions(a: string, b: string) {
+  const pa = a.replace(/^v/, "").split(/[.-]/);
+  const pb = b.replace(/^v/, "").split(/[.-]/);
+  for (let i = 0; i < Math.max(pa.length, pb.length); i++) {
+    const x = pa[i] ?? "0";
+    const y = pb[i] ?? "0";
+    const nx = Number(x);
+    const ny = Number(y);
+    const diff = Number.isFinite(nx) && Number.isFinite(ny) ? nx - ny : x.localeCompare(y);
+    if (diff !== 0) return diff > 0 ? 1 : -1;
+  }
+  return 0;
+}
+
+/** Notes newer than `since` (up to and including `current`). Unknown `since`: just the current release. */
+export function notesSince(since: string, current: string) {
+  if (!since) return RELEASE_NOTES.filter((n) => n.version === current);
+  return RELEASE_NOTES.filter(
+    (n) => compareVersions(n.version, since) > 0 && (!current || compareVersions(n.version, current) <= 0)
+  );
+}
@@ -0,0 +1,26 @@
+// Rendition layout shared by the server pipeline and the image resolver.
+// Renditions live next to the original, in the same provider:
+//   <family>/<name>.jpg  ->  <family>/<name>__320.avif, __320.webp, __320.jpg, __1280.*
+
+export const RENDITION_SIZES = { thumb: 320, display: 1280 } as const;
+
+export type RenditionName = keyof typeof RENDITION_SIZES;
+export type RenditionFormat = "avif" | "webp" | "jpeg";
+
+export const RENDITION_FORMATS: RenditionFormat[] = ["avif", "webp", "jpeg"];
+
+/** format -> storage key */
+export type RenditionSet = Record<RenditionFormat, string>;
+
+/** artworks.renditions (jsonb) */
+export type ArtworkRenditions = Partial<Record<RenditionName, RenditionSet>>;
+
+export function renditionKey(originalKey: string, name: RenditionName, format: RenditionFormat) {
+  const base = originalKey.replace(/\.[^./]+$/, "");
+  return `${base}__${RENDITION_SIZES[name]}.${format === "jpeg" ? "jpg" : format}`;
+}
+
+export function renditionKeys(renditions: ArtworkRenditions | null | undefined) {
+  if (!renditions) return [];
+  return Object.values(renditions).flatMap((set) => (set ? Object.values(set) : []));
+}
@@ -0,0 +1,55 @@
+import sharp, { type Sharp } from "sharp";
+import type { SupabaseClient } from "@supabase/supabase-js";
+import type { StorageProvider } from "./storage";
+import { readStoredObject, writeStoredObject } from "./storageServer";
+import {
+  RENDITION_FORMATS,
+  RENDITION_SIZES,
+  renditionKey,
+  type ArtworkRenditions,
+  type RenditionFormat,
+  type RenditionName,
+  type RenditionSet,
+} from "./renditions";
+
+const CONTENT_TYPES: Record<RenditionFormat, string> = {
+  avif: "image/avif",
+  webp: "image/webp",
+  jpeg: "image/jpeg",
+};
+
+function encode(img: Sharp, format: RenditionFormat) {
+  if (format === "avif") return img.avif({ quality: 50 }).toBuffer();
+  if (format === "webp") return img.webp({ quality: 78 }).toBuffer();
+  return img.jpeg({ quality: 82, mozjpeg: true }).toBuffer();
+}
+
+/**
+ * 원본을 읽어 thumb/display 크기별 AVIF·WebP·JPEG를 만들어 같은 provider에 저장한다.
+ * 이미 읽어 둔 원본이 있으면 `original`로 넘겨 다시 내려받지 않는다.
+ */
+export async function buildRenditions(
+  supabase: SupabaseClient,
+  provider: StorageProvider,
+  originalKey: string,
+  original?: Buffer
+): Promise<ArtworkRenditions> {
+  original ??= await readStoredObject(supabase, provider, originalKey);
+  const out: ArtworkRenditions = {};
+
+  for (const name of Object.keys(RENDITION_SIZES) as RenditionName[]) {
+    const size = RENDITION_SIZES[name];
+    // rotate()는 EXIF Orientation대로 픽셀을 돌려놓고 태그는 버린다.
+    const resized = sharp(original).rotate().resize({ width: size, height: size, fit: "inside", withoutEnlargement: true });
+
+    const set = {} as RenditionSet;
+    for (const format of RENDITION_FORMATS) {
+      const key = renditionKey(originalKey, name, format);
+      await writeStoredObject(supabase, provider, key, await encode(resized.clone(), format), CONTENT_TYPES[format]);
+      set[format] = key;
+    }
+    out[name] = set;
+  }
+
+  return out;
+}
@@ -0,0 +1,299 @@
+import { supabase } from "./supabaseClient";
+import { sha256Hex } from "./contentHash";
+import { idbDelete, idbGet, idbGetAll, idbPut, RESUMABLE_UPLOADS_STORE } from "./idb";
+import {
+  ARTWORK_BUCKET,
+  authHeaders,
+  familyObjectKey,
+  getUploadProvider,
+  StorageHttpError,
+  storageObjectUrl,
+  uploadArtworkObject,
+  type StoredObject,
+  type UploadProgress,
+} from "./storage";
+
+// 큰 파일 이어 올리기. 한 번에 보내다 끊기면 처음부터 다시 보내야 해서
+// 조각(chunk)으로 나눠 보낸다.
+//   supabase: Storage의 TUS 엔드포인트 (/storage/v1/upload/resumable)
+//   r2:       S3 multipart (/api/storage/multipart*)
+// 진행 상태(업로드 URL / uploadId, key)는 IndexedDB에 파일 내용의 SHA-256으로 저장한다.
+// 새로 고친 뒤 같은 사진을 다시 고르면 (처리 결과가 같은 바이트라면) 끊긴 곳부터 이어 간다.
+// 한 조각보다 작은 파일은 예전처럼 요청 한 번으로 보낸다.
+
+/** Supabase TUS는 6MB 조각만 받는다(마지막 조각 제외). R2 multipart 최소 조각(5MiB)보다도 크다. */
+export const RESUMABLE_CHUNK_SIZE = 6 * 1024 * 1024;
+
+/** 이 시간이 지난 상태는 서버 쪽이 이미 버렸다 (Supabase 24시간, R2 7일). */
+const RESUMABLE_TTL_MS = { supabase: 23 * 60 * 60 * 1000, r2: 6 * 24 * 60 * 60 * 1000 } as const;
+
+const TUS_VERSION = "1.0.0";
+
+export type ResumableRecord = {
+  fingerprint: string;
+  fileName: string;
+  size: number;
+  key: string;
+  createdAt: number;
+} & ({ provider: "supabase"; uploadUrl: string } | { provider: "r2"; uploadId: string });
+
+// 같은 사진을 한 번에 두 장 올리면 (중복이어도 "그래도 올리기") 같은 상태를 두 업로드가 나눠 쓰지 않도록.
+const active = new Set<string>();
+
+function isExpired(rec: ResumableRecord) {
+  return Date.now() - rec.createdAt > RESUMABLE_TTL_MS[rec.provider];
+}
+
+// IndexedDB가 막혀 있어도(사생활 보호 모드 등) 업로드는 된다. 이어 올리기만 안 될 뿐.
+async function loadRecord(fingerprint: string) {
+  try {
+    return (await idbGet<ResumableRecord>(RESUMABLE_UPLOADS_STORE, fingerprint)) ?? null;
+  } catch {
+    return null;
+  }
+}
+
+async function saveRecord(rec: ResumableRecord) {
+  try {
+    await idbPut(RESUMABLE_UPLOADS_STORE, rec);
+  } catch (e) {
+    console.warn("[resumable] state not saved:", e instanceof Error ? e.message : e);
+  }
+}
+
+async function dropRecord(fingerprint: string) {
+  try {
+    await idbDelete(RESUMABLE_UPLOADS_STORE, fingerprint);
+  } catch {
+    // 지우지 못해도 TTL이 지나면 정리된다.
+  }
+}
+
+/** 끊긴 채 남아 있는 이어 올리기 목록. 만료된 것은 여기서 지운다. */
+export async function listPendingResumableUploads(): Promise<ResumableRecord[]> {
+  let all: ResumableRecord[];
+  try {
+    all = await idbGetAll<ResumableRecord>(RESUMABLE_UPLOADS_STORE);
+  } catch {
+    return [];
+  }
+  const live: ResumableRecord[] = [];
+  for (const rec of all) {
+    if (isExpired(rec)) await dropRecord(rec.fingerprint);
+    else live.push(rec);
+  }
+  return live;
+}
+
+function base64Utf8(v: string) {
+  let bin = "";
+  new TextEncoder().encode(v).forEach((b) => (bin += String.fromCharCode(b)));
+  return btoa(bin);
+}
+
+/** 조각 하나를 보내고 응답 헤더를 읽을 수 있게 XHR을 돌려준다. */
+function sendChunk(method: string, url: string, body: Blob | null, headers: Record<string, string>, onProgress?: (loaded: number) => void) {
+  return new Promise<XMLHttpRequest>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url);
+    Object.entries(headers).forEach(([k, v]) => xhr.setRequestHeader(k, v));
+    xhr.upload.onprogress = (e) => onProgress?.(e.loaded);
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        resolve(xhr);
+        return;
+      }
+      let message = `${xhr.status}`;
+      try {
+        const json = JSON.parse(xhr.responseText) as { message?: string; error?: string };
+        message = json.message ?? json.error ?? message;
+      } catch {
+        // 본문이 JSON이 아니면 상태 코드만 쓴다.
+      }
+      reject(new StorageHttpError(xhr.status, message));
+    };
+    xhr.onerror = () => reject(new Error("네트워크 오류"));
+    xhr.ontimeout = () => reject(new Error("업로드 시간 초과"));
+    xhr.send(body);
+  });
+}
+
+function isGone(e: unknown) {
+  return e instanceof StorageHttpError && (e.status === 404 || e.status === 410);
+}
+
+/* ---------------- Supabase (TUS) ---------------- */
+
+async function tusHeaders() {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) throw new StorageHttpError(401, "로그인 세션이 만료되었습니다. 다시 로그인해 주세요.");
+  return {
+    Authorization: `Bearer ${token}`,
+    apikey: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? "",
+    "Tus-Resumable": TUS_VERSION,
+  };
+}
+
+async function tusCreate(file: File, key: string) {
+  const base = (process.env.NEXT_PUBLIC_SUPABASE_URL ?? "").replace(/\/+$/, "");
+  const metadata = {
+    bucketName: ARTWORK_BUCKET,
+    objectName: key,
+    contentType: file.type || "image/jpeg",
+    cacheControl: "3600",
+  };
+  const xhr = await sendChunk("POST", `${base}/storage/v1/upload/resumable`, null, {
+    ...(await tusHeaders()),
+    "Upload-Length": String(file.size),
+    "Upload-Metadata": Object.entries(metadata)
+      .map(([k, v]) => `${k} ${base64Utf8(v)}`)
+      .join(","),
+    "x-upsert": "false",
+  });
+  const location = xhr.getResponseHeader("Location");
+  if (!location) throw new Error("TUS 업로드 주소를 받지 못했어요.");
+  return new URL(location, base).toString();
+}
+
+async function tusOffset(uploadUrl: string) {
+  const xhr = await sendChunk("HEAD", uploadUrl, null, await tusHeaders());
+  const offset = Number(xhr.getResponseHeader("Upload-Offset"));
+  if (!Number.isFinite(offset)) throw new Error("TUS Upload-Offset 없음");
+  return offset;
+}
+
+async function uploadToSupabaseResumable(file: File, fingerprint: string, fallbackKey: string, resume: ResumableRecord | null, onProgress?: UploadProgress) {
+  let rec = resume?.provider === "supabase" ? resume : null;
+  let offset = 0;
+
+  if (rec) {
+    try {
+      offset = await tusOffset(rec.uploadUrl);
+    } catch (e) {
+      if (!isGone(e)) throw e;
+      await dropRecord(fingerprint);
+      rec = null;
+    }
+  }
+
+  if (!rec) {
+    const uploadUrl = await tusCreate(file, fallbackKey);
+    rec = { fingerprint, provider: "supabase", uploadUrl, key: fallbackKey, fileName: file.name, size: file.size, createdAt: Date.now() };
+    await saveRecord(rec);
+  }
+
+  onProgress?.(offset, file.size);
+  while (offset < file.size) {
+    const chunk = file.slice(offset, Math.min(offset + RESUMABLE_CHUNK_SIZE, file.size));
+    const start = offset;
+    const xhr = await sendChunk(
+      "PATCH",
+      rec.uploadUrl,
+      chunk,
+      { ...(await tusHeaders()), "Upload-Offset": String(start), "Content-Type": "application/offset+octet-stream" },
+      (loaded) => onProgress?.(start + loaded, file.size)
+    ).catch((e) => {
+      // 409 = 서버가 가진 위치와 다르다 → 다음 시도에서 HEAD로 다시 맞춘다.
+      throw e instanceof StorageHttpError && e.status === 409 ? new Error("업로드 위치가 어긋나서 다시 맞춰요.") : e;
+    });
+    const next = Number(xhr.getResponseHeader("Upload-Offset"));
+    offset = Number.isFinite(next) && next > start ? next : start + chunk.size;
+  }
+
+  return { provider: "supabase", key: rec.key, publicUrl: storageObjectUrl("supabase", rec.key) } satisfies StoredObject;
+}
+
+/* ---------------- R2 (multipart) ---------------- */
+
+async function multipartApi<T>(path: string, init: RequestInit) {
+  const res = await fetch(path, { ...init, headers: await authHeaders() });
+  const json = (await res.json().catch(() => null)) as ({ ok?: boolean; error?: string } & T) | null;
+  if (!res.ok || !json?.ok) throw new StorageHttpError(res.status, json?.error ?? `multipart ${res.status}`);
+  return json;
+}
+
+async function uploadToR2Resumable(file: File, fingerprint: string, resume: ResumableRecord | null, onProgress?: UploadProgress) {
+  if (!process.env.NEXT_PUBLIC_R2_PUBLIC_BASE_URL) throw new Error("NEXT_PUBLIC_R2_PUBLIC_BASE_URL 이 설정되지 않았습니다.");
+
+  let rec = resume?.provider === "r2" ? resume : null;
+  const received = new Map<number, number>();
+
+  if (rec) {
+    try {
+      const qs = new URLSearchParams({ key: rec.key, uploadId: rec.uploadId });
+      const { parts } = await multipartApi<{ parts: { partNumber: number; size: number }[] }>(`/api/storage/multipart?${qs}`, { method: "GET" });
+      parts.forEach((p) => received.set(p.partNumber, p.size));
+    } catch (e) {
+      if (!isGone(e)) throw e;
+      await dropRecord(fingerprint);
+      rec = null;
+    }
+  }
+
+  if (!rec) {
+    const created = await multipartApi<{ key: string; uploadId: string }>("/api/storage/multipart", {
+      method: "POST",
+      body: JSON.stringify({ filename: file.name, contentType: file.type || "image/jpeg" }),
+    });
+    rec = { fingerprint, provider: "r2", key: created.key, uploadId: created.uploadId, fileName: file.name, size: file.size, createdAt: Date.now() };
+    await saveRecord(rec);
+  }
+
+  const partCount = Math.ceil(file.size / RESUMABLE_CHUNK_SIZE);
+  const partSize = (n: number) => Math.min(RESUMABLE_CHUNK_SIZE, file.size - (n - 1) * RESUMABLE_CHUNK_SIZE);
+  let done = 0;
+  for (let n = 1; n <= partCount; n++) if (received.get(n) === partSize(n)) done += partSize(n);
+  onProgress?.(done, file.size);
+
+  for (let n = 1; n <= partCount; n++) {
+    if (received.get(n) === partSize(n)) continue;
+    const { uploadUrl } = await multipartApi<{ uploadUrl: string }>("/api/storage/multipart/part", {
+      method: "POST",
+      body: JSON.stringify({ key: rec.key, uploadId: rec.uploadId, partNumber: n }),
+    });
+    const start = (n - 1) * RESUMABLE_CHUNK_SIZE;
+    const before = done;
+    await sendChunk("PUT", uploadUrl, file.slice(start, start + partSize(n)), {}, (loaded) => onProgress?.(before + loaded, file.size));
+    done += partSize(n);
+  }
+
+  await multipartApi("/api/storage/multipart/complete", {
+    method: "POST",
+    body: JSON.stringify({ key: rec.key, uploadId: rec.uploadId, size: file.size }),
+  }).catch((e) => {
+    // 409 = 빠진 조각이 있다 → 다음 시도에서 목록을 다시 받아 채운다.
+    throw e instanceof StorageHttpError && e.status === 409 ? new Error(e.message) : e;
+  });
+
+  return { provider: "r2", key: rec.key, publicUrl: storageObjectUrl("r2", rec.key) } satisfies StoredObject;
+}
+
+/**
+ * uploadArtworkObject의 이어 올리기판. 한 조각보다 큰 파일은 조각으로 보내고,
+ * 같은 내용의 파일이 끊긴 적이 있으면 그 위치부터 이어 간다. 실패하면 상태를 남겨 두므로
+ * 다시 부르기만 하면 된다 (withRetry / "실패한 사진만 다시 올리기" / 새로 고친 뒤 같은 사진).
+ */
+export async function uploadArtworkObjectResumable(file: File, fallbackKey: string, onProgress?: UploadProgress): Promise<StoredObject> {
+  if (file.size <= RESUMABLE_CHUNK_SIZE) return uploadArtworkObject(file, fallbackKey, onProgress);
+
+  const provider = getUploadProvider();
+  const fingerprint = `${provider}:${file.size}:${await sha256Hex(file)}`;
+  const shared = active.has(fingerprint);
+  const saved = shared ? null : await loadRecord(fingerprint);
+  const resume = saved && !isExpired(saved) ? saved : null;
+  // 이미 같은 파일을 올리는 중이면 그 상태와 겹치지 않게 따로 기록한다.
+  const key = shared ? `${fingerprint}:${fallbackKey}` : fingerprint;
+
+  active.add(key);
+  try {
+    const stored =
+      provider === "r2"
+        ? await uploadToR2Resumable(file, key, resume, onProgress)
+        : await uploadToSupabaseResumable(file, key, await familyObjectKey(fallbackKey), resume, onProgress);
+    await dropRecord(key);
+    return stored;
+  } finally {
+    active.delete(key);
+  }
+}
@@ -0,0 +1,47 @@
+import { supabase } from "./supabaseClient";
+
+// Web Share Target (public/manifest.json → POST /share-target).
+// 서비스 워커(public/sw.js)가 공유받은 파일을 이 캐시에 넣고 /upload?share=1 로 보낸다.
+// 업로드 화면은 takeSharedFiles()로 꺼내서 평소처럼 카드로 만든다.
+
+/** sw.js의 SHARE_CACHE와 같아야 한다. */
+export const SHARE_TARGET_CACHE = "share-target-v1";
+
+/** 공유받은 파일을 꺼내고 캐시는 비운다. 두 번 꺼내면 두 번째는 빈 배열. */
+export async function takeSharedFiles() {
+  if (typeof caches === "undefined") return [];
+
+  const cache = await caches.open(SHARE_TARGET_CACHE);
+  const requests = [...(await cache.keys())];
+  // 공유한 순서대로 (키 끝의 번호)
+  requests.sort((a, b) => Number(a.url.split("/").pop()) - Number(b.url.split("/").pop()));
+
+  const files: File[] = [];
+  for (const request of requests) {
+    const res = await cache.match(request);
+    if (!res) continue;
+    const blob = await res.blob();
+    const name = decodeURIComponent(res.headers.get("X-File-Name") ?? "") || `shared-${files.length + 1}.jpg`;
+    const lastModified = Number(res.headers.get("X-Last-Modified")) || Date.now();
+    files.push(new File([blob], name, { type: blob.type, lastModified }));
+  }
+
+  await caches.delete(SHARE_TARGET_CACHE);
+  return files;
+}
+
+/** 가장 최근에 올린 작품의 작가(아이 이름). 모르면 빈 문자열. RLS 덕분에 우리 가족 작품만 본다. */
+export async function fetchLastKidName() {
+  const { data, error } = await supabase
+    .from("artworks")
+    .select("kid_name")
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    console.warn("[share-target] last kid name lookup failed:", error.message);
+    return "";
+  }
+  return (data?.kid_name as string | null | undefined)?.trim() ?? "";
+}
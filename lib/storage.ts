@@ -0,0 +1,329 @@
+import { supabase } from "./supabaseClient";
+import type { ArtworkCatalog } from "./artworkCatalog";
+
+// Browser-side storage helpers. `artworks.storage_provider` decides where an
+// artwork's file lives; `storage_key` is its bucket-relative key.
+//   supabase: key inside the Supabase "artworks" bucket, "<family_id>/..." for
+//             new uploads (older rows may have keys without the folder)
+//   r2:       key inside the R2 bucket, always "<family_id>/..."
+// The server only accepts new keys under the caller's family folder, so a row
+// can never point at (and later delete) another family's file.
+
+export type StorageProvider = "supabase" | "r2";
+
+export const ARTWORK_BUCKET = "artworks";
+
+export type StoredObject = {
+  provider: StorageProvider;
+  key: string;
+  publicUrl: string;
+};
+
+/** 업로드 진행률 콜백 (bytes) */
+export type UploadProgress = (loaded: number, total: number) => void;
+
+/** 저장소가 HTTP 오류로 거절했다. 4xx(408·429 제외)는 다시 시도해도 소용없다. */
+export class StorageHttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "StorageHttpError";
+    this.status = status;
+  }
+}
+
+export function isRetryableStorageError(e: unknown) {
+  if (!(e instanceof StorageHttpError)) return true;
+  return e.status >= 500 || e.status === 408 || e.status === 429;
+}
+
+/** 새 업로드를 어디에 저장할지: NEXT_PUBLIC_STORAGE_PROVIDER=r2 일 때만 R2 */
+export function getUploadProvider(): StorageProvider {
+  return process.env.NEXT_PUBLIC_STORAGE_PROVIDER === "r2" ? "r2" : "supabase";
+}
+
+export function storageObjectUrl(provider: StorageProvider, key: string) {
+  if (!key) return "";
+  if (provider === "r2") {
+    const base = (process.env.NEXT_PUBLIC_R2_PUBLIC_BASE_URL ?? "").replace(/\/+$/, "");
+    return base ? `${base}/${key.split("/").map(encodeURIComponent).join("/")}` : "";
+  }
+  const { data } = supabase.storage.from(ARTWORK_BUCKET).getPublicUrl(key);
+  return data.publicUrl;
+}
+
+let familyFolder: { uid: string; familyId: string } | null = null;
+
+/** Supabase 저장소 키에 가족 폴더를 붙인다: "<family_id>/<name>". 로그인한 사용자별로 한 번만 조회한다. */
+export async function familyObjectKey(name: string) {
+  const { data } = await supabase.auth.getSession();
+  const uid = data.session?.user.id;
+  if (!uid) throw new StorageHttpError(401, "로그인 세션이 만료되었습니다. 다시 로그인해 주세요.");
+
+  if (familyFolder?.uid !== uid) {
+    const { data: prof, error } = await supabase.from("profiles").select("family_id").eq("user_id", uid).maybeSingle();
+    if (error || !prof?.family_id) throw new Error("가족 정보를 찾지 못했어요: " + (error?.message ?? "no profile"));
+    familyFolder = { uid, familyId: prof.family_id as string };
+  }
+  return `${familyFolder.familyId}/${name}`;
+}
+
+export async function authHeaders(): Promise<Record<string, string>> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) throw new Error("로그인 세션이 만료되었습니다. 다시 로그인해 주세요.");
+  return { Authorization: `Bearer ${token}`, "Content-Type": "application/json" };
+}
+
+/** fetch는 업로드 진행률을 알려 주지 않아서 XHR로 보낸다. */
+function sendWithProgress(method: string, url: string, file: File, headers: Record<string, string>, onProgress?: UploadProgress) {
+  return new Promise<void>((resolve, reject) => {
+    const xhr = new XMLHttpRequest();
+    xhr.open(method, url);
+    Object.entries(headers).forEach(([k, v]) => xhr.setRequestHeader(k, v));
+    xhr.upload.onprogress = (e) => {
+      if (e.lengthComputable) onProgress?.(e.loaded, e.total);
+    };
+    xhr.onload = () => {
+      if (xhr.status >= 200 && xhr.status < 300) {
+        onProgress?.(file.size, file.size);
+        resolve();
+        return;
+      }
+      let message = `${xhr.status}`;
+      try {
+        const json = JSON.parse(xhr.responseText) as { message?: string; error?: string };
+        message = json.message ?? json.error ?? message;
+      } catch {
+        // 본문이 JSON이 아니면 상태 코드만 쓴다.
+      }
+      reject(new StorageHttpError(xhr.status, message));
+    };
+    xhr.onerror = () => reject(new Error("네트워크 오류"));
+    xhr.ontimeout = () => reject(new Error("업로드 시간 초과"));
+    xhr.send(file);
+  });
+}
+
+async function uploadToR2(file: File, onProgress?: UploadProgress): Promise<StoredObject> {
+  const contentType = file.type || "image/jpeg";
+  if (!process.env.NEXT_PUBLIC_R2_PUBLIC_BASE_URL) throw new Error("NEXT_PUBLIC_R2_PUBLIC_BASE_URL 이 설정되지 않았습니다.");
+
+  const res = await fetch("/api/storage/presign", {
+    method: "POST",
+    headers: await authHeaders(),
+    body: JSON.stringify({ filename: file.name, contentType }),
+  });
+  const json = (await res.json().catch(() => null)) as { ok?: boolean; key?: string; uploadUrl?: string; error?: string } | null;
+  if (!res.ok || !json?.ok || !json.key || !json.uploadUrl) {
+    throw new StorageHttpError(res.status, json?.error ?? `presign ${res.status}`);
+  }
+
+  await sendWithProgress("PUT", json.uploadUrl, file, { "Content-Type": contentType }, onProgress);
+
+  return { provider: "r2", key: json.key, publicUrl: storageObjectUrl("r2", json.key) };
+}
+
+// supabase-js의 storage.upload와 같은 REST 호출 (진행률을 받으려고 직접 보낸다)
+async function uploadToSupabase(file: File, key: string, onProgress?: UploadProgress): Promise<StoredObject> {
+  const { data } = await supabase.auth.getSession();
+  const token = data.session?.access_token;
+  if (!token) throw new StorageHttpError(401, "로그인 세션이 만료되었습니다. 다시 로그인해 주세요.");
+
+  const base = (process.env.NEXT_PUBLIC_SUPABASE_URL ?? "").replace(/\/+$/, "");
+  const path = key.split("/").map(encodeURIComponent).join("/");
+  await sendWithProgress(
+    "POST",
+    `${base}/storage/v1/object/${ARTWORK_BUCKET}/${path}`,
+    file,
+    {
+      Authorization: `Bearer ${token}`,
+      apikey: process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY ?? "",
+      "Content-Type": file.type || "image/jpeg",
+      "cache-control": "max-age=3600",
+      "x-upsert": "false",
+    },
+    onProgress
+  );
+  return { provider: "supabase", key, publicUrl: storageObjectUrl("supabase", key) };
+}
+
+/** 작품 파일 1개를 현재 업로드 provider에 저장한다. */
+export async function uploadArtworkObject(file: File, fallbackKey: string, onProgress?: UploadProgress): Promise<StoredObject> {
+  if (getUploadProvider() === "r2") return uploadToR2(file, onProgress);
+  return uploadToSupabase(file, await familyObjectKey(fallbackKey), onProgress);
+}
+
+/** provider에 맞춰 작품 파일들을 지운다. 실패해도 throw 하지 않고 error 문자열을 돌려준다. */
+export async function removeArtworkObjects(provider: StorageProvider, keys: string[]): Promise<{ error: string | null }> {
+  const list = keys.filter(Boolean);
+  if (list.length === 0) return { error: "storage key 없음" };
+
+  if (provider === "r2") {
+    try {
+      const res = await fetch("/api/storage/object", {
+        method: "DELETE",
+        headers: await authHeaders(),
+        body: JSON.stringify({ keys: list }),
+      });
+      const json = (await res.json().catch(() => null)) as { ok?: boolean; error?: string } | null;
+      if (!res.ok || !json?.ok) return { error: json?.error ?? `R2 ${res.status}` };
+      return { error: null };
+    } catch (e) {
+      return { error: e instanceof Error ? e.message : "R2 삭제 실패" };
+    }
+  }
+
+  const { error } = await supabase.storage.from(ARTWORK_BUCKET).remove(list);
+  return { error: error?.message ?? null };
+}
+
+/** 업로드 직후 서버에 썸네일/표시용 rendition 생성을 요청한다. 실패해도 원본으로 표시되므로 error만 돌려준다. */
+export async function requestArtworkRenditions(artworkId: string): Promise<{ error: string | null }> {
+  try {
+    const res = await fetch(`/api/artworks/${encodeURIComponent(artworkId)}/renditions`, {
+      method: "POST",
+      headers: await authHeaders(),
+    });
+    const json = (await res.json().catch(() => null)) as { ok?: boolean; error?: string } | null;
+    if (!res.ok || !json?.ok) return { error: json?.error ?? `renditions ${res.status}` };
+    return { error: null };
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : "rendition 요청 실패" };
+  }
+}
+
+export type NewArtwork = {
+  stored: StoredObject;
+  kidName: string;
+  title: string;
+  artworkMadeAt: string;
+  /** 고른 원본 파일의 SHA-256 (중복 확인용) */
+  contentHash?: string | null;
+  /** 재료·태그·크기 (없으면 비워 둔다) */
+  catalog?: ArtworkCatalog | null;
+  /** 작품 설명 / 아이의 한마디 */
+  story?: string | null;
+};
+
+/**
+ * 올라간 파일로 작품 행을 만든다 (POST /api/artworks).
+ * 실패하면 서버가 파일도 지우고 objectRemoved=true 를 돌려준다 — 그때는 파일부터 다시 올려야 한다.
+ */
+export async function createArtworkRecord(
+  input: NewArtwork
+): Promise<{ id: string | null; error: string | null; status: number; objectRemoved: boolean }> {
+  try {
+    const res = await fetch("/api/artworks", {
+      method: "POST",
+      headers: await authHeaders(),
+      body: JSON.stringify({
+        provider: input.stored.provider,
+        key: input.stored.key,
+        kidName: input.kidName,
+        title: input.title,
+        artworkMadeAt: input.artworkMadeAt,
+        contentHash: input.contentHash ?? undefined,
+        medium: input.catalog?.medium ?? undefined,
+        tags: input.catalog?.tags,
+        widthCm: input.catalog?.width_cm ?? undefined,
+        heightCm: input.catalog?.height_cm ?? undefined,
+        depthCm: input.catalog?.depth_cm ?? undefined,
+        story: input.story ?? undefined,
+      }),
+    });
+    const json = (await res.json().catch(() => null)) as { ok?: boolean; id?: string; error?: string; objectRemoved?: boolean } | null;
+    if (!res.ok || !json?.ok || !json.id) {
+      return { id: null, error: json?.error ?? `artworks ${res.status}`, status: res.status, objectRemoved: !!json?.objectRemoved };
+    }
+    return { id: json.id, error: null, status: res.status, objectRemoved: false };
+  } catch (e) {
+    // 응답을 못 받았으면 서버에서 무슨 일이 있었는지 모른다 → 파일은 그대로 둔다고 본다.
+    return { id: null, error: e instanceof Error ? e.message : "작품 저장 요청 실패", status: 0, objectRemoved: false };
+  }
+}
+
+/**
+ * 작품 id는 그대로 두고 사진 파일만 새로 올린 것으로 바꾼다 (PUT /api/artworks/[id]/image).
+ * 실패하면 서버가 새 파일을 지우고 objectRemoved=true 를 돌려준다. 성공하면 rendition은 다시 요청해야 한다.
+ */
+export async function replaceArtworkImage(
+  artworkId: string,
+  stored: StoredObject,
+  contentHash?: string | null
+): Promise<{ error: string | null; objectRemoved: boolean }> {
+  try {
+    const res = await fetch(`/api/artworks/${encodeURIComponent(artworkId)}/image`, {
+      method: "PUT",
+      headers: await authHeaders(),
+      body: JSON.stringify({ provider: stored.provider, key: stored.key, contentHash: contentHash ?? undefined }),
+    });
+    const json = (await res.json().catch(() => null)) as { ok?: boolean; error?: string; objectRemoved?: boolean } | null;
+    if (!res.ok || !json?.ok) return { error: json?.error ?? `artworks ${res.status}`, objectRemoved: !!json?.objectRemoved };
+    return { error: null, objectRemoved: false };
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : "사진 바꾸기 요청 실패", objectRemoved: false };
+  }
+}
+
+/**
+ * 작품 행과 파일을 함께 지운다 (DELETE /api/artworks/[id]).
+ * rowDeleted=false 면 작품은 그대로 남아 있다. 행은 지웠는데 파일을 못 지웠으면
+ * error 에 그 이유가 오고 rowDeleted=true (서버가 불일치 기록에 남기고, 저장소 GC가 나중에 지운다).
+ */
+export async function deleteArtworkRecord(artworkId: string): Promise<{ error: string | null; rowDeleted: boolean }> {
+  try {
+    const res = await fetch(`/api/artworks/${encodeURIComponent(artworkId)}`, {
+      method: "DELETE",
+      headers: await authHeaders(),
+    });
+    const json = (await res.json().catch(() => null)) as { ok?: boolean; error?: string; filesRemoved?: boolean; warning?: string } | null;
+    if (res.ok && json?.ok) return { error: json.warning?.startsWith("STORAGE_DELETE_FAILED") ? json.warning : null, rowDeleted: true };
+    return { error: json?.error ?? `artworks ${res.status}`, rowDeleted: false };
+  } catch (e) {
+    return { error: e instanceof Error ? e.message : "작품 삭제 요청 실패", rowDeleted: false };
+  }
+}
+
+export type ConsistencyReport = {
+  checked: number;
+  missing: { artworkId: string; title: string | null; provider: string; key: string | null; error?: string }[];
+  logged: { id: string; artwork_id: string | null; storage_provider: string; storage_key: string; kind: string; detail: string | null; created_at: string }[];
+};
+
+/** 우리 가족 작품의 파일/행 불일치 점검 (GET /api/artworks/consistency) */
+export async function checkStorageConsistency(): Promise<{ report: ConsistencyReport | null; error: string | null }> {
+  try {
+    const res = await fetch("/api/artworks/consistency", { headers: await authHeaders() });
+    const json = (await res.json().catch(() => null)) as ({ ok?: boolean; error?: string } & Partial<ConsistencyReport>) | null;
+    if (!res.ok || !json?.ok) return { report: null, error: json?.error ?? `consistency ${res.status}` };
+    return { report: { checked: json.checked ?? 0, missing: json.missing ?? [], logged: json.logged ?? [] }, error: null };
+  } catch (e) {
+    return { report: null, error: e instanceof Error ? e.message : "점검 요청 실패" };
+  }
+}
+
+/** 한 번에 건너뛸 수 있는 작품 수 (POST /api/artworks/phash의 MAX_SKIP과 같다) */
+export const MAX_PHASH_SKIP = 100;
+
+/**
+ * phash가 없는 예전 작품의 지문을 한 묶음 계산한다 (POST /api/artworks/phash).
+ * skip: 이번 실행에서 이미 실패한 작품 id — 같은 작품에서 계속 막히지 않게 한다. 최대 MAX_PHASH_SKIP개.
+ */
+export async function backfillPerceptualHashes(
+  skip: string[]
+): Promise<{ hashed: number; failed: string[]; remaining: number; error: string | null }> {
+  try {
+    const qs = new URLSearchParams({ batch: "20" });
+    if (skip.length > 0) qs.set("skip", skip.join(","));
+    const res = await fetch(`/api/artworks/phash?${qs}`, { method: "POST", headers: await authHeaders() });
+    const json = (await res.json().catch(() => null)) as
+      | { ok?: boolean; error?: string; hashed?: number; failed?: { id: string }[]; remaining?: number }
+      | null;
+    if (!res.ok || !json?.ok) return { hashed: 0, failed: [], remaining: 0, error: json?.error ?? `phash ${res.status}` };
+    return { hashed: json.hashed ?? 0, failed: (json.failed ?? []).map((f) => f.id), remaining: json.remaining ?? 0, error: null };
+  } catch (e) {
+    return { hashed: 0, failed: [], remaining: 0, error: e instanceof Error ? e.message : "지문 계산 요청 실패" };
+  }
+}
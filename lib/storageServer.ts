@@ -0,0 +1,108 @@
+import type { SupabaseClient } from "@supabase/supabase-js";
+import { deleteR2Object, getR2Object, headR2Object, putR2Object, type ListedObject } from "./r2";
+import { ARTWORK_BUCKET, type StorageProvider } from "./storage";
+
+// Provider-aware object access for API routes. Supabase calls go through the
+// client the route passes in, so they run with the caller's permissions.
+
+export async function readStoredObject(supabase: SupabaseClient, provider: StorageProvider, key: string) {
+  if (provider === "r2") return getR2Object(key);
+
+  const { data, error } = await supabase.storage.from(ARTWORK_BUCKET).download(key);
+  if (error || !data) throw new Error(error?.message ?? `download failed: ${key}`);
+  return Buffer.from(await data.arrayBuffer());
+}
+
+export async function writeStoredObject(
+  supabase: SupabaseClient,
+  provider: StorageProvider,
+  key: string,
+  body: Buffer,
+  contentType: string
+) {
+  if (provider === "r2") return putR2Object(key, body, contentType);
+
+  const { error } = await supabase.storage.from(ARTWORK_BUCKET).upload(key, body, { contentType, upsert: true });
+  if (error) throw new Error(error.message);
+}
+
+export async function removeStoredObjects(supabase: SupabaseClient, provider: StorageProvider, keys: string[]) {
+  if (keys.length === 0) return;
+
+  if (provider === "r2") {
+    for (const key of keys) await deleteR2Object(key);
+    return;
+  }
+
+  const { error } = await supabase.storage.from(ARTWORK_BUCKET).remove(keys);
+  if (error) throw new Error(error.message);
+}
+
+export async function storedObjectExists(supabase: SupabaseClient, provider: StorageProvider, key: string) {
+  if (provider === "r2") return headR2Object(key);
+
+  // exists() reports 400/404 as { data: false } and throws on anything else.
+  const { data } = await supabase.storage.from(ARTWORK_BUCKET).exists(key);
+  return data;
+}
+
+export type InconsistencyKind = "orphan_object" | "missing_object";
+
+/**
+ * Logs a file/row pair that could not be kept together (see migration 004).
+ * Never throws: this runs on an error path and must not mask the original error.
+ */
+export async function recordInconsistency(
+  supabase: SupabaseClient,
+  entry: {
+    familyId: string;
+    artworkId: string | null;
+    provider: StorageProvider;
+    key: string;
+    kind: InconsistencyKind;
+    detail: string;
+  }
+) {
+  const { error } = await supabase.from("storage_inconsistencies").insert({
+    family_id: entry.familyId,
+    artwork_id: entry.artworkId,
+    storage_provider: entry.provider,
+    storage_key: entry.key,
+    kind: entry.kind,
+    detail: entry.detail,
+  });
+  if (error) console.error("[storage_inconsistencies] insert failed:", error.message, entry);
+}
+
+const SUPABASE_LIST_PAGE = 1000;
+
+/**
+ * Walks the Supabase artworks bucket. `list()` is one folder deep, so folders
+ * (entries without an id) are descended into.
+ */
+export async function listSupabaseObjects(supabase: SupabaseClient, prefix = "") {
+  const out: ListedObject[] = [];
+  const folders = [prefix];
+
+  while (folders.length > 0) {
+    const folder = folders.pop()!;
+    for (let offset = 0; ; offset += SUPABASE_LIST_PAGE) {
+      const { data, error } = await supabase.storage
+        .from(ARTWORK_BUCKET)
+        .list(folder, { limit: SUPABASE_LIST_PAGE, offset, sortBy: { column: "name", order: "asc" } });
+      if (error) throw new Error(error.message);
+
+      for (const item of data ?? []) {
+        const key = folder ? `${folder}/${item.name}` : item.name;
+        if (!item.id) {
+          folders.push(key);
+          continue;
+        }
+        const stamp = item.created_at ?? item.updated_at;
+        out.push({ key, size: Number(item.metadata?.size ?? 0), lastModified: stamp ? new Date(stamp) : null });
+      }
+      if ((data ?? []).length < SUPABASE_LIST_PAGE) break;
+    }
+  }
+  return out;
+}
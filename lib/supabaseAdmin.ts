@@ -0,0 +1,17 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+// Service-role client for cron/maintenance routes that run without a user.
+// It bypasses RLS, so only use it behind CRON_SECRET and never in the browser.
+
+let cached: SupabaseClient | null = null;
+
+export function getServiceSupabase(): SupabaseClient | null {
+  if (cached) return cached;
+
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+  if (!url || !serviceKey) return null;
+
+  cached = createClient(url, serviceKey, { auth: { persistSession: false, autoRefreshToken: false } });
+  return cached;
+}
@@ -0,0 +1,39 @@
+import { createClient, type SupabaseClient } from "@supabase/supabase-js";
+
+// Server-side helpers for API routes. The browser sends its Supabase access
+// token as `Authorization: Bearer <token>`; we build a per-request client with
+// that token so RLS still applies to everything the route reads or writes.
+
+type RequestFamily =
+  | { ok: true; uid: string; familyId: string; supabase: SupabaseClient }
+  | { ok: false; status: number; error: string };
+
+export async function getRequestFamily(request: Request): Promise<RequestFamily> {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL;
+  const anonKey = process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY;
+  if (!url || !anonKey) return { ok: false, status: 500, error: "missing supabase env" };
+
+  const auth = request.headers.get("authorization") ?? "";
+  const token = auth.startsWith("Bearer ") ? auth.slice("Bearer ".length).trim() : "";
+  if (!token) return { ok: false, status: 401, error: "unauthorized" };
+
+  const supabase = createClient(url, anonKey, {
+    global: { headers: { Authorization: `Bearer ${token}` } },
+    auth: { persistSession: false, autoRefreshToken: false },
+  });
+
+  const { data: u, error: uErr } = await supabase.auth.getUser(token);
+  const uid = u.user?.id;
+  if (uErr || !uid) return { ok: false, status: 401, error: "unauthorized" };
+
+  const { data: prof, error: profErr } = await supabase
+    .from("profiles")
+    .select("family_id")
+    .eq("user_id", uid)
+    .maybeSingle();
+
+  if (profErr) return { ok: false, status: 500, error: profErr.message };
+  if (!prof?.family_id) return { ok: false, status: 403, error: "NO_FAMILY_PROFILE" };
+
+  return { ok: true, uid, familyId: prof.family_id as string, supabase };
+}
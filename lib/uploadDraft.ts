@@ -0,0 +1,24 @@
+import { idbDelete, idbGet, idbPut, UPLOAD_DRAFT_STORE } from "./idb";
+
+// 업로드 화면에서 작성 중이던 카드(고른 사진 + 제목·작가·편집)를 새로고침 너머로 넘긴다.
+// 새 버전 안내(app/components/UpdatePrompt.tsx)에서 새로고침할 때만 쓴다. 다시 열면 한 번 꺼내고 지운다.
+
+/** 이보다 오래된 초안은 버린다 (새로고침 직후에 꺼내는 용도라 길 필요가 없다). */
+const DRAFT_TTL_MS = 24 * 60 * 60 * 1000;
+
+type StoredDraft<T> = { id: "current"; savedAt: number; data: T };
+
+export async function saveUploadDraft<T>(data: T) {
+  await idbPut<StoredDraft<T>>(UPLOAD_DRAFT_STORE, { id: "current", savedAt: Date.now(), data });
+}
+
+export async function takeUploadDraft<T>() {
+  try {
+    const draft = await idbGet<StoredDraft<T>>(UPLOAD_DRAFT_STORE, "current");
+    if (!draft) return null;
+    await idbDelete(UPLOAD_DRAFT_STORE, "current");
+    return Date.now() - draft.savedAt < DRAFT_TTL_MS ? draft.data : null;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,43 @@
+// Small helpers for batch uploads: a concurrency-limited worker pool and
+// retry with exponential backoff.
+
+export type RetryOptions = {
+  /** 첫 시도 뒤 다시 시도할 횟수 */
+  retries: number;
+  /** 첫 대기 시간(ms). 시도마다 두 배 + 약간의 흔들림 */
+  baseDelayMs: number;
+  shouldRetry?: (error: unknown) => boolean;
+  /** 다시 시도하기 직전 (attempt: 2부터) */
+  onRetry?: (attempt: number, error: unknown, delayMs: number) => void;
+};
+
+function sleep(ms: number) {
+  return new Promise<void>((resolve) => setTimeout(resolve, ms));
+}
+
+export async function withRetry<T>(fn: (attempt: number) => Promise<T>, options: RetryOptions): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (e) {
+      const canRetry = attempt <= options.retries && (options.shouldRetry?.(e) ?? true);
+      if (!canRetry) throw e;
+
+      const delayMs = Math.round(options.baseDelayMs * 2 ** (attempt - 1) * (0.8 + Math.random() * 0.4));
+      options.onRetry?.(attempt + 1, e, delayMs);
+      await sleep(delayMs);
+    }
+  }
+}
+
+/** items를 최대 limit개씩 동시에 처리한다. worker의 실패는 worker가 직접 다룬다. */
+export async function runWithConcurrency<T>(items: T[], limit: number, worker: (item: T, index: number) => Promise<void>) {
+  let next = 0;
+  const lanes = Array.from({ length: Math.max(1, Math.min(limit, items.length)) }, async () => {
+    while (next < items.length) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  });
+  await Promise.all(lanes);
+}
@@ -0,0 +1,13 @@
+-- =============================================================
+-- Migration 003: Artwork renditions (thumb / display variants)
+-- =============================================================
+-- Keys of the server-generated variants, written by
+-- POST /api/artworks/[id]/renditions. Shape (see lib/renditions.ts):
+--   { "thumb":   { "avif": "<key>", "webp": "<key>", "jpeg": "<key>" },
+--     "display": { "avif": "<key>", "webp": "<key>", "jpeg": "<key>" } }
+-- Keys live in the same provider as storage_key. NULL = not generated yet;
+-- readers fall back to the original.
+-- Idempotent (safe to re-run).
+
+alter table public.artworks
+  add column if not exists renditions jsonb;
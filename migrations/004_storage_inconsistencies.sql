@@ -0,0 +1,48 @@
+-- =============================================================
+-- Migration 004: Storage / row inconsistency log
+-- =============================================================
+-- Artwork create/delete now go through /api/artworks, which pairs the
+-- storage object and the `artworks` row and compensates when one half
+-- fails. If the compensation itself fails, the route records what was
+-- left behind here so it can be cleaned up later:
+--   orphan_object  : file exists, no artwork row points to it
+--   missing_object : artwork row exists, its file is gone
+-- GET /api/artworks/consistency lists unresolved entries plus anything
+-- a live check finds.
+-- Idempotent (safe to re-run).
+
+create table if not exists public.storage_inconsistencies (
+  id               uuid primary key default gen_random_uuid(),
+  family_id        uuid not null references public.families(id) on delete cascade,
+  artwork_id       uuid,
+  storage_provider text not null check (storage_provider in ('supabase', 'r2')),
+  storage_key      text not null,
+  kind             text not null check (kind in ('orphan_object', 'missing_object')),
+  detail           text,
+  created_at       timestamptz not null default now(),
+  resolved_at      timestamptz
+);
+create index if not exists idx_storage_inconsistencies_family
+  on public.storage_inconsistencies(family_id)
+  where resolved_at is null;
+
+alter table public.storage_inconsistencies enable row level security;
+
+drop policy if exists storage_inconsistencies_family on public.storage_inconsistencies;
+create policy storage_inconsistencies_family on public.storage_inconsistencies
+  for all to authenticated
+  using (
+    exists (
+      select 1 from public.profiles p
+      where p.family_id = storage_inconsistencies.family_id and p.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.profiles p
+      where p.family_id = storage_inconsistencies.family_id and p.user_id = auth.uid()
+    )
+  );
+
+grant select, insert, update, delete on public.storage_inconsistencies to authenticated;
+grant all                             on public.storage_inconsistencies to service_role;
@@ -0,0 +1,39 @@
+-- =============================================================
+-- Migration 005: Per-family content-hash index (duplicate check)
+-- =============================================================
+-- The upload page hashes each picked file (SHA-256 of the original bytes,
+-- before resize/metadata cleanup) and looks it up here before uploading.
+-- POST /api/artworks writes the row together with the artwork.
+-- Artworks uploaded before this migration have no entry: the stored file is
+-- the processed copy, so its hash would never match a re-picked original.
+-- Idempotent (safe to re-run).
+
+create table if not exists public.artwork_hashes (
+  artwork_id uuid primary key references public.artworks(id) on delete cascade,
+  family_id  uuid not null references public.families(id) on delete cascade,
+  sha256     text not null check (sha256 ~ '^[0-9a-f]{64}$'),
+  created_at timestamptz not null default now()
+);
+create index if not exists idx_artwork_hashes_family_sha
+  on public.artwork_hashes(family_id, sha256);
+
+alter table public.artwork_hashes enable row level security;
+
+drop policy if exists artwork_hashes_family on public.artwork_hashes;
+create policy artwork_hashes_family on public.artwork_hashes
+  for all to authenticated
+  using (
+    exists (
+      select 1 from public.profiles p
+      where p.family_id = artwork_hashes.family_id and p.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.profiles p
+      where p.family_id = artwork_hashes.family_id and p.user_id = auth.uid()
+    )
+  );
+
+grant select, insert, update, delete on public.artwork_hashes to authenticated;
+grant all                             on public.artwork_hashes to service_role;
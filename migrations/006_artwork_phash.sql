@@ -0,0 +1,52 @@
+-- =============================================================
+-- Migration 006: Perceptual hashes + near-duplicate review
+-- =============================================================
+-- artworks.phash : 64-bit difference hash (dHash) of the image as 16 hex
+--   chars, computed server-side with sharp (lib/phashServer.ts). Written by
+--   POST /api/artworks/[id]/renditions for new uploads and by
+--   POST /api/artworks/phash for older rows. Two photos of the same drawing
+--   land within a few bits of each other; /manage/duplicates groups them.
+-- artwork_duplicate_dismissals : pairs the family marked "keep both", so the
+--   review screen stops suggesting them. Stored with artwork_a < artwork_b.
+-- artwork_hashes : the primary key becomes (artwork_id, sha256) so a merged
+--   artwork keeps the SHA-256 of every original folded into it, and the
+--   upload page still flags those files as already uploaded.
+-- Idempotent (safe to re-run).
+
+alter table public.artworks
+  add column if not exists phash text check (phash ~ '^[0-9a-f]{16}$');
+
+alter table public.artwork_hashes drop constraint if exists artwork_hashes_pkey;
+alter table public.artwork_hashes add constraint artwork_hashes_pkey primary key (artwork_id, sha256);
+
+create table if not exists public.artwork_duplicate_dismissals (
+  family_id  uuid not null references public.families(id) on delete cascade,
+  artwork_a  uuid not null references public.artworks(id) on delete cascade,
+  artwork_b  uuid not null references public.artworks(id) on delete cascade,
+  created_at timestamptz not null default now(),
+  primary key (artwork_a, artwork_b),
+  check (artwork_a < artwork_b)
+);
+create index if not exists idx_artwork_duplicate_dismissals_family
+  on public.artwork_duplicate_dismissals(family_id);
+
+alter table public.artwork_duplicate_dismissals enable row level security;
+
+drop policy if exists artwork_duplicate_dismissals_family on public.artwork_duplicate_dismissals;
+create policy artwork_duplicate_dismissals_family on public.artwork_duplicate_dismissals
+  for all to authenticated
+  using (
+    exists (
+      select 1 from public.profiles p
+      where p.family_id = artwork_duplicate_dismissals.family_id and p.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.profiles p
+      where p.family_id = artwork_duplicate_dismissals.family_id and p.user_id = auth.uid()
+    )
+  );
+
+grant select, insert, update, delete on public.artwork_duplicate_dismissals to authenticated;
+grant all                             on public.artwork_duplicate_dismissals to service_role;
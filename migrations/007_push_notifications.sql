@@ -0,0 +1,312 @@
+-- =============================================================
+-- Migration 007: Web push notifications
+-- =============================================================
+-- push_subscriptions : one row per browser/device that allowed
+--                      notifications (PushSubscription endpoint + keys),
+--                      with per-type opt-outs edited on /account/notifications.
+-- push_outbox        : notifications waiting to be sent. Filled by
+--                      - a trigger on guestbook_entries (new guestbook message)
+--                      - enqueue_expiring_exhibit_notifications(), which the
+--                        daily /api/push/dispatch cron calls for artworks whose
+--                        public_until is within 2 days
+--                      and drained by /api/push/dispatch (lib/pushServer.ts).
+-- dedupe_key keeps each event to a single notification even if the trigger
+-- or the cron runs twice.
+-- The guestbook tables and add_guestbook_entry predate the migrations folder;
+-- section 0 only adds what this migration relies on (family_invites columns,
+-- profiles.invite_token, invite_family_id() which resolves either kind of
+-- invite token, guestbook_entries.family_id and a trigger that fills it in)
+-- and creates the tables and the RPC on projects that do not have them yet.
+-- An existing add_guestbook_entry is left exactly as it is.
+-- The push trigger never fails a guestbook insert: an entry without a family
+-- is simply not announced.
+-- Idempotent (safe to re-run).
+
+-- -------------------------------------------------------------
+-- 0) Guestbook schema this migration depends on.
+--    Tables are only created (with RLS and grants) when missing, so existing
+--    projects keep their policies and get no retroactive grants.
+-- -------------------------------------------------------------
+do $$
+begin
+  if to_regclass('public.family_invites') is null then
+    create table public.family_invites (
+      id         uuid primary key default gen_random_uuid(),
+      family_id  uuid not null references public.families(id) on delete cascade,
+      token      text not null unique,
+      expires_at timestamptz,
+      revoked_at timestamptz,
+      created_at timestamptz not null default now()
+    );
+    alter table public.family_invites enable row level security;
+    create policy family_invites_family on public.family_invites
+      for all to authenticated
+      using (exists (
+        select 1 from public.profiles p
+        where p.family_id = family_invites.family_id and p.user_id = auth.uid()
+      ))
+      with check (exists (
+        select 1 from public.profiles p
+        where p.family_id = family_invites.family_id and p.user_id = auth.uid()
+      ));
+    grant select, insert, update, delete on public.family_invites to authenticated;
+    grant all                             on public.family_invites to service_role;
+  end if;
+
+  if to_regclass('public.guestbook_entries') is null then
+    create table public.guestbook_entries (
+      id           uuid primary key default gen_random_uuid(),
+      family_id    uuid references public.families(id) on delete cascade,
+      display_name text not null,
+      content      text not null,
+      created_at   timestamptz not null default now()
+    );
+    alter table public.guestbook_entries enable row level security;
+    create policy guestbook_entries_family on public.guestbook_entries
+      for select to authenticated
+      using (exists (
+        select 1 from public.profiles p
+        where p.family_id = guestbook_entries.family_id and p.user_id = auth.uid()
+      ));
+    create policy guestbook_entries_family_delete on public.guestbook_entries
+      for delete to authenticated
+      using (exists (
+        select 1 from public.profiles p
+        where p.family_id = guestbook_entries.family_id and p.user_id = auth.uid()
+      ));
+    grant select, delete on public.guestbook_entries to authenticated;
+    grant all            on public.guestbook_entries to service_role;
+  end if;
+end;
+$$;
+
+-- Older guestbook tables may not have the column yet. Entries written before
+-- this migration stay NULL: the push trigger only looks at new rows.
+alter table public.guestbook_entries
+  add column if not exists family_id uuid references public.families(id) on delete cascade;
+create index if not exists idx_guestbook_entries_family
+  on public.guestbook_entries(family_id, created_at desc);
+
+-- Older invite tables may predate revocation / expiry. NULL = never.
+alter table public.family_invites
+  add column if not exists expires_at timestamptz,
+  add column if not exists revoked_at timestamptz;
+
+-- The share link on /manage keeps its token in profiles.invite_token.
+alter table public.profiles
+  add column if not exists invite_token text;
+
+-- Family an invite token belongs to: a /manage share link
+-- (profiles.invite_token) or a family_invites row that is neither revoked
+-- nor expired. NULL if neither.
+create or replace function public.invite_family_id(p_token text)
+returns uuid
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  select coalesce(
+    (select p.family_id from public.profiles p
+     where p.invite_token = p_token and p.family_id is not null
+     limit 1),
+    (select i.family_id from public.family_invites i
+     where i.token = p_token
+       and i.revoked_at is null
+       and (i.expires_at is null or i.expires_at > now())
+     limit 1)
+  );
+$$;
+
+revoke all on function public.invite_family_id(text) from public, anon, authenticated;
+grant execute on function public.invite_family_id(text) to service_role;
+
+-- Fills guestbook_entries.family_id when the writer did not: from an invite
+-- link column if the table has one (read through to_jsonb so a missing
+-- column is not an error). Entries it cannot place stay NULL.
+create or replace function public.set_guestbook_entry_family()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.family_id is null then
+    new.family_id := public.invite_family_id(to_jsonb(new) ->> 'invite_token');
+  end if;
+  if new.family_id is null then
+    select i.family_id into new.family_id
+    from public.family_invites i
+    where i.id::text = to_jsonb(new) ->> 'invite_id';
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_guestbook_entry_family on public.guestbook_entries;
+create trigger trg_guestbook_entry_family
+  before insert on public.guestbook_entries
+  for each row execute function public.set_guestbook_entry_family();
+
+-- Projects without the legacy RPC get one that takes the family from the
+-- invite token, never from the caller.
+do $$
+begin
+  if to_regprocedure('public.add_guestbook_entry(text, text, text)') is null then
+    execute $fn$
+      create function public.add_guestbook_entry(p_token text, p_display_name text, p_content text)
+      returns public.guestbook_entries
+      language plpgsql
+      security definer
+      set search_path = public
+      as $body$
+      declare
+        v_family_id uuid;
+        v_row       public.guestbook_entries;
+      begin
+        v_family_id := public.invite_family_id(p_token);
+        if v_family_id is null then
+          raise exception 'INVALID_TOKEN';
+        end if;
+
+        insert into public.guestbook_entries (family_id, display_name, content)
+        values (v_family_id, p_display_name, p_content)
+        returning * into v_row;
+
+        return v_row;
+      end;
+      $body$
+    $fn$;
+    grant execute on function public.add_guestbook_entry(text, text, text) to anon, authenticated;
+  end if;
+end;
+$$;
+
+create table if not exists public.push_subscriptions (
+  id               uuid primary key default gen_random_uuid(),
+  user_id          uuid not null default auth.uid() references auth.users(id) on delete cascade,
+  family_id        uuid not null references public.families(id) on delete cascade,
+  endpoint         text not null unique,
+  p256dh           text not null,
+  auth             text not null,
+  user_agent       text,
+  notify_guestbook boolean not null default true,
+  notify_expiring  boolean not null default true,
+  failure_count    integer not null default 0,
+  last_error       text,
+  created_at       timestamptz not null default now(),
+  updated_at       timestamptz not null default now()
+);
+create index if not exists idx_push_subscriptions_family
+  on public.push_subscriptions(family_id);
+
+alter table public.push_subscriptions enable row level security;
+
+-- Each user manages only their own devices, and only for their own family.
+drop policy if exists push_subscriptions_owner on public.push_subscriptions;
+create policy push_subscriptions_owner on public.push_subscriptions
+  for all to authenticated
+  using (user_id = auth.uid())
+  with check (
+    user_id = auth.uid()
+    and exists (
+      select 1 from public.profiles p
+      where p.family_id = push_subscriptions.family_id and p.user_id = auth.uid()
+    )
+  );
+
+grant select, insert, update, delete on public.push_subscriptions to authenticated;
+grant all                             on public.push_subscriptions to service_role;
+
+create table if not exists public.push_outbox (
+  id          uuid primary key default gen_random_uuid(),
+  family_id   uuid not null references public.families(id) on delete cascade,
+  kind        text not null check (kind in ('guestbook', 'expiring')),
+  dedupe_key  text not null unique,
+  -- guestbook: { "display_name": ..., "content": ... }
+  -- expiring : { "artwork_id": ..., "title": ..., "kid_name": ..., "public_until": ... }
+  payload     jsonb not null default '{}'::jsonb,
+  created_at  timestamptz not null default now(),
+  sent_at     timestamptz
+);
+create index if not exists idx_push_outbox_unsent
+  on public.push_outbox(created_at)
+  where sent_at is null;
+
+-- Server-only: no policies for authenticated, so only service_role sees it.
+alter table public.push_outbox enable row level security;
+
+grant all on public.push_outbox to service_role;
+
+-- New guestbook message -> queue a notification for the family.
+-- A push problem must never reject the visitor's message, so errors are
+-- swallowed (with a warning) instead of aborting the insert.
+create or replace function public.enqueue_guestbook_push()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.family_id is null then
+    return new;
+  end if;
+
+  begin
+    insert into public.push_outbox (family_id, kind, dedupe_key, payload)
+    values (
+      new.family_id,
+      'guestbook',
+      'guestbook:' || new.id,
+      jsonb_build_object('display_name', new.display_name, 'content', left(new.content, 200))
+    )
+    on conflict (dedupe_key) do nothing;
+  exception when others then
+    raise warning 'enqueue_guestbook_push: %', sqlerrm;
+  end;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_guestbook_push on public.guestbook_entries;
+create trigger trg_guestbook_push
+  after insert on public.guestbook_entries
+  for each row execute function public.enqueue_guestbook_push();
+
+-- Public artworks whose exhibit ends within 2 days. Keyed by public_until so
+-- extending the window and letting it run out again notifies once more.
+create or replace function public.enqueue_expiring_exhibit_notifications()
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_count integer;
+begin
+  insert into public.push_outbox (family_id, kind, dedupe_key, payload)
+  select
+    a.family_id,
+    'expiring',
+    'expiring:' || a.id || ':' || a.public_until,
+    jsonb_build_object(
+      'artwork_id', a.id,
+      'title', a.title,
+      'kid_name', a.kid_name,
+      'public_until', a.public_until
+    )
+  from public.artworks a
+  where a.is_public
+    and a.public_until is not null
+    and a.public_until > now()
+    and a.public_until <= now() + interval '2 days'
+  on conflict (dedupe_key) do nothing;
+
+  get diagnostics v_count = row_count;
+  return v_count;
+end;
+$$;
+
+revoke all on function public.enqueue_expiring_exhibit_notifications() from public, anon, authenticated;
+grant execute on function public.enqueue_expiring_exhibit_notifications() to service_role;
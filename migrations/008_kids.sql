@@ -0,0 +1,266 @@
+-- =============================================================
+-- Migration 008: Kids as records
+-- =============================================================
+-- kids : one row per child in a family (name, nickname, birthdate,
+--        avatar, color). Edited on /manage/kids.
+-- artworks.kid_id points at the kid. artworks.kid_name stays as a copy of
+-- kids.name so the share RPCs (get_artworks_by_token,
+-- get_group_gallery_artworks), push payloads and older clients that only
+-- send a name keep working:
+--   - insert/update with kid_id      -> kid_name is set from kids.name
+--   - insert/update with kid_name only -> the kid is looked up by name or
+--     alias (case/space-insensitive) and created if missing
+--   - renaming a kid rewrites kid_name on its artworks
+-- merge_kids() folds one kid into another (artworks move, the old name
+-- becomes an alias). A kid with artworks cannot be deleted; merge instead.
+-- Avatars are stored next to artworks (avatar_provider / avatar_key) and
+-- counted as referenced by /api/storage/gc.
+-- Backfill: every distinct kid_name per family becomes a kid.
+-- Idempotent (safe to re-run).
+
+create or replace function public.normalize_kid_name(p_name text)
+returns text
+language sql
+immutable
+as $$
+  select lower(regexp_replace(btrim(coalesce(p_name, '')), '\s+', ' ', 'g'));
+$$;
+
+create table if not exists public.kids (
+  id              uuid primary key default gen_random_uuid(),
+  family_id       uuid not null references public.families(id) on delete cascade,
+  name            text not null check (btrim(name) <> ''),
+  nickname        text,
+  birthdate       date,
+  avatar_provider text check (avatar_provider in ('supabase', 'r2')),
+  avatar_key      text,
+  color           text check (color ~ '^#[0-9a-fA-F]{6}$'),
+  -- Former names (merged kids, renames) that still resolve to this kid.
+  aliases         text[] not null default '{}',
+  created_at      timestamptz not null default now(),
+  updated_at      timestamptz not null default now()
+);
+create unique index if not exists uq_kids_family_name
+  on public.kids(family_id, public.normalize_kid_name(name));
+
+alter table public.kids enable row level security;
+
+drop policy if exists kids_family on public.kids;
+create policy kids_family on public.kids
+  for all to authenticated
+  using (
+    exists (
+      select 1 from public.profiles p
+      where p.family_id = kids.family_id and p.user_id = auth.uid()
+    )
+  )
+  with check (
+    exists (
+      select 1 from public.profiles p
+      where p.family_id = kids.family_id and p.user_id = auth.uid()
+    )
+  );
+
+grant select, insert, update, delete on public.kids to authenticated;
+grant all                             on public.kids to service_role;
+
+alter table public.artworks
+  add column if not exists kid_id uuid references public.kids(id) on delete restrict;
+create index if not exists idx_artworks_kid on public.artworks(kid_id);
+
+-- Finds the family's kid for a free-text name (name or alias), creating it
+-- when there is none.
+create or replace function public.resolve_kid_id(p_family_id uuid, p_name text)
+returns uuid
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_norm text := public.normalize_kid_name(p_name);
+  v_id   uuid;
+begin
+  if p_family_id is null or v_norm = '' then
+    return null;
+  end if;
+
+  select k.id into v_id
+  from public.kids k
+  where k.family_id = p_family_id
+    and (
+      public.normalize_kid_name(k.name) = v_norm
+      or exists (select 1 from unnest(k.aliases) a where public.normalize_kid_name(a) = v_norm)
+    )
+  order by (public.normalize_kid_name(k.name) = v_norm) desc, k.created_at
+  limit 1;
+
+  if v_id is null then
+    insert into public.kids (family_id, name)
+    values (p_family_id, regexp_replace(btrim(p_name), '\s+', ' ', 'g'))
+    on conflict (family_id, public.normalize_kid_name(name)) do nothing
+    returning id into v_id;
+
+    -- Lost a race with another insert of the same name.
+    if v_id is null then
+      select k.id into v_id
+      from public.kids k
+      where k.family_id = p_family_id and public.normalize_kid_name(k.name) = v_norm;
+    end if;
+  end if;
+
+  return v_id;
+end;
+$$;
+
+revoke all on function public.resolve_kid_id(uuid, text) from public, anon, authenticated;
+
+create or replace function public.sync_artwork_kid()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_name text;
+begin
+  if new.kid_id is not null
+     and (tg_op = 'INSERT' or new.kid_id is distinct from old.kid_id or new.kid_name is not distinct from old.kid_name) then
+    select k.name into v_name
+    from public.kids k
+    where k.id = new.kid_id and k.family_id = new.family_id;
+    if v_name is null then
+      raise exception 'kid % does not belong to this family', new.kid_id using errcode = '23503';
+    end if;
+    new.kid_name := v_name;
+    return new;
+  end if;
+
+  -- Name given (or changed) without a kid_id: resolve it.
+  if tg_op = 'INSERT' or new.kid_name is distinct from old.kid_name then
+    new.kid_id := public.resolve_kid_id(new.family_id, new.kid_name);
+    if new.kid_id is not null then
+      select k.name into new.kid_name from public.kids k where k.id = new.kid_id;
+    end if;
+  end if;
+
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_artworks_sync_kid on public.artworks;
+create trigger trg_artworks_sync_kid
+  before insert or update of kid_id, kid_name, family_id on public.artworks
+  for each row execute function public.sync_artwork_kid();
+
+-- Renaming a kid keeps the old name as an alias and updates its artworks.
+create or replace function public.propagate_kid_rename()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.name is distinct from old.name then
+    if public.normalize_kid_name(new.name) <> public.normalize_kid_name(old.name)
+       and not (old.name = any(new.aliases)) then
+      new.aliases := array_append(new.aliases, old.name);
+    end if;
+    new.updated_at := now();
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_kids_rename on public.kids;
+create trigger trg_kids_rename
+  before update of name on public.kids
+  for each row execute function public.propagate_kid_rename();
+
+create or replace function public.sync_kid_name_to_artworks()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.name is distinct from old.name then
+    update public.artworks
+    set kid_name = new.name
+    where kid_id = new.id and kid_name is distinct from new.name;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_kids_sync_artworks on public.kids;
+create trigger trg_kids_sync_artworks
+  after update of name on public.kids
+  for each row execute function public.sync_kid_name_to_artworks();
+
+-- Moves every artwork of p_source to p_target, keeps p_source's names as
+-- aliases of p_target and deletes p_source. Both must be in the caller's family.
+create or replace function public.merge_kids(p_source uuid, p_target uuid)
+returns integer
+language plpgsql
+security definer
+set search_path = public
+as $$
+declare
+  v_family uuid;
+  v_source public.kids;
+  v_target public.kids;
+  v_moved  integer;
+begin
+  select p.family_id into v_family from public.profiles p where p.user_id = auth.uid();
+  if v_family is null then
+    raise exception 'no family' using errcode = '42501';
+  end if;
+
+  select * into v_source from public.kids where id = p_source and family_id = v_family;
+  select * into v_target from public.kids where id = p_target and family_id = v_family;
+  if v_source.id is null or v_target.id is null or v_source.id = v_target.id then
+    raise exception 'invalid kids to merge' using errcode = '22023';
+  end if;
+
+  update public.artworks set kid_id = v_target.id where kid_id = v_source.id;
+  get diagnostics v_moved = row_count;
+
+  update public.kids
+  set aliases = (
+        select coalesce(array_agg(distinct a), '{}')
+        from unnest(v_target.aliases || v_source.aliases || array[v_source.name]) a
+        where public.normalize_kid_name(a) <> public.normalize_kid_name(v_target.name)
+      ),
+      nickname  = coalesce(v_target.nickname, v_source.nickname),
+      birthdate = coalesce(v_target.birthdate, v_source.birthdate),
+      color     = coalesce(v_target.color, v_source.color),
+      updated_at = now()
+  where id = v_target.id;
+
+  delete from public.kids where id = v_source.id;
+  return v_moved;
+end;
+$$;
+
+revoke all on function public.merge_kids(uuid, uuid) from public, anon;
+grant execute on function public.merge_kids(uuid, uuid) to authenticated;
+
+-- Backfill: one kid per distinct (normalized) kid_name per family, using the
+-- spelling of the earliest artwork; then link the artworks.
+insert into public.kids (family_id, name, created_at)
+select distinct on (a.family_id, public.normalize_kid_name(a.kid_name))
+  a.family_id,
+  regexp_replace(btrim(a.kid_name), '\s+', ' ', 'g'),
+  a.created_at
+from public.artworks a
+where a.family_id is not null
+  and public.normalize_kid_name(a.kid_name) <> ''
+order by a.family_id, public.normalize_kid_name(a.kid_name), a.created_at
+on conflict (family_id, public.normalize_kid_name(name)) do nothing;
+
+update public.artworks a
+set kid_id = k.id
+from public.kids k
+where a.kid_id is null
+  and k.family_id = a.family_id
+  and public.normalize_kid_name(k.name) = public.normalize_kid_name(a.kid_name);
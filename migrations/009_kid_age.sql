@@ -0,0 +1,84 @@
+-- =============================================================
+-- Migration 009: Age at creation
+-- =============================================================
+-- artworks.kid_age_months : the kid's age in whole months on the day the
+--                           artwork was made (artwork_made_at, Korean date),
+--                           shown as "만 4세 3개월". NULL when the kid has no
+--                           birthdate, there is no made-at, or it is before
+--                           the birthdate.
+-- Stored on the row (instead of computed in the browser) so the group
+-- gallery and invite RPCs (001, 012) can show the age without exposing
+-- kids.birthdate to viewers outside the family.
+-- Kept up to date by
+--   - a trigger on artworks (kid_id / artwork_made_at changes, new rows)
+--   - a trigger on kids (birthdate changes)
+-- Requires migration 008 (kids). Idempotent (safe to re-run).
+
+alter table public.artworks
+  add column if not exists kid_age_months integer;
+
+create or replace function public.kid_age_months(p_birthdate date, p_made_at timestamptz)
+returns integer
+language sql
+stable
+as $$
+  select case
+    when p_birthdate is null or p_made_at is null then null
+    when (p_made_at at time zone 'Asia/Seoul')::date < p_birthdate then null
+    else (
+      extract(year from age((p_made_at at time zone 'Asia/Seoul')::date, p_birthdate)) * 12
+      + extract(month from age((p_made_at at time zone 'Asia/Seoul')::date, p_birthdate))
+    )::integer
+  end;
+$$;
+
+-- Runs after trg_artworks_sync_kid (triggers fire in name order), so kid_id
+-- is already resolved from kid_name.
+create or replace function public.set_artwork_kid_age()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  new.kid_age_months := (
+    select public.kid_age_months(k.birthdate, new.artwork_made_at)
+    from public.kids k
+    where k.id = new.kid_id
+  );
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_artworks_sync_kid_age on public.artworks;
+create trigger trg_artworks_sync_kid_age
+  before insert or update of kid_id, kid_name, family_id, artwork_made_at on public.artworks
+  for each row execute function public.set_artwork_kid_age();
+
+create or replace function public.sync_kid_age_to_artworks()
+returns trigger
+language plpgsql
+security definer
+set search_path = public
+as $$
+begin
+  if new.birthdate is distinct from old.birthdate then
+    update public.artworks
+    set kid_age_months = public.kid_age_months(new.birthdate, artwork_made_at)
+    where kid_id = new.id;
+  end if;
+  return new;
+end;
+$$;
+
+drop trigger if exists trg_kids_sync_age on public.kids;
+create trigger trg_kids_sync_age
+  after update of birthdate on public.kids
+  for each row execute function public.sync_kid_age_to_artworks();
+
+-- Backfill for kids that already have a birthdate.
+update public.artworks a
+set kid_age_months = public.kid_age_months(k.birthdate, a.artwork_made_at)
+from public.kids k
+where k.id = a.kid_id
+  and a.kid_age_months is distinct from public.kid_age_months(k.birthdate, a.artwork_made_at);
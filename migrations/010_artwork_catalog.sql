@@ -0,0 +1,44 @@
+-- =============================================================
+-- Migration 010: Artwork catalog (medium, tags, physical size)
+-- =============================================================
+-- artworks.medium     : what it is made with (crayon, watercolor, clay, ...).
+--                       One of the codes below; labels live in
+--                       lib/artworkCatalog.ts. NULL = not recorded.
+-- artworks.tags       : free-form tags, trimmed, without '#', unique per
+--                       artwork (case-insensitive), at most 20.
+-- artworks.width_cm   : physical size of the original piece in cm.
+-- artworks.height_cm    depth_cm is for 3D work (clay, models) only.
+-- artworks.depth_cm
+-- get_group_gallery_artworks (001) returns artworks rows and
+-- get_artworks_by_token (012) lists these columns, so viewers outside the
+-- family see the same fields.
+-- Idempotent (safe to re-run).
+
+alter table public.artworks
+  add column if not exists medium text,
+  add column if not exists tags text[] not null default '{}',
+  add column if not exists width_cm numeric(6,1),
+  add column if not exists height_cm numeric(6,1),
+  add column if not exists depth_cm numeric(6,1);
+
+alter table public.artworks drop constraint if exists artworks_medium_check;
+alter table public.artworks add constraint artworks_medium_check
+  check (medium is null or medium in (
+    'crayon', 'colored_pencil', 'pencil', 'marker', 'watercolor', 'paint',
+    'clay', 'collage', 'paper_craft', 'digital', 'mixed', 'other'
+  ));
+
+alter table public.artworks drop constraint if exists artworks_tags_check;
+alter table public.artworks add constraint artworks_tags_check
+  check (cardinality(tags) <= 20 and array_position(tags, '') is null);
+
+alter table public.artworks drop constraint if exists artworks_size_check;
+alter table public.artworks add constraint artworks_size_check
+  check (
+    (width_cm is null or width_cm > 0)
+    and (height_cm is null or height_cm > 0)
+    and (depth_cm is null or depth_cm > 0)
+  );
+
+create index if not exists idx_artworks_medium on public.artworks (family_id, medium) where medium is not null;
+create index if not exists idx_artworks_tags on public.artworks using gin (tags);
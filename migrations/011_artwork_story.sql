@@ -0,0 +1,19 @@
+-- =============================================================
+-- Migration 011: Artwork story
+-- =============================================================
+-- artworks.story : what the kid said about the artwork, or a short
+--                  description ("작품 설명 / 아이의 한마디"). Multi-line,
+--                  trimmed, NULL when empty, at most 2000 characters
+--                  (same limit as lib/artworkCatalog.ts).
+-- Shown as a placard under the image in the manage, gallery and invite
+-- lightboxes; get_group_gallery_artworks (001) returns artworks rows and
+-- get_artworks_by_token (012) lists the column, so it reaches viewers
+-- outside the family.
+-- Idempotent (safe to re-run).
+
+alter table public.artworks
+  add column if not exists story text;
+
+alter table public.artworks drop constraint if exists artworks_story_check;
+alter table public.artworks add constraint artworks_story_check
+  check (story is null or (char_length(story) between 1 and 2000));
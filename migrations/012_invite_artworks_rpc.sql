@@ -0,0 +1,73 @@
+-- =============================================================
+-- Migration 012: Invite gallery RPC
+-- =============================================================
+-- get_artworks_by_token(p_token) : the artworks an invite link shows on
+--                                  app/invite/[token]/page.tsx.
+-- The function predates the migrations folder and was never versioned. This
+-- definition keeps what the invite page has always relied on:
+--   - the token is a /manage share link or a live family_invites row
+--     (invite_family_id, migration 007); anything else returns no rows
+--   - only exhibited artworks: is_public, and public_until not yet passed
+--     (the same rule as get_group_gallery_artworks, migration 001)
+--   - an explicit column list: the columns the page read before, plus
+--     storage_provider / storage_key / renditions (001, 003), kid_age_months
+--     (009), medium / tags / width_cm / height_cm / depth_cm (010) and
+--     story (011). Nothing else (family_id, hashes, kid_id) leaves the family.
+-- Before applying on a project that already has the function, compare with
+--   select pg_get_functiondef('public.get_artworks_by_token(text)'::regprocedure);
+-- and carry over any extra filtering it does.
+-- Requires migrations 007 and 009-011. Idempotent (safe to re-run).
+
+-- Dropped first: create or replace cannot change an existing return type.
+drop function if exists public.get_artworks_by_token(text);
+
+create function public.get_artworks_by_token(p_token text)
+returns table (
+  id                 uuid,
+  kid_name           text,
+  title              text,
+  private_image_path text,
+  created_at         timestamptz,
+  artwork_made_at    timestamptz,
+  storage_provider   text,
+  storage_key        text,
+  renditions         jsonb,
+  kid_age_months     integer,
+  medium             text,
+  tags               text[],
+  width_cm           numeric,
+  height_cm          numeric,
+  depth_cm           numeric,
+  story              text
+)
+language sql
+stable
+security definer
+set search_path = public
+as $$
+  -- The first six columns predate the migrations; cast in case their types differ.
+  select
+    a.id::uuid,
+    a.kid_name::text,
+    a.title::text,
+    a.private_image_path::text,
+    a.created_at::timestamptz,
+    a.artwork_made_at::timestamptz,
+    a.storage_provider,
+    a.storage_key,
+    a.renditions,
+    a.kid_age_months,
+    a.medium,
+    a.tags,
+    a.width_cm,
+    a.height_cm,
+    a.depth_cm,
+    a.story
+  from public.artworks a
+  where a.family_id = public.invite_family_id(p_token)
+    and a.is_public = true
+    and (a.public_until is null or a.public_until > now())
+  order by a.created_at desc;
+$$;
+
+grant execute on function public.get_artworks_by_token(text) to anon, authenticated;
@@ -0,0 +1,41 @@
+-- =============================================================
+-- Migration 013: One artwork row per stored file
+-- =============================================================
+-- (storage_provider, storage_key) becomes unique. POST /api/artworks is
+-- retried by the upload page when a response is lost; without this a retry
+-- could insert a second row for the same file, and deleting either row
+-- (DELETE /api/artworks/[id]) would remove the file the other still shows.
+-- The route answers a 23505 on this index with the existing row's id.
+-- Rows without a storage_key (older uploads that only have
+-- private_image_path) are not covered.
+-- If duplicates already exist the migration stops and lists them. Delete
+-- the extra rows in SQL (not through the app, which would delete the file):
+--   select storage_provider, storage_key, array_agg(id order by created_at)
+--   from public.artworks where storage_key is not null
+--   group by 1, 2 having count(*) > 1;
+-- Idempotent (safe to re-run).
+
+do $$
+declare
+  v_dupes text;
+begin
+  select string_agg(storage_provider || ':' || storage_key, ', ')
+  into v_dupes
+  from (
+    select storage_provider, storage_key
+    from public.artworks
+    where storage_key is not null
+    group by storage_provider, storage_key
+    having count(*) > 1
+    limit 20
+  ) d;
+
+  if v_dupes is not null then
+    raise exception 'artworks rows share a stored file: %', v_dupes;
+  end if;
+end;
+$$;
+
+create unique index if not exists idx_artworks_storage_key
+  on public.artworks (storage_provider, storage_key)
+  where storage_key is not null;
@@ -1,7 +1,11 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  env: {
+    // Changes with every deployment even when NEXT_PUBLIC_APP_VERSION does not.
+    // Compared against /api/version to tell open tabs a new build is live.
+    NEXT_PUBLIC_BUILD_ID: process.env.VERCEL_GIT_COMMIT_SHA ?? process.env.NEXT_PUBLIC_BUILD_ID ?? "",
+  },
 };
 
 export default nextConfig;
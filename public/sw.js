@@ -0,0 +1,419 @@
+/* 아이빛갤러리 서비스 워커
+ *
+ * 1) 앱 셸 캐시: 업로드·대기열·가족 전시관·초대 화면을 오프라인에서도 열 수 있게 한다.
+ *    - /_next/static/* 는 이름에 해시가 있어서 한 번 받으면 캐시 우선.
+ *    - 페이지 이동은 네트워크 우선, 실패하면 캐시.
+ *    - 작품 목록 자체는 페이지가 IndexedDB에 남긴다 (lib/offlineGallery.ts).
+ *      여기서는 목록 썸네일(__320.*)만 개수 제한을 두고 캐시한다.
+ * 2) 오프라인 업로드 대기열 (lib/offlineQueue.ts) 의 Background Sync.
+ *    - 열린 창이 있으면 그 창에 올리라고 알린다 (이어 올리기·토큰 갱신은 페이지 쪽이 잘한다).
+ *    - 열린 창이 없으면 페이지가 남겨 둔 로그인 토큰으로 직접 올린다.
+ * 3) Web Share Target (manifest.json의 share_target): 공유받은 사진을 캐시에 넣고 업로드 화면으로 보낸다.
+ *    꺼내는 쪽은 lib/shareTarget.ts.
+ * 4) 웹 푸시 알림 (보내는 쪽: lib/pushServer.ts). 누르면 해당 화면을 연다.
+ *
+ * IndexedDB 이름·store 이름, 잠금/채널/태그 이름은 lib/idb.ts, lib/offlineQueue.ts와 같아야 한다.
+ */
+
+const SHELL_CACHE = "shell-v1";
+const STATIC_CACHE = "static-v1";
+// 공유받은 파일 (lib/shareTarget.ts의 SHARE_TARGET_CACHE와 같아야 한다)
+const SHARE_CACHE = "share-target-v1";
+// 열어 본 초대 페이지 (/invite/<token>)
+const PAGES_CACHE = "pages-v1";
+// 목록 썸네일 rendition (lib/renditions.ts의 thumb = 320)
+const THUMB_CACHE = "thumbs-v1";
+const KNOWN_CACHES = [SHELL_CACHE, STATIC_CACHE, SHARE_CACHE, PAGES_CACHE, THUMB_CACHE];
+
+// 캐시 크기 제한 (항목 수). 넘으면 먼저 넣은 것부터 지운다.
+const MAX_STATIC_ENTRIES = 300;
+const MAX_INVITE_PAGES = 10;
+const MAX_THUMBS = 400;
+
+const SHELL_PAGES = ["/upload", "/upload/queue", "/manage"];
+const THUMB_PATTERN = /__320\.(avif|webp|jpg)$/;
+const SHELL_FILES = ["/manifest.json", "/icon-192.png", "/icon-512.png", "/apple-touch-icon.png"];
+
+const DB_NAME = "family-gallery";
+const UPLOAD_QUEUE_STORE = "uploadQueue";
+const SW_SESSION_STORE = "swSession";
+const UPLOAD_QUEUE_LOCK = "upload-queue";
+const UPLOAD_QUEUE_SYNC_TAG = "upload-queue";
+const UPLOAD_QUEUE_CHANNEL = "upload-queue";
+const ARTWORK_BUCKET = "artworks";
+
+/* ---------------- 설치 / 정리 ---------------- */
+
+/** 셸 페이지와, 그 페이지가 쓰는 /_next/static 파일까지 미리 받아 둔다. */
+async function precacheShell() {
+  const shell = await caches.open(SHELL_CACHE);
+  const assets = new Set();
+
+  for (const path of SHELL_PAGES) {
+    try {
+      const res = await fetch(path, { credentials: "same-origin" });
+      if (!res.ok) continue;
+      const html = await res.clone().text();
+      await shell.put(path, res);
+      for (const m of html.matchAll(/\/_next\/static\/[^"'\s)]+/g)) assets.add(m[0]);
+    } catch {
+      // 설치 중에 연결이 끊겨도 다음 방문 때 채운다.
+    }
+  }
+
+  await shell.addAll(SHELL_FILES).catch(() => {});
+  const statics = await caches.open(STATIC_CACHE);
+  await Promise.all([...assets].map((url) => statics.add(url).catch(() => {})));
+}
+
+// 새 버전은 설치만 해 두고 기다린다. 페이지가 새로고침 안내(app/components/UpdatePrompt.tsx)에서
+// 사용자가 누르면 "skip-waiting"을 보내고, 그때 켜진 뒤 새로고침된다. (처음 설치는 바로 켜진다.)
+self.addEventListener("install", (event) => {
+  event.waitUntil(precacheShell());
+});
+
+self.addEventListener("message", (event) => {
+  if (event.data && event.data.type === "skip-waiting") self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    (async () => {
+      for (const name of await caches.keys()) {
+        if (!KNOWN_CACHES.includes(name)) await caches.delete(name);
+      }
+      await self.clients.claim();
+    })()
+  );
+});
+
+/* ---------------- fetch ---------------- */
+
+/** 캐시 항목이 max개를 넘으면 먼저 넣은 것부터 지운다 (cache.keys()는 넣은 순서). */
+async function trimCache(cacheName, max) {
+  const cache = await caches.open(cacheName);
+  const keys = await cache.keys();
+  for (const key of keys.slice(0, Math.max(0, keys.length - max))) await cache.delete(key);
+}
+
+async function putLimited(cacheName, key, res, max) {
+  const cache = await caches.open(cacheName);
+  await cache.put(key, res);
+  await trimCache(cacheName, max);
+}
+
+async function cacheFirst(request) {
+  const cached = await caches.match(request);
+  if (cached) return cached;
+  const res = await fetch(request);
+  if (res.ok) await putLimited(STATIC_CACHE, request, res.clone(), MAX_STATIC_ENTRIES);
+  return res;
+}
+
+function pageCacheFor(pathname) {
+  if (SHELL_PAGES.includes(pathname)) return { name: SHELL_CACHE, max: Infinity };
+  if (/^\/invite\/[^/]+$/.test(pathname)) return { name: PAGES_CACHE, max: MAX_INVITE_PAGES };
+  return null;
+}
+
+async function networkFirstPage(request) {
+  const url = new URL(request.url);
+  const target = pageCacheFor(url.pathname);
+  try {
+    const res = await fetch(request);
+    if (res.ok && target) await putLimited(target.name, url.pathname, res.clone(), target.max);
+    return res;
+  } catch (e) {
+    const cached = await caches.match(url.pathname);
+    if (cached) return cached;
+    throw e;
+  }
+}
+
+/**
+ * 썸네일은 다른 도메인(Supabase Storage / R2)에 있다. <img>의 no-cors 응답(opaque)은
+ * 브라우저가 용량을 크게 잡기 때문에 CORS로 다시 받아서 넣는다. CORS가 안 되면 캐시 없이 그대로.
+ */
+async function cacheThumb(request) {
+  const key = request.url;
+  const cached = await caches.match(key, { cacheName: THUMB_CACHE });
+  if (cached) return cached;
+
+  try {
+    const res = await fetch(key, { mode: "cors", credentials: "omit" });
+    if (res.ok) await putLimited(THUMB_CACHE, key, res.clone(), MAX_THUMBS);
+    return res;
+  } catch {
+    return fetch(request);
+  }
+}
+
+/** 공유받은 파일을 순서 번호를 키로 캐시에 넣는다. 이전에 공유하고 안 꺼낸 파일은 버린다. */
+async function receiveShare(request) {
+  const form = await request.formData();
+  const files = form.getAll("photos").filter((f) => f instanceof File && f.size > 0);
+
+  await caches.delete(SHARE_CACHE);
+  const cache = await caches.open(SHARE_CACHE);
+  await Promise.all(
+    files.map((file, i) =>
+      cache.put(
+        `/share-target/files/${i}`,
+        new Response(file, {
+          headers: {
+            "Content-Type": file.type || "application/octet-stream",
+            "X-File-Name": encodeURIComponent(file.name),
+            "X-Last-Modified": String(file.lastModified || Date.now()),
+          },
+        })
+      )
+    )
+  );
+
+  return Response.redirect(files.length > 0 ? "/upload?share=1" : "/upload", 303);
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  const url = new URL(request.url);
+  if (request.method === "GET" && request.destination === "image" && THUMB_PATTERN.test(url.pathname)) {
+    event.respondWith(cacheThumb(request));
+    return;
+  }
+  if (url.origin !== self.location.origin) return;
+  if (request.method === "POST" && url.pathname === "/share-target") {
+    event.respondWith(receiveShare(request));
+    return;
+  }
+  if (request.method !== "GET") return;
+  // Next의 RSC 요청(클라이언트 이동)은 HTML이 아니다. 실패하면 Next가 일반 이동으로 다시 요청한다.
+  if (request.headers.get("RSC")) return;
+
+  if (url.pathname.startsWith("/_next/static/")) {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+  if (request.mode === "navigate") {
+    event.respondWith(networkFirstPage(request));
+    return;
+  }
+  if (SHELL_FILES.includes(url.pathname)) {
+    event.respondWith(caches.match(url.pathname).then((cached) => cached || fetch(request)));
+  }
+});
+
+/* ---------------- IndexedDB ---------------- */
+
+function openDb() {
+  return new Promise((resolve, reject) => {
+    // 버전 없이 연다: store 만들기는 페이지(lib/idb.ts)가 맡는다.
+    const req = indexedDB.open(DB_NAME);
+    req.onsuccess = () => {
+      const db = req.result;
+      // 페이지가 새 버전으로 올리려고 하면 비켜 준다.
+      db.onversionchange = () => db.close();
+      resolve(db);
+    };
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function tx(db, store, mode, op) {
+  return new Promise((resolve, reject) => {
+    const t = db.transaction(store, mode);
+    const req = op(t.objectStore(store));
+    t.oncomplete = () => resolve(req.result);
+    t.onerror = () => reject(t.error);
+    t.onabort = () => reject(t.error);
+  });
+}
+
+function notifyChanged() {
+  const ch = new BroadcastChannel(UPLOAD_QUEUE_CHANNEL);
+  ch.postMessage("changed");
+  ch.close();
+}
+
+/* ---------------- 대기열 올리기 (열린 창이 없을 때) ---------------- */
+
+class HttpError extends Error {
+  constructor(status, message) {
+    super(message);
+    this.status = status;
+  }
+}
+
+async function api(session, path, body) {
+  const res = await fetch(path, {
+    method: "POST",
+    headers: { Authorization: `Bearer ${session.accessToken}`, "Content-Type": "application/json" },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const json = await res.json().catch(() => null);
+  if (!res.ok || !json || !json.ok) throw new HttpError(res.status, (json && json.error) || `${path} ${res.status}`);
+  return json;
+}
+
+async function uploadObject(session, item) {
+  const type = item.file.type || "image/jpeg";
+
+  if (session.provider === "r2") {
+    const presigned = await api(session, "/api/storage/presign", { filename: item.fileName, contentType: type });
+    const put = await fetch(presigned.uploadUrl, { method: "PUT", headers: { "Content-Type": type }, body: item.file });
+    if (!put.ok) throw new HttpError(put.status, `R2 ${put.status}`);
+    return { provider: "r2", key: presigned.key };
+  }
+
+  const ext = item.fileName.split(".").pop() || "jpg";
+  // 서버는 자기 가족 폴더(<family_id>/...)의 키만 받는다 (lib/storage.ts familyObjectKey).
+  const key = `${session.familyId}/${Date.now()}-sw-${Math.random().toString(16).slice(2)}.${ext}`;
+  const path = key.split("/").map(encodeURIComponent).join("/");
+  const res = await fetch(`${session.supabaseUrl}/storage/v1/object/${ARTWORK_BUCKET}/${path}`, {
+    method: "POST",
+    headers: {
+      Authorization: `Bearer ${session.accessToken}`,
+      apikey: session.anonKey,
+      "Content-Type": type,
+      "cache-control": "max-age=3600",
+      "x-upsert": "false",
+    },
+    body: item.file,
+  });
+  if (!res.ok) throw new HttpError(res.status, `storage ${res.status}`);
+  return { provider: "supabase", key };
+}
+
+async function uploadOne(session, item) {
+  const stored = await uploadObject(session, item);
+  // 재료·태그·크기 (QueuedUpload.catalog, 예전 항목에는 없다)
+  const catalog = item.catalog || {};
+  const created = await api(session, "/api/artworks", {
+    provider: stored.provider,
+    key: stored.key,
+    kidName: item.kidName.trim(),
+    title: item.title.trim(),
+    artworkMadeAt: item.artworkMadeAt,
+    contentHash: item.contentHash || undefined,
+    medium: catalog.medium || undefined,
+    tags: catalog.tags,
+    widthCm: catalog.width_cm || undefined,
+    heightCm: catalog.height_cm || undefined,
+    depthCm: catalog.depth_cm || undefined,
+    story: item.story || undefined,
+  });
+  // 썸네일은 실패해도 원본으로 보인다.
+  await api(session, `/api/artworks/${encodeURIComponent(created.id)}/renditions`).catch(() => {});
+}
+
+async function uploadQueueFromWorker() {
+  const db = await openDb();
+  try {
+    if (!db.objectStoreNames.contains(UPLOAD_QUEUE_STORE) || !db.objectStoreNames.contains(SW_SESSION_STORE)) return;
+
+    const session = await tx(db, SW_SESSION_STORE, "readonly", (s) => s.get("current"));
+    // 토큰 갱신은 페이지만 할 수 있다. 곧 만료되면 다음에 열린 페이지에 맡긴다.
+    if (!session || session.expiresAt * 1000 < Date.now() + 60 * 1000) return;
+    // 가족 폴더를 모르는 예전 기록이면 Supabase 키를 만들 수 없다 → 페이지에 맡긴다.
+    if (session.provider !== "r2" && !session.familyId) return;
+
+    const items = (await tx(db, UPLOAD_QUEUE_STORE, "readonly", (s) => s.getAll())).sort((a, b) => a.createdAt - b.createdAt);
+    let networkFailure = false;
+
+    for (const listed of items) {
+      const item = await tx(db, UPLOAD_QUEUE_STORE, "readonly", (s) => s.get(listed.id));
+      if (!item || item.status === "failed") continue;
+
+      await tx(db, UPLOAD_QUEUE_STORE, "readwrite", (s) => s.put({ ...item, status: "uploading", error: null, attempts: item.attempts + 1 }));
+      notifyChanged();
+
+      try {
+        await uploadOne(session, item);
+        await tx(db, UPLOAD_QUEUE_STORE, "readwrite", (s) => s.delete(item.id));
+      } catch (e) {
+        // HTTP 응답이 없었다 = 연결 문제 → pending으로 두고 나중에 다시
+        const offline = !(e instanceof HttpError);
+        if (offline) networkFailure = true;
+        await tx(db, UPLOAD_QUEUE_STORE, "readwrite", (s) =>
+          s.put({ ...item, status: offline ? "pending" : "failed", error: e.message || "업로드 실패", attempts: item.attempts + 1 })
+        );
+      }
+      notifyChanged();
+      if (networkFailure) break;
+    }
+
+    // reject하면 브라우저가 잠시 뒤 sync를 다시 보낸다.
+    if (networkFailure) throw new Error("upload queue: network failure");
+  } finally {
+    db.close();
+  }
+}
+
+async function syncUploadQueue() {
+  const windows = await self.clients.matchAll({ type: "window" });
+  if (windows.length > 0) {
+    windows.forEach((client) => client.postMessage({ type: "sync-upload-queue" }));
+    return;
+  }
+
+  if (!self.navigator.locks) return uploadQueueFromWorker();
+  await self.navigator.locks.request(UPLOAD_QUEUE_LOCK, { ifAvailable: true }, async (lock) => {
+    if (!lock) return;
+    // 잠금을 잡았는데 uploading이면 올리던 창이 닫힌 것이다.
+    const db = await openDb();
+    try {
+      if (db.objectStoreNames.contains(UPLOAD_QUEUE_STORE)) {
+        const items = await tx(db, UPLOAD_QUEUE_STORE, "readonly", (s) => s.getAll());
+        for (const item of items) {
+          if (item.status === "uploading") await tx(db, UPLOAD_QUEUE_STORE, "readwrite", (s) => s.put({ ...item, status: "pending" }));
+        }
+      }
+    } finally {
+      db.close();
+    }
+    await uploadQueueFromWorker();
+  });
+}
+
+self.addEventListener("sync", (event) => {
+  if (event.tag === UPLOAD_QUEUE_SYNC_TAG) event.waitUntil(syncUploadQueue());
+});
+
+/* ---------------- 푸시 알림 ---------------- */
+
+self.addEventListener("push", (event) => {
+  let msg = {};
+  try {
+    msg = event.data ? event.data.json() : {};
+  } catch {
+    msg = { body: event.data ? event.data.text() : "" };
+  }
+
+  event.waitUntil(
+    self.registration.showNotification(msg.title || "아이빛갤러리", {
+      body: msg.body || "",
+      tag: msg.tag || undefined,
+      renotify: !!msg.tag,
+      icon: "/icon-192.png",
+      badge: "/icon-192.png",
+      data: { url: msg.url || "/manage" },
+    })
+  );
+});
+
+self.addEventListener("notificationclick", (event) => {
+  event.notification.close();
+  const url = new URL((event.notification.data && event.notification.data.url) || "/manage", self.location.origin).href;
+
+  event.waitUntil(
+    (async () => {
+      const windows = await self.clients.matchAll({ type: "window", includeUncontrolled: true });
+      const same = windows.find((client) => client.url === url);
+      if (same) return same.focus();
+      if (windows[0]) {
+        await windows[0].navigate(url).catch(() => null);
+        return windows[0].focus();
+      }
+      return self.clients.openWindow(url);
+    })()
+  );
+});